@@ -158,8 +158,8 @@ function main() {
   console.log();
 
   if (problematicFiles.length > 0) {
-    console.log('💡 FIX: Open these files in Multigrain Sample Manager and re-edit their');
-    console.log('   descriptions (even with the same text) to fix the chunk order.');
+    console.log('💡 FIX: In Multigrain Sample Manager, right-click the card root and choose');
+    console.log('   "Card Health: WAV Structure…" to repair the chunk order in one click.');
   }
 }
 
@@ -7,6 +7,9 @@ vi.mock('electron', () => ({
   ipcMain: {
     handle: vi.fn(),
   },
+  app: {
+    getPath: vi.fn(() => '/userData'),
+  },
 }));
 
 // Mock fs with memfs
@@ -1,9 +1,10 @@
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { ipcMain } from 'electron';
+import { app, ipcMain } from 'electron';
 import ffmpeg from 'fluent-ffmpeg';
 import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import { AUDIO_SPECS } from '@shared/constants';
+import { startJournalEntry } from '../utils/operationJournal';
 
 let ffmpegPath = ffmpegInstaller.path;
 if (ffmpegPath.includes('app.asar')) {
@@ -48,8 +49,18 @@ export function registerAudioCropHandlers(): void {
             .run();
         });
 
+        const journal = startJournalEntry(
+          { cardRoot: path.dirname(dir), userDataDir: app.getPath('userData') },
+          `Crop ${path.basename(filePath)}`
+        );
+        await journal.backup([filePath]);
+
         // Atomically replace the original with the cropped file
-        await fs.rename(tempPath, filePath);
+        try {
+          await fs.rename(tempPath, filePath);
+        } finally {
+          await journal.commit();
+        }
         return { success: true };
       } catch (error) {
         try {
@@ -1,4 +1,4 @@
-import { ipcMain, dialog } from 'electron';
+import { app, ipcMain, dialog } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import { ImportRequest, ImportResult, ImportProgress, AudioAnalysis } from '@shared/types/import';
@@ -16,6 +16,8 @@ import {
   hasNumberPrefix,
   NumberingScheme,
 } from '../utils/sampleNumbering';
+import { recordImports } from '../utils/operationLog';
+import { startJournalEntry } from '../utils/operationJournal';
 
 /**
  * Get WAV filenames in a directory
@@ -166,6 +168,9 @@ export function registerAudioImportHandlers(): void {
       currentNumber = numberingScheme.nextNumber;
     }
 
+    // Source filenames, kept for the original-name rename token
+    const imported: Array<{ sourceName: string; newName: string }> = [];
+
     for (let i = 0; i < files.length; i++) {
       const filePath = files[i];
       const filename = path.basename(filePath);
@@ -294,6 +299,7 @@ export function registerAudioImportHandlers(): void {
 
         // Success!
         result.imported++;
+        imported.push({ sourceName: filename, newName: finalFilename });
         availableSlots--;
       } catch (error) {
         result.errors.push({
@@ -314,6 +320,25 @@ export function registerAudioImportHandlers(): void {
     };
     event.sender.send('import:progress', finalProgress);
 
+    // Undoing the import moves the new samples to the trash
+    if (imported.length > 0) {
+      const journal = startJournalEntry(
+        { cardRoot: path.dirname(targetPath), userDataDir: app.getPath('userData') },
+        `Import ${imported.length} sample${imported.length === 1 ? '' : 's'} into ${path.basename(targetPath)}`
+      );
+      for (const { newName } of imported) {
+        journal.created(path.join(targetPath, newName), 'sample');
+      }
+      await journal.commit();
+    }
+
+    // A log failure never fails the import
+    try {
+      await recordImports(app.getPath('userData'), targetPath, imported);
+    } catch (error) {
+      console.error('Error writing operation log:', error);
+    }
+
     result.success = result.failed === 0;
     return result;
   });
@@ -7,6 +7,9 @@ vi.mock('electron', () => ({
   ipcMain: {
     handle: vi.fn(),
   },
+  app: {
+    getPath: vi.fn(() => '/userData'),
+  },
 }));
 
 // Mock fs with memfs
@@ -14,9 +17,31 @@ vi.mock('node:fs', () => ({
   promises: vol.promises,
   default: { promises: vol.promises },
 }));
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+vi.mock('fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
 
 // Import after mocks are set up
 import { registerFileOperationsHandlers } from './fileOperations';
+import { extractSamplesFromPreset } from '../utils/presetParser';
+import { undoLastChange } from '../utils/operationJournal';
+import { createPreset as createDecodedPreset } from '../../test/helpers';
+
+/**
+ * Create a preset buffer with one fixed-size filename field per sound
+ */
+function createPreset(samplePaths: string[], fieldLength = 32): Buffer {
+  const buffer = Buffer.alloc(16384);
+  samplePaths.forEach((samplePath, index) => {
+    buffer.write(samplePath, index * fieldLength, 'ascii');
+  });
+  return buffer;
+}
 
 describe('fileOperations IPC Handlers', () => {
   let handlers: Map<string, any>;
@@ -59,6 +84,21 @@ describe('fileOperations IPC Handlers', () => {
       expect(oldFileExists).toBe(false);
     });
 
+    it('records the rename in the operation log', async () => {
+      const handler = handlers.get(channel)!;
+      await handler(null, '/test/sample.wav', 'renamed');
+
+      const log = JSON.parse(vol.readFileSync('/userData/operation-log.json', 'utf8') as string);
+      expect(log).toEqual([
+        expect.objectContaining({
+          type: 'rename',
+          folderPath: '/test',
+          oldName: 'sample.wav',
+          newName: 'renamed.wav',
+        }),
+      ]);
+    });
+
     it('adds .wav extension if missing', async () => {
       const handler = handlers.get(channel)!;
       const result = await handler(null, '/test/sample.wav', 'newname');
@@ -101,6 +141,7 @@ describe('fileOperations IPC Handlers', () => {
         'bad?name',
         'bad*name',
         'bad"name',
+        'bad/name',
       ];
 
       for (const name of invalidNames) {
@@ -170,6 +211,207 @@ describe('fileOperations IPC Handlers', () => {
     });
   });
 
+  describe('renameSample preset references', () => {
+    const channel = 'files:renameSample';
+
+    it('updates presets in the same project', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'audio',
+        '/card/Project01/Preset01.mgp': createPreset(['/PROJECT/kick.wav', '/WAVS/pad.wav']),
+        '/card/Project01/Autosave.mgp': createPreset(['/PROJECT/kick.wav']),
+        '/card/Project02/Preset01.mgp': createPreset(['/PROJECT/kick.wav']),
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/card/Project01/kick.wav', 'kick2');
+
+      expect(result.success).toBe(true);
+      expect(result.updatedPresets).toHaveLength(2);
+      expect(result.updatedPresets[0].sounds).toEqual([
+        { soundNumber: 1, oldName: 'kick.wav', newName: 'kick2.wav' },
+      ]);
+      expect(await extractSamplesFromPreset('/card/Project01/Preset01.mgp')).toEqual([
+        'kick2.wav',
+        'pad.wav',
+      ]);
+      expect(await extractSamplesFromPreset('/card/Project01/Autosave.mgp')).toEqual(['kick2.wav']);
+      // Other projects cannot see this project's samples
+      expect(await extractSamplesFromPreset('/card/Project02/Preset01.mgp')).toEqual(['kick.wav']);
+    });
+
+    it('can be undone with the presets it updated', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'audio',
+        '/card/Project01/Preset01.mgp': createPreset(['/PROJECT/kick.wav']),
+      });
+
+      await handlers.get(channel)!(null, '/card/Project01/kick.wav', 'kick2');
+      const stores = { cardRoot: '/card', userDataDir: '/userData' };
+      expect(await undoLastChange(stores)).toMatchObject({
+        label: 'Rename kick.wav to kick2.wav',
+      });
+
+      expect(vol.readFileSync('/card/Project01/kick.wav', 'utf8')).toBe('audio');
+      expect(await extractSamplesFromPreset('/card/Project01/Preset01.mgp')).toEqual(['kick.wav']);
+    });
+
+    it('updates presets in every project when renaming a Wavs sample', async () => {
+      vol.fromJSON({
+        '/card/Wavs/pad.wav': 'audio',
+        '/card/Project01/Preset01.mgp': createPreset(['/WAVS/pad.wav']),
+        '/card/Project02/Preset03.mgp': createPreset(['/PROJECT/x.wav', '/WAVS/pad.wav']),
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/card/Wavs/pad.wav', 'pad2');
+
+      expect(result.success).toBe(true);
+      expect(result.updatedPresets.map((p: any) => p.presetPath)).toEqual([
+        '/card/Project01/Preset01.mgp',
+        '/card/Project02/Preset03.mgp',
+      ]);
+      expect(await extractSamplesFromPreset('/card/Project02/Preset03.mgp')).toEqual([
+        'x.wav',
+        'pad2.wav',
+      ]);
+    });
+
+    it('fails without renaming when the new name does not fit a preset', async () => {
+      const preset = createPreset(['/PROJECT/kick.wav', '/PROJECT/snare.wav'], 18);
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'audio',
+        '/card/Project01/Preset01.mgp': preset,
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/card/Project01/kick.wav', 'a-much-longer-kick-name');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('too long');
+      expect(result.presetOverflows).toHaveLength(1);
+      expect(vol.existsSync('/card/Project01/kick.wav')).toBe(true);
+      expect(
+        Buffer.from(vol.readFileSync('/card/Project01/Preset01.mgp') as Buffer).equals(preset)
+      ).toBe(true);
+    });
+  });
+
+  describe('renameSamples (batch)', () => {
+    const channel = 'files:renameSamples';
+
+    it('renames files and patches presets', async () => {
+      vol.fromJSON({
+        '/card/Project01/a.wav': 'audio a',
+        '/card/Project01/b.wav': 'audio b',
+        '/card/Project01/Preset01.mgp': createPreset(['/PROJECT/a.wav', '/PROJECT/b.wav']),
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, [
+        { path: '/card/Project01/a.wav', newName: 'b' },
+        { path: '/card/Project01/b.wav', newName: 'a' },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.renamed).toHaveLength(2);
+      // Swap is handled in one pass
+      expect(vol.readFileSync('/card/Project01/a.wav', 'utf8')).toBe('audio b');
+      expect(vol.readFileSync('/card/Project01/b.wav', 'utf8')).toBe('audio a');
+      expect(await extractSamplesFromPreset('/card/Project01/Preset01.mgp')).toEqual([
+        'b.wav',
+        'a.wav',
+      ]);
+    });
+
+    it('restores files and presets when a preset cannot be written', async () => {
+      vol.fromJSON({
+        '/card/Project01/a.wav': 'audio a',
+        '/card/Project01/b.wav': 'audio b',
+        '/card/Project01/Preset01.mgp': createPreset(['/PROJECT/a.wav', '/PROJECT/b.wav']),
+        '/card/Wavs/pad.wav': 'pad',
+        '/card/Project02/Preset01.mgp': createPreset(['/WAVS/pad.wav']),
+      });
+      const writeFile = vi
+        .spyOn(vol.promises, 'writeFile')
+        .mockImplementation(async (file, data) => {
+          if (file === '/card/Project02/Preset01.mgp') throw new Error('Card is read-only');
+          vol.writeFileSync(file as string, data as Buffer);
+        });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, [
+        { path: '/card/Project01/a.wav', newName: 'b' },
+        { path: '/card/Project01/b.wav', newName: 'a' },
+        { path: '/card/Wavs/pad.wav', newName: 'pad2' },
+      ]);
+      writeFile.mockRestore();
+
+      expect(result).toMatchObject({ success: false, error: 'Card is read-only' });
+      expect(vol.readFileSync('/card/Project01/a.wav', 'utf8')).toBe('audio a');
+      expect(vol.readFileSync('/card/Project01/b.wav', 'utf8')).toBe('audio b');
+      expect(vol.existsSync('/card/Wavs/pad.wav')).toBe(true);
+      expect(await extractSamplesFromPreset('/card/Project01/Preset01.mgp')).toEqual([
+        'a.wav',
+        'b.wav',
+      ]);
+    });
+
+    it('rejects duplicate target names', async () => {
+      vol.fromJSON({
+        '/card/Project01/a.wav': 'audio',
+        '/card/Project01/b.wav': 'audio',
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, [
+        { path: '/card/Project01/a.wav', newName: 'same' },
+        { path: '/card/Project01/b.wav', newName: 'SAME' },
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(vol.existsSync('/card/Project01/a.wav')).toBe(true);
+      expect(vol.existsSync('/card/Project01/b.wav')).toBe(true);
+    });
+  });
+
+  describe('readRenameTokens', () => {
+    const channel = 'files:readRenameTokens';
+
+    it('follows logged renames back to the imported filename', async () => {
+      vol.fromJSON({
+        '/card/Wavs/02_pad.wav': 'not a wav',
+        '/card/Wavs/hat.wav': 'not a wav',
+        '/userData/operation-log.json': JSON.stringify([
+          {
+            type: 'import',
+            timestamp: '2026-01-01T00:00:00.000Z',
+            folderPath: '/card/Wavs',
+            sourceName: 'Warm Pad.aif',
+            newName: 'pad.wav',
+          },
+          {
+            type: 'rename',
+            timestamp: '2026-01-02T00:00:00.000Z',
+            folderPath: '/card/Wavs',
+            oldName: 'pad.wav',
+            newName: '02_pad.wav',
+          },
+        ]),
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, ['/card/Wavs/02_pad.wav', '/card/Wavs/hat.wav']);
+
+      expect(result.success).toBe(true);
+      expect(result.tokens['/card/Wavs/02_pad.wav']).toEqual({
+        description: '',
+        duration: 0,
+        originalName: 'Warm Pad.aif',
+      });
+      expect(result.tokens['/card/Wavs/hat.wav'].originalName).toBe('hat.wav');
+    });
+  });
+
   describe('deleteSample', () => {
     const channel = 'files:deleteSample';
 
@@ -233,6 +475,34 @@ describe('fileOperations IPC Handlers', () => {
 
       expect(result.success).toBe(true);
     });
+
+    it('refuses to delete a sample presets still use unless forced', async () => {
+      vol.fromJSON({
+        '/card/Wavs/kick.wav': 'audio data',
+        '/card/Project02/Preset04.mgp': createPreset(['snare.wav', 'kick.wav']),
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/card/Wavs/kick.wav');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('used by 1 preset sound');
+      expect(result.usages).toEqual([
+        {
+          samplePath: '/card/Wavs/kick.wav',
+          presetPath: '/card/Project02/Preset04.mgp',
+          presetName: 'Preset04',
+          projectName: 'Project02',
+          soundNumber: 2,
+        },
+      ]);
+      expect(vol.existsSync('/card/Wavs/kick.wav')).toBe(true);
+
+      const forced = await handler(null, '/card/Wavs/kick.wav', { force: true });
+
+      expect(forced.success).toBe(true);
+      expect(vol.existsSync('/card/Wavs/kick.wav')).toBe(false);
+    });
   });
 
   describe('deleteProject', () => {
@@ -422,6 +692,23 @@ describe('fileOperations IPC Handlers', () => {
       expect(result.total).toBe(0);
       expect(result.results).toHaveLength(0);
     });
+
+    it('skips samples presets still use', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'kick',
+        '/card/Project01/spare.wav': 'spare',
+        '/card/Project01/Autosave.mgp': createPreset(['kick.wav']),
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, ['/card/Project01/kick.wav', '/card/Project01/spare.wav']);
+
+      expect(result.count).toBe(1);
+      expect(result.results[0]).toMatchObject({ success: false, error: 'Used by presets' });
+      expect(result.usages).toHaveLength(1);
+      expect(vol.existsSync('/card/Project01/kick.wav')).toBe(true);
+      expect(vol.existsSync('/card/Project01/spare.wav')).toBe(false);
+    });
   });
 
   describe('previewNumberPrefixes', () => {
@@ -492,6 +779,59 @@ describe('fileOperations IPC Handlers', () => {
       expect(result.toRename).toHaveLength(0);
     });
 
+    it('lists presets that will be updated', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'audio',
+        '/card/Project01/Preset01.mgp': createPreset(['/PROJECT/kick.wav']),
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/card/Project01');
+
+      expect(result.success).toBe(true);
+      expect(result.presetUpdates).toHaveLength(1);
+      expect(result.presetUpdates[0].sounds[0]).toEqual({
+        soundNumber: 1,
+        oldName: 'kick.wav',
+        newName: '01_kick.wav',
+      });
+      expect(result.presetOverflows).toHaveLength(0);
+    });
+
+    it('numbers files in a custom order', async () => {
+      vol.fromJSON({
+        '/test/folder/01_kick.wav': 'audio',
+        '/test/folder/02_snare.wav': 'audio',
+        '/test/folder/hihat.wav': 'audio',
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/test/folder', [
+        'hihat.wav',
+        '02_snare.wav',
+        '01_kick.wav',
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.toRename).toEqual([
+        { oldName: 'hihat.wav', newName: '01_hihat.wav' },
+        { oldName: '01_kick.wav', newName: '03_kick.wav' },
+      ]);
+    });
+
+    it('fails when the custom order does not match the folder', async () => {
+      vol.fromJSON({
+        '/test/folder/kick.wav': 'audio',
+        '/test/folder/snare.wav': 'audio',
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/test/folder', ['kick.wav']);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('reload');
+    });
+
     it('fails for empty folder', async () => {
       vol.fromJSON({
         '/test/folder': null, // empty directory
@@ -593,6 +933,89 @@ describe('fileOperations IPC Handlers', () => {
       expect(result.renamed[0].newName).toBe('03_hihat.wav');
     });
 
+    it('patches presets that reference renamed files', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'audio',
+        '/card/Project01/snare.wav': 'audio',
+        '/card/Project01/Preset01.mgp': createPreset(['/PROJECT/snare.wav', '/PROJECT/kick.wav']),
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/card/Project01');
+
+      expect(result.success).toBe(true);
+      expect(result.updatedPresets).toHaveLength(1);
+      expect(await extractSamplesFromPreset('/card/Project01/Preset01.mgp')).toEqual([
+        '02_snare.wav',
+        '01_kick.wav',
+      ]);
+    });
+
+    it('swaps numbers in a custom order and patches presets', async () => {
+      vol.fromJSON({
+        '/card/Project01/01_kick.wav': 'kick',
+        '/card/Project01/02_snare.wav': 'snare',
+        '/card/Project01/Preset01.mgp': createPreset([
+          '/PROJECT/01_kick.wav',
+          '/PROJECT/02_snare.wav',
+        ]),
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/card/Project01', ['02_snare.wav', '01_kick.wav']);
+
+      expect(result.success).toBe(true);
+      expect(vol.readFileSync('/card/Project01/01_snare.wav', 'utf-8')).toBe('snare');
+      expect(vol.readFileSync('/card/Project01/02_kick.wav', 'utf-8')).toBe('kick');
+      expect(await extractSamplesFromPreset('/card/Project01/Preset01.mgp')).toEqual([
+        '02_kick.wav',
+        '01_snare.wav',
+      ]);
+    });
+
+    it('puts every name back when a rename fails part way', async () => {
+      vol.fromJSON({
+        '/card/Project01/01_kick.wav': 'kick',
+        '/card/Project01/02_snare.wav': 'snare',
+        '/card/Project01/Preset01.mgp': createPreset(['/PROJECT/01_kick.wav']),
+      });
+      const rename = vol.promises.rename;
+      const spy = vi.spyOn(vol.promises, 'rename').mockImplementation(async (from, to) => {
+        if (to === '/card/Project01/02_kick.wav') throw new Error('Card removed');
+        return rename(from, to);
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/card/Project01', ['02_snare.wav', '01_kick.wav']);
+      spy.mockRestore();
+
+      expect(result.success).toBe(false);
+      expect(result.renamed).toEqual([]);
+      expect(vol.readFileSync('/card/Project01/01_kick.wav', 'utf-8')).toBe('kick');
+      expect(vol.readFileSync('/card/Project01/02_snare.wav', 'utf-8')).toBe('snare');
+      expect(await extractSamplesFromPreset('/card/Project01/Preset01.mgp')).toEqual([
+        '01_kick.wav',
+      ]);
+    });
+
+    it('renames nothing when a new name does not fit a preset', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'audio',
+        // Field only has room for "/PROJECT/kick.wav" and its terminator
+        '/card/Project01/Preset01.mgp': createPreset(['/PROJECT/kick.wav', '/WAVS/pad.wav'], 18),
+      });
+
+      const handler = handlers.get(channel)!;
+      const result = await handler(null, '/card/Project01');
+
+      expect(result.success).toBe(false);
+      expect(vol.existsSync('/card/Project01/kick.wav')).toBe(true);
+      expect(await extractSamplesFromPreset('/card/Project01/Preset01.mgp')).toEqual([
+        'kick.wav',
+        'pad.wav',
+      ]);
+    });
+
     it('fails for empty folder', async () => {
       vol.fromJSON({
         '/test/folder': null,
@@ -605,4 +1028,69 @@ describe('fileOperations IPC Handlers', () => {
       expect(result.error).toContain('No WAV files');
     });
   });
+
+  describe('moveSamples / copySamples', () => {
+    beforeEach(() => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'kick',
+        '/card/Wavs/kick.wav': 'other kick',
+      });
+    });
+
+    it('moves samples and returns the new paths', async () => {
+      const handler = handlers.get('files:moveSamples')!;
+      const result = await handler(null, ['/card/Project01/kick.wav'], '/card/Wavs');
+
+      expect(result.success).toBe(true);
+      expect(result.moved).toEqual([
+        {
+          sourcePath: '/card/Project01/kick.wav',
+          targetPath: '/card/Wavs/kick_1.wav',
+          renamed: true,
+        },
+      ]);
+      expect(result.updatedPresets).toEqual([]);
+      expect(vol.existsSync('/card/Project01/kick.wav')).toBe(false);
+      expect(vol.readFileSync('/card/Wavs/kick_1.wav', 'utf-8')).toBe('kick');
+    });
+
+    it('undoes a move along with the presets pointed at the new location', async () => {
+      vol.writeFileSync(
+        '/card/Project01/Preset01.mgp',
+        createDecodedPreset([['kick.wav', 'PROJECT']])
+      );
+
+      await handlers.get('files:moveSamples')!(null, ['/card/Project01/kick.wav'], '/card/Wavs');
+      expect(await extractSamplesFromPreset('/card/Project01/Preset01.mgp')).toEqual([
+        'kick_1.wav',
+      ]);
+
+      expect(await undoLastChange({ cardRoot: '/card', userDataDir: '/userData' })).toMatchObject({
+        label: 'Move kick.wav to Wavs',
+      });
+      expect(vol.readFileSync('/card/Project01/kick.wav', 'utf-8')).toBe('kick');
+      expect(vol.existsSync('/card/Wavs/kick_1.wav')).toBe(false);
+      expect(await extractSamplesFromPreset('/card/Project01/Preset01.mgp')).toEqual(['kick.wav']);
+    });
+
+    it('copies samples and leaves the source in place', async () => {
+      const handler = handlers.get('files:copySamples')!;
+      const result = await handler(null, ['/card/Wavs/kick.wav'], '/card/Project01');
+
+      expect(result.success).toBe(true);
+      expect(result.copied[0].targetPath).toBe('/card/Project01/kick_1.wav');
+      expect(vol.readFileSync('/card/Wavs/kick.wav', 'utf-8')).toBe('other kick');
+
+      await undoLastChange({ cardRoot: '/card', userDataDir: '/userData' });
+      expect(vol.existsSync('/card/Project01/kick_1.wav')).toBe(false);
+    });
+
+    it('fails for folders that cannot hold samples', async () => {
+      const handler = handlers.get('files:planSampleTransfer')!;
+      const result = await handler(null, ['/card/Project01/kick.wav'], '/card/Other', 'move');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('project folder, Wavs or Recs');
+    });
+  });
 });
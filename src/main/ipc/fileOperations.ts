@@ -1,4 +1,4 @@
-import { ipcMain } from 'electron';
+import { app, dialog, ipcMain } from 'electron';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import {
@@ -7,7 +7,37 @@ import {
   extractPrefixNumber,
   NumberingScheme,
 } from '../utils/sampleNumbering';
-import { extractSamplesFromPreset } from '../utils/presetParser';
+import {
+  planPresetReferenceUpdates,
+  applyPresetPatchPlan,
+  describeOverflows,
+  PresetPatchPlan,
+} from '../utils/presetReferences';
+import { normalizeSampleFilename } from '@shared/sampleRename';
+import { findOriginalName, readOperationLog, recordRenames } from '../utils/operationLog';
+import { readSampleMetadata } from '../utils/exportDataAggregator';
+import { executeSampleTransfer, planSampleTransfer } from '../utils/sampleTransfer';
+import { findSampleUsages, findSamplesOnlyUsedByProject } from '../utils/sampleUsage';
+import { archiveSamples, findUnusedSamples } from '../utils/unusedSamples';
+import { consolidateDuplicates, findDuplicateSamples } from '../utils/duplicateSamples';
+import { PRESET_BACKUP_FOLDER } from '../utils/presetBackup';
+import { moveToTrash, TrashStores } from '../utils/trash';
+import { startJournalEntry } from '../utils/operationJournal';
+import {
+  applyRecsOrder,
+  planRecsOrder,
+  readRecsOrderUndo,
+  undoRecsOrder,
+} from '../utils/recsOrder';
+import {
+  DuplicateMatchMode,
+  MultigainStructure,
+  PresetReferenceUpdate,
+  SampleRenameTokens,
+  SampleTransferMode,
+  SampleUsage,
+  TrashItem,
+} from '@shared/types';
 
 interface NumberingPlan {
   scheme: NumberingScheme;
@@ -19,8 +49,9 @@ interface NumberingPlan {
  * Build a renumbering plan for all WAV files in a folder.
  * Files are renumbered starting from 1, preserving the relative order of
  * already-numbered files, with unnumbered files sorted alphabetically at the end.
+ * A custom order (every WAV filename in the folder) replaces that order.
  */
-async function buildNumberingPlan(folderPath: string): Promise<NumberingPlan> {
+async function buildNumberingPlan(folderPath: string, order?: string[]): Promise<NumberingPlan> {
   const files = await fs.promises.readdir(folderPath);
   const wavFiles = files.filter((f) => f.toLowerCase().endsWith('.wav'));
 
@@ -28,6 +59,15 @@ async function buildNumberingPlan(folderPath: string): Promise<NumberingPlan> {
     throw new Error('No WAV files found in folder');
   }
 
+  if (
+    order &&
+    (new Set(order).size !== order.length ||
+      order.length !== wavFiles.length ||
+      order.some((name) => !wavFiles.includes(name)))
+  ) {
+    throw new Error('The samples have changed on the card, reload and try again');
+  }
+
   // Detect existing numbering scheme (for separator style)
   const scheme = detectNumberingScheme(wavFiles);
 
@@ -54,7 +94,10 @@ async function buildNumberingPlan(folderPath: string): Promise<NumberingPlan> {
   unnumberedFiles.sort((a, b) => a.baseName.localeCompare(b.baseName));
 
   // Combine: numbered files first (in order), then unnumbered files
-  const allFiles = [...numberedFiles, ...unnumberedFiles];
+  let allFiles = [...numberedFiles, ...unnumberedFiles];
+  if (order) {
+    allFiles = order.map((name) => allFiles.find((file) => file.name === name)!);
+  }
 
   // Build the rename plan - renumber everything starting from 1
   const renames: Array<{ oldName: string; newName: string }> = [];
@@ -79,8 +122,121 @@ async function buildNumberingPlan(folderPath: string): Promise<NumberingPlan> {
   };
 }
 
+/**
+ * Rename files within a folder using a two-pass rename to avoid conflicts:
+ * 1. Rename all files to temporary names
+ * 2. Rename from temporary to final names
+ * If any rename fails, every file gets its original name back and nothing is
+ * reported as renamed, so a swap is never left half done.
+ */
+async function renameWithTempNames(
+  folderPath: string,
+  renames: Array<{ oldName: string; newName: string }>
+): Promise<{
+  renamed: Array<{ oldName: string; newName: string }>;
+  errors: Array<{ oldName: string; error: string }>;
+}> {
+  const tempPrefix = `__temp_rename_${Date.now()}_`;
+  const renamed: Array<{ oldName: string; newName: string }> = [];
+  const errors: Array<{ oldName: string; error: string }> = [];
+
+  // Pass 1: Rename to temporary names
+  const tempMappings: Array<{ tempName: string; finalName: string; originalName: string }> = [];
+
+  for (const { oldName, newName } of renames) {
+    const tempName = `${tempPrefix}${oldName}`;
+    const oldPath = path.join(folderPath, oldName);
+    const tempPath = path.join(folderPath, tempName);
+
+    try {
+      await fs.promises.rename(oldPath, tempPath);
+      tempMappings.push({ tempName, finalName: newName, originalName: oldName });
+    } catch (err) {
+      errors.push({
+        oldName,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+      break;
+    }
+  }
+
+  // Pass 2: Rename from temporary to final names, only once every file is out of the way
+  if (errors.length === 0) {
+    for (const { tempName, finalName, originalName } of tempMappings) {
+      try {
+        await fs.promises.rename(path.join(folderPath, tempName), path.join(folderPath, finalName));
+        renamed.push({ oldName: originalName, newName: finalName });
+      } catch (err) {
+        errors.push({
+          oldName: originalName,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+        break;
+      }
+    }
+  }
+
+  if (errors.length === 0) {
+    return { renamed, errors };
+  }
+
+  // Finished renames go back to their temporary names first, so restoring one
+  // original name never overwrites a file that took it
+  for (const { tempName, finalName, originalName } of tempMappings) {
+    try {
+      if (renamed.some((r) => r.oldName === originalName)) {
+        await fs.promises.rename(path.join(folderPath, finalName), path.join(folderPath, tempName));
+      }
+    } catch (err) {
+      console.error(`Error restoring ${originalName}:`, err);
+    }
+  }
+  for (const { tempName, originalName } of tempMappings) {
+    try {
+      await fs.promises.rename(
+        path.join(folderPath, tempName),
+        path.join(folderPath, originalName)
+      );
+    } catch (err) {
+      console.error(`Error restoring ${originalName}:`, err);
+    }
+  }
+
+  return { renamed: [], errors };
+}
+
+/**
+ * The renames that undo a set of renames
+ */
+function reverseRenames(
+  renames: Array<{ oldName: string; newName: string }>
+): Array<{ oldName: string; newName: string }> {
+  return renames.map(({ oldName, newName }) => ({ oldName: newName, newName: oldName }));
+}
+
+/**
+ * Trash and undo history of the card a sample folder or project folder is on
+ */
+function getTrashStores(folderPath: string): TrashStores {
+  return { cardRoot: path.dirname(folderPath), userDataDir: app.getPath('userData') };
+}
+
+/**
+ * Add renames to the operation log. A log failure never fails the rename.
+ */
+async function logRenames(
+  folderPath: string,
+  renames: Array<{ oldName: string; newName: string }>
+): Promise<void> {
+  try {
+    await recordRenames(app.getPath('userData'), folderPath, renames);
+  } catch (error) {
+    console.error('Error writing operation log:', error);
+  }
+}
+
 export function registerFileOperationsHandlers(): void {
-  // Delete a project folder and all its contents
+  // Delete a project folder and all its contents, by moving it to the trash
   ipcMain.handle('files:deleteProject', async (_event, projectPath: string) => {
     try {
       // Verify the path exists and is a directory
@@ -101,8 +257,10 @@ export function registerFileOperationsHandlers(): void {
         };
       }
 
-      // Delete the entire project folder recursively
-      await fs.promises.rm(projectPath, { recursive: true, force: true });
+      const stores = getTrashStores(projectPath);
+      const journal = startJournalEntry(stores, `Delete ${folderName}`);
+      journal.trashed(projectPath, await moveToTrash(stores, projectPath, 'project'));
+      await journal.commit();
 
       return { success: true };
     } catch (error) {
@@ -114,86 +272,174 @@ export function registerFileOperationsHandlers(): void {
     }
   });
 
-  // Delete a sample file
-  ipcMain.handle('files:deleteSample', async (_event, samplePath: string) => {
-    try {
-      // Verify the path exists and is a file
-      const stats = await fs.promises.stat(samplePath);
-      if (!stats.isFile()) {
+  // Delete a sample file, by moving it to the trash
+  // Pass { force: true } to delete a sample that presets still load
+  ipcMain.handle(
+    'files:deleteSample',
+    async (_event, samplePath: string, options: { force?: boolean } = {}) => {
+      try {
+        // Verify the path exists and is a file
+        const stats = await fs.promises.stat(samplePath);
+        if (!stats.isFile()) {
+          return {
+            success: false,
+            error: 'Path is not a file',
+          };
+        }
+
+        // Security check: ensure we're deleting a .wav file
+        if (!samplePath.toLowerCase().endsWith('.wav')) {
+          return {
+            success: false,
+            error: 'Only .wav files can be deleted',
+          };
+        }
+
+        if (!options.force) {
+          const usages = await findSampleUsages([samplePath]);
+          if (usages.length > 0) {
+            return {
+              success: false,
+              error: `Sample is used by ${usages.length} preset sound${usages.length !== 1 ? 's' : ''}`,
+              usages,
+            };
+          }
+        }
+
+        const stores = getTrashStores(path.dirname(samplePath));
+        const journal = startJournalEntry(stores, `Delete ${path.basename(samplePath)}`);
+        journal.trashed(samplePath, await moveToTrash(stores, samplePath, 'sample'));
+        await journal.commit();
+
+        return { success: true };
+      } catch (error) {
+        console.error('Error deleting sample:', error);
         return {
           success: false,
-          error: 'Path is not a file',
+          error: error instanceof Error ? error.message : 'Unknown error',
         };
       }
+    }
+  );
 
-      // Security check: ensure we're deleting a .wav file
-      if (!samplePath.toLowerCase().endsWith('.wav')) {
+  // Delete multiple samples at once, by moving them to the trash
+  // Samples that presets still load are skipped unless { force: true } is passed
+  ipcMain.handle(
+    'files:deleteSamples',
+    async (_event, samplePaths: string[], options: { force?: boolean } = {}) => {
+      const results: Array<{ path: string; success: boolean; error?: string }> = [];
+      const trashed: Array<{ path: string; item: TrashItem }> = [];
+      let usages: SampleUsage[] = [];
+      try {
+        usages = options.force ? [] : await findSampleUsages(samplePaths);
+      } catch (error) {
         return {
           success: false,
-          error: 'Only .wav files can be deleted',
+          count: 0,
+          total: samplePaths.length,
+          results: [],
+          error: error instanceof Error ? error.message : 'Unknown error',
         };
       }
 
-      // Delete the sample file
-      await fs.promises.unlink(samplePath);
+      for (const samplePath of samplePaths) {
+        try {
+          // Verify the path exists and is a file
+          const stats = await fs.promises.stat(samplePath);
+          if (!stats.isFile()) {
+            results.push({
+              path: samplePath,
+              success: false,
+              error: 'Path is not a file',
+            });
+            continue;
+          }
 
-      return { success: true };
-    } catch (error) {
-      console.error('Error deleting sample:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-    }
-  });
+          // Security check: ensure we're deleting a .wav file
+          if (!samplePath.toLowerCase().endsWith('.wav')) {
+            results.push({
+              path: samplePath,
+              success: false,
+              error: 'Only .wav files can be deleted',
+            });
+            continue;
+          }
 
-  // Delete multiple samples at once
-  ipcMain.handle('files:deleteSamples', async (_event, samplePaths: string[]) => {
-    const results: Array<{ path: string; success: boolean; error?: string }> = [];
+          if (usages.some((usage) => usage.samplePath === path.normalize(samplePath))) {
+            results.push({
+              path: samplePath,
+              success: false,
+              error: 'Used by presets',
+            });
+            continue;
+          }
 
-    for (const samplePath of samplePaths) {
-      try {
-        // Verify the path exists and is a file
-        const stats = await fs.promises.stat(samplePath);
-        if (!stats.isFile()) {
+          const item = await moveToTrash(
+            getTrashStores(path.dirname(samplePath)),
+            samplePath,
+            'sample'
+          );
+          trashed.push({ path: samplePath, item });
+          results.push({ path: samplePath, success: true });
+        } catch (error) {
+          console.error(`Error deleting sample ${samplePath}:`, error);
           results.push({
             path: samplePath,
             success: false,
-            error: 'Path is not a file',
+            error: error instanceof Error ? error.message : 'Unknown error',
           });
-          continue;
         }
+      }
 
-        // Security check: ensure we're deleting a .wav file
-        if (!samplePath.toLowerCase().endsWith('.wav')) {
-          results.push({
-            path: samplePath,
-            success: false,
-            error: 'Only .wav files can be deleted',
-          });
-          continue;
+      // One undo step for the whole batch
+      if (trashed.length > 0) {
+        const journal = startJournalEntry(
+          getTrashStores(path.dirname(trashed[0].path)),
+          trashed.length === 1
+            ? `Delete ${path.basename(trashed[0].path)}`
+            : `Delete ${trashed.length} samples`
+        );
+        for (const { path: samplePath, item } of trashed) {
+          journal.trashed(samplePath, item);
         }
-
-        // Delete the sample file
-        await fs.promises.unlink(samplePath);
-        results.push({ path: samplePath, success: true });
-      } catch (error) {
-        console.error(`Error deleting sample ${samplePath}:`, error);
-        results.push({
-          path: samplePath,
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+        await journal.commit();
       }
+
+      const successCount = results.filter((r) => r.success).length;
+      return {
+        success: successCount > 0,
+        count: successCount,
+        total: results.length,
+        results,
+        usages,
+      };
     }
+  );
 
-    const successCount = results.filter((r) => r.success).length;
-    return {
-      success: successCount > 0,
-      count: successCount,
-      total: results.length,
-      results,
-    };
+  // List every preset sound that loads any of these samples, across the whole card
+  ipcMain.handle('files:findSampleUsages', async (_event, samplePaths: string[]) => {
+    try {
+      const usages = await findSampleUsages(samplePaths);
+      return { success: true, usages };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Wavs and Recs samples that would become unused if a project were deleted
+  ipcMain.handle('files:previewDeleteProject', async (_event, projectPath: string) => {
+    try {
+      const unusedSamples = await findSamplesOnlyUsedByProject(projectPath);
+      return { success: true, unusedSamples };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
   });
 
   // Rename a sample file
@@ -217,28 +463,14 @@ export function registerFileOperationsHandlers(): void {
       }
 
       // Validate new filename
-      const trimmedName = newName.trim();
-      if (!trimmedName) {
+      const validation = normalizeSampleFilename(newName);
+      if ('error' in validation) {
         return {
           success: false,
-          error: 'Filename cannot be empty',
-        };
-      }
-
-      // Ensure new filename ends with .wav
-      let finalName = trimmedName;
-      if (!finalName.toLowerCase().endsWith('.wav')) {
-        finalName += '.wav';
-      }
-
-      // Check for invalid characters in filename
-      const invalidChars = /[<>:"|?*]/;
-      if (invalidChars.test(finalName)) {
-        return {
-          success: false,
-          error: 'Filename contains invalid characters',
+          error: validation.error,
         };
       }
+      const finalName = validation.name;
 
       // Construct new path
       const directory = path.dirname(samplePath);
@@ -268,13 +500,47 @@ export function registerFileOperationsHandlers(): void {
         // File doesn't exist, which is what we want
       }
 
-      // Perform the rename
-      await fs.promises.rename(normalizedOldPath, normalizedNewPath);
+      // Check that every preset referencing the sample can take the new name
+      const plan = await planPresetReferenceUpdates(directory, [
+        { oldName: path.basename(samplePath), newName: finalName },
+      ]);
+      if (plan.overflows.length > 0) {
+        return {
+          success: false,
+          error: 'The new name is too long for the presets that use this sample',
+          details: describeOverflows(plan.overflows),
+          presetOverflows: plan.overflows,
+        };
+      }
+
+      const journal = startJournalEntry(
+        getTrashStores(directory),
+        `Rename ${path.basename(samplePath)} to ${finalName}`
+      );
+      await journal.backup(plan.files.map((file) => file.presetPath));
+
+      try {
+        // Perform the rename
+        await fs.promises.rename(normalizedOldPath, normalizedNewPath);
+
+        // Point the presets at the new name, undoing the rename if that fails
+        try {
+          await applyPresetPatchPlan(plan);
+        } catch (error) {
+          await fs.promises.rename(normalizedNewPath, normalizedOldPath);
+          throw error;
+        }
+        journal.renamed(normalizedOldPath, normalizedNewPath);
+      } finally {
+        await journal.commit();
+      }
+      await logRenames(directory, [{ oldName: path.basename(samplePath), newName: finalName }]);
 
       return {
         success: true,
         newPath: normalizedNewPath.replace(/\\/g, '/'),
         newName: finalName,
+        updatedPresets: plan.updates,
       };
     } catch (error) {
       console.error('Error renaming sample:', error);
@@ -285,47 +551,171 @@ export function registerFileOperationsHandlers(): void {
     }
   });
 
-  // Preview what files would be renamed when adding number prefixes
-  ipcMain.handle('files:previewNumberPrefixes', async (_event, folderPath: string) => {
-    try {
-      // Verify folder exists
-      const stats = await fs.promises.stat(folderPath);
-      if (!stats.isDirectory()) {
-        return { success: false, error: 'Path is not a directory' };
-      }
+  // Rename several samples at once, keeping preset references intact.
+  // Either every rename is valid and fits the presets, or nothing is changed.
+  ipcMain.handle(
+    'files:renameSamples',
+    async (_event, requests: Array<{ path: string; newName: string }>) => {
+      try {
+        // Validate every request and group the renames by folder
+        const folders = new Map<string, Array<{ oldName: string; newName: string }>>();
+        for (const request of requests) {
+          const stats = await fs.promises.stat(request.path);
+          if (!stats.isFile() || !request.path.toLowerCase().endsWith('.wav')) {
+            return { success: false, error: `Not a .wav file: ${path.basename(request.path)}` };
+          }
 
-      const plan = await buildNumberingPlan(folderPath);
+          const validation = normalizeSampleFilename(request.newName);
+          if ('error' in validation) {
+            return {
+              success: false,
+              error: `${path.basename(request.path)}: ${validation.error}`,
+            };
+          }
+
+          const folderPath = path.dirname(request.path);
+          const oldName = path.basename(request.path);
+          if (oldName === validation.name) continue;
+
+          const folderRenames = folders.get(folderPath) ?? [];
+          folderRenames.push({ oldName, newName: validation.name });
+          folders.set(folderPath, folderRenames);
+        }
+
+        // Check for name collisions (FAT filenames are case-insensitive)
+        for (const [folderPath, renames] of folders) {
+          const existing = (await fs.promises.readdir(folderPath)).map((f) => f.toLowerCase());
+          const leaving = new Set(renames.map((r) => r.oldName.toLowerCase()));
+          const taken = new Set(existing.filter((name) => !leaving.has(name)));
+          for (const { newName } of renames) {
+            const key = newName.toLowerCase();
+            if (taken.has(key)) {
+              return { success: false, error: `A file named "${newName}" already exists` };
+            }
+            taken.add(key);
+          }
+        }
+
+        // Plan preset updates for every folder before touching anything
+        const plans = new Map<string, PresetPatchPlan>();
+        for (const [folderPath, renames] of folders) {
+          const plan = await planPresetReferenceUpdates(folderPath, renames);
+          if (plan.overflows.length > 0) {
+            return {
+              success: false,
+              error: 'Some new names are too long for the presets that use them',
+              details: describeOverflows(plan.overflows),
+              presetOverflows: plan.overflows,
+            };
+          }
+          plans.set(folderPath, plan);
+        }
+
+        const renamed: Array<{ oldPath: string; newPath: string }> = [];
+        const errors: Array<{ oldName: string; error: string }> = [];
+        const updatedPresets: PresetReferenceUpdate[] = [];
+
+        if (folders.size === 0) {
+          return { success: true, renamed, updatedPresets };
+        }
+
+        const renameCount = [...folders.values()].reduce((n, renames) => n + renames.length, 0);
+        const journal = startJournalEntry(
+          getTrashStores([...folders.keys()][0]),
+          `Rename ${renameCount} sample${renameCount === 1 ? '' : 's'}`
+        );
+        await journal.backup(
+          [...plans.values()].flatMap((plan) => plan.files.map((f) => f.presetPath))
+        );
+
+        // Folders whose files were renamed and presets patched, undone together
+        // if a later folder fails
+        const applied: Array<{
+          folderPath: string;
+          renames: Array<{ oldName: string; newName: string }>;
+          plan: PresetPatchPlan;
+        }> = [];
+        const revertApplied = async () => {
+          for (const { folderPath, renames, plan } of applied.splice(0).reverse()) {
+            for (const file of plan.files) {
+              try {
+                await fs.promises.writeFile(file.presetPath, file.original);
+              } catch (err) {
+                console.error(`Error restoring ${file.presetPath}:`, err);
+              }
+            }
+            await renameWithTempNames(folderPath, reverseRenames(renames));
+          }
+        };
 
-      // Check which presets reference samples that are being renamed
-      const renamedNames = new Set(plan.renames.map((r) => r.oldName));
-      const mgpFiles = (await fs.promises.readdir(folderPath)).filter((f) =>
-        f.toLowerCase().endsWith('.mgp')
-      );
-      const presetWarnings: string[] = [];
-      for (const mgpFile of mgpFiles) {
         try {
-          const samples = await extractSamplesFromPreset(path.join(folderPath, mgpFile));
-          if (samples.some((s) => renamedNames.has(s))) {
-            presetWarnings.push(path.basename(mgpFile, '.mgp'));
+          for (const [folderPath, renames] of folders) {
+            const result = await renameWithTempNames(folderPath, renames);
+            if (result.errors.length > 0) {
+              errors.push(...result.errors);
+              await revertApplied();
+              break;
+            }
+
+            // Point the presets at the new names, undoing the renames if that fails
+            const plan = plans.get(folderPath)!;
+            try {
+              await applyPresetPatchPlan(plan);
+            } catch (error) {
+              await renameWithTempNames(folderPath, reverseRenames(renames));
+              await revertApplied();
+              throw error;
+            }
+            applied.push({ folderPath, renames, plan });
           }
-        } catch {
-          // Skip unreadable preset files
+
+          for (const { folderPath, renames, plan } of applied) {
+            await logRenames(folderPath, renames);
+            for (const { oldName, newName } of renames) {
+              renamed.push({
+                oldPath: path.join(folderPath, oldName),
+                newPath: path.join(folderPath, newName),
+              });
+              journal.renamed(path.join(folderPath, oldName), path.join(folderPath, newName));
+            }
+            updatedPresets.push(...plan.updates);
+          }
+        } finally {
+          await journal.commit();
         }
+
+        return {
+          success: errors.length === 0,
+          renamed,
+          updatedPresets,
+          errors: errors.length > 0 ? errors : undefined,
+        };
+      } catch (error) {
+        console.error('Error renaming samples:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
       }
+    }
+  );
 
-      return {
-        success: true,
-        scheme: {
-          pattern: plan.scheme.pattern,
-          digits: plan.scheme.digits,
-          separator: plan.scheme.separator,
-        },
-        alreadyNumbered: plan.alreadyNumbered,
-        toRename: plan.renames,
-        presetWarnings,
-      };
+  // Read the metadata a batch rename can insert into filenames
+  ipcMain.handle('files:readRenameTokens', async (_event, samplePaths: string[]) => {
+    try {
+      const log = await readOperationLog(app.getPath('userData'));
+      const tokens: Record<string, SampleRenameTokens> = {};
+      for (const samplePath of samplePaths) {
+        const { description, duration } = await readSampleMetadata(samplePath);
+        tokens[samplePath] = {
+          description,
+          duration,
+          originalName: findOriginalName(log, path.dirname(samplePath), path.basename(samplePath)),
+        };
+      }
+      return { success: true, tokens };
     } catch (error) {
-      console.error('Error previewing number prefixes:', error);
+      console.error('Error reading rename tokens:', error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -333,74 +723,346 @@ export function registerFileOperationsHandlers(): void {
     }
   });
 
-  // Apply number prefixes to samples in a folder (renumbers all starting from 1)
-  ipcMain.handle('files:applyNumberPrefixes', async (_event, folderPath: string) => {
-    try {
-      const plan = await buildNumberingPlan(folderPath);
+  // Preview what files would be renamed when adding number prefixes
+  ipcMain.handle(
+    'files:previewNumberPrefixes',
+    async (_event, folderPath: string, order?: string[]) => {
+      try {
+        // Verify folder exists
+        const stats = await fs.promises.stat(folderPath);
+        if (!stats.isDirectory()) {
+          return { success: false, error: 'Path is not a directory' };
+        }
+
+        const plan = await buildNumberingPlan(folderPath, order);
+
+        // Check which presets reference samples that are being renamed
+        const presetPlan = await planPresetReferenceUpdates(folderPath, plan.renames);
 
-      if (plan.renames.length === 0) {
         return {
           success: true,
-          renamed: [],
-          message: 'All files already have correct number prefixes',
+          scheme: {
+            pattern: plan.scheme.pattern,
+            digits: plan.scheme.digits,
+            separator: plan.scheme.separator,
+          },
+          alreadyNumbered: plan.alreadyNumbered,
+          toRename: plan.renames,
+          presetUpdates: presetPlan.updates,
+          presetOverflows: presetPlan.overflows,
+        };
+      } catch (error) {
+        console.error('Error previewing number prefixes:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
         };
       }
+    }
+  );
 
-      // Use two-pass rename to avoid conflicts:
-      // 1. Rename all files to temporary names
-      // 2. Rename from temporary to final names
-      const tempPrefix = `__temp_rename_${Date.now()}_`;
-      const renamed: Array<{ oldName: string; newName: string }> = [];
-      const errors: Array<{ oldName: string; error: string }> = [];
+  // Apply number prefixes to samples in a folder (renumbers all starting from 1),
+  // optionally in a custom order
+  ipcMain.handle(
+    'files:applyNumberPrefixes',
+    async (_event, folderPath: string, order?: string[]) => {
+      try {
+        const plan = await buildNumberingPlan(folderPath, order);
+
+        if (plan.renames.length === 0) {
+          return {
+            success: true,
+            renamed: [],
+            message: 'All files already have correct number prefixes',
+          };
+        }
 
-      // Pass 1: Rename to temporary names
-      const tempMappings: Array<{ tempName: string; finalName: string; originalName: string }> = [];
+        // Fail as a whole if any preset reference cannot take its new name
+        const presetPlan = await planPresetReferenceUpdates(folderPath, plan.renames);
+        if (presetPlan.overflows.length > 0) {
+          return {
+            success: false,
+            error: 'Some new names are too long for the presets that use them',
+            details: describeOverflows(presetPlan.overflows),
+            presetOverflows: presetPlan.overflows,
+          };
+        }
 
-      for (const { oldName, newName } of plan.renames) {
-        const tempName = `${tempPrefix}${oldName}`;
-        const oldPath = path.join(folderPath, oldName);
-        const tempPath = path.join(folderPath, tempName);
+        const journal = startJournalEntry(
+          getTrashStores(folderPath),
+          `Renumber samples in ${path.basename(folderPath)}`
+        );
+        await journal.backup(presetPlan.files.map((file) => file.presetPath));
 
+        let result: Awaited<ReturnType<typeof renameWithTempNames>>;
         try {
-          await fs.promises.rename(oldPath, tempPath);
-          tempMappings.push({ tempName, finalName: newName, originalName: oldName });
-        } catch (err) {
-          errors.push({
-            oldName,
-            error: err instanceof Error ? err.message : 'Unknown error',
-          });
+          result = await renameWithTempNames(folderPath, plan.renames);
+
+          // Point the presets at the new names, undoing the renames if that fails
+          if (result.errors.length === 0) {
+            try {
+              await applyPresetPatchPlan(presetPlan);
+            } catch (error) {
+              await renameWithTempNames(folderPath, reverseRenames(plan.renames));
+              throw error;
+            }
+            for (const { oldName, newName } of result.renamed) {
+              journal.renamed(path.join(folderPath, oldName), path.join(folderPath, newName));
+            }
+            await logRenames(folderPath, result.renamed);
+          }
+        } finally {
+          await journal.commit();
         }
+
+        const { renamed, errors } = result;
+        return {
+          success: errors.length === 0,
+          renamed,
+          updatedPresets: errors.length === 0 ? presetPlan.updates : [],
+          errors: errors.length > 0 ? errors : undefined,
+        };
+      } catch (error) {
+        console.error('Error applying number prefixes:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
       }
+    }
+  );
 
-      // Pass 2: Rename from temporary to final names
-      for (const { tempName, finalName, originalName } of tempMappings) {
-        const tempPath = path.join(folderPath, tempName);
-        const finalPath = path.join(folderPath, finalName);
+  // Preview moving or copying samples into another folder
+  ipcMain.handle(
+    'files:planSampleTransfer',
+    async (_event, samplePaths: string[], targetFolder: string, mode: SampleTransferMode) => {
+      try {
+        const plan = await planSampleTransfer(samplePaths, targetFolder, mode);
+        return { success: true, plan };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Move samples into another folder and point presets at their new location
+  ipcMain.handle(
+    'files:moveSamples',
+    async (_event, samplePaths: string[], targetFolder: string) => {
+      try {
+        // Back up the presets the move will point at the new location
+        const journal = startJournalEntry(
+          getTrashStores(targetFolder),
+          `Move ${samplePaths.length === 1 ? path.basename(samplePaths[0]) : `${samplePaths.length} samples`} to ${path.basename(targetFolder)}`
+        );
+        const preview = await planSampleTransfer(samplePaths, targetFolder, 'move');
+        await journal.backup(preview.presetUpdates.map((update) => update.presetPath));
 
         try {
-          await fs.promises.rename(tempPath, finalPath);
-          renamed.push({ oldName: originalName, newName: finalName });
-        } catch (err) {
-          // Try to restore original name on failure
-          try {
-            await fs.promises.rename(tempPath, path.join(folderPath, originalName));
-          } catch {
-            // Ignore restore failure
+          const plan = await executeSampleTransfer(samplePaths, targetFolder, 'move');
+          for (const item of plan.items) {
+            journal.renamed(item.sourcePath, item.targetPath);
           }
-          errors.push({
-            oldName: originalName,
-            error: err instanceof Error ? err.message : 'Unknown error',
-          });
+          return {
+            success: true,
+            moved: plan.items,
+            updatedPresets: plan.presetUpdates,
+            brokenReferences: plan.brokenReferences,
+          };
+        } finally {
+          await journal.commit();
+        }
+      } catch (error) {
+        console.error('Error moving samples:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Copy samples into another folder
+  ipcMain.handle(
+    'files:copySamples',
+    async (_event, samplePaths: string[], targetFolder: string) => {
+      try {
+        const plan = await executeSampleTransfer(samplePaths, targetFolder, 'copy');
+
+        // Undoing the copy moves the copies to the trash
+        const journal = startJournalEntry(
+          getTrashStores(targetFolder),
+          `Copy ${plan.items.length === 1 ? path.basename(plan.items[0].sourcePath) : `${plan.items.length} samples`} to ${path.basename(targetFolder)}`
+        );
+        for (const item of plan.items) {
+          journal.created(item.targetPath, 'sample');
         }
+        await journal.commit();
+
+        return { success: true, copied: plan.items };
+      } catch (error) {
+        console.error('Error copying samples:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
       }
+    }
+  );
 
+  // Samples that no preset or Autosave.mgp loads, per project, Wavs and Recs
+  ipcMain.handle('files:findUnusedSamples', async (_event, structure: MultigainStructure) => {
+    try {
+      const report = await findUnusedSamples(structure);
+      return { success: true, report };
+    } catch (error) {
       return {
-        success: renamed.length > 0,
-        renamed,
-        errors: errors.length > 0 ? errors : undefined,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
       };
+    }
+  });
+
+  // Copy samples to a folder picked on this computer, then move them from the card to the trash
+  ipcMain.handle('files:archiveSamples', async (_event, samplePaths: string[]) => {
+    try {
+      const result = await dialog.showOpenDialog({
+        title: 'Choose Archive Folder',
+        properties: ['openDirectory', 'createDirectory'],
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      const stores = getTrashStores(path.dirname(samplePaths[0]));
+      const journal = startJournalEntry(
+        stores,
+        samplePaths.length === 1
+          ? `Archive ${path.basename(samplePaths[0])}`
+          : `Archive ${samplePaths.length} samples`
+      );
+      try {
+        const { archived, manifestPath } = await archiveSamples(
+          samplePaths,
+          result.filePaths[0],
+          stores,
+          journal
+        );
+        return { success: true, archived, manifestPath };
+      } finally {
+        await journal.commit();
+      }
+    } catch (error) {
+      console.error('Error archiving samples:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Groups of samples holding the same audio under different names
+  ipcMain.handle(
+    'files:findDuplicateSamples',
+    async (_event, structure: MultigainStructure, mode: DuplicateMatchMode) => {
+      try {
+        const report = await findDuplicateSamples(structure, mode);
+        return { success: true, report };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Keep one sample of a duplicate group, relink presets to it and trash the rest
+  ipcMain.handle(
+    'files:consolidateDuplicates',
+    async (_event, keepPath: string, duplicatePaths: string[], targetFolder?: string) => {
+      try {
+        const stores = getTrashStores(path.dirname(keepPath));
+        const journal = startJournalEntry(
+          stores,
+          `Consolidate duplicates of ${path.basename(keepPath)}`
+        );
+        // Every preset that loads one of the samples may be relinked
+        const usages = await findSampleUsages([keepPath, ...duplicatePaths]);
+        await journal.backup([...new Set(usages.map((usage) => usage.presetPath))]);
+
+        try {
+          const { trashed, ...result } = await consolidateDuplicates(
+            keepPath,
+            duplicatePaths,
+            path.join(app.getPath('userData'), PRESET_BACKUP_FOLDER),
+            stores,
+            targetFolder
+          );
+          if (result.keptPath !== keepPath) {
+            journal.renamed(keepPath, result.keptPath);
+          }
+          for (const item of trashed) {
+            journal.trashed(path.join(stores.cardRoot, item.originalPath), item);
+          }
+          return { success: true, ...result };
+        } finally {
+          await journal.commit();
+        }
+      } catch (error) {
+        console.error('Error consolidating duplicates:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Preview the modification times that put Recs in the given order, newest first
+  ipcMain.handle(
+    'files:planRecsOrder',
+    async (_event, folderPath: string, orderedPaths: string[]) => {
+      try {
+        const plan = await planRecsOrder(folderPath, orderedPaths);
+        const undo = await readRecsOrderUndo(app.getPath('userData'), folderPath);
+        return { success: true, plan, undo };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Rewrite modification times so the module indexes Recs in the given order
+  ipcMain.handle(
+    'files:applyRecsOrder',
+    async (_event, folderPath: string, orderedPaths: string[]) => {
+      try {
+        const plan = await applyRecsOrder(folderPath, orderedPaths, app.getPath('userData'));
+        return { success: true, plan };
+      } catch (error) {
+        console.error('Error reordering recordings:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Restore the modification times saved by the last Recs reorder
+  ipcMain.handle('files:undoRecsOrder', async (_event, folderPath: string) => {
+    try {
+      const result = await undoRecsOrder(app.getPath('userData'), folderPath);
+      return { success: true, ...result };
     } catch (error) {
-      console.error('Error applying number prefixes:', error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -0,0 +1,70 @@
+import { app, ipcMain } from 'electron';
+import { TrashStores } from '../utils/trash';
+import {
+  clearHistory,
+  readHistory,
+  redoNextChange,
+  undoLastChange,
+} from '../utils/operationJournal';
+
+const getStores = (rootPath: string): TrashStores => ({
+  cardRoot: rootPath,
+  userDataDir: app.getPath('userData'),
+});
+
+export function registerHistoryHandlers(): void {
+  // Undo history of a card, newest first
+  ipcMain.handle('history:list', async (_event, rootPath: string) => {
+    try {
+      const history = await readHistory(getStores(rootPath));
+      return { success: true, ...history };
+    } catch (error) {
+      console.error('Error reading history:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Reverse the latest change
+  ipcMain.handle('history:undo', async (_event, rootPath: string) => {
+    try {
+      const entry = await undoLastChange(getStores(rootPath));
+      return { success: true, entry };
+    } catch (error) {
+      console.error('Error undoing change:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Repeat the change undone last
+  ipcMain.handle('history:redo', async (_event, rootPath: string) => {
+    try {
+      const entry = await redoNextChange(getStores(rootPath));
+      return { success: true, entry };
+    } catch (error) {
+      console.error('Error redoing change:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Forget the history and delete its backups
+  ipcMain.handle('history:clear', async (_event, rootPath: string) => {
+    try {
+      await clearHistory(getStores(rootPath));
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+}
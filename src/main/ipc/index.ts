@@ -3,12 +3,17 @@ import { registerDriveHandlers } from './drives';
 import { registerMultigrainHandlers } from './multigrain';
 import { registerAudioHandlers } from './audio';
 import { registerProjectMetadataHandlers } from './projectMetadata';
+import { registerPresetMetadataHandlers } from './presetMetadata';
 import { setupPresetHandlers } from './preset';
 import { registerAudioImportHandlers } from './audioImport';
 import { registerProjectOperationsHandlers } from './projectOperations';
 import { registerFileOperationsHandlers } from './fileOperations';
 import { registerPdfExportHandlers } from './pdfExport';
 import { registerAudioCropHandlers } from './audioCrop';
+import { registerSettingsHandlers } from './settings';
+import { registerSearchHandlers } from './search';
+import { registerTrashHandlers } from './trash';
+import { registerHistoryHandlers } from './history';
 
 export function registerAllHandlers(): void {
   registerFileSystemHandlers();
@@ -16,10 +21,15 @@ export function registerAllHandlers(): void {
   registerMultigrainHandlers();
   registerAudioHandlers();
   registerProjectMetadataHandlers();
+  registerPresetMetadataHandlers();
   setupPresetHandlers();
   registerAudioImportHandlers();
   registerProjectOperationsHandlers();
   registerFileOperationsHandlers();
   registerPdfExportHandlers();
   registerAudioCropHandlers();
+  registerSettingsHandlers();
+  registerSearchHandlers();
+  registerTrashHandlers();
+  registerHistoryHandlers();
 }
@@ -1,12 +1,275 @@
-import { ipcMain } from 'electron';
-import { extractSamplesFromPreset } from '../utils/presetParser';
+import { app, dialog, ipcMain } from 'electron';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  extractSamplesFromPreset,
+  extractSampleFoldersFromPreset,
+  readPresetData,
+  writeSoundSample,
+} from '../utils/presetParser';
+import { getPresetSampleFolder } from '../utils/presetReferences';
+import { backupPreset, PRESET_BACKUP_FOLDER } from '../utils/presetBackup';
+import { planPresetTransfer, executePresetTransfer } from '../utils/presetTransfer';
+import { diffPresetFiles } from '../utils/presetDiff';
+import { applyPresetRepairs, findMissingPresetSamples } from '../utils/presetRepair';
+import { readOperationLog } from '../utils/operationLog';
+import { exportPresetJson, importPresetJson } from '../utils/presetJson';
+import { PRESET_METADATA_FILENAME } from '../utils/presetMetadata';
+import { startJournalEntry } from '../utils/operationJournal';
+import { MultigainStructure, PresetRepairFix, PresetTransferRequest } from '@shared/types';
+import { getPresetFileName } from '@shared/constants';
+
+// Project and preset name of a preset file, e.g. Project01/Preset05
+const describePreset = (presetPath: string) =>
+  `${path.basename(path.dirname(presetPath))}/${path.basename(presetPath, path.extname(presetPath))}`;
+
+// Undo history entry for changes to the card a preset is on
+const startPresetJournal = (presetPath: string, label: string) =>
+  startJournalEntry(
+    { cardRoot: path.dirname(path.dirname(presetPath)), userDataDir: app.getPath('userData') },
+    label
+  );
 
 export function setupPresetHandlers() {
   ipcMain.handle('preset:readSamples', async (_event, filePath: string) => {
     try {
       const samples = await extractSamplesFromPreset(filePath);
-      return { success: true, samples };
+      const folders = await extractSampleFoldersFromPreset(filePath);
+      return { success: true, samples, folders };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.handle('preset:readData', async (_event, filePath: string) => {
+    try {
+      const data = await readPresetData(filePath);
+      return { success: true, data };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.handle(
+    'preset:assignSample',
+    async (_event, presetPath: string, soundNumber: number, samplePath: string) => {
+      try {
+        const folder = getPresetSampleFolder(presetPath, samplePath);
+        if (!folder) {
+          return {
+            success: false,
+            error: "The sample must be in this preset's project folder, Wavs or Recs",
+          };
+        }
+
+        try {
+          await fs.access(samplePath);
+        } catch {
+          return { success: false, error: 'Sample file not found' };
+        }
+
+        const original = await fs.readFile(presetPath);
+        const patched = Buffer.from(original);
+        writeSoundSample(patched, soundNumber, folder, path.basename(samplePath));
+
+        const journal = startPresetJournal(
+          presetPath,
+          `Assign ${path.basename(samplePath)} to sound ${soundNumber} of ${describePreset(presetPath)}`
+        );
+        await journal.backup([presetPath]);
+
+        try {
+          // Keep an exact copy of the original before touching the card
+          const backupPath = await backupPreset(
+            presetPath,
+            original,
+            path.join(app.getPath('userData'), PRESET_BACKUP_FOLDER)
+          );
+          await fs.writeFile(presetPath, patched);
+
+          return { success: true, folder, backupPath };
+        } finally {
+          await journal.commit();
+        }
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle('preset:diff', async (_event, leftPath: string, rightPath: string) => {
+    try {
+      const diff = await diffPresetFiles(leftPath, rightPath);
+      return { success: true, diff };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.handle('preset:planTransfer', async (_event, request: PresetTransferRequest) => {
+    try {
+      const plan = await planPresetTransfer(request);
+      return { success: true, plan };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.handle('preset:transfer', async (_event, request: PresetTransferRequest) => {
+    try {
+      const { presetPath, targetProjectPath, targetSlot, mode } = request;
+      const targetPath = path.join(targetProjectPath, getPresetFileName(targetSlot));
+      const journal = startPresetJournal(
+        presetPath,
+        `${{ copy: 'Copy', move: 'Move', swap: 'Swap' }[mode]} ${describePreset(presetPath)} ${mode === 'swap' ? 'with' : 'to'} ${describePreset(targetPath)}`
+      );
+      // Names and notes move with the preset
+      await journal.backup([
+        presetPath,
+        targetPath,
+        ...new Set(
+          [path.dirname(presetPath), targetProjectPath].map((p) =>
+            path.join(p, PRESET_METADATA_FILENAME)
+          )
+        ),
+      ]);
+
+      try {
+        const result = await executePresetTransfer(
+          request,
+          path.join(app.getPath('userData'), PRESET_BACKUP_FOLDER)
+        );
+        for (const copiedSample of result.copiedSamples) {
+          journal.created(copiedSample, 'sample');
+        }
+        return { success: true, ...result };
+      } finally {
+        await journal.commit();
+      }
+    } catch (error) {
+      console.error('Error transferring preset:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.handle('preset:findMissingSamples', async (_event, structure: MultigainStructure) => {
+    try {
+      const log = await readOperationLog(app.getPath('userData'));
+      const missing = await findMissingPresetSamples(structure, log);
+      return { success: true, missing };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.handle('preset:repairSamples', async (_event, fixes: PresetRepairFix[]) => {
+    try {
+      const presetPaths = [...new Set(fixes.map((fix) => fix.presetPath))];
+      if (presetPaths.length === 0) {
+        return { success: true, updatedPresets: [], backupPaths: [] };
+      }
+      const journal = startPresetJournal(
+        presetPaths[0],
+        presetPaths.length === 1
+          ? `Repair samples of ${describePreset(presetPaths[0])}`
+          : `Repair samples of ${presetPaths.length} presets`
+      );
+      await journal.backup(presetPaths);
+
+      try {
+        const result = await applyPresetRepairs(
+          fixes,
+          path.join(app.getPath('userData'), PRESET_BACKUP_FOLDER)
+        );
+        return { success: true, ...result };
+      } finally {
+        await journal.commit();
+      }
+    } catch (error) {
+      console.error('Error repairing preset samples:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.handle('preset:exportJson', async (_event, presetPath: string) => {
+    try {
+      const projectName = path.basename(path.dirname(presetPath));
+      const presetName = path.basename(presetPath, path.extname(presetPath));
+      const result = await dialog.showSaveDialog({
+        title: 'Export Preset as JSON',
+        defaultPath: `${projectName}-${presetName}.json`,
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, canceled: true };
+      }
+
+      await exportPresetJson(presetPath, result.filePath);
+      return { success: true, filePath: result.filePath };
+    } catch (error) {
+      console.error('Error exporting preset JSON:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.handle('preset:importJson', async (_event, presetPath: string) => {
+    try {
+      const result = await dialog.showOpenDialog({
+        title: 'Import Preset from JSON',
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+        properties: ['openFile'],
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      const journal = startPresetJournal(
+        presetPath,
+        `Import ${path.basename(result.filePaths[0])} into ${describePreset(presetPath)}`
+      );
+      await journal.backup([presetPath]);
+
+      try {
+        const { backupPath } = await importPresetJson(
+          result.filePaths[0],
+          presetPath,
+          path.join(app.getPath('userData'), PRESET_BACKUP_FOLDER)
+        );
+        return { success: true, backupPath };
+      } finally {
+        await journal.commit();
+      }
     } catch (error) {
+      console.error('Error importing preset JSON:', error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -0,0 +1,99 @@
+import { app, ipcMain } from 'electron';
+import path from 'node:path';
+import {
+  PRESET_METADATA_FILENAME,
+  readPresetMetadata,
+  writePresetMetadata,
+} from '../utils/presetMetadata';
+import { JournalRecorder, startJournalEntry } from '../utils/operationJournal';
+
+/**
+ * Undo history entry for metadata written to the projects of these presets
+ */
+async function startMetadataJournal(
+  presetPaths: string[],
+  label: string
+): Promise<JournalRecorder> {
+  const journal = startJournalEntry(
+    { cardRoot: path.dirname(path.dirname(presetPaths[0])), userDataDir: app.getPath('userData') },
+    label
+  );
+  await journal.backup([
+    ...new Set(presetPaths.map((p) => path.join(path.dirname(p), PRESET_METADATA_FILENAME))),
+  ]);
+  return journal;
+}
+
+export function registerPresetMetadataHandlers(): void {
+  // Read preset metadata
+  ipcMain.handle('preset:readMetadata', async (_event, presetPath: string) => {
+    const metadata = await readPresetMetadata(presetPath);
+    return {
+      customName: metadata.customName || '',
+      notes: metadata.notes || '',
+    };
+  });
+
+  // Write preset metadata - empty values remove the entry
+  ipcMain.handle(
+    'preset:writeMetadata',
+    async (_event, presetPath: string, customName: string, notes: string) => {
+      try {
+        const journal = await startMetadataJournal(
+          [presetPath],
+          `Edit ${path.basename(presetPath, path.extname(presetPath))} name and notes`
+        );
+        try {
+          await writePresetMetadata([{ presetPath, metadata: { customName, notes } }]);
+        } finally {
+          await journal.commit();
+        }
+        return { success: true };
+      } catch (error) {
+        console.error('Error writing preset metadata:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Batch write preset metadata (notes are kept when not given)
+  ipcMain.handle(
+    'preset:batchWriteMetadata',
+    async (_event, updates: Array<{ presetPath: string; customName: string; notes?: string }>) => {
+      try {
+        if (updates.length === 0) {
+          return { success: true, count: 0 };
+        }
+
+        const resolved = await Promise.all(
+          updates.map(async ({ presetPath, customName, notes }) => ({
+            presetPath,
+            metadata: {
+              customName,
+              notes: notes ?? (await readPresetMetadata(presetPath)).notes,
+            },
+          }))
+        );
+        const journal = await startMetadataJournal(
+          updates.map((update) => update.presetPath),
+          `Rename ${updates.length} preset${updates.length === 1 ? '' : 's'}`
+        );
+        try {
+          await writePresetMetadata(resolved);
+        } finally {
+          await journal.commit();
+        }
+        return { success: true, count: updates.length };
+      } catch (error) {
+        console.error('Error batch writing preset metadata:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+}
@@ -1,6 +1,7 @@
-import { ipcMain } from 'electron';
+import { app, ipcMain } from 'electron';
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { startJournalEntry } from '../utils/operationJournal';
 
 const METADATA_FILENAME = '.project-metadata.json';
 
@@ -32,35 +33,44 @@ export function registerProjectMetadataHandlers(): void {
     async (_event, projectPath: string, customName: string) => {
       try {
         const metadataPath = path.join(projectPath, METADATA_FILENAME);
+        const journal = startJournalEntry(
+          { cardRoot: path.dirname(projectPath), userDataDir: app.getPath('userData') },
+          `Rename ${path.basename(projectPath)}`
+        );
+        await journal.backup([metadataPath]);
 
-        // If customName is empty, delete the metadata file if it exists
-        if (!customName || customName.trim() === '') {
+        try {
+          // If customName is empty, delete the metadata file if it exists
+          if (!customName || customName.trim() === '') {
+            try {
+              await fs.unlink(metadataPath);
+            } catch {
+              // File doesn't exist, that's fine
+            }
+            return { success: true };
+          }
+
+          // Only create the file if there's a custom name
+          const metadata: ProjectMetadata = {
+            customName: customName.trim(),
+          };
+
+          // Check if file exists and delete it first to avoid permission issues
+          // (Windows can't modify files from other computers, but can delete them)
           try {
+            await fs.access(metadataPath);
+            // File exists - delete it first
             await fs.unlink(metadataPath);
           } catch {
             // File doesn't exist, that's fine
           }
-          return { success: true };
-        }
 
-        // Only create the file if there's a custom name
-        const metadata: ProjectMetadata = {
-          customName: customName.trim(),
-        };
-
-        // Check if file exists and delete it first to avoid permission issues
-        // (Windows can't modify files from other computers, but can delete them)
-        try {
-          await fs.access(metadataPath);
-          // File exists - delete it first
-          await fs.unlink(metadataPath);
-        } catch {
-          // File doesn't exist, that's fine
+          // Now create a fresh file with current user's permissions
+          await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
+        } finally {
+          await journal.commit();
         }
 
-        // Now create a fresh file with current user's permissions
-        await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
-
         return { success: true };
       } catch (error) {
         console.error('Error writing project metadata:', error);
@@ -76,7 +86,18 @@ export function registerProjectMetadataHandlers(): void {
   ipcMain.handle(
     'project:batchWriteMetadata',
     async (_event, updates: Array<{ projectPath: string; customName: string }>) => {
+      if (updates.length === 0) {
+        return { success: true, count: 0 };
+      }
+
+      const journal = startJournalEntry(
+        { cardRoot: path.dirname(updates[0].projectPath), userDataDir: app.getPath('userData') },
+        `Rename ${updates.length} project${updates.length === 1 ? '' : 's'}`
+      );
       try {
+        await journal.backup(
+          updates.map(({ projectPath }) => path.join(projectPath, METADATA_FILENAME))
+        );
         const results = await Promise.all(
           updates.map(async ({ projectPath, customName }) => {
             try {
@@ -119,6 +140,8 @@ export function registerProjectMetadataHandlers(): void {
           })
         );
 
+        await journal.commit();
+
         const failures = results.filter((r) => !r.success);
         if (failures.length > 0) {
           return {
@@ -0,0 +1,32 @@
+import { ipcMain } from 'electron';
+import { MultigainStructure, SampleSearchQuery } from '@shared/types';
+import { refreshSearchIndex, searchSamples } from '../utils/sampleSearchIndex';
+
+export function registerSearchHandlers(): void {
+  // Build the sample search index, or re-read only what changed since the last refresh
+  ipcMain.handle('search:refreshIndex', async (_event, structure: MultigainStructure) => {
+    try {
+      const result = await refreshSearchIndex(structure);
+      return { success: true, ...result };
+    } catch (error) {
+      console.error('Error building search index:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Query the in-memory index, never reads the card
+  ipcMain.handle('search:samples', async (_event, rootPath: string, query: SampleSearchQuery) => {
+    try {
+      const response = await searchSamples(rootPath, query);
+      return { success: true, ...response };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+}
@@ -0,0 +1,57 @@
+import { app, ipcMain } from 'electron';
+import path from 'node:path';
+import { GlobalSettingsUpdate } from '@shared/types';
+import { FOLDER_NAMES } from '@shared/constants';
+import {
+  readGlobalSettings,
+  writeGlobalSettings,
+  SETTINGS_BACKUP_FOLDER,
+} from '../utils/settingsParser';
+import { startJournalEntry } from '../utils/operationJournal';
+
+export function registerSettingsHandlers(): void {
+  // Read Settings.mgs from the Multigrain root folder
+  ipcMain.handle('settings:read', async (_event, rootPath: string) => {
+    try {
+      const settings = await readGlobalSettings(path.join(rootPath, FOLDER_NAMES.SETTINGS_FILE));
+      return { success: true, settings };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Write changed settings, keeping every other byte of the file
+  ipcMain.handle(
+    'settings:write',
+    async (_event, rootPath: string, updates: GlobalSettingsUpdate) => {
+      try {
+        const settingsPath = path.join(rootPath, FOLDER_NAMES.SETTINGS_FILE);
+        const journal = startJournalEntry(
+          { cardRoot: rootPath, userDataDir: app.getPath('userData') },
+          `Edit ${FOLDER_NAMES.SETTINGS_FILE}`
+        );
+        await journal.backup([settingsPath]);
+
+        try {
+          const result = await writeGlobalSettings(
+            settingsPath,
+            updates,
+            path.join(app.getPath('userData'), SETTINGS_BACKUP_FOLDER)
+          );
+          return { success: true, ...result };
+        } finally {
+          await journal.commit();
+        }
+      } catch (error) {
+        console.error('Error writing settings:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,99 @@
+import { app, ipcMain } from 'electron';
+import path from 'node:path';
+import { TrashConflictMode, TrashLocation } from '@shared/types';
+import {
+  emptyTrash,
+  listTrash,
+  readTrashLocation,
+  restoreFromTrash,
+  TrashStores,
+  writeTrashLocation,
+} from '../utils/trash';
+import { startJournalEntry } from '../utils/operationJournal';
+
+const getStores = (rootPath: string): TrashStores => ({
+  cardRoot: rootPath,
+  userDataDir: app.getPath('userData'),
+});
+
+export function registerTrashHandlers(): void {
+  // Items in the card's trash and the trash on this computer
+  ipcMain.handle('trash:list', async (_event, rootPath: string) => {
+    try {
+      const items = await listTrash(getStores(rootPath));
+      const location = await readTrashLocation(app.getPath('userData'));
+      return { success: true, items, location };
+    } catch (error) {
+      console.error('Error listing trash:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Move items back to where they were deleted from
+  ipcMain.handle(
+    'trash:restore',
+    async (_event, rootPath: string, ids: string[], mode: TrashConflictMode) => {
+      try {
+        const stores = getStores(rootPath);
+        const items = await listTrash(stores);
+        const result = await restoreFromTrash(stores, ids, mode);
+
+        // Undoing the restore moves the items back to the trash and brings
+        // back what they replaced
+        if (result.restored.length > 0) {
+          const journal = startJournalEntry(
+            stores,
+            result.restored.length === 1
+              ? `Restore ${path.basename(result.restored[0].path)}`
+              : `Restore ${result.restored.length} items`
+          );
+          for (const { id, path: itemPath, replaced } of result.restored) {
+            if (replaced) {
+              journal.trashed(itemPath, replaced);
+            }
+            journal.created(itemPath, items.find((item) => item.id === id)!.kind);
+          }
+          await journal.commit();
+        }
+
+        return { success: result.failed.length === 0, ...result };
+      } catch (error) {
+        console.error('Error restoring from trash:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Delete trashed items for good, all of them when no ids are given
+  ipcMain.handle('trash:empty', async (_event, rootPath: string, ids?: string[]) => {
+    try {
+      const deleted = await emptyTrash(getStores(rootPath), ids);
+      return { success: true, deleted };
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Choose where deleted items go from now on
+  ipcMain.handle('trash:setLocation', async (_event, location: TrashLocation) => {
+    try {
+      await writeTrashLocation(app.getPath('userData'), location);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+}
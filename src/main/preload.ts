@@ -26,12 +26,48 @@ contextBridge.exposeInMainWorld('electronAPI', {
   findMultigrainFolder: (searchPath: string) =>
     ipcRenderer.invoke('multigrain:findFolder', searchPath),
 
+  // Global settings operations
+  readGlobalSettings: (rootPath: string) => ipcRenderer.invoke('settings:read', rootPath),
+  writeGlobalSettings: (
+    rootPath: string,
+    updates: import('../shared/types').GlobalSettingsUpdate
+  ) => ipcRenderer.invoke('settings:write', rootPath, updates),
+
+  // Card-wide sample search
+  refreshSearchIndex: (structure: import('../shared/types').MultigainStructure) =>
+    ipcRenderer.invoke('search:refreshIndex', structure),
+  searchSamples: (rootPath: string, query: import('../shared/types').SampleSearchQuery) =>
+    ipcRenderer.invoke('search:samples', rootPath, query),
+
+  // Trash of deleted samples and projects
+  listTrash: (rootPath: string) => ipcRenderer.invoke('trash:list', rootPath),
+  restoreFromTrash: (
+    rootPath: string,
+    ids: string[],
+    mode: import('../shared/types').TrashConflictMode
+  ) => ipcRenderer.invoke('trash:restore', rootPath, ids, mode),
+  emptyTrash: (rootPath: string, ids?: string[]) =>
+    ipcRenderer.invoke('trash:empty', rootPath, ids),
+  setTrashLocation: (location: import('../shared/types').TrashLocation) =>
+    ipcRenderer.invoke('trash:setLocation', location),
+  // Undo history of changes made to the card
+  getHistory: (rootPath: string) => ipcRenderer.invoke('history:list', rootPath),
+  undoChange: (rootPath: string) => ipcRenderer.invoke('history:undo', rootPath),
+  redoChange: (rootPath: string) => ipcRenderer.invoke('history:redo', rootPath),
+  clearHistory: (rootPath: string) => ipcRenderer.invoke('history:clear', rootPath),
+
   // Audio operations
   convertAudio: (inputPath: string, outputPath: string) =>
     ipcRenderer.invoke('audio:convert', inputPath, outputPath),
   readAudioMetadata: (filePath: string) => ipcRenderer.invoke('audio:readMetadata', filePath),
-  writeAudioMetadata: (filePath: string, description: string) =>
-    ipcRenderer.invoke('audio:writeMetadata', filePath, description),
+  writeAudioMetadata: (
+    filePath: string,
+    metadata: string | Partial<import('../shared/types').WavInfoTags>
+  ) => ipcRenderer.invoke('audio:writeMetadata', filePath, metadata),
+  scanWavStructure: (structure: import('../shared/types').MultigainStructure) =>
+    ipcRenderer.invoke('audio:scanWavStructure', structure),
+  repairWavStructure: (filePaths: string[]) =>
+    ipcRenderer.invoke('audio:repairWavStructure', filePaths),
 
   // Project metadata operations
   readProjectMetadata: (projectPath: string) =>
@@ -41,12 +77,35 @@ contextBridge.exposeInMainWorld('electronAPI', {
   batchWriteProjectMetadata: (updates: Array<{ projectPath: string; customName: string }>) =>
     ipcRenderer.invoke('project:batchWriteMetadata', updates),
 
+  // Preset metadata operations
+  readPresetMetadata: (presetPath: string) => ipcRenderer.invoke('preset:readMetadata', presetPath),
+  writePresetMetadata: (presetPath: string, customName: string, notes: string) =>
+    ipcRenderer.invoke('preset:writeMetadata', presetPath, customName, notes),
+  batchWritePresetMetadata: (
+    updates: Array<{ presetPath: string; customName: string; notes?: string }>
+  ) => ipcRenderer.invoke('preset:batchWriteMetadata', updates),
+
   // Project operations
   createProject: (rootPath: string, projectNumber: number, customName?: string) =>
     ipcRenderer.invoke('project:create', rootPath, projectNumber, customName),
 
   // Preset operations
   readPresetSamples: (filePath: string) => ipcRenderer.invoke('preset:readSamples', filePath),
+  readPresetData: (filePath: string) => ipcRenderer.invoke('preset:readData', filePath),
+  assignPresetSample: (presetPath: string, soundNumber: number, samplePath: string) =>
+    ipcRenderer.invoke('preset:assignSample', presetPath, soundNumber, samplePath),
+  diffPresets: (leftPath: string, rightPath: string) =>
+    ipcRenderer.invoke('preset:diff', leftPath, rightPath),
+  planPresetTransfer: (request: import('../shared/types').PresetTransferRequest) =>
+    ipcRenderer.invoke('preset:planTransfer', request),
+  transferPreset: (request: import('../shared/types').PresetTransferRequest) =>
+    ipcRenderer.invoke('preset:transfer', request),
+  findMissingPresetSamples: (structure: import('../shared/types').MultigainStructure) =>
+    ipcRenderer.invoke('preset:findMissingSamples', structure),
+  repairPresetSamples: (fixes: import('../shared/types').PresetRepairFix[]) =>
+    ipcRenderer.invoke('preset:repairSamples', fixes),
+  exportPresetJson: (presetPath: string) => ipcRenderer.invoke('preset:exportJson', presetPath),
+  importPresetJson: (presetPath: string) => ipcRenderer.invoke('preset:importJson', presetPath),
 
   // Import operations
   selectImportFiles: () => ipcRenderer.invoke('import:selectFiles'),
@@ -72,18 +131,56 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
   // File operations (delete)
   deleteProject: (projectPath: string) => ipcRenderer.invoke('files:deleteProject', projectPath),
-  deleteSample: (samplePath: string) => ipcRenderer.invoke('files:deleteSample', samplePath),
-  deleteSamples: (samplePaths: string[]) => ipcRenderer.invoke('files:deleteSamples', samplePaths),
+  deleteSample: (samplePath: string, options?: { force?: boolean }) =>
+    ipcRenderer.invoke('files:deleteSample', samplePath, options),
+  deleteSamples: (samplePaths: string[], options?: { force?: boolean }) =>
+    ipcRenderer.invoke('files:deleteSamples', samplePaths, options),
+  findSampleUsages: (samplePaths: string[]) =>
+    ipcRenderer.invoke('files:findSampleUsages', samplePaths),
+  previewDeleteProject: (projectPath: string) =>
+    ipcRenderer.invoke('files:previewDeleteProject', projectPath),
+
+  // File operations (unused samples)
+  findUnusedSamples: (structure: import('../shared/types').MultigainStructure) =>
+    ipcRenderer.invoke('files:findUnusedSamples', structure),
+  archiveSamples: (samplePaths: string[]) =>
+    ipcRenderer.invoke('files:archiveSamples', samplePaths),
+  findDuplicateSamples: (
+    structure: import('../shared/types').MultigainStructure,
+    mode: import('../shared/types').DuplicateMatchMode
+  ) => ipcRenderer.invoke('files:findDuplicateSamples', structure, mode),
+  consolidateDuplicates: (keepPath: string, duplicatePaths: string[], targetFolder?: string) =>
+    ipcRenderer.invoke('files:consolidateDuplicates', keepPath, duplicatePaths, targetFolder),
+  planRecsOrder: (folderPath: string, orderedPaths: string[]) =>
+    ipcRenderer.invoke('files:planRecsOrder', folderPath, orderedPaths),
+  applyRecsOrder: (folderPath: string, orderedPaths: string[]) =>
+    ipcRenderer.invoke('files:applyRecsOrder', folderPath, orderedPaths),
+  undoRecsOrder: (folderPath: string) => ipcRenderer.invoke('files:undoRecsOrder', folderPath),
 
   // File operations (rename)
   renameSample: (samplePath: string, newName: string) =>
     ipcRenderer.invoke('files:renameSample', samplePath, newName),
+  renameSamples: (renames: Array<{ path: string; newName: string }>) =>
+    ipcRenderer.invoke('files:renameSamples', renames),
+  readRenameTokens: (samplePaths: string[]) =>
+    ipcRenderer.invoke('files:readRenameTokens', samplePaths),
+
+  // File operations (move / copy between folders)
+  planSampleTransfer: (
+    samplePaths: string[],
+    targetFolder: string,
+    mode: import('../shared/types').SampleTransferMode
+  ) => ipcRenderer.invoke('files:planSampleTransfer', samplePaths, targetFolder, mode),
+  moveSamples: (samplePaths: string[], targetFolder: string) =>
+    ipcRenderer.invoke('files:moveSamples', samplePaths, targetFolder),
+  copySamples: (samplePaths: string[], targetFolder: string) =>
+    ipcRenderer.invoke('files:copySamples', samplePaths, targetFolder),
 
   // File operations (numbering)
-  previewNumberPrefixes: (folderPath: string) =>
-    ipcRenderer.invoke('files:previewNumberPrefixes', folderPath),
-  applyNumberPrefixes: (folderPath: string) =>
-    ipcRenderer.invoke('files:applyNumberPrefixes', folderPath),
+  previewNumberPrefixes: (folderPath: string, order?: string[]) =>
+    ipcRenderer.invoke('files:previewNumberPrefixes', folderPath, order),
+  applyNumberPrefixes: (folderPath: string, order?: string[]) =>
+    ipcRenderer.invoke('files:applyNumberPrefixes', folderPath, order),
 
   // PDF export operations
   exportOverviewPdf: (structure: import('../shared/types').MultigainStructure) =>
@@ -120,6 +217,79 @@ export type ElectronAPI = {
   listDrives: () => Promise<string[]>;
   validateMultigrain: (rootPath: string) => Promise<import('../shared/types').ValidationResult>;
   findMultigrainFolder: (searchPath: string) => Promise<string | null>;
+  readGlobalSettings: (rootPath: string) => Promise<{
+    success: boolean;
+    settings?: import('../shared/types').GlobalSettings;
+    error?: string;
+  }>;
+  writeGlobalSettings: (
+    rootPath: string,
+    updates: import('../shared/types').GlobalSettingsUpdate
+  ) => Promise<{
+    success: boolean;
+    settings?: import('../shared/types').GlobalSettings;
+    backupPath?: string | null;
+    error?: string;
+  }>;
+  refreshSearchIndex: (structure: import('../shared/types').MultigainStructure) => Promise<{
+    success: boolean;
+    sampleCount?: number;
+    readCount?: number;
+    error?: string;
+  }>;
+  searchSamples: (
+    rootPath: string,
+    query: import('../shared/types').SampleSearchQuery
+  ) => Promise<{
+    success: boolean;
+    results?: import('../shared/types').SampleSearchResult[];
+    totalCount?: number;
+    error?: string;
+  }>;
+  listTrash: (rootPath: string) => Promise<{
+    success: boolean;
+    items?: import('../shared/types').TrashItem[];
+    location?: import('../shared/types').TrashLocation;
+    error?: string;
+  }>;
+  restoreFromTrash: (
+    rootPath: string,
+    ids: string[],
+    mode: import('../shared/types').TrashConflictMode
+  ) => Promise<
+    { success: boolean; error?: string } & Partial<import('../shared/types').TrashRestoreResult>
+  >;
+  emptyTrash: (
+    rootPath: string,
+    ids?: string[]
+  ) => Promise<{
+    success: boolean;
+    deleted?: number;
+    error?: string;
+  }>;
+  setTrashLocation: (location: import('../shared/types').TrashLocation) => Promise<{
+    success: boolean;
+    error?: string;
+  }>;
+  getHistory: (
+    rootPath: string
+  ) => Promise<
+    { success: boolean; error?: string } & Partial<import('../shared/types').HistoryState>
+  >;
+  undoChange: (rootPath: string) => Promise<{
+    success: boolean;
+    entry?: import('../shared/types').HistoryEntry | null; // null when there was nothing to do
+    error?: string;
+  }>;
+  redoChange: (rootPath: string) => Promise<{
+    success: boolean;
+    entry?: import('../shared/types').HistoryEntry | null; // null when there was nothing to do
+    error?: string;
+  }>;
+  clearHistory: (rootPath: string) => Promise<{
+    success: boolean;
+    error?: string;
+  }>;
   convertAudio: (inputPath: string, outputPath: string) => Promise<void>;
   cropAudio: (
     filePath: string,
@@ -134,14 +304,27 @@ export type ElectronAPI = {
     sampleRate: number;
     bitDepth: number;
     channels: number;
+    tags?: import('../shared/types').WavInfoTags; // RIFF INFO tags
   }>;
+  // A string sets the description, an object the given INFO tags
   writeAudioMetadata: (
     filePath: string,
-    description: string
+    metadata: string | Partial<import('../shared/types').WavInfoTags>
   ) => Promise<{
     success: boolean;
     error?: string;
   }>;
+  scanWavStructure: (structure: import('../shared/types').MultigainStructure) => Promise<{
+    success: boolean;
+    report?: import('../shared/types').WavStructureReport;
+    error?: string;
+  }>;
+  repairWavStructure: (filePaths: string[]) => Promise<{
+    success: boolean;
+    repaired?: string[];
+    failed?: Array<{ path: string; error: string }>;
+    error?: string;
+  }>;
   readProjectMetadata: (projectPath: string) => Promise<{
     customName: string;
   }>;
@@ -159,6 +342,25 @@ export type ElectronAPI = {
     count?: number;
     error?: string;
   }>;
+  readPresetMetadata: (presetPath: string) => Promise<{
+    customName: string;
+    notes: string;
+  }>;
+  writePresetMetadata: (
+    presetPath: string,
+    customName: string,
+    notes: string
+  ) => Promise<{
+    success: boolean;
+    error?: string;
+  }>;
+  batchWritePresetMetadata: (
+    updates: Array<{ presetPath: string; customName: string; notes?: string }>
+  ) => Promise<{
+    success: boolean;
+    count?: number;
+    error?: string;
+  }>;
   createProject: (
     rootPath: string,
     projectNumber: number,
@@ -172,6 +374,66 @@ export type ElectronAPI = {
   readPresetSamples: (filePath: string) => Promise<{
     success: boolean;
     samples?: string[];
+    // Stored folder per sample, null where it could not be decoded
+    folders?: Array<import('../shared/types').PresetSampleFolder | null>;
+    error?: string;
+  }>;
+  readPresetData: (filePath: string) => Promise<{
+    success: boolean;
+    data?: import('../shared/types').PresetData;
+    error?: string;
+  }>;
+  diffPresets: (
+    leftPath: string,
+    rightPath: string
+  ) => Promise<{
+    success: boolean;
+    diff?: import('../shared/types').PresetDiff;
+    error?: string;
+  }>;
+  assignPresetSample: (
+    presetPath: string,
+    soundNumber: number,
+    samplePath: string
+  ) => Promise<{
+    success: boolean;
+    folder?: import('../shared/types').PresetSampleFolder;
+    backupPath?: string;
+    error?: string;
+  }>;
+  planPresetTransfer: (request: import('../shared/types').PresetTransferRequest) => Promise<{
+    success: boolean;
+    plan?: import('../shared/types').PresetTransferPlan;
+    error?: string;
+  }>;
+  transferPreset: (request: import('../shared/types').PresetTransferRequest) => Promise<{
+    success: boolean;
+    targetPath?: string;
+    copiedSamples?: string[];
+    backupPaths?: string[];
+    error?: string;
+  }>;
+  findMissingPresetSamples: (structure: import('../shared/types').MultigainStructure) => Promise<{
+    success: boolean;
+    missing?: import('../shared/types').MissingPresetSample[];
+    error?: string;
+  }>;
+  repairPresetSamples: (fixes: import('../shared/types').PresetRepairFix[]) => Promise<{
+    success: boolean;
+    updatedPresets?: string[];
+    backupPaths?: string[];
+    error?: string;
+  }>;
+  exportPresetJson: (presetPath: string) => Promise<{
+    success: boolean;
+    filePath?: string;
+    canceled?: boolean;
+    error?: string;
+  }>;
+  importPresetJson: (presetPath: string) => Promise<{
+    success: boolean;
+    backupPath?: string | null;
+    canceled?: boolean;
     error?: string;
   }>;
   selectImportFiles: () => Promise<string[] | null>;
@@ -200,15 +462,89 @@ export type ElectronAPI = {
     success: boolean;
     error?: string;
   }>;
-  deleteSample: (samplePath: string) => Promise<{
+  deleteSample: (
+    samplePath: string,
+    options?: { force?: boolean }
+  ) => Promise<{
     success: boolean;
+    usages?: import('../shared/types').SampleUsage[];
     error?: string;
   }>;
-  deleteSamples: (samplePaths: string[]) => Promise<{
+  deleteSamples: (
+    samplePaths: string[],
+    options?: { force?: boolean }
+  ) => Promise<{
     success: boolean;
     count?: number;
     total?: number;
     results?: Array<{ path: string; success: boolean; error?: string }>;
+    usages?: import('../shared/types').SampleUsage[];
+    error?: string;
+  }>;
+  findSampleUsages: (samplePaths: string[]) => Promise<{
+    success: boolean;
+    usages?: import('../shared/types').SampleUsage[];
+    error?: string;
+  }>;
+  previewDeleteProject: (projectPath: string) => Promise<{
+    success: boolean;
+    unusedSamples?: import('../shared/types').SampleUsage[];
+    error?: string;
+  }>;
+  findUnusedSamples: (structure: import('../shared/types').MultigainStructure) => Promise<{
+    success: boolean;
+    report?: import('../shared/types').UnusedSampleReport;
+    error?: string;
+  }>;
+  archiveSamples: (samplePaths: string[]) => Promise<{
+    success: boolean;
+    archived?: Array<{ sourcePath: string; targetPath: string }>;
+    manifestPath?: string;
+    canceled?: boolean;
+    error?: string;
+  }>;
+  findDuplicateSamples: (
+    structure: import('../shared/types').MultigainStructure,
+    mode: import('../shared/types').DuplicateMatchMode
+  ) => Promise<{
+    success: boolean;
+    report?: import('../shared/types').DuplicateSampleReport;
+    error?: string;
+  }>;
+  consolidateDuplicates: (
+    keepPath: string,
+    duplicatePaths: string[],
+    targetFolder?: string
+  ) => Promise<{
+    success: boolean;
+    keptPath?: string;
+    deleted?: string[];
+    updatedPresets?: string[];
+    skipped?: Array<{ path: string; reason: string }>;
+    error?: string;
+  }>;
+  planRecsOrder: (
+    folderPath: string,
+    orderedPaths: string[]
+  ) => Promise<{
+    success: boolean;
+    plan?: import('../shared/types').RecsOrderPlan;
+    undo?: import('../shared/types').RecsOrderUndo | null;
+    error?: string;
+  }>;
+  applyRecsOrder: (
+    folderPath: string,
+    orderedPaths: string[]
+  ) => Promise<{
+    success: boolean;
+    plan?: import('../shared/types').RecsOrderPlan;
+    error?: string;
+  }>;
+  undoRecsOrder: (folderPath: string) => Promise<{
+    success: boolean;
+    restored?: string[];
+    missing?: string[];
+    error?: string;
   }>;
   renameSample: (
     samplePath: string,
@@ -217,9 +553,56 @@ export type ElectronAPI = {
     success: boolean;
     newPath?: string;
     newName?: string;
+    updatedPresets?: import('../shared/types').PresetReferenceUpdate[];
+    presetOverflows?: import('../shared/types').PresetReferenceOverflow[];
+    error?: string;
+    details?: string;
+  }>;
+  renameSamples: (renames: Array<{ path: string; newName: string }>) => Promise<{
+    success: boolean;
+    renamed?: Array<{ oldPath: string; newPath: string }>;
+    updatedPresets?: import('../shared/types').PresetReferenceUpdate[];
+    presetOverflows?: import('../shared/types').PresetReferenceOverflow[];
+    errors?: Array<{ oldName: string; error: string }>;
+    error?: string;
+    details?: string;
+  }>;
+  readRenameTokens: (samplePaths: string[]) => Promise<{
+    success: boolean;
+    tokens?: Record<string, import('../shared/types').SampleRenameTokens>;
     error?: string;
   }>;
-  previewNumberPrefixes: (folderPath: string) => Promise<{
+  planSampleTransfer: (
+    samplePaths: string[],
+    targetFolder: string,
+    mode: import('../shared/types').SampleTransferMode
+  ) => Promise<{
+    success: boolean;
+    plan?: import('../shared/types').SampleTransferPlan;
+    error?: string;
+  }>;
+  moveSamples: (
+    samplePaths: string[],
+    targetFolder: string
+  ) => Promise<{
+    success: boolean;
+    moved?: import('../shared/types').SampleTransferItem[];
+    updatedPresets?: import('../shared/types').PresetReferenceUpdate[];
+    brokenReferences?: import('../shared/types').PresetReferenceBreak[];
+    error?: string;
+  }>;
+  copySamples: (
+    samplePaths: string[],
+    targetFolder: string
+  ) => Promise<{
+    success: boolean;
+    copied?: import('../shared/types').SampleTransferItem[];
+    error?: string;
+  }>;
+  previewNumberPrefixes: (
+    folderPath: string,
+    order?: string[]
+  ) => Promise<{
     success: boolean;
     scheme?: {
       pattern: string;
@@ -228,15 +611,22 @@ export type ElectronAPI = {
     };
     alreadyNumbered?: number;
     toRename?: Array<{ oldName: string; newName: string }>;
-    presetWarnings?: string[];
+    presetUpdates?: import('../shared/types').PresetReferenceUpdate[];
+    presetOverflows?: import('../shared/types').PresetReferenceOverflow[];
     error?: string;
   }>;
-  applyNumberPrefixes: (folderPath: string) => Promise<{
+  applyNumberPrefixes: (
+    folderPath: string,
+    order?: string[]
+  ) => Promise<{
     success: boolean;
     renamed?: Array<{ oldName: string; newName: string }>;
+    updatedPresets?: import('../shared/types').PresetReferenceUpdate[];
+    presetOverflows?: import('../shared/types').PresetReferenceOverflow[];
     errors?: Array<{ oldName: string; error: string }>;
     message?: string;
     error?: string;
+    details?: string;
   }>;
   exportOverviewPdf: (structure: import('../shared/types').MultigainStructure) => Promise<{
     success: boolean;
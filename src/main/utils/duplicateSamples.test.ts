@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import { consolidateDuplicates, findDuplicateSamples, readPcmData } from './duplicateSamples';
+import { decodePreset } from './presetParser';
+import { listTrash, TrashStores } from './trash';
+import {
+  createPreset,
+  createWav,
+  createMockStructure,
+  createMockProject,
+  createMockSample,
+  createMockPreset,
+} from '../../test/helpers';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+vi.mock('fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+/**
+ * Create a 16-bit mono WAV, optionally with an INFO chunk before the audio
+ */
+function createPcmWav(samples: number[], comment?: string, sampleRate = 1000): Buffer {
+  const fmt = Buffer.alloc(16);
+  fmt.writeUInt16LE(1, 0); // PCM
+  fmt.writeUInt16LE(1, 2); // Mono
+  fmt.writeUInt32LE(sampleRate, 4);
+  fmt.writeUInt32LE(sampleRate * 2, 8); // Byte rate
+  fmt.writeUInt16LE(2, 12); // Block align
+  fmt.writeUInt16LE(16, 14); // Bits per sample
+
+  const chunks: Array<[string, Buffer]> = [['fmt ', fmt]];
+  if (comment) {
+    const text = Buffer.from(comment.length % 2 ? `${comment}\0` : comment, 'ascii');
+    const size = Buffer.alloc(4);
+    size.writeUInt32LE(text.length, 0);
+    chunks.push(['LIST', Buffer.concat([Buffer.from('INFOICMT', 'ascii'), size, text])]);
+  }
+
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => data.writeInt16LE(sample, i * 2));
+  chunks.push(['data', data]);
+
+  return createWav(chunks);
+}
+
+function readSounds(presetPath: string) {
+  return decodePreset(vol.readFileSync(presetPath) as Buffer)
+    .sounds.filter((sound) => sound.sampleFilename)
+    .map((sound) => [sound.sampleFilename, sound.sampleFolder]);
+}
+
+const stores: TrashStores = { cardRoot: '/card', userDataDir: '/userData' };
+
+// A decaying ramp, long enough for every fingerprint point to hold audio
+const KICK = Array.from(
+  { length: 640 },
+  (_, i) => Math.round(20000 * (1 - i / 640)) * (i % 2 ? 1 : -1)
+);
+const PAD = Array.from({ length: 640 }, (_, i) => Math.round(8000 * Math.sin(i / 10)));
+
+describe('duplicateSamples', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe('readPcmData', () => {
+    it('should return the same audio bytes whatever INFO chunks the file has', () => {
+      const plain = readPcmData(createPcmWav(KICK));
+      const tagged = readPcmData(createPcmWav(KICK, 'Punchy kick'));
+
+      expect(tagged.data.equals(plain.data)).toBe(true);
+      expect(plain.format).toEqual({
+        audioFormat: 1,
+        channels: 1,
+        sampleRate: 1000,
+        bitsPerSample: 16,
+      });
+    });
+
+    it('should reject files that are not WAV', () => {
+      expect(() => readPcmData(Buffer.from('not a wav file at all'))).toThrow(
+        'Not a valid WAV file'
+      );
+    });
+  });
+
+  describe('findDuplicateSamples', () => {
+    const setupCard = () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': createPcmWav(KICK),
+        '/card/Project01/Preset01.mgp': createPreset([['kick.wav', 'PROJECT']]),
+        '/card/Project02/BD 01.wav': createPcmWav(KICK, 'Copied from Project01'),
+        '/card/Project02/kick-quiet.wav': createPcmWav(
+          KICK.map((sample) => Math.round(sample / 2))
+        ),
+        '/card/Wavs/pad.wav': createPcmWav(PAD),
+        '/card/Recs/broken.wav': 'not audio',
+      });
+      const sample = (folder: string, name: string) =>
+        createMockSample({ name, path: `/card/${folder}/${name}` });
+
+      return createMockStructure({
+        rootPath: '/card',
+        projects: [
+          createMockProject({
+            path: '/card/Project01',
+            samples: [sample('Project01', 'kick.wav')],
+            presets: [createMockPreset({ name: 'Preset01', path: '/card/Project01/Preset01.mgp' })],
+          }),
+          createMockProject({
+            path: '/card/Project02',
+            index: 2,
+            name: 'Project02',
+            samples: [sample('Project02', 'BD 01.wav'), sample('Project02', 'kick-quiet.wav')],
+          }),
+        ],
+        globalWavs: [sample('Wavs', 'pad.wav')],
+        recordings: [sample('Recs', 'broken.wav')],
+      });
+    };
+
+    it('should group identical audio regardless of name and INFO chunks', async () => {
+      const report = await findDuplicateSamples(setupCard(), 'exact');
+
+      expect(report.scannedCount).toBe(4);
+      expect(report.unreadable).toEqual(['/card/Recs/broken.wav']);
+      expect(report.groups).toHaveLength(1);
+      expect(report.groups[0].samples.map((s) => s.path)).toEqual([
+        '/card/Project01/kick.wav',
+        '/card/Project02/BD 01.wav',
+      ]);
+      expect(report.groups[0].samples[0].usages).toMatchObject([
+        { presetPath: '/card/Project01/Preset01.mgp', soundNumber: 1 },
+      ]);
+      expect(report.groups[0].samples[0].duration).toBeCloseTo(0.64);
+    });
+
+    it('should also group copies at another level in near-duplicate mode', async () => {
+      const report = await findDuplicateSamples(setupCard(), 'similar');
+
+      expect(report.groups).toHaveLength(1);
+      expect(report.groups[0].samples.map((s) => s.name)).toEqual([
+        'kick.wav',
+        'BD 01.wav',
+        'kick-quiet.wav',
+      ]);
+    });
+
+    it('should not group the same audio bytes in another sample rate', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': createPcmWav(KICK),
+        '/card/Wavs/kick-fast.wav': createPcmWav(KICK, undefined, 2000),
+      });
+      const structure = createMockStructure({
+        rootPath: '/card',
+        projects: [
+          createMockProject({
+            path: '/card/Project01',
+            samples: [createMockSample({ name: 'kick.wav', path: '/card/Project01/kick.wav' })],
+          }),
+        ],
+        globalWavs: [createMockSample({ name: 'kick-fast.wav', path: '/card/Wavs/kick-fast.wav' })],
+      });
+
+      expect((await findDuplicateSamples(structure, 'exact')).groups).toEqual([]);
+      expect((await findDuplicateSamples(structure, 'similar')).groups).toEqual([]);
+    });
+  });
+
+  describe('consolidateDuplicates', () => {
+    it('should move the kept copy to Wavs, relink presets and trash the others', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': createPcmWav(KICK),
+        '/card/Project01/Preset01.mgp': createPreset([['kick.wav', 'PROJECT']]),
+        '/card/Project02/BD 01.wav': createPcmWav(KICK),
+        '/card/Project02/Preset01.mgp': createPreset([
+          ['BD 01.wav', 'PROJECT'],
+          ['BD 01.wav', 'PROJECT'],
+        ]),
+        '/card/Wavs/pad.wav': createPcmWav(PAD),
+      });
+
+      const result = await consolidateDuplicates(
+        '/card/Project01/kick.wav',
+        ['/card/Project02/BD 01.wav'],
+        '/backups',
+        stores,
+        '/card/Wavs'
+      );
+
+      expect(result).toEqual({
+        keptPath: '/card/Wavs/kick.wav',
+        deleted: ['/card/Project02/BD 01.wav'],
+        updatedPresets: ['/card/Project02/Preset01.mgp'],
+        skipped: [],
+        trashed: [expect.objectContaining({ originalPath: 'Project02/BD 01.wav' })],
+      });
+      expect(vol.existsSync('/card/Project01/kick.wav')).toBe(false);
+      expect(vol.existsSync('/card/Project02/BD 01.wav')).toBe(false);
+      expect((await listTrash(stores)).map((item) => item.originalPath)).toEqual([
+        'Project02/BD 01.wav',
+      ]);
+      expect(readSounds('/card/Project01/Preset01.mgp')).toEqual([['kick.wav', 'WAVS']]);
+      expect(readSounds('/card/Project02/Preset01.mgp')).toEqual([
+        ['kick.wav', 'WAVS'],
+        ['kick.wav', 'WAVS'],
+      ]);
+      expect(vol.readdirSync('/backups')).toHaveLength(1);
+    });
+
+    it('should keep copies that presets in other projects cannot be pointed away from', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': createPcmWav(KICK),
+        '/card/Project01/kick copy.wav': createPcmWav(KICK),
+        '/card/Project02/BD 01.wav': createPcmWav(KICK),
+        '/card/Project02/Preset01.mgp': createPreset([['BD 01.wav', 'PROJECT']]),
+        '/card/Wavs/pad.wav': createPcmWav(PAD),
+      });
+
+      const result = await consolidateDuplicates(
+        '/card/Project01/kick.wav',
+        ['/card/Project01/kick copy.wav', '/card/Project02/BD 01.wav'],
+        '/backups',
+        stores
+      );
+
+      expect(result.deleted).toEqual(['/card/Project01/kick copy.wav']);
+      expect(result.skipped).toEqual([
+        {
+          path: '/card/Project02/BD 01.wav',
+          reason: 'Project02/Preset01 cannot load samples from another project',
+        },
+      ]);
+      expect(vol.existsSync('/card/Project02/BD 01.wav')).toBe(true);
+      expect(readSounds('/card/Project02/Preset01.mgp')).toEqual([['BD 01.wav', 'PROJECT']]);
+    });
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Find samples that hold the same audio under different names, and keep one
+ * copy per group. Presets that loaded the other copies are pointed at the
+ * kept one before the copies are deleted, so nothing shows as NOT FOUND.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  DuplicateConsolidation,
+  DuplicateMatchMode,
+  DuplicateSample,
+  DuplicateSampleReport,
+  MultigainStructure,
+  PresetRepairFix,
+  SampleFolder,
+  SampleUsage,
+  TrashItem,
+} from '@shared/types';
+import { FOLDER_NAMES, formatProjectDisplayName } from '@shared/constants';
+import { hasKnownLayout } from './presetParser';
+import { applyPresetRepairs } from './presetRepair';
+import { buildSampleUsageIndex } from './sampleUsage';
+import { executeSampleTransfer } from './sampleTransfer';
+import { moveToTrash, TrashStores } from './trash';
+
+// Loudness envelope points per sample in similar mode
+export const FINGERPRINT_LENGTH = 64;
+
+// Similar samples differ in length by at most 2%...
+const DURATION_TOLERANCE = 0.02;
+// ...and in envelope by at most 5% of full scale on average
+const ENVELOPE_TOLERANCE = 0.05;
+
+// Frames read per envelope point; long files are sampled, not read in full
+const FRAMES_PER_POINT = 2048;
+
+interface PcmFormat {
+  audioFormat: number; // 1 = integer PCM, 3 = float
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+}
+
+/**
+ * Format and audio bytes of a WAV file. Every other chunk (INFO, cue points,
+ * padding) is skipped, so the audio can be compared on its own.
+ */
+export function readPcmData(buffer: Buffer): { format: PcmFormat; data: Buffer } {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a valid WAV file');
+  }
+
+  let format: PcmFormat | null = null;
+  let position = 12;
+  while (position <= buffer.length - 8) {
+    const chunkId = buffer.toString('ascii', position, position + 4);
+    const chunkSize = buffer.readUInt32LE(position + 4);
+    const start = position + 8;
+
+    if (chunkId === 'fmt ') {
+      format = {
+        audioFormat: buffer.readUInt16LE(start),
+        channels: buffer.readUInt16LE(start + 2),
+        sampleRate: buffer.readUInt32LE(start + 4),
+        bitsPerSample: buffer.readUInt16LE(start + 14),
+      };
+    } else if (chunkId === 'data') {
+      if (!format) throw new Error('No fmt chunk before the data chunk');
+      return { format, data: buffer.subarray(start, Math.min(start + chunkSize, buffer.length)) };
+    }
+
+    position = start + chunkSize + (chunkSize % 2); // Account for padding
+  }
+  throw new Error('No data chunk found');
+}
+
+/**
+ * Loudness envelope of the audio, peak-normalized so level changes between
+ * copies do not matter
+ */
+export function fingerprintPcm(format: PcmFormat, data: Buffer): number[] {
+  const bytesPerSample = format.bitsPerSample / 8;
+  const frameSize = bytesPerSample * format.channels;
+  const frameCount = frameSize > 0 ? Math.floor(data.length / frameSize) : 0;
+
+  const readSample = (offset: number) => {
+    if (format.audioFormat === 3 && bytesPerSample === 4) return data.readFloatLE(offset);
+    switch (bytesPerSample) {
+      case 1:
+        return (data[offset] - 128) / 128;
+      case 2:
+        return data.readInt16LE(offset) / 0x8000;
+      case 3:
+        return data.readIntLE(offset, 3) / 0x800000;
+      case 4:
+        return data.readInt32LE(offset) / 0x80000000;
+      default:
+        return 0;
+    }
+  };
+
+  const envelope: number[] = [];
+  for (let point = 0; point < FINGERPRINT_LENGTH; point++) {
+    const first = Math.floor((point * frameCount) / FINGERPRINT_LENGTH);
+    const last = Math.floor(((point + 1) * frameCount) / FINGERPRINT_LENGTH);
+    const step = Math.max(1, Math.floor((last - first) / FRAMES_PER_POINT));
+
+    let sum = 0;
+    let count = 0;
+    for (let frame = first; frame < last; frame += step) {
+      let mono = 0;
+      for (let channel = 0; channel < format.channels; channel++) {
+        mono += readSample(frame * frameSize + channel * bytesPerSample);
+      }
+      mono /= format.channels;
+      sum += mono * mono;
+      count++;
+    }
+    envelope.push(count > 0 ? Math.sqrt(sum / count) : 0);
+  }
+
+  const peak = Math.max(...envelope);
+  return peak > 0 ? envelope.map((value) => value / peak) : envelope;
+}
+
+interface ScannedSample {
+  sample: DuplicateSample;
+  // The same bytes in another format play at another pitch or speed, so only
+  // samples with the same format can match
+  formatKey: string;
+  hash: string;
+  envelope: number[];
+}
+
+const getFormatKey = (format: PcmFormat) =>
+  `${format.audioFormat}-${format.channels}-${format.sampleRate}-${format.bitsPerSample}`;
+
+function isSimilar(a: ScannedSample, b: ScannedSample): boolean {
+  if (a.formatKey !== b.formatKey) return false;
+  const longest = Math.max(a.sample.duration, b.sample.duration);
+  if (
+    longest > 0 &&
+    Math.abs(a.sample.duration - b.sample.duration) / longest > DURATION_TOLERANCE
+  ) {
+    return false;
+  }
+  const difference = a.envelope.reduce((sum, value, i) => sum + Math.abs(value - b.envelope[i]), 0);
+  return difference / FINGERPRINT_LENGTH <= ENVELOPE_TOLERANCE;
+}
+
+/**
+ * Group samples across projects, Wavs and Recs that hold the same audio
+ */
+export async function findDuplicateSamples(
+  structure: MultigainStructure,
+  mode: DuplicateMatchMode
+): Promise<DuplicateSampleReport> {
+  const usageIndex = await buildSampleUsageIndex(structure.rootPath);
+  const folders = [
+    ...structure.projects.map((project) => ({
+      folderPath: project.path,
+      folderLabel: formatProjectDisplayName(project.index, project.name, project.customName),
+      samples: project.samples,
+    })),
+    {
+      folderPath: path.join(structure.rootPath, FOLDER_NAMES.WAVS),
+      folderLabel: FOLDER_NAMES.WAVS,
+      samples: structure.globalWavs,
+    },
+    {
+      folderPath: path.join(structure.rootPath, FOLDER_NAMES.RECS),
+      folderLabel: FOLDER_NAMES.RECS,
+      samples: structure.recordings,
+    },
+  ];
+
+  // Read one file at a time; samples can be large
+  const scanned: ScannedSample[] = [];
+  const unreadable: string[] = [];
+  for (const { folderPath, folderLabel, samples } of folders) {
+    for (const sample of samples) {
+      try {
+        const { format, data } = readPcmData(await fs.readFile(sample.path));
+        const frameSize = (format.bitsPerSample / 8) * format.channels;
+        scanned.push({
+          sample: {
+            name: sample.name,
+            path: sample.path,
+            folderPath,
+            folderLabel,
+            size: sample.size,
+            duration:
+              frameSize > 0 && format.sampleRate > 0
+                ? data.length / frameSize / format.sampleRate
+                : 0,
+            usages: usageIndex.get(path.normalize(sample.path)) ?? [],
+          },
+          formatKey: getFormatKey(format),
+          hash: crypto.createHash('sha256').update(data).digest('hex'),
+          envelope: mode === 'similar' ? fingerprintPcm(format, data) : [],
+        });
+      } catch {
+        unreadable.push(sample.path);
+      }
+    }
+  }
+
+  // Union-find over scanned samples; identical audio always matches
+  const parent = scanned.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(b)] = find(a);
+  };
+
+  const byKey = new Map<string, number>();
+  scanned.forEach((entry, i) => {
+    const key = `${entry.formatKey}:${entry.hash}`;
+    const first = byKey.get(key);
+    if (first === undefined) {
+      byKey.set(key, i);
+    } else {
+      union(first, i);
+    }
+  });
+
+  if (mode === 'similar') {
+    // Only samples of about the same length can match, so compare neighbours
+    const byDuration = scanned
+      .map((entry, i) => ({ i, duration: entry.sample.duration }))
+      .sort((a, b) => a.duration - b.duration);
+    for (let a = 0; a < byDuration.length; a++) {
+      for (let b = a + 1; b < byDuration.length; b++) {
+        const limit = byDuration[b].duration * (1 - DURATION_TOLERANCE);
+        if (byDuration[a].duration < limit) break;
+        const [first, second] = [byDuration[a].i, byDuration[b].i];
+        if (find(first) !== find(second) && isSimilar(scanned[first], scanned[second])) {
+          union(first, second);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, DuplicateSample[]>();
+  scanned.forEach((entry, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), entry.sample]);
+  });
+
+  return {
+    mode,
+    groups: Array.from(groups.entries())
+      .filter(([, samples]) => samples.length > 1)
+      .map(([root, samples]) => ({
+        id: `${scanned[root].formatKey}:${scanned[root].hash}`,
+        samples,
+      })),
+    scannedCount: scanned.length,
+    unreadable,
+  };
+}
+
+function getSampleFolder(samplePath: string, rootPath: string): SampleFolder {
+  const folderPath = path.resolve(path.dirname(samplePath));
+  if (folderPath === path.resolve(rootPath, FOLDER_NAMES.WAVS)) return 'WAVS';
+  if (folderPath === path.resolve(rootPath, FOLDER_NAMES.RECS)) return 'RECS';
+  return 'PROJECT';
+}
+
+/**
+ * Why a preset sound cannot be pointed at the kept sample, or null if it can
+ */
+async function findRelinkProblem(
+  usage: SampleUsage,
+  keptPath: string,
+  duplicatePath: string,
+  rootPath: string
+): Promise<string | null> {
+  const keptFolder = getSampleFolder(keptPath, rootPath);
+  if (
+    keptFolder === 'PROJECT' &&
+    path.resolve(path.dirname(usage.presetPath)) !== path.resolve(path.dirname(keptPath))
+  ) {
+    return `${usage.projectName}/${usage.presetName} cannot load samples from another project`;
+  }
+  if (keptFolder !== getSampleFolder(duplicatePath, rootPath)) {
+    if (!hasKnownLayout(await fs.readFile(usage.presetPath))) {
+      return `${usage.projectName}/${usage.presetName} uses an older preset layout, its sample folder cannot be rewritten`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Keep one sample of a duplicate group and move the others to the trash. With
+ * a target folder, the kept sample is first moved there (e.g. consolidating
+ * into Wavs frees project slots). Every preset sound that loaded a removed
+ * copy is pointed at the kept sample; copies that some preset could not be
+ * pointed at are left on the card. Changed presets are backed up. Returns the
+ * trash items of the removed copies along with the result.
+ */
+export async function consolidateDuplicates(
+  keepPath: string,
+  duplicatePaths: string[],
+  backupDir: string,
+  trashStores: TrashStores,
+  targetFolder?: string
+): Promise<DuplicateConsolidation & { trashed: TrashItem[] }> {
+  let keptPath = keepPath;
+  if (targetFolder && path.resolve(targetFolder) !== path.resolve(path.dirname(keepPath))) {
+    const plan = await executeSampleTransfer([keepPath], targetFolder, 'move');
+    keptPath = plan.items[0].targetPath;
+  }
+
+  const rootPath = path.dirname(path.dirname(keptPath));
+  const usageIndex = await buildSampleUsageIndex(rootPath);
+  const keptName = path.basename(keptPath);
+  const keptFolder = getSampleFolder(keptPath, rootPath);
+
+  const fixes: PresetRepairFix[] = [];
+  const toDelete: string[] = [];
+  const skipped: DuplicateConsolidation['skipped'] = [];
+  for (const duplicatePath of duplicatePaths) {
+    if (path.resolve(duplicatePath) === path.resolve(keepPath)) continue;
+
+    const usages = usageIndex.get(path.normalize(duplicatePath)) ?? [];
+    let problem: string | null = null;
+    for (const usage of usages) {
+      problem = await findRelinkProblem(usage, keptPath, duplicatePath, rootPath);
+      if (problem) break;
+    }
+    if (problem) {
+      skipped.push({ path: duplicatePath, reason: problem });
+      continue;
+    }
+
+    fixes.push(
+      ...usages.map((usage) => ({
+        presetPath: usage.presetPath,
+        soundNumber: usage.soundNumber,
+        oldName: path.basename(duplicatePath),
+        newName: keptName,
+        folder: keptFolder,
+      }))
+    );
+    toDelete.push(duplicatePath);
+  }
+
+  const { updatedPresets } =
+    fixes.length > 0 ? await applyPresetRepairs(fixes, backupDir) : { updatedPresets: [] };
+  const trashed: TrashItem[] = [];
+  for (const duplicatePath of toDelete) {
+    trashed.push(await moveToTrash(trashStores, duplicatePath, 'sample'));
+  }
+
+  return { keptPath, deleted: toDelete, updatedPresets, skipped, trashed };
+}
@@ -25,9 +25,11 @@ vi.mock('music-metadata', () => ({
 // Mock presetParser
 vi.mock('./presetParser', () => ({
   extractSamplesFromPreset: vi.fn(),
+  extractSampleFoldersFromPreset: vi.fn().mockResolvedValue([]),
 }));
 
-import { extractSamplesFromPreset } from './presetParser';
+import { parseFile } from 'music-metadata';
+import { extractSamplesFromPreset, extractSampleFoldersFromPreset } from './presetParser';
 
 describe('Export Data Aggregator', () => {
   beforeEach(() => {
@@ -258,6 +260,85 @@ describe('Export Data Aggregator', () => {
       expect(preset.samples[3].location).toBe('NOT_FOUND');
     });
 
+    it('should use the folder stored in the preset over the search order', async () => {
+      const project = createMockProject({
+        index: 1,
+        samples: [
+          createMockSample({ name: 'kick.wav', path: '/test/Project01/kick.wav' }),
+          createMockSample({ name: 'pad.wav', path: '/test/Project01/pad.wav' }),
+        ],
+        presets: [createMockPreset({ name: 'Preset01.mgp', path: '/test/preset1.mgp' })],
+      });
+
+      const structure = createMockStructure({
+        projects: [project],
+        globalWavs: [createMockSample({ name: 'kick.wav', path: '/test/Wavs/kick.wav' })],
+        recordings: [createMockSample({ name: 'pad.wav', path: '/test/Recs/pad.wav' })],
+      });
+
+      vi.mocked(extractSamplesFromPreset).mockResolvedValue(['kick.wav', 'pad.wav', 'gone.wav']);
+      vi.mocked(extractSampleFoldersFromPreset).mockResolvedValueOnce(['WAVS', null, 'RECS']);
+
+      const result = await aggregateProjectData(project, structure);
+
+      const [kick, pad, gone] = result.presets[0].samples;
+      // Decoded folder wins even though PROJECT has a copy
+      expect(kick.location).toBe('WAVS');
+      expect(kick.status).toBe('ok');
+      // No decoded folder and copies in two places
+      expect(pad.location).toBe('PROJECT');
+      expect(pad.status).toBe('ambiguous');
+      expect(gone.location).toBe('NOT_FOUND');
+      expect(gone.status).toBe('missing');
+    });
+
+    it('should describe samples from the folder stored in the preset', async () => {
+      const project = createMockProject({
+        index: 1,
+        samples: [createMockSample({ name: 'kick.wav', path: '/test/Project01/kick.wav' })],
+        presets: [createMockPreset({ name: 'Preset01.mgp', path: '/test/preset1.mgp' })],
+      });
+      const structure = createMockStructure({
+        projects: [project],
+        globalWavs: [createMockSample({ name: 'kick.wav', path: '/test/Wavs/kick.wav' })],
+      });
+
+      vi.mocked(extractSamplesFromPreset).mockResolvedValue(['kick.wav']);
+      vi.mocked(extractSampleFoldersFromPreset).mockResolvedValueOnce(['WAVS']);
+      vi.mocked(parseFile).mockImplementationOnce(
+        async (samplePath) =>
+          ({
+            common: {
+              comment: [samplePath === '/test/Wavs/kick.wav' ? 'Wavs kick' : 'Project kick'],
+            },
+            native: {},
+          }) as never
+      );
+
+      const result = await aggregateProjectData(project, structure);
+
+      expect(result.samples).toEqual([
+        { name: 'kick.wav', description: 'Wavs kick', usedByPresets: ['Preset01.mgp'] },
+      ]);
+    });
+
+    it('should flag samples missing from the stored folder as moved', async () => {
+      const project = createMockProject({
+        index: 1,
+        samples: [createMockSample({ name: 'kick.wav', path: '/test/Project01/kick.wav' })],
+        presets: [createMockPreset({ name: 'Preset01.mgp', path: '/test/preset1.mgp' })],
+      });
+      const structure = createMockStructure({ projects: [project] });
+
+      vi.mocked(extractSamplesFromPreset).mockResolvedValue(['kick.wav']);
+      vi.mocked(extractSampleFoldersFromPreset).mockResolvedValueOnce(['RECS']);
+
+      const result = await aggregateProjectData(project, structure);
+
+      expect(result.presets[0].samples[0].location).toBe('RECS');
+      expect(result.presets[0].samples[0].status).toBe('moved');
+    });
+
     it('should sort samples by usage count then alphabetically', async () => {
       const project = createMockProject({
         index: 1,
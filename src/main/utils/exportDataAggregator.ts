@@ -7,56 +7,37 @@ import { parseFile } from 'music-metadata';
 import {
   MultigainStructure,
   Project,
+  Preset,
   OverviewData,
   ProjectExportData,
-  WavFile,
+  PresetSampleFolder,
 } from '@shared/types';
 import { getProjectBankInfo } from '@shared/constants';
-import { extractSamplesFromPreset } from './presetParser';
-
-// Sample resolution result
-interface ResolvedSample {
-  name: string;
-  location: 'PROJECT' | 'WAVS' | 'RECS' | 'NOT_FOUND';
-  sample?: WavFile;
-}
+import { resolvePresetSample } from '@shared/sampleResolution';
+import { extractSamplesFromPreset, extractSampleFoldersFromPreset } from './presetParser';
 
 /**
- * Aggregate overview data for all projects on the SD card
+ * Stored sample folder per slot. Falls back to no folders (folder search) if
+ * the preset cannot be decoded.
  */
-export async function aggregateOverviewData(structure: MultigainStructure): Promise<OverviewData> {
-  const projectsData = structure.projects.map((project) => {
-    const { bank, position } = getProjectBankInfo(project.index);
-    const bankPosition = `${bank} / ${position}`;
-
-    return {
-      index: project.index,
-      bankPosition,
-      name: project.name,
-      customName: project.customName,
-      sampleCount: project.samples.length,
-      presetCount: project.presets.length,
-    };
-  });
-
-  return {
-    rootPath: structure.rootPath,
-    totalProjects: structure.projects.length,
-    projects: projectsData,
-  };
+async function readSampleFolders(presetPath: string): Promise<Array<PresetSampleFolder | null>> {
+  try {
+    return await extractSampleFoldersFromPreset(presetPath);
+  } catch {
+    return [];
+  }
 }
 
 /**
- * Aggregate detailed project data including samples and presets
+ * Sample names and stored folders of every preset in a project, Autosave first
  */
-export async function aggregateProjectData(
-  project: Project,
-  structure: MultigainStructure
-): Promise<ProjectExportData> {
-  const { bank, position } = getProjectBankInfo(project.index);
-  const bankPosition = `${bank} / ${position}`;
-
-  // Read all preset samples
+export async function readProjectPresetSamples(project: Project): Promise<
+  Array<{
+    preset: Preset;
+    sampleNames: string[];
+    sampleFolders: Array<PresetSampleFolder | null>;
+  }>
+> {
   const presetsWithSamples = await Promise.all(
     project.presets.map(async (preset) => {
       try {
@@ -64,12 +45,14 @@ export async function aggregateProjectData(
         return {
           preset,
           sampleNames: samples,
+          sampleFolders: await readSampleFolders(preset.path),
         };
       } catch (error) {
         console.error(`Error reading preset ${preset.name}:`, error);
         return {
           preset,
           sampleNames: Array(8).fill(''),
+          sampleFolders: [] as Array<PresetSampleFolder | null>,
         };
       }
     })
@@ -82,30 +65,103 @@ export async function aggregateProjectData(
       presetsWithSamples.unshift({
         preset: project.autosave,
         sampleNames: autosaveSamples,
+        sampleFolders: await readSampleFolders(project.autosave.path),
       });
     } catch (error) {
       console.error('Error reading autosave preset:', error);
       presetsWithSamples.unshift({
         preset: project.autosave,
         sampleNames: Array(8).fill(''),
+        sampleFolders: [],
       });
     }
   }
 
-  // Build reverse mapping: sample name -> presets that use it (filter out empty slots)
+  return presetsWithSamples;
+}
+
+/**
+ * Description (WAV comment) and duration in seconds of a sample file.
+ * Unreadable files give an empty description and zero duration.
+ */
+export async function readSampleMetadata(
+  samplePath: string
+): Promise<{ description: string; duration: number }> {
+  try {
+    const metadata = await parseFile(samplePath);
+    const commentObj = metadata.common.comment?.[0];
+    let commentText = '';
+    if (typeof commentObj === 'string') {
+      commentText = commentObj;
+    } else if (commentObj && typeof commentObj === 'object' && 'text' in commentObj) {
+      commentText = String((commentObj as { text?: string }).text || '');
+    }
+    const riffComment = metadata.native?.['RIFF']?.find((tag) => tag.id === 'ICMT')?.value;
+    return {
+      description: commentText || (typeof riffComment === 'string' ? riffComment : '') || '',
+      duration: metadata.format?.duration ?? 0,
+    };
+  } catch {
+    // Ignore errors reading metadata
+    return { description: '', duration: 0 };
+  }
+}
+
+/**
+ * Aggregate overview data for all projects on the SD card
+ */
+export async function aggregateOverviewData(structure: MultigainStructure): Promise<OverviewData> {
+  const projectsData = structure.projects.map((project) => {
+    const { bank, position } = getProjectBankInfo(project.index);
+    const bankPosition = `${bank} / ${position}`;
+
+    return {
+      index: project.index,
+      bankPosition,
+      name: project.name,
+      customName: project.customName,
+      sampleCount: project.samples.length,
+      presetCount: project.presets.length,
+    };
+  });
+
+  return {
+    rootPath: structure.rootPath,
+    totalProjects: structure.projects.length,
+    projects: projectsData,
+  };
+}
+
+/**
+ * Aggregate detailed project data including samples and presets
+ */
+export async function aggregateProjectData(
+  project: Project,
+  structure: MultigainStructure
+): Promise<ProjectExportData> {
+  const { bank, position } = getProjectBankInfo(project.index);
+  const bankPosition = `${bank} / ${position}`;
+
+  // Read all preset samples
+  const presetsWithSamples = await readProjectPresetSamples(project);
+
+  // Build reverse mapping: sample name -> presets that use it (filter out empty slots),
+  // and the folder stored by the first preset that references each name
   const sampleUsageMap = new Map<string, string[]>();
-  for (const { preset, sampleNames } of presetsWithSamples) {
-    for (const sampleName of sampleNames) {
+  const sampleFolderMap = new Map<string, PresetSampleFolder | null>();
+  for (const { preset, sampleNames, sampleFolders } of presetsWithSamples) {
+    sampleNames.forEach((sampleName, index) => {
       // Skip empty sample slots
       if (!sampleName || sampleName.trim() === '') {
-        continue;
+        return;
       }
 
       if (!sampleUsageMap.has(sampleName)) {
         sampleUsageMap.set(sampleName, []);
+        sampleFolderMap.set(sampleName, sampleFolders[index] ?? null);
       }
       sampleUsageMap.get(sampleName)!.push(preset.name);
-    }
+    });
   }
 
   // Get unique sample names from project folder
@@ -117,7 +173,12 @@ export async function aggregateProjectData(
   // entries in the reference sheet's sample list. They still appear inside
   // each preset's slot list as NOT_FOUND.
   for (const sampleName of sampleUsageMap.keys()) {
-    const resolved = resolveSampleLocation(sampleName, project, structure);
+    const resolved = resolvePresetSample(
+      sampleName,
+      sampleFolderMap.get(sampleName),
+      project,
+      structure
+    );
     if (resolved.location !== 'NOT_FOUND') {
       projectSampleNames.add(sampleName);
     }
@@ -130,25 +191,15 @@ export async function aggregateProjectData(
   // Read descriptions for all samples
   const samplesData = await Promise.all(
     Array.from(projectSampleNames).map(async (sampleName) => {
-      const resolved = resolveSampleLocation(sampleName, project, structure);
-      let description = '';
-
-      if (resolved.sample) {
-        try {
-          const metadata = await parseFile(resolved.sample.path);
-          const commentObj = metadata.common.comment?.[0];
-          let commentText = '';
-          if (typeof commentObj === 'string') {
-            commentText = commentObj;
-          } else if (commentObj && typeof commentObj === 'object' && 'text' in commentObj) {
-            commentText = String((commentObj as { text?: string }).text || '');
-          }
-          const riffComment = metadata.native?.['RIFF']?.find((tag) => tag.id === 'ICMT')?.value;
-          description = commentText || (typeof riffComment === 'string' ? riffComment : '') || '';
-        } catch {
-          // Ignore errors reading metadata
-        }
-      }
+      const resolved = resolvePresetSample(
+        sampleName,
+        sampleFolderMap.get(sampleName),
+        project,
+        structure
+      );
+      const description = resolved.sample
+        ? (await readSampleMetadata(resolved.sample.path)).description
+        : '';
 
       const usedByPresets = sampleUsageMap.get(sampleName) || [];
       console.log(`Sample "${sampleName}" used by:`, usedByPresets);
@@ -170,19 +221,22 @@ export async function aggregateProjectData(
   });
 
   // Build preset data with resolved sample locations
-  const presetsData = presetsWithSamples.map(({ preset, sampleNames }) => {
+  const presetsData = presetsWithSamples.map(({ preset, sampleNames, sampleFolders }) => {
     const samples = sampleNames.map((sampleName, index) => {
-      const resolved = resolveSampleLocation(sampleName, project, structure);
+      const resolved = resolvePresetSample(sampleName, sampleFolders[index], project, structure);
       return {
         slotNumber: index + 1,
         name: sampleName,
         location: resolved.location,
+        status: resolved.status,
       };
     });
 
     return {
       name: preset.name,
       index: preset.index,
+      customName: preset.customName,
+      notes: preset.notes,
       isAutosave: preset.index === 0 && preset.name === 'Autosave',
       samples,
     };
@@ -199,34 +253,3 @@ export async function aggregateProjectData(
     presets: presetsData,
   };
 }
-
-/**
- * Resolve sample location with priority: PROJECT > WAVS > RECS
- * Matches logic from PresetViewer.tsx
- */
-function resolveSampleLocation(
-  sampleName: string,
-  currentProject: Project,
-  structure: MultigainStructure
-): ResolvedSample {
-  // 1. Check current project folder first
-  const projectSample = currentProject.samples.find((s) => s.name === sampleName);
-  if (projectSample) {
-    return { name: sampleName, location: 'PROJECT', sample: projectSample };
-  }
-
-  // 2. Check global WAVS folder
-  const wavsSample = structure.globalWavs.find((s) => s.name === sampleName);
-  if (wavsSample) {
-    return { name: sampleName, location: 'WAVS', sample: wavsSample };
-  }
-
-  // 3. Check RECS folder
-  const recsSample = structure.recordings.find((s) => s.name === sampleName);
-  if (recsSample) {
-    return { name: sampleName, location: 'RECS', sample: recsSample };
-  }
-
-  // Not found in any location
-  return { name: sampleName, location: 'NOT_FOUND' };
-}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { assignHardwareIndexes, compareHardwareNames } from './hardwareOrder';
+import { createMockSample } from '../../test/helpers';
+
+const sample = (name: string, modifiedTime?: number) =>
+  createMockSample({ name, path: `/card/Wavs/${name}`, modifiedTime });
+
+describe('hardwareOrder', () => {
+  describe('compareHardwareNames', () => {
+    it('should sort by bytes rather than by locale', () => {
+      const names = ['bass.wav', 'Kick.wav', '_loop.wav', 'Ébow.wav', 'snare.wav'];
+
+      expect([...names].sort(compareHardwareNames)).toEqual([
+        'Kick.wav',
+        '_loop.wav',
+        'bass.wav',
+        'snare.wav',
+        'Ébow.wav',
+      ]);
+      expect([...names].sort((a, b) => a.localeCompare(b))).not.toEqual(
+        [...names].sort(compareHardwareNames)
+      );
+    });
+  });
+
+  describe('assignHardwareIndexes', () => {
+    it('should index by name and keep the given order', () => {
+      const samples = [sample('bass.wav'), sample('Kick.wav'), sample('snare.wav')];
+
+      expect(assignHardwareIndexes(samples, 'name').map((s) => [s.name, s.hardwareIndex])).toEqual([
+        ['bass.wav', 2],
+        ['Kick.wav', 1],
+        ['snare.wav', 3],
+      ]);
+    });
+
+    it('should index recordings newest first', () => {
+      const samples = [
+        sample('REC001.wav', 1000),
+        sample('REC002.wav', 3000),
+        sample('REC003.wav', 2000),
+      ];
+
+      expect(assignHardwareIndexes(samples, 'newestFirst').map((s) => s.hardwareIndex)).toEqual([
+        3, 1, 2,
+      ]);
+    });
+  });
+});
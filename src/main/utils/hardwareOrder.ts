@@ -0,0 +1,40 @@
+/**
+ * The order the Multigrain module indexes samples in. Project folders and
+ * Wavs are indexed by filename, Recs by modification time, newest first.
+ * The app lists samples with a locale-aware sort, which can differ from the
+ * module's for mixed case, accents and punctuation.
+ *
+ * How the firmware compares filenames is not documented and has not been
+ * checked on a module yet. The byte-wise comparison below is a working
+ * hypothesis (the plain strcmp of a FAT directory listing); indexes that
+ * depend on case or punctuation may be wrong until it is confirmed.
+ */
+
+import { WavFile } from '../../shared/types';
+
+// name        - filename, compared byte by byte (assumed firmware behaviour)
+// newestFirst - modification time, newest first
+export type HardwareSortRule = 'name' | 'newestFirst';
+
+/**
+ * Compare filenames the way the module is assumed to: by UTF-8 bytes, so
+ * uppercase sorts before lowercase and "_" after uppercase letters.
+ * Unconfirmed - see the note at the top of this file.
+ */
+export function compareHardwareNames(a: string, b: string): number {
+  return Buffer.compare(Buffer.from(a, 'utf8'), Buffer.from(b, 'utf8'));
+}
+
+/**
+ * Set each sample's hardwareIndex for its folder. The samples keep the order
+ * they are given in.
+ */
+export function assignHardwareIndexes(samples: WavFile[], rule: HardwareSortRule): WavFile[] {
+  const hardwareOrder = [...samples].sort((a, b) =>
+    rule === 'newestFirst'
+      ? (b.modifiedTime ?? 0) - (a.modifiedTime ?? 0) || compareHardwareNames(a.name, b.name)
+      : compareHardwareNames(a.name, b.name)
+  );
+  const indexes = new Map(hardwareOrder.map((sample, i) => [sample.path, i + 1]));
+  return samples.map((sample) => ({ ...sample, hardwareIndex: indexes.get(sample.path) }));
+}
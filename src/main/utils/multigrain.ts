@@ -9,9 +9,18 @@ import {
   FileEntry,
 } from '../../shared/types';
 import { FOLDER_NAMES, FILE_EXTENSIONS, STORAGE_LIMITS } from '../../shared/constants';
-
-// Files to ignore (macOS metadata, etc.)
-const IGNORED_PATTERNS = ['.DS_Store', '._', '.Spotlight', '.fseventsd', '__MACOSX'];
+import { getPresetMetadataKey, readPresetMetadataFile } from './presetMetadata';
+import { assignHardwareIndexes, HardwareSortRule } from './hardwareOrder';
+
+// Files to ignore (macOS metadata, the app's trash, etc.)
+const IGNORED_PATTERNS = [
+  '.DS_Store',
+  '._',
+  '.Spotlight',
+  '.fseventsd',
+  '__MACOSX',
+  FOLDER_NAMES.TRASH,
+];
 
 function shouldIgnore(name: string): boolean {
   return IGNORED_PATTERNS.some((pattern) => name.startsWith(pattern));
@@ -32,7 +41,7 @@ async function getDirectoryEntries(dirPath: string): Promise<FileEntry[]> {
   }
 }
 
-async function getWavFiles(dirPath: string): Promise<WavFile[]> {
+async function getWavFiles(dirPath: string, sortRule: HardwareSortRule): Promise<WavFile[]> {
   const entries = await getDirectoryEntries(dirPath);
   const wavFiles: WavFile[] = [];
 
@@ -44,6 +53,7 @@ async function getWavFiles(dirPath: string): Promise<WavFile[]> {
           name: entry.name,
           path: entry.path,
           size: stats.size,
+          modifiedTime: stats.mtimeMs,
         });
       } catch {
         // Skip files we can't stat
@@ -51,7 +61,11 @@ async function getWavFiles(dirPath: string): Promise<WavFile[]> {
     }
   }
 
-  return wavFiles.sort((a, b) => a.name.localeCompare(b.name));
+  // Listed by name; hardwareIndex gives the module's own order
+  return assignHardwareIndexes(
+    wavFiles.sort((a, b) => a.name.localeCompare(b.name)),
+    sortRule
+  );
 }
 
 async function parseProject(projectPath: string, projectName: string): Promise<Project | null> {
@@ -64,23 +78,27 @@ async function parseProject(projectPath: string, projectName: string): Promise<P
 
   const entries = await getDirectoryEntries(projectPath);
 
-  // Find presets
+  // Find presets, with custom names and notes from the metadata file
+  const presetMetadata = await readPresetMetadataFile(projectPath);
   const presets: Preset[] = [];
   for (const entry of entries) {
     if (!entry.isDirectory && entry.name.match(/^Preset\d{2}\.mgp$/i)) {
       const presetMatch = entry.name.match(/^Preset(\d{2})\.mgp$/i);
       if (presetMatch) {
+        const metadata = presetMetadata[getPresetMetadataKey(entry.name)];
         presets.push({
           name: entry.name,
           path: entry.path,
           index: parseInt(presetMatch[1], 10),
+          customName: metadata?.customName || undefined,
+          notes: metadata?.notes || undefined,
         });
       }
     }
   }
 
   // Find WAV samples
-  const samples = await getWavFiles(projectPath);
+  const samples = await getWavFiles(projectPath, 'name');
 
   // Check for autosave and create preset object if it exists
   const autosaveEntry = entries.find(
@@ -162,11 +180,11 @@ export async function validateMultigrainStructure(rootPath: string): Promise<Val
 
   // Get global WAVs
   const wavsPath = path.join(multigrainPath, FOLDER_NAMES.WAVS);
-  const globalWavs = await getWavFiles(wavsPath);
+  const globalWavs = await getWavFiles(wavsPath, 'name');
 
   // Get recordings
   const recsPath = path.join(multigrainPath, FOLDER_NAMES.RECS);
-  const recordings = await getWavFiles(recsPath);
+  const recordings = await getWavFiles(recsPath, 'newestFirst');
 
   // Validation checks
   if (!hasSettings) {
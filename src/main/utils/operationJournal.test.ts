@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import {
+  clearHistory,
+  readHistory,
+  redoNextChange,
+  startJournalEntry,
+  undoLastChange,
+} from './operationJournal';
+import { moveToTrash, TrashStores } from './trash';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+vi.mock('fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+const stores: TrashStores = { cardRoot: '/card', userDataDir: '/userData' };
+const PRESET = '/card/Project01/Preset01.mgp';
+const KICK = '/card/Wavs/kick.wav';
+const SNARE = '/card/Wavs/snare.wav';
+
+const read = (filePath: string) => vol.readFileSync(filePath, 'utf-8');
+const exists = (filePath: string) => vol.existsSync(filePath);
+
+// Rename a sample and point the preset at it, like the rename handler
+const renameKick = async () => {
+  const journal = startJournalEntry(stores, 'Rename kick.wav to bass.wav');
+  await journal.backup([PRESET]);
+  vol.renameSync(KICK, '/card/Wavs/bass.wav');
+  vol.writeFileSync(PRESET, 'uses bass.wav');
+  journal.renamed(KICK, '/card/Wavs/bass.wav');
+  await journal.commit();
+};
+
+describe('operationJournal', () => {
+  beforeEach(() => {
+    vol.reset();
+    vol.fromJSON({
+      [PRESET]: 'uses kick.wav',
+      [KICK]: 'kick',
+      [SNARE]: 'snare',
+    });
+  });
+
+  it('should undo and redo renames and file writes', async () => {
+    await renameKick();
+
+    expect((await readHistory(stores)).entries).toEqual([
+      expect.objectContaining({ label: 'Rename kick.wav to bass.wav', undone: false }),
+    ]);
+
+    expect(await undoLastChange(stores)).toMatchObject({ undone: true });
+    expect(read(KICK)).toBe('kick');
+    expect(exists('/card/Wavs/bass.wav')).toBe(false);
+    expect(read(PRESET)).toBe('uses kick.wav');
+
+    await redoNextChange(stores);
+    expect(read('/card/Wavs/bass.wav')).toBe('kick');
+    expect(read(PRESET)).toBe('uses bass.wav');
+    expect(await redoNextChange(stores)).toBeNull();
+  });
+
+  it('should undo renames that swap names', async () => {
+    const journal = startJournalEntry(stores, 'Renumber samples in Wavs');
+    vol.renameSync(KICK, '/card/Wavs/tmp');
+    vol.renameSync(SNARE, KICK);
+    vol.renameSync('/card/Wavs/tmp', SNARE);
+    journal.renamed(KICK, SNARE);
+    journal.renamed(SNARE, KICK);
+    await journal.commit();
+
+    await undoLastChange(stores);
+
+    expect(read(KICK)).toBe('kick');
+    expect(read(SNARE)).toBe('snare');
+  });
+
+  it('should restore deleted items from the trash and trash them again on redo', async () => {
+    const journal = startJournalEntry(stores, 'Delete kick.wav');
+    journal.trashed(KICK, await moveToTrash(stores, KICK, 'sample'));
+    await journal.commit();
+
+    await undoLastChange(stores);
+    expect(read(KICK)).toBe('kick');
+
+    await redoNextChange(stores);
+    expect(exists(KICK)).toBe(false);
+
+    await undoLastChange(stores);
+    expect(read(KICK)).toBe('kick');
+  });
+
+  it('should move created samples to the trash on undo', async () => {
+    vol.writeFileSync('/card/Wavs/hat.wav', 'hat');
+    const journal = startJournalEntry(stores, 'Import 1 sample into Wavs');
+    journal.created('/card/Wavs/hat.wav', 'sample');
+    await journal.commit();
+
+    await undoLastChange(stores);
+    expect(exists('/card/Wavs/hat.wav')).toBe(false);
+    expect(exists('/card/.multigrain-trash/manifest.json')).toBe(true);
+
+    await redoNextChange(stores);
+    expect(read('/card/Wavs/hat.wav')).toBe('hat');
+  });
+
+  it('should not record files that were backed up but left unchanged', async () => {
+    const journal = startJournalEntry(stores, 'Rename Project01');
+    await journal.backup([PRESET, '/card/Project01/.project-metadata.json']);
+    await journal.commit();
+
+    expect((await readHistory(stores)).entries).toEqual([]);
+    expect(vol.readdirSync('/userData/journal')).toEqual([]);
+  });
+
+  it('should leave the operation unrecorded when a backup fails', async () => {
+    const originalCopyFile = vol.promises.copyFile;
+    const copyFile = vi
+      .spyOn(vol.promises, 'copyFile')
+      .mockImplementation(async (src, dest, mode) =>
+        src === PRESET
+          ? Promise.reject(
+              Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' })
+            )
+          : originalCopyFile(src, dest, mode)
+      );
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      await expect(renameKick()).resolves.toBeUndefined();
+    } finally {
+      copyFile.mockRestore();
+      consoleError.mockRestore();
+    }
+
+    expect(read('/card/Wavs/bass.wav')).toBe('kick');
+    expect((await readHistory(stores)).entries).toEqual([]);
+    expect(vol.readdirSync('/userData/journal')).toEqual([]);
+  });
+
+  it('should drop entries when the card changed outside the history', async () => {
+    await renameKick();
+    vol.writeFileSync(PRESET, 'edited on another computer');
+
+    const history = await readHistory(stores);
+
+    expect(history.entries).toEqual([]);
+    expect(history.invalidated).toBe(
+      'Project01/Preset01.mgp has changed since "Rename kick.wav to bass.wav", 1 change can no longer be undone'
+    );
+    expect(await undoLastChange(stores)).toBeNull();
+    expect(read(PRESET)).toBe('edited on another computer');
+  });
+
+  it('should drop an undo of a delete when the trash was emptied', async () => {
+    const journal = startJournalEntry(stores, 'Delete kick.wav');
+    journal.trashed(KICK, await moveToTrash(stores, KICK, 'sample'));
+    await journal.commit();
+    vol.rmSync('/card/.multigrain-trash', { recursive: true });
+
+    await expect(undoLastChange(stores)).rejects.toThrow(
+      'Wavs/kick.wav is no longer in the trash, 1 change can no longer be undone'
+    );
+  });
+
+  it('should forget undone changes when a new change is made', async () => {
+    await renameKick();
+    await undoLastChange(stores);
+
+    const journal = startJournalEntry(stores, 'Edit metadata of snare.wav');
+    await journal.backup([SNARE]);
+    vol.writeFileSync(SNARE, 'snare with tags');
+    await journal.commit();
+
+    expect((await readHistory(stores)).entries.map((entry) => entry.label)).toEqual([
+      'Edit metadata of snare.wav',
+    ]);
+  });
+
+  it('should keep a history per card', async () => {
+    await renameKick();
+    const otherCard: TrashStores = { cardRoot: '/other', userDataDir: '/userData' };
+
+    expect((await readHistory(otherCard)).entries).toEqual([]);
+    expect(await undoLastChange(otherCard)).toBeNull();
+
+    await clearHistory(stores);
+    expect((await readHistory(stores)).entries).toEqual([]);
+  });
+});
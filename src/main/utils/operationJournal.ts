@@ -0,0 +1,437 @@
+/**
+ * Undo history of the changes the app makes to a card. Each entry holds the
+ * steps of one operation and what is needed to reverse and repeat them:
+ * backups of rewritten files, renames, and items moved to or from the trash.
+ * The journal and its backups are kept on the computer.
+ *
+ * Every entry also records the size and modification time of the paths it
+ * touched. An entry whose paths no longer match was overtaken by a change
+ * made outside the history, and it is dropped instead of undone.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { HistoryEntry, HistoryState, TrashItem } from '@shared/types';
+import { listTrash, moveToTrash, restoreFromTrash, TrashStores } from './trash';
+
+export const JOURNAL_FOLDER = 'journal';
+
+const JOURNAL_FILENAME = 'journal.json';
+
+// Oldest entries and their backups are dropped beyond this, across all cards
+const MAX_JOURNAL_ENTRIES = 30;
+
+// Directories only have to exist, their times change with every file inside
+type Fingerprint = { size: number; mtimeMs: number } | 'directory' | null;
+
+type JournalStep =
+  // A file rewritten or created. Backups are file names in the entry's
+  // folder, null when there was no file.
+  | { type: 'write'; path: string; before: string | null; after: string | null }
+  // Renames of one entry are applied together, like a two-pass rename
+  | { type: 'rename'; from: string; to: string }
+  // A sample or project moved to the trash, or added to the card. trashId is
+  // set while the item is in the trash.
+  | { type: 'trash' | 'create'; path: string; kind: TrashItem['kind']; trashId: string | null };
+
+interface JournalEntry extends HistoryEntry {
+  cardRoot: string;
+  steps: JournalStep[];
+  // State of every touched path, as the entry left it
+  fingerprints: Record<string, Fingerprint>;
+}
+
+/**
+ * Records the steps of one operation while it runs
+ */
+export interface JournalRecorder {
+  // Back up files before they are rewritten or created. A failed backup is
+  // logged and leaves the operation unrecorded instead of failing it.
+  backup: (filePaths: string[]) => Promise<void>;
+  renamed: (from: string, to: string) => void;
+  trashed: (itemPath: string, item: TrashItem) => void;
+  created: (itemPath: string, kind: TrashItem['kind']) => void;
+  // Add the entry to the history. A journal failure never fails the operation.
+  commit: () => Promise<void>;
+}
+
+const getJournalDir = (stores: TrashStores) => path.join(stores.userDataDir, JOURNAL_FOLDER);
+
+const isOnCard = (entry: JournalEntry, stores: TrashStores) =>
+  entry.cardRoot === path.resolve(stores.cardRoot);
+
+let idCounter = 0;
+const createId = () => `${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+async function readJournal(journalDir: string): Promise<JournalEntry[]> {
+  try {
+    const data = await fs.readFile(path.join(journalDir, JOURNAL_FILENAME), 'utf-8');
+    const entries = JSON.parse(data);
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeJournal(journalDir: string, entries: JournalEntry[]): Promise<void> {
+  await fs.mkdir(journalDir, { recursive: true });
+  await fs.writeFile(
+    path.join(journalDir, JOURNAL_FILENAME),
+    JSON.stringify(entries, null, 2),
+    'utf-8'
+  );
+}
+
+// Drop entries from the journal along with their backups
+async function removeEntries(journalDir: string, removed: JournalEntry[]): Promise<void> {
+  if (removed.length === 0) return;
+
+  const ids = new Set(removed.map((entry) => entry.id));
+  await writeJournal(
+    journalDir,
+    (await readJournal(journalDir)).filter((entry) => !ids.has(entry.id))
+  );
+  for (const entry of removed) {
+    await fs.rm(path.join(journalDir, entry.id), { recursive: true, force: true });
+  }
+}
+
+async function getFingerprint(filePath: string): Promise<Fingerprint> {
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.isDirectory() ? 'directory' : { size: stats.size, mtimeMs: stats.mtimeMs };
+  } catch {
+    return null;
+  }
+}
+
+const isSameFingerprint = (a: Fingerprint, b: Fingerprint) =>
+  a === b ||
+  (typeof a === 'object' &&
+    typeof b === 'object' &&
+    a !== null &&
+    b !== null &&
+    a.size === b.size &&
+    a.mtimeMs === b.mtimeMs);
+
+async function takeFingerprints(steps: JournalStep[]): Promise<Record<string, Fingerprint>> {
+  const fingerprints: Record<string, Fingerprint> = {};
+  for (const step of steps) {
+    for (const stepPath of step.type === 'rename' ? [step.from, step.to] : [step.path]) {
+      fingerprints[stepPath] = await getFingerprint(stepPath);
+    }
+  }
+  return fingerprints;
+}
+
+/**
+ * Why an entry can no longer be undone or redone, or null if the card is as
+ * the entry left it
+ */
+async function findChange(stores: TrashStores, entry: JournalEntry): Promise<string | null> {
+  const describe = (itemPath: string) =>
+    path.relative(entry.cardRoot, itemPath).split(path.sep).join('/');
+
+  for (const [itemPath, fingerprint] of Object.entries(entry.fingerprints)) {
+    if (!isSameFingerprint(await getFingerprint(itemPath), fingerprint)) {
+      return `${describe(itemPath)} has changed since "${entry.label}"`;
+    }
+  }
+
+  const inTrash = entry.steps.filter(
+    (step): step is Extract<JournalStep, { trashId: string | null }> =>
+      (step.type === 'trash' || step.type === 'create') && step.trashId !== null
+  );
+  if (inTrash.length > 0) {
+    const trashIds = new Set((await listTrash(stores)).map((item) => item.id));
+    const missing = inTrash.find((step) => !trashIds.has(step.trashId!));
+    if (missing) {
+      return `${describe(missing.path)} is no longer in the trash`;
+    }
+  }
+
+  return null;
+}
+
+// Rename through temporary names, so renames that swap names cannot collide
+async function renameAll(
+  renames: Array<{ from: string; to: string }>,
+  tempPrefix: string
+): Promise<void> {
+  const temps = renames.map(({ from }, i) =>
+    path.join(path.dirname(from), `${tempPrefix}${i}_${path.basename(from)}`)
+  );
+  for (let i = 0; i < renames.length; i++) {
+    await fs.rename(renames[i].from, temps[i]);
+  }
+  for (let i = 0; i < renames.length; i++) {
+    await fs.rename(temps[i], renames[i].to);
+  }
+}
+
+/**
+ * Reverse an entry's steps, last step first, or repeat them in order
+ */
+async function runSteps(
+  stores: TrashStores,
+  entry: JournalEntry,
+  direction: 'undo' | 'redo'
+): Promise<void> {
+  const entryDir = path.join(getJournalDir(stores), entry.id);
+  const steps = direction === 'undo' ? [...entry.steps].reverse() : entry.steps;
+
+  for (let i = 0; i < steps.length;) {
+    const step = steps[i];
+
+    if (step.type === 'rename') {
+      const renames: Array<{ from: string; to: string }> = [];
+      for (; i < steps.length && steps[i].type === 'rename'; i++) {
+        const { from, to } = steps[i] as Extract<JournalStep, { type: 'rename' }>;
+        renames.push(direction === 'undo' ? { from: to, to: from } : { from, to });
+      }
+      await renameAll(renames, `__journal_${entry.id}_`);
+      continue;
+    }
+    i++;
+
+    if (step.type === 'write') {
+      const backup = direction === 'undo' ? step.before : step.after;
+      if (backup) {
+        await fs.copyFile(path.join(entryDir, backup), step.path);
+      } else {
+        await fs.rm(step.path, { force: true });
+      }
+      continue;
+    }
+
+    // Undo brings a trashed item back and trashes a created one, redo the opposite
+    if ((step.type === 'trash') === (direction === 'redo')) {
+      step.trashId = (await moveToTrash(stores, step.path, step.kind)).id;
+    } else {
+      const result = await restoreFromTrash(stores, [step.trashId!], 'skip');
+      if (result.restored.length === 0) {
+        throw new Error(
+          result.failed[0]?.error ?? `${path.basename(step.path)} could not be restored`
+        );
+      }
+      step.trashId = null;
+    }
+  }
+}
+
+/**
+ * Start recording an operation on a card
+ */
+export function startJournalEntry(stores: TrashStores, label: string): JournalRecorder {
+  const journalDir = getJournalDir(stores);
+  const entry: JournalEntry = {
+    id: createId(),
+    label,
+    timestamp: new Date().toISOString(),
+    undone: false,
+    cardRoot: path.resolve(stores.cardRoot),
+    steps: [],
+    fingerprints: {},
+  };
+  const entryDir = path.join(journalDir, entry.id);
+  const writes: Array<Extract<JournalStep, { type: 'write' }>> = [];
+  // Set when a backup could not be made, the entry could not be undone
+  let failed = false;
+
+  return {
+    backup: async (filePaths) => {
+      if (failed) return;
+      try {
+        await fs.mkdir(entryDir, { recursive: true });
+        for (const filePath of filePaths) {
+          if (writes.some((step) => step.path === filePath)) continue;
+
+          const step: Extract<JournalStep, { type: 'write' }> = {
+            type: 'write',
+            path: filePath,
+            before: null,
+            after: null,
+          };
+          try {
+            await fs.copyFile(filePath, path.join(entryDir, `${writes.length}-before`));
+            step.before = `${writes.length}-before`;
+          } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+          }
+          writes.push(step);
+          entry.steps.push(step);
+        }
+      } catch (error) {
+        console.error('Error writing operation journal:', error);
+        failed = true;
+      }
+    },
+    renamed: (from, to) => {
+      entry.steps.push({ type: 'rename', from, to });
+    },
+    trashed: (itemPath, item) => {
+      entry.steps.push({ type: 'trash', path: itemPath, kind: item.kind, trashId: item.id });
+    },
+    created: (itemPath, kind) => {
+      entry.steps.push({ type: 'create', path: itemPath, kind, trashId: null });
+    },
+    commit: async () => {
+      try {
+        if (failed) {
+          await fs.rm(entryDir, { recursive: true, force: true });
+          return;
+        }
+
+        // Files that were backed up but left alone are not part of the change
+        for (const [index, step] of writes.entries()) {
+          const after = `${index}-after`;
+          try {
+            await fs.copyFile(step.path, path.join(entryDir, after));
+            step.after = after;
+          } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+          }
+          const unchanged =
+            step.before !== null && step.after !== null
+              ? (await fs.readFile(path.join(entryDir, step.before))).equals(
+                  await fs.readFile(path.join(entryDir, step.after))
+                )
+              : step.before === step.after;
+          if (unchanged) {
+            entry.steps.splice(entry.steps.indexOf(step), 1);
+          }
+        }
+
+        if (entry.steps.length === 0) {
+          await fs.rm(entryDir, { recursive: true, force: true });
+          return;
+        }
+        entry.fingerprints = await takeFingerprints(entry.steps);
+
+        // A new change replaces what could be redone on this card
+        const entries = await readJournal(journalDir);
+        const redoable = entries.filter((e) => isOnCard(e, stores) && e.undone);
+        const kept = [...entries.filter((e) => !redoable.includes(e)), entry];
+        const overflow = kept.slice(0, Math.max(0, kept.length - MAX_JOURNAL_ENTRIES));
+
+        await writeJournal(journalDir, kept);
+        await removeEntries(journalDir, [...redoable, ...overflow]);
+      } catch (error) {
+        console.error('Error writing operation journal:', error);
+      }
+    },
+  };
+}
+
+/**
+ * Drop the entries of a card that can no longer be undone or redone because
+ * the card changed since they were recorded. Returns why, if any were dropped.
+ */
+async function dropChangedEntries(stores: TrashStores): Promise<string | undefined> {
+  const journalDir = getJournalDir(stores);
+  const entries = (await readJournal(journalDir)).filter((entry) => isOnCard(entry, stores));
+  const done = entries.filter((entry) => !entry.undone);
+  const undone = entries.filter((entry) => entry.undone);
+  const reasons: string[] = [];
+  const dropped: JournalEntry[] = [];
+
+  // Older entries can only be reached through the next one, they go with it
+  const nextUndo = done[done.length - 1];
+  const undoChange = nextUndo && (await findChange(stores, nextUndo));
+  if (undoChange) {
+    reasons.push(
+      `${undoChange}, ${done.length} change${done.length === 1 ? '' : 's'} can no longer be undone`
+    );
+    dropped.push(...done);
+  }
+
+  const redoChange = undone[0] && (await findChange(stores, undone[0]));
+  if (redoChange) {
+    reasons.push(
+      `${redoChange}, ${undone.length} change${undone.length === 1 ? '' : 's'} can no longer be redone`
+    );
+    dropped.push(...undone);
+  }
+
+  await removeEntries(journalDir, dropped);
+  return reasons.length > 0 ? reasons.join('\n') : undefined;
+}
+
+const toHistoryEntry = ({ id, label, timestamp, undone }: JournalEntry): HistoryEntry => ({
+  id,
+  label,
+  timestamp,
+  undone,
+});
+
+/**
+ * The undo history of a card, after dropping entries the card no longer matches
+ */
+export async function readHistory(stores: TrashStores): Promise<HistoryState> {
+  const invalidated = await dropChangedEntries(stores);
+  const entries = (await readJournal(getJournalDir(stores)))
+    .filter((entry) => isOnCard(entry, stores))
+    .map(toHistoryEntry)
+    .reverse();
+  return invalidated ? { entries, invalidated } : { entries };
+}
+
+async function moveInHistory(
+  stores: TrashStores,
+  direction: 'undo' | 'redo'
+): Promise<HistoryEntry | null> {
+  const invalidated = await dropChangedEntries(stores);
+  if (invalidated) {
+    throw new Error(invalidated);
+  }
+
+  const journalDir = getJournalDir(stores);
+  const entries = await readJournal(journalDir);
+  const onCard = entries.filter((entry) => isOnCard(entry, stores));
+  const entry =
+    direction === 'undo' ? onCard.filter((e) => !e.undone).pop() : onCard.find((e) => e.undone);
+  if (!entry) return null;
+
+  try {
+    await runSteps(stores, entry, direction);
+  } catch (error) {
+    // The card is left part way, the entries on this side cannot be trusted
+    await removeEntries(
+      journalDir,
+      onCard.filter((e) => e.undone === entry.undone)
+    );
+    throw error;
+  }
+
+  entry.undone = direction === 'undo';
+  entry.fingerprints = await takeFingerprints(entry.steps);
+  await writeJournal(journalDir, entries);
+  return toHistoryEntry(entry);
+}
+
+/**
+ * Reverse the latest change on a card that has not been undone.
+ * Returns null when there is nothing to undo.
+ */
+export function undoLastChange(stores: TrashStores): Promise<HistoryEntry | null> {
+  return moveInHistory(stores, 'undo');
+}
+
+/**
+ * Repeat the change on a card that was undone last.
+ * Returns null when there is nothing to redo.
+ */
+export function redoNextChange(stores: TrashStores): Promise<HistoryEntry | null> {
+  return moveInHistory(stores, 'redo');
+}
+
+/**
+ * Forget a card's history and delete its backups
+ */
+export async function clearHistory(stores: TrashStores): Promise<void> {
+  const journalDir = getJournalDir(stores);
+  await removeEntries(
+    journalDir,
+    (await readJournal(journalDir)).filter((entry) => isOnCard(entry, stores))
+  );
+}
@@ -0,0 +1,150 @@
+/**
+ * Log of file operations made through the app, kept on the computer.
+ * Used to find where a sample went when a preset still points at its old name.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export const OPERATION_LOG_FILENAME = 'operation-log.json';
+
+// Oldest entries are dropped beyond this
+const MAX_LOG_ENTRIES = 2000;
+
+export interface RenameLogEntry {
+  type: 'rename';
+  timestamp: string; // ISO date
+  folderPath: string;
+  oldName: string;
+  newName: string;
+}
+
+export interface ImportLogEntry {
+  type: 'import';
+  timestamp: string; // ISO date
+  folderPath: string;
+  sourceName: string; // Filename of the imported file, before conversion and numbering
+  newName: string;
+}
+
+export type OperationLogEntry = RenameLogEntry | ImportLogEntry;
+
+/**
+ * Read the log, oldest entry first. A missing or invalid log reads as empty.
+ */
+export async function readOperationLog(logDir: string): Promise<OperationLogEntry[]> {
+  try {
+    const data = await fs.readFile(path.join(logDir, OPERATION_LOG_FILENAME), 'utf-8');
+    const entries = JSON.parse(data);
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+async function appendEntries(logDir: string, added: OperationLogEntry[]): Promise<void> {
+  if (added.length === 0) return;
+
+  const entries = await readOperationLog(logDir);
+  entries.push(...added);
+  await fs.mkdir(logDir, { recursive: true });
+  await fs.writeFile(
+    path.join(logDir, OPERATION_LOG_FILENAME),
+    JSON.stringify(entries.slice(-MAX_LOG_ENTRIES), null, 2),
+    'utf-8'
+  );
+}
+
+/**
+ * Append the renames made in a folder
+ */
+export async function recordRenames(
+  logDir: string,
+  folderPath: string,
+  renames: Array<{ oldName: string; newName: string }>
+): Promise<void> {
+  const timestamp = new Date().toISOString();
+  await appendEntries(
+    logDir,
+    renames.map(({ oldName, newName }): RenameLogEntry => ({
+      type: 'rename',
+      timestamp,
+      folderPath: path.resolve(folderPath),
+      oldName,
+      newName,
+    }))
+  );
+}
+
+/**
+ * Append the files imported into a folder
+ */
+export async function recordImports(
+  logDir: string,
+  folderPath: string,
+  imports: Array<{ sourceName: string; newName: string }>
+): Promise<void> {
+  const timestamp = new Date().toISOString();
+  await appendEntries(
+    logDir,
+    imports.map(({ sourceName, newName }): ImportLogEntry => ({
+      type: 'import',
+      timestamp,
+      folderPath: path.resolve(folderPath),
+      sourceName,
+      newName,
+    }))
+  );
+}
+
+/**
+ * Follow logged renames of a file in a folder to its latest name.
+ * Returns null if the file was never renamed.
+ */
+export function findRenamedName(
+  entries: OperationLogEntry[],
+  folderPath: string,
+  name: string
+): string | null {
+  const folder = path.resolve(folderPath);
+  let current = name;
+
+  for (const entry of entries) {
+    if (
+      entry.type === 'rename' &&
+      entry.folderPath === folder &&
+      entry.oldName.toLowerCase() === current.toLowerCase()
+    ) {
+      current = entry.newName;
+    }
+  }
+
+  return current === name ? null : current;
+}
+
+/**
+ * Follow logged renames of a file in a folder back to the name it was
+ * imported under. Without a logged import, the earliest logged name is
+ * returned, which is the name itself if it was never renamed.
+ */
+export function findOriginalName(
+  entries: OperationLogEntry[],
+  folderPath: string,
+  name: string
+): string {
+  const folder = path.resolve(folderPath);
+  let current = name;
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry.folderPath !== folder || entry.newName.toLowerCase() !== current.toLowerCase()) {
+      continue;
+    }
+    if (entry.type === 'import') {
+      return entry.sourceName;
+    }
+    current = entry.oldName;
+  }
+
+  return current;
+}
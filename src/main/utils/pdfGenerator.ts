@@ -5,6 +5,7 @@
 
 import PDFDocument from 'pdfkit';
 import { OverviewData, ProjectExportData } from '@shared/types';
+import { formatPresetDisplayName } from '@shared/constants';
 import { PAGE, FONTS, COLORS, SPACING, OVERVIEW_TABLE, PRESET_LAYOUT } from './pdfLayouts';
 
 /**
@@ -323,16 +324,24 @@ function drawPresetsTable(
   const startX = PAGE.MARGIN.LEFT;
 
   for (const preset of presets) {
-    // Check if we need space for preset header + 8 samples
+    // Check if we need space for preset header, notes + 8 samples
+    const notesHeight = preset.notes
+      ? doc.fontSize(FONTS.SMALL.size).heightOfString(preset.notes, { width: PAGE.CONTENT_WIDTH })
+      : 0;
     const requiredSpace =
-      SPACING.TABLE_HEADER_HEIGHT + preset.samples.length * PRESET_LAYOUT.SAMPLE_SLOT_HEIGHT + 20;
+      SPACING.TABLE_HEADER_HEIGHT +
+      notesHeight +
+      preset.samples.length * PRESET_LAYOUT.SAMPLE_SLOT_HEIGHT +
+      20;
     checkPageBreak(doc, requiredSpace);
 
     const currentY = doc.y;
 
     // Preset name with autosave badge
     doc.fontSize(FONTS.SUBHEADING.size).fillColor(COLORS.BLACK);
-    doc.text(preset.name, startX, currentY, { continued: preset.isAutosave });
+    doc.text(formatPresetDisplayName(preset.name, preset.customName), startX, currentY, {
+      continued: preset.isAutosave,
+    });
 
     if (preset.isAutosave) {
       doc
@@ -341,6 +350,13 @@ function drawPresetsTable(
         .text(' [Current State]', { continued: false });
     }
 
+    if (preset.notes) {
+      doc
+        .fillColor(COLORS.GRAY)
+        .fontSize(FONTS.SMALL.size)
+        .text(preset.notes, startX, doc.y, { width: PAGE.CONTENT_WIDTH });
+    }
+
     doc.moveDown(0.3);
 
     // Sample slots
@@ -368,14 +384,23 @@ function drawPresetsTable(
       if (sample.name) {
         const badgeX = PAGE.MARGIN.LEFT + PAGE.CONTENT_WIDTH - PRESET_LAYOUT.LOCATION_BADGE_WIDTH;
         const badgeColor =
-          sample.location === 'PROJECT'
-            ? COLORS.BLUE
-            : sample.location === 'NOT_FOUND'
-              ? COLORS.GRAY
-              : COLORS.BLACK;
+          sample.status === 'moved' || sample.status === 'ambiguous'
+            ? COLORS.RED
+            : sample.location === 'PROJECT'
+              ? COLORS.BLUE
+              : sample.location === 'NOT_FOUND'
+                ? COLORS.GRAY
+                : COLORS.BLACK;
+
+        const badgeText =
+          sample.status === 'moved'
+            ? `[${sample.location} MOVED]`
+            : sample.status === 'ambiguous'
+              ? `[${sample.location}?]`
+              : `[${sample.location}]`;
 
         doc.fillColor(badgeColor).fontSize(FONTS.SMALL.size);
-        doc.text(`[${sample.location}]`, badgeX, slotY, {
+        doc.text(badgeText, badgeX, slotY, {
           width: PRESET_LAYOUT.LOCATION_BADGE_WIDTH,
           align: 'right',
         });
@@ -55,6 +55,7 @@ export const COLORS = {
   GRAY: '#666666',
   LIGHT_GRAY: '#999999',
   BLUE: '#2563eb',
+  RED: '#dc2626', // Moved or ambiguous sample references
   BORDER: '#d1d5db',
   LIGHT_BORDER: '#e5e7eb',
   BACKGROUND_LIGHT: '#f9fafb',
@@ -80,5 +81,5 @@ export const OVERVIEW_TABLE = {
 // Preset sample slot layout
 export const PRESET_LAYOUT = {
   SAMPLE_SLOT_HEIGHT: 14,
-  LOCATION_BADGE_WIDTH: 60,
+  LOCATION_BADGE_WIDTH: 90, // Fits "[PROJECT MOVED]"
 };
@@ -0,0 +1,29 @@
+/**
+ * Byte-level backups of .mgp files, taken before a preset is modified.
+ * Backups are kept on the computer so they never use space on the SD card.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export const PRESET_BACKUP_FOLDER = 'preset-backups';
+
+/**
+ * Write an exact copy of a preset's bytes to the backup folder.
+ * Returns the path of the backup file.
+ */
+export async function backupPreset(
+  presetPath: string,
+  original: Buffer,
+  backupDir: string
+): Promise<string> {
+  const projectName = path.basename(path.dirname(presetPath));
+  const presetName = path.basename(presetPath, path.extname(presetPath));
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = path.join(backupDir, `${projectName}-${presetName}-${timestamp}.mgp`);
+
+  await fs.mkdir(backupDir, { recursive: true });
+  await fs.writeFile(backupPath, original);
+
+  return backupPath;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import { diffPresetBytes, diffPresetFiles } from './presetDiff';
+import { getSoundBlockOffset, PRESET_LAYOUT } from './presetParser';
+import { createPreset } from '../../test/helpers';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+describe('presetDiff', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe('diffPresetBytes', () => {
+    it('merges nearby differences into one range', () => {
+      const left = Buffer.from([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13]);
+      const right = Buffer.from(left);
+      right[1] = 0xff;
+      right[3] = 0xff;
+      right[12] = 0xff;
+
+      const ranges = diffPresetBytes(left, right);
+
+      expect(ranges.map((r) => [r.offset, r.length])).toEqual([
+        [1, 3],
+        [12, 1],
+      ]);
+      expect(ranges[0].leftHex).toBe('01 02 03');
+      expect(ranges[0].rightHex).toBe('ff 02 ff');
+    });
+
+    it('reports bytes past the end of the shorter file', () => {
+      const ranges = diffPresetBytes(Buffer.from([1, 2]), Buffer.from([1, 2, 3]));
+
+      expect(ranges).toEqual([
+        expect.objectContaining({ offset: 2, length: 1, leftHex: '', rightHex: '03' }),
+      ]);
+    });
+  });
+
+  describe('diffPresetFiles', () => {
+    it('compares samples and decoded settings of two presets', async () => {
+      const left = createPreset(
+        [
+          ['kick.wav', 'PROJECT'],
+          ['pad.wav', 'WAVS'],
+        ],
+        1
+      );
+      const right = createPreset(
+        [
+          ['kick.wav', 'PROJECT'],
+          ['pad.wav', 'RECS'],
+          ['snare.wav', 'PROJECT'],
+        ],
+        7
+      );
+      const sceneOffset = getSoundBlockOffset(1) + PRESET_LAYOUT.SOUND.SCENES;
+      right.writeUInt16LE(500, sceneOffset + PRESET_LAYOUT.SCENE.KNOBS + 3 * 2);
+      vol.fromJSON({ '/card/Project01/Preset01.mgp': left, '/card/Project02/Preset07.mgp': right });
+
+      const diff = await diffPresetFiles(
+        '/card/Project01/Preset01.mgp',
+        '/card/Project02/Preset07.mgp'
+      );
+
+      expect(diff.slots).toHaveLength(8);
+      expect(diff.slots.filter((slot) => slot.isDifferent).map((slot) => slot.soundNumber)).toEqual(
+        [2, 3]
+      );
+      expect(diff.slots[2]).toMatchObject({ left: '', right: 'snare.wav', rightFolder: 'PROJECT' });
+      expect(diff.parameters).toEqual([
+        { section: 'Sound 1 / Scene 1', label: 'Knob 4', left: '0', right: '500' },
+      ]);
+      expect(diff.identical).toBe(false);
+    });
+
+    it('falls back to raw bytes when a preset is not decodable', async () => {
+      const left = createPreset([['kick.wav', 'PROJECT']], 1);
+      const right = Buffer.from('MGP\0kick.wav\0\0\0snare.wav\0\0\0');
+      vol.fromJSON({ '/a/Preset01.mgp': left, '/b/Preset01.mgp': right });
+
+      const diff = await diffPresetFiles('/a/Preset01.mgp', '/b/Preset01.mgp');
+
+      expect(diff.parameters).toBeNull();
+      expect(diff.slots.map((slot) => [slot.left, slot.right])).toEqual([
+        ['kick.wav', 'kick.wav'],
+        ['', 'snare.wav'],
+      ]);
+      expect(diff.byteRanges.length).toBeGreaterThan(0);
+      expect(diff.byteRanges.every((range) => !range.isKnown)).toBe(true);
+    });
+
+    it('reports identical files', async () => {
+      const preset = createPreset([['kick.wav', 'PROJECT']], 1);
+      vol.fromJSON({ '/a/Preset01.mgp': preset, '/b/Preset01.mgp': preset });
+
+      const diff = await diffPresetFiles('/a/Preset01.mgp', '/b/Preset01.mgp');
+
+      expect(diff.identical).toBe(true);
+      expect(diff.slots.every((slot) => !slot.isDifferent)).toBe(true);
+      expect(diff.parameters).toEqual([]);
+    });
+  });
+});
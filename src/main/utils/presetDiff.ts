@@ -0,0 +1,204 @@
+/**
+ * Compare two .mgp presets: samples per sound slot, decoded settings when both
+ * files match the known layout, and the raw byte ranges that differ.
+ */
+
+import fs from 'node:fs/promises';
+import {
+  PresetByteRangeDiff,
+  PresetData,
+  PresetDiff,
+  PresetParameterDiff,
+  PresetSampleFolder,
+  PresetSlotDiff,
+} from '@shared/types';
+import {
+  MOD_AXES,
+  PRESET_LAYOUT,
+  decodePreset,
+  extractSamplesFromPreset,
+  extractSampleFoldersFromPreset,
+  hasKnownLayout,
+} from './presetParser';
+
+// Differences closer together than this are reported as one range
+const BYTE_RANGE_MERGE_GAP = 4;
+// Longest run of bytes shown as hex for one range
+const MAX_HEX_BYTES = 64;
+
+const formatFlag = (value: boolean) => (value ? 'On' : 'Off');
+
+function toHex(buffer: Buffer, start: number, end: number): string {
+  const bytes = Array.from(buffer.subarray(start, Math.min(end, start + MAX_HEX_BYTES)), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  );
+  if (Math.min(end, buffer.length) - start > MAX_HEX_BYTES) bytes.push('…');
+  return bytes.join(' ');
+}
+
+/**
+ * Find every run of differing bytes. Bytes past the end of the shorter file
+ * count as different.
+ */
+export function diffPresetBytes(
+  left: Buffer,
+  right: Buffer,
+  unknownRanges: Array<{ offset: number; length: number }> = []
+): PresetByteRangeDiff[] {
+  const length = Math.max(left.length, right.length);
+  const ranges: PresetByteRangeDiff[] = [];
+  let start = -1;
+  let lastDifferent = -1;
+
+  const pushRange = (end: number) => {
+    ranges.push({
+      offset: start,
+      length: end - start,
+      leftHex: toHex(left, start, end),
+      rightHex: toHex(right, start, end),
+      isKnown: !unknownRanges.some(
+        (range) => start >= range.offset && end <= range.offset + range.length
+      ),
+    });
+  };
+
+  for (let i = 0; i < length; i++) {
+    const isDifferent = i >= left.length || i >= right.length || left[i] !== right[i];
+    if (!isDifferent) continue;
+
+    if (start !== -1 && i - lastDifferent > BYTE_RANGE_MERGE_GAP) {
+      pushRange(lastDifferent + 1);
+      start = -1;
+    }
+    if (start === -1) start = i;
+    lastDifferent = i;
+  }
+  if (start !== -1) pushRange(lastDifferent + 1);
+
+  return ranges;
+}
+
+/**
+ * List the decoded settings that differ. The preset number is left out since
+ * it only reflects the slot the file is saved in.
+ */
+export function diffPresetParameters(left: PresetData, right: PresetData): PresetParameterDiff[] {
+  const diffs: PresetParameterDiff[] = [];
+  const compare = (section: string, label: string, a: string | number, b: string | number) => {
+    if (a !== b) diffs.push({ section, label, left: String(a), right: String(b) });
+  };
+
+  compare('Preset', 'Latest Scene', left.latestScene, right.latestScene);
+  compare('Preset', 'Latest Sound', left.latestSound, right.latestSound);
+  compare('Preset', 'Mod A Out', left.modAOut, right.modAOut);
+  compare('Preset', 'Mod B Out', left.modBOut, right.modBOut);
+  compare('Preset', 'Input Thru', formatFlag(left.inputThru), formatFlag(right.inputThru));
+  compare('Preset', 'Latch', formatFlag(left.latch), formatFlag(right.latch));
+  compare('Preset', 'Sync', formatFlag(left.sync), formatFlag(right.sync));
+  compare(
+    'Preset',
+    'Freeze Mod Assigns',
+    formatFlag(left.freezeModAssigns),
+    formatFlag(right.freezeModAssigns)
+  );
+
+  left.sounds.forEach((a, soundIndex) => {
+    const b = right.sounds[soundIndex];
+    const section = `Sound ${a.soundNumber}`;
+    compare(section, 'Sync Mode', a.syncMode, b.syncMode);
+    compare(section, 'Link Size-Pitch', formatFlag(a.linkSizePitch), formatFlag(b.linkSizePitch));
+    compare(section, 'Link Size-Rate', formatFlag(a.linkSizeRate), formatFlag(b.linkSizeRate));
+    compare(section, 'Quantizer', a.quantizer, b.quantizer);
+    compare(section, 'Quantize Mode', a.quantizeMode, b.quantizeMode);
+    compare(section, 'Fine Tune', a.fineTune, b.fineTune);
+    compare(section, 'Ping Pong', formatFlag(a.pingPong), formatFlag(b.pingPong));
+
+    a.scenes.forEach((sceneA, sceneIndex) => {
+      const sceneB = b.scenes[sceneIndex];
+      const sceneSection = `${section} / Scene ${sceneIndex + 1}`;
+      sceneA.knobs.forEach((value, knobIndex) =>
+        compare(sceneSection, `Knob ${knobIndex + 1}`, value, sceneB.knobs[knobIndex])
+      );
+      compare(sceneSection, 'Reverse', formatFlag(sceneA.reverse), formatFlag(sceneB.reverse));
+      MOD_AXES.forEach((axis) =>
+        sceneA.modAssigns[axis].forEach((value, targetIndex) =>
+          compare(
+            sceneSection,
+            `${axis} → ${targetIndex < PRESET_LAYOUT.SCENE.KNOB_COUNT ? `Knob ${targetIndex + 1}` : 'Reverse'}`,
+            value,
+            sceneB.modAssigns[axis][targetIndex]
+          )
+        )
+      );
+    });
+  });
+
+  return diffs;
+}
+
+/**
+ * Sample filename and folder per sound slot. Decoded presets give all 8
+ * slots; otherwise the scanned references fill the first slots.
+ */
+async function readSlots(
+  presetPath: string,
+  data: PresetData | null
+): Promise<Array<{ name: string; folder: PresetSampleFolder | null }>> {
+  if (data) {
+    return data.sounds.map((sound) => ({
+      name: sound.sampleFilename,
+      folder: sound.sampleFilename ? sound.sampleFolder : null,
+    }));
+  }
+
+  const [names, folders] = await Promise.all([
+    extractSamplesFromPreset(presetPath),
+    extractSampleFoldersFromPreset(presetPath),
+  ]);
+  return names.map((name, index) => ({ name, folder: folders[index] ?? null }));
+}
+
+/**
+ * Compare two preset files
+ */
+export async function diffPresetFiles(leftPath: string, rightPath: string): Promise<PresetDiff> {
+  const [left, right] = await Promise.all([fs.readFile(leftPath), fs.readFile(rightPath)]);
+  const bothDecodable = hasKnownLayout(left) && hasKnownLayout(right);
+  const leftData = bothDecodable ? decodePreset(left) : null;
+  const rightData = bothDecodable ? decodePreset(right) : null;
+
+  const [leftSlots, rightSlots] = await Promise.all([
+    readSlots(leftPath, leftData),
+    readSlots(rightPath, rightData),
+  ]);
+
+  const slotCount = Math.max(leftSlots.length, rightSlots.length);
+  const slots: PresetSlotDiff[] = Array.from({ length: slotCount }, (_, index) => {
+    const a = leftSlots[index] ?? { name: '', folder: null };
+    const b = rightSlots[index] ?? { name: '', folder: null };
+    return {
+      soundNumber: index + 1,
+      left: a.name,
+      right: b.name,
+      leftFolder: a.folder,
+      rightFolder: b.folder,
+      isDifferent: a.name !== b.name || a.folder !== b.folder,
+    };
+  });
+
+  // Without the decoded layout no byte is understood
+  const byteRanges = diffPresetBytes(
+    left,
+    right,
+    leftData ? leftData.unknownRanges : [{ offset: 0, length: Math.max(left.length, right.length) }]
+  );
+
+  return {
+    leftPath,
+    rightPath,
+    slots,
+    parameters: leftData && rightData ? diffPresetParameters(leftData, rightData) : null,
+    byteRanges,
+    identical: byteRanges.length === 0,
+  };
+}
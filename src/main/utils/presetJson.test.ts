@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import {
+  exportPresetJson,
+  importPresetJson,
+  parsePresetJson,
+  presetFromJson,
+  presetToJson,
+} from './presetJson';
+import { decodePreset, getSoundBlockOffset, PRESET_LAYOUT } from './presetParser';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+/**
+ * Create a preset with block markers, a sample per sound and some settings
+ */
+function createPreset(): Buffer {
+  const { HEADER, SOUND } = PRESET_LAYOUT;
+  const buffer = Buffer.alloc(PRESET_LAYOUT.FILE_SIZE);
+  buffer[HEADER.PRESET_NUMBER] = 7;
+  buffer[HEADER.LATEST_SCENE] = 1;
+  buffer[HEADER.LATEST_SOUND] = 4;
+  buffer[HEADER.LATCH] = 1;
+  for (let soundNumber = 1; soundNumber <= 8; soundNumber++) {
+    const block = getSoundBlockOffset(soundNumber);
+    buffer[block + 2] = 1;
+    buffer[block + SOUND.SAMPLE_FOLDER] = soundNumber % 3;
+    buffer.write(`sample${soundNumber}.wav`, block + SOUND.SAMPLE_FILENAME, 'ascii');
+    buffer.writeInt16LE(-soundNumber * 10, block + SOUND.FINE_TUNE);
+    buffer.writeUInt16LE(1000 * soundNumber, block + SOUND.SCENES);
+    buffer.writeInt8(-5, block + SOUND.SCENES + PRESET_LAYOUT.SCENE.MOD_ASSIGNS);
+  }
+  return buffer;
+}
+
+/**
+ * Serialize and parse like a JSON file on disk
+ */
+function throughJson(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe('presetJson', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe('round trip', () => {
+    it('should rebuild an identical preset from its JSON', () => {
+      const buffer = createPreset();
+      // Undecoded bytes in the header and between sound blocks
+      buffer.fill(0x5a, 0x10, 0x20);
+      buffer[getSoundBlockOffset(3) + 0x200] = 0x80;
+
+      const json = presetToJson(buffer);
+
+      expect(presetFromJson(throughJson(json)).equals(buffer)).toBe(true);
+      expect(json.rawOverrides).toEqual([]);
+    });
+
+    it('should rebuild an empty preset', () => {
+      const buffer = Buffer.alloc(PRESET_LAYOUT.FILE_SIZE);
+
+      expect(presetFromJson(throughJson(presetToJson(buffer))).equals(buffer)).toBe(true);
+    });
+
+    it('should keep bytes the decoded fields cannot express as raw overrides', () => {
+      const { HEADER, SOUND } = PRESET_LAYOUT;
+      const buffer = createPreset();
+      // Switch stored as 2, a missing block marker and bytes after a filename terminator
+      buffer[HEADER.SYNC] = 2;
+      buffer[getSoundBlockOffset(2) + 2] = 0;
+      buffer[getSoundBlockOffset(4) + SOUND.SAMPLE_FILENAME + 40] = 0x41;
+      buffer[getSoundBlockOffset(5) + SOUND.SAMPLE_FOLDER] = 9;
+
+      const json = presetToJson(buffer);
+
+      expect(presetFromJson(throughJson(json)).equals(buffer)).toBe(true);
+      expect(json.rawOverrides.map((region) => region.offset)).toEqual([
+        HEADER.SYNC,
+        getSoundBlockOffset(2) + 2,
+        getSoundBlockOffset(4) + SOUND.SAMPLE_FILENAME + 40,
+      ]);
+      expect(json.sounds[4].sampleFolder).toBe('UNKNOWN');
+      expect(json.sounds[4].sampleFolderRaw).toBe(9);
+    });
+
+    it('should rebuild random presets byte for byte', () => {
+      let seed = 1;
+      const random = () => {
+        seed = (seed * 1103515245 + 12345) % 2 ** 31;
+        return seed % 256;
+      };
+
+      for (let run = 0; run < 5; run++) {
+        const buffer = Buffer.from(Array.from({ length: PRESET_LAYOUT.FILE_SIZE }, random));
+
+        expect(presetFromJson(throughJson(presetToJson(buffer))).equals(buffer)).toBe(true);
+      }
+    });
+  });
+
+  describe('presetToJson', () => {
+    it('should store sample references and decoded fields as values', () => {
+      const json = presetToJson(createPreset());
+
+      expect(json.format).toBe('multigrain-preset');
+      expect(json.version).toBe(1);
+      expect(json.presetNumber).toBe(7);
+      expect(json.latestScene).toBe(2);
+      expect(json.latch).toBe(true);
+      expect(json.sounds[0]).toMatchObject({
+        soundNumber: 1,
+        sampleFolder: 'WAVS',
+        sampleFilename: 'sample1.wav',
+        fineTune: -10,
+      });
+      expect(json.sounds[0].sampleFolderRaw).toBeUndefined();
+      expect(json.sounds[1].scenes[0].knobs[0]).toBe(2000);
+      expect(json.sounds[1].scenes[0].modAssigns.RAND[0]).toBe(-5);
+    });
+
+    it('should leave long zero runs out of undecoded regions', () => {
+      const buffer = createPreset();
+      buffer.fill(0xff, 0x100, 0x104);
+      buffer[0x107] = 0x01;
+      buffer[0x200] = 0x02;
+
+      const json = presetToJson(buffer);
+
+      // Short zero gaps stay inside a region, long ones split it
+      expect(json.unknownRegions).toHaveLength(2);
+      expect(json.unknownRegions[0]).toMatchObject({ offset: 0x100, length: 8 });
+      expect(Buffer.from(json.unknownRegions[0].base64, 'base64')).toEqual(
+        Buffer.from([0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0x01])
+      );
+      expect(json.unknownRegions[1]).toMatchObject({ offset: 0x200, length: 1 });
+    });
+
+    it('should reject files with the wrong size', () => {
+      expect(() => presetToJson(Buffer.alloc(100))).toThrow(/Invalid preset file size/);
+    });
+  });
+
+  describe('presetFromJson', () => {
+    it('should apply edited values', () => {
+      const json = presetToJson(createPreset());
+      json.sounds[2].sampleFilename = 'edited.wav';
+      json.sounds[2].sampleFolder = 'RECS';
+      json.sounds[2].scenes[1].reverse = true;
+      json.freezeModAssigns = true;
+
+      const data = decodePreset(presetFromJson(throughJson(json)));
+
+      expect(data.sounds[2].sampleFilename).toBe('edited.wav');
+      expect(data.sounds[2].sampleFolder).toBe('RECS');
+      expect(data.sounds[2].scenes[1].reverse).toBe(true);
+      expect(data.freezeModAssigns).toBe(true);
+    });
+
+    it('should accept JSON without raw overrides', () => {
+      const json = throughJson(presetToJson(createPreset())) as Record<string, unknown>;
+      delete json.rawOverrides;
+
+      expect(presetFromJson(json).equals(createPreset())).toBe(true);
+    });
+
+    it('should reject JSON that does not match the format', () => {
+      const valid = () => throughJson(presetToJson(createPreset())) as Record<string, any>;
+
+      expect(() => presetFromJson([])).toThrow(/preset must be an object/);
+      expect(() => presetFromJson({ ...valid(), format: 'other' })).toThrow(/format/);
+      expect(() => presetFromJson({ ...valid(), version: 2 })).toThrow(/version 2/);
+
+      const badKnob = valid();
+      badKnob.sounds[3].scenes[0].knobs[2] = 70000;
+      expect(() => presetFromJson(badKnob)).toThrow(
+        /sounds\[3\]\.scenes\[0\]\.knobs\[2\] must be a whole number between 0 and 65535/
+      );
+
+      const badFilename = valid();
+      badFilename.sounds[0].sampleFilename = `${'x'.repeat(64)}.wav`;
+      expect(() => presetFromJson(badFilename)).toThrow(/at most 63 characters/);
+
+      const badFolder = valid();
+      badFolder.sounds[0].sampleFolder = 'UNKNOWN';
+      expect(() => presetFromJson(badFolder)).toThrow(/sampleFolderRaw/);
+
+      const badSounds = valid();
+      badSounds.sounds.pop();
+      expect(() => presetFromJson(badSounds)).toThrow(/sounds must have 8 entries/);
+
+      const badRegion = valid();
+      badRegion.unknownRegions = [{ offset: 0x10, length: 3, base64: 'AAE=' }];
+      expect(() => presetFromJson(badRegion)).toThrow(/must decode to 3 bytes/);
+    });
+
+    it('should parse valid JSON without building it', () => {
+      const json = presetToJson(createPreset());
+
+      expect(parsePresetJson(throughJson(json))).toEqual(json);
+    });
+  });
+
+  describe('exportPresetJson / importPresetJson', () => {
+    it('should export formatted JSON and import it into another slot', async () => {
+      const original = createPreset();
+      vol.fromJSON({
+        '/card/Project01/Preset07.mgp': original,
+        '/card/Project02/Preset12.mgp': Buffer.alloc(PRESET_LAYOUT.FILE_SIZE, 0x11),
+        '/export/.keep': '',
+      });
+
+      await exportPresetJson('/card/Project01/Preset07.mgp', '/export/preset.json');
+      const text = vol.readFileSync('/export/preset.json', 'utf-8') as string;
+      expect(text).toContain('\n  "presetNumber": 7,');
+
+      const result = await importPresetJson(
+        '/export/preset.json',
+        '/card/Project02/Preset12.mgp',
+        '/backups'
+      );
+
+      const imported = vol.readFileSync('/card/Project02/Preset12.mgp') as Buffer;
+      expect(imported[PRESET_LAYOUT.HEADER.PRESET_NUMBER]).toBe(12);
+      const expected = Buffer.from(original);
+      expected[PRESET_LAYOUT.HEADER.PRESET_NUMBER] = 12;
+      expect(imported.equals(expected)).toBe(true);
+
+      expect(result.backupPath).toMatch(/^\/backups\/Project02-Preset12-.*\.mgp$/);
+      const backup = vol.readFileSync(result.backupPath!) as Buffer;
+      expect(backup.every((byte) => byte === 0x11)).toBe(true);
+    });
+
+    it('should not need a backup when the slot is empty', async () => {
+      vol.fromJSON({
+        '/export/preset.json': JSON.stringify(presetToJson(createPreset())),
+        '/card/Project01/.keep': '',
+      });
+
+      const result = await importPresetJson(
+        '/export/preset.json',
+        '/card/Project01/Autosave.mgp',
+        '/backups'
+      );
+
+      expect(result.backupPath).toBeNull();
+      const imported = vol.readFileSync('/card/Project01/Autosave.mgp') as Buffer;
+      expect(imported[PRESET_LAYOUT.HEADER.PRESET_NUMBER]).toBe(0);
+    });
+
+    it('should leave the preset untouched when the JSON is invalid', async () => {
+      vol.fromJSON({
+        '/export/broken.json': '{ "format": ',
+        '/card/Project01/Preset01.mgp': createPreset(),
+      });
+
+      await expect(
+        importPresetJson('/export/broken.json', '/card/Project01/Preset01.mgp', '/backups')
+      ).rejects.toThrow(/broken\.json is not valid JSON/);
+      expect(
+        (vol.readFileSync('/card/Project01/Preset01.mgp') as Buffer).equals(createPreset())
+      ).toBe(true);
+      expect(vol.existsSync('/backups')).toBe(false);
+    });
+  });
+});
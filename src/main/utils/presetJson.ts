@@ -0,0 +1,423 @@
+/**
+ * Export .mgp presets to a documented JSON format and rebuild the identical
+ * bytes from it. Decoded fields are stored as values, undecoded bytes as
+ * base64, so presets can be kept in version control, reviewed and generated
+ * by scripts.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { ModAxis, PresetJson, PresetJsonRegion, PresetJsonSound, PresetScene } from '@shared/types';
+import { FOLDER_NAMES } from '@shared/constants';
+import {
+  MOD_AXES,
+  PRESET_LAYOUT,
+  PRESET_SAMPLE_FOLDERS,
+  SOUND_BLOCK_MARKER,
+  decodePreset,
+  getSoundBlockOffset,
+  writePresetNumber,
+} from './presetParser';
+import { backupPreset } from './presetBackup';
+
+export const PRESET_JSON_FORMAT = 'multigrain-preset';
+export const PRESET_JSON_VERSION = 1;
+
+const PRESET_FILE_REGEX = /^Preset(\d{2})\.mgp$/i;
+// Zero runs at least this long split an undecoded range into separate regions
+const MIN_ZERO_GAP = 8;
+
+type JsonObject = Record<string, unknown>;
+
+function toRegion(buffer: Buffer, offset: number, end: number): PresetJsonRegion {
+  return {
+    offset,
+    length: end - offset,
+    base64: buffer.subarray(offset, end).toString('base64'),
+  };
+}
+
+/**
+ * Non-zero parts of the undecoded ranges. Zero bytes are implied, so long zero
+ * runs are left out to keep the JSON readable.
+ */
+function collectUnknownRegions(
+  buffer: Buffer,
+  ranges: Array<{ offset: number; length: number }>
+): PresetJsonRegion[] {
+  const regions: PresetJsonRegion[] = [];
+
+  for (const range of ranges) {
+    const end = range.offset + range.length;
+    let start = -1;
+    let lastNonZero = -1;
+
+    for (let i = range.offset; i < end; i++) {
+      if (buffer[i] === 0) continue;
+      if (start !== -1 && i - lastNonZero > MIN_ZERO_GAP) {
+        regions.push(toRegion(buffer, start, lastNonZero + 1));
+        start = -1;
+      }
+      if (start === -1) start = i;
+      lastNonZero = i;
+    }
+    if (start !== -1) regions.push(toRegion(buffer, start, lastNonZero + 1));
+  }
+
+  return regions;
+}
+
+/**
+ * Every run of bytes where two equally sized buffers differ
+ */
+function collectDifferences(expected: Buffer, actual: Buffer): PresetJsonRegion[] {
+  const regions: PresetJsonRegion[] = [];
+  let start = -1;
+
+  for (let i = 0; i <= expected.length; i++) {
+    const isDifferent = i < expected.length && expected[i] !== actual[i];
+    if (isDifferent && start === -1) {
+      start = i;
+    } else if (!isDifferent && start !== -1) {
+      regions.push(toRegion(expected, start, i));
+      start = -1;
+    }
+  }
+
+  return regions;
+}
+
+function writeScene(buffer: Buffer, offset: number, scene: PresetScene): void {
+  const { SCENE } = PRESET_LAYOUT;
+  scene.knobs.forEach((value, i) => buffer.writeUInt16LE(value, offset + SCENE.KNOBS + i * 2));
+  buffer[offset + SCENE.REVERSE] = scene.reverse ? 1 : 0;
+  MOD_AXES.forEach((axis, axisIndex) => {
+    const axisOffset = offset + SCENE.MOD_ASSIGNS + axisIndex * SCENE.MOD_TARGET_COUNT;
+    scene.modAssigns[axis].forEach((value, i) => buffer.writeInt8(value, axisOffset + i));
+  });
+}
+
+function writeSound(buffer: Buffer, sound: PresetJsonSound): void {
+  const { SOUND } = PRESET_LAYOUT;
+  const blockOffset = getSoundBlockOffset(sound.soundNumber);
+  const at = (field: number) => blockOffset + field;
+
+  SOUND_BLOCK_MARKER.forEach((byte, i) => (buffer[at(SOUND.MARKER) + i] = byte));
+  buffer[at(SOUND.SYNC_MODE)] = sound.syncMode;
+  buffer[at(SOUND.LINK_SIZE_PITCH)] = sound.linkSizePitch ? 1 : 0;
+  buffer[at(SOUND.LINK_SIZE_RATE)] = sound.linkSizeRate ? 1 : 0;
+  buffer[at(SOUND.QUANTIZER)] = sound.quantizer;
+  buffer[at(SOUND.SAMPLE_FOLDER)] =
+    sound.sampleFolder === 'UNKNOWN'
+      ? (sound.sampleFolderRaw ?? 0)
+      : PRESET_SAMPLE_FOLDERS.indexOf(sound.sampleFolder);
+  buffer.write(sound.sampleFilename, at(SOUND.SAMPLE_FILENAME), 'ascii');
+  buffer[at(SOUND.QUANTIZE_MODE)] = sound.quantizeMode;
+  buffer[at(SOUND.PING_PONG)] = sound.pingPong ? 1 : 0;
+  buffer.writeInt16LE(sound.fineTune, at(SOUND.FINE_TUNE));
+  sound.scenes.forEach((scene, i) =>
+    writeScene(buffer, at(SOUND.SCENES) + i * SOUND.SCENE_SIZE, scene)
+  );
+}
+
+function writeRegions(buffer: Buffer, regions: PresetJsonRegion[]): void {
+  for (const region of regions) {
+    Buffer.from(region.base64, 'base64').copy(buffer, region.offset);
+  }
+}
+
+/**
+ * Write the decoded fields and undecoded regions into a zero-filled buffer.
+ * Raw overrides are left out.
+ */
+function buildFromFields(preset: PresetJson): Buffer {
+  const { HEADER } = PRESET_LAYOUT;
+  const buffer = Buffer.alloc(PRESET_LAYOUT.FILE_SIZE);
+
+  // Undecoded bytes first, so no region can clobber a decoded field
+  writeRegions(buffer, preset.unknownRegions);
+
+  buffer[HEADER.PRESET_NUMBER] = preset.presetNumber;
+  // Stored 0-based
+  buffer[HEADER.LATEST_SCENE] = preset.latestScene - 1;
+  buffer[HEADER.LATEST_SOUND] = preset.latestSound - 1;
+  buffer[HEADER.MOD_A_OUT] = preset.modAOut;
+  buffer[HEADER.MOD_B_OUT] = preset.modBOut;
+  buffer[HEADER.INPUT_THRU] = preset.inputThru ? 1 : 0;
+  buffer[HEADER.LATCH] = preset.latch ? 1 : 0;
+  buffer[HEADER.SYNC] = preset.sync ? 1 : 0;
+  buffer[HEADER.FREEZE_MOD_ASSIGNS] = preset.freezeModAssigns ? 1 : 0;
+  preset.sounds.forEach((sound) => writeSound(buffer, sound));
+
+  return buffer;
+}
+
+/**
+ * Convert a .mgp buffer to its JSON form.
+ * Throws if the buffer is not a 16 KB preset file.
+ */
+export function presetToJson(buffer: Buffer): PresetJson {
+  const data = decodePreset(buffer);
+
+  const preset: PresetJson = {
+    format: PRESET_JSON_FORMAT,
+    version: PRESET_JSON_VERSION,
+    presetNumber: data.presetNumber,
+    latestScene: data.latestScene,
+    latestSound: data.latestSound,
+    modAOut: data.modAOut,
+    modBOut: data.modBOut,
+    inputThru: data.inputThru,
+    latch: data.latch,
+    sync: data.sync,
+    freezeModAssigns: data.freezeModAssigns,
+    sounds: data.sounds.map((sound) => ({
+      soundNumber: sound.soundNumber,
+      sampleFolder: sound.sampleFolder,
+      ...(sound.sampleFolder === 'UNKNOWN' ? { sampleFolderRaw: sound.sampleFolderRaw } : {}),
+      // Only the printable part that fits with a terminator; anything else
+      // stored in the field goes to rawOverrides
+      sampleFilename: (sound.sampleFilename.match(/^[\x20-\x7E]*/)?.[0] ?? '').slice(
+        0,
+        PRESET_LAYOUT.SOUND.SAMPLE_FILENAME_LENGTH - 1
+      ),
+      syncMode: sound.syncMode,
+      linkSizePitch: sound.linkSizePitch,
+      linkSizeRate: sound.linkSizeRate,
+      quantizer: sound.quantizer,
+      quantizeMode: sound.quantizeMode,
+      fineTune: sound.fineTune,
+      pingPong: sound.pingPong,
+      scenes: sound.scenes,
+    })),
+    unknownRegions: collectUnknownRegions(buffer, data.unknownRanges),
+    rawOverrides: [],
+  };
+
+  // Anything the fields cannot express (a missing block marker, a switch
+  // stored as 0x02, bytes after a filename's terminator) is kept verbatim
+  preset.rawOverrides = collectDifferences(buffer, buildFromFields(preset));
+
+  return preset;
+}
+
+function fail(label: string, message: string): never {
+  throw new Error(`Invalid preset JSON: ${label} ${message}`);
+}
+
+function readObject(value: unknown, label: string): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(label, 'must be an object');
+  }
+  return value as JsonObject;
+}
+
+function readArray(value: unknown, label: string, length?: number): unknown[] {
+  if (!Array.isArray(value)) fail(label, 'must be an array');
+  if (length !== undefined && value.length !== length) {
+    fail(label, `must have ${length} entries`);
+  }
+  return value;
+}
+
+function readInteger(value: unknown, label: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    fail(label, `must be a whole number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function readBoolean(value: unknown, label: string): boolean {
+  if (typeof value !== 'boolean') fail(label, 'must be true or false');
+  return value;
+}
+
+function readRegions(value: unknown, label: string): PresetJsonRegion[] {
+  return readArray(value, label).map((entry, i) => {
+    const regionLabel = `${label}[${i}]`;
+    const region = readObject(entry, regionLabel);
+    const offset = readInteger(
+      region.offset,
+      `${regionLabel}.offset`,
+      0,
+      PRESET_LAYOUT.FILE_SIZE - 1
+    );
+    const length = readInteger(
+      region.length,
+      `${regionLabel}.length`,
+      1,
+      PRESET_LAYOUT.FILE_SIZE - offset
+    );
+    if (typeof region.base64 !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(region.base64)) {
+      fail(`${regionLabel}.base64`, 'must be a base64 string');
+    }
+    if (Buffer.from(region.base64, 'base64').length !== length) {
+      fail(`${regionLabel}.base64`, `must decode to ${length} bytes`);
+    }
+    return { offset, length, base64: region.base64 };
+  });
+}
+
+function readScene(value: unknown, label: string): PresetScene {
+  const { SCENE } = PRESET_LAYOUT;
+  const scene = readObject(value, label);
+  const modAssigns = readObject(scene.modAssigns, `${label}.modAssigns`);
+
+  return {
+    knobs: readArray(scene.knobs, `${label}.knobs`, SCENE.KNOB_COUNT).map((knob, i) =>
+      readInteger(knob, `${label}.knobs[${i}]`, 0, 0xffff)
+    ),
+    reverse: readBoolean(scene.reverse, `${label}.reverse`),
+    modAssigns: Object.fromEntries(
+      MOD_AXES.map((axis) => [
+        axis,
+        readArray(modAssigns[axis], `${label}.modAssigns.${axis}`, SCENE.MOD_TARGET_COUNT).map(
+          (amount, i) => readInteger(amount, `${label}.modAssigns.${axis}[${i}]`, -128, 127)
+        ),
+      ])
+    ) as Record<ModAxis, number[]>,
+  };
+}
+
+function readSound(value: unknown, index: number): PresetJsonSound {
+  const label = `sounds[${index}]`;
+  const sound = readObject(value, label);
+
+  if (sound.soundNumber !== index + 1) {
+    fail(`${label}.soundNumber`, `must be ${index + 1}`);
+  }
+
+  const sampleFolder = sound.sampleFolder;
+  if (
+    sampleFolder !== 'UNKNOWN' &&
+    !PRESET_SAMPLE_FOLDERS.includes(sampleFolder as PresetJsonSound['sampleFolder'])
+  ) {
+    fail(
+      `${label}.sampleFolder`,
+      `must be one of ${[...PRESET_SAMPLE_FOLDERS, 'UNKNOWN'].join(', ')}`
+    );
+  }
+  const sampleFolderRaw =
+    sampleFolder === 'UNKNOWN'
+      ? readInteger(sound.sampleFolderRaw, `${label}.sampleFolderRaw`, 0, 255)
+      : undefined;
+
+  const maxFilenameLength = PRESET_LAYOUT.SOUND.SAMPLE_FILENAME_LENGTH - 1;
+  const sampleFilename = sound.sampleFilename;
+  if (typeof sampleFilename !== 'string' || !/^[\x20-\x7E]*$/.test(sampleFilename)) {
+    fail(`${label}.sampleFilename`, 'must be a string of printable ASCII characters');
+  }
+  if (sampleFilename.length > maxFilenameLength) {
+    fail(`${label}.sampleFilename`, `must be at most ${maxFilenameLength} characters`);
+  }
+
+  return {
+    soundNumber: index + 1,
+    sampleFolder: sampleFolder as PresetJsonSound['sampleFolder'],
+    ...(sampleFolderRaw !== undefined ? { sampleFolderRaw } : {}),
+    sampleFilename,
+    syncMode: readInteger(sound.syncMode, `${label}.syncMode`, 0, 255),
+    linkSizePitch: readBoolean(sound.linkSizePitch, `${label}.linkSizePitch`),
+    linkSizeRate: readBoolean(sound.linkSizeRate, `${label}.linkSizeRate`),
+    quantizer: readInteger(sound.quantizer, `${label}.quantizer`, 0, 255),
+    quantizeMode: readInteger(sound.quantizeMode, `${label}.quantizeMode`, 0, 255),
+    fineTune: readInteger(sound.fineTune, `${label}.fineTune`, -32768, 32767),
+    pingPong: readBoolean(sound.pingPong, `${label}.pingPong`),
+    scenes: readArray(sound.scenes, `${label}.scenes`, PRESET_LAYOUT.SCENE_COUNT).map((scene, i) =>
+      readScene(scene, `${label}.scenes[${i}]`)
+    ),
+  };
+}
+
+/**
+ * Check parsed JSON against the export format. Throws with the path of the
+ * first invalid value.
+ */
+export function parsePresetJson(value: unknown): PresetJson {
+  const preset = readObject(value, 'preset');
+
+  if (preset.format !== PRESET_JSON_FORMAT) {
+    fail('format', `must be "${PRESET_JSON_FORMAT}"`);
+  }
+  if (preset.version !== PRESET_JSON_VERSION) {
+    fail('version', `${String(preset.version)} is not supported (expected ${PRESET_JSON_VERSION})`);
+  }
+
+  return {
+    format: PRESET_JSON_FORMAT,
+    version: PRESET_JSON_VERSION,
+    presetNumber: readInteger(preset.presetNumber, 'presetNumber', 0, 255),
+    latestScene: readInteger(preset.latestScene, 'latestScene', 1, 256),
+    latestSound: readInteger(preset.latestSound, 'latestSound', 1, 256),
+    modAOut: readInteger(preset.modAOut, 'modAOut', 0, 255),
+    modBOut: readInteger(preset.modBOut, 'modBOut', 0, 255),
+    inputThru: readBoolean(preset.inputThru, 'inputThru'),
+    latch: readBoolean(preset.latch, 'latch'),
+    sync: readBoolean(preset.sync, 'sync'),
+    freezeModAssigns: readBoolean(preset.freezeModAssigns, 'freezeModAssigns'),
+    sounds: readArray(preset.sounds, 'sounds', PRESET_LAYOUT.SOUND_COUNT).map(readSound),
+    unknownRegions: readRegions(preset.unknownRegions, 'unknownRegions'),
+    rawOverrides: readRegions(preset.rawOverrides ?? [], 'rawOverrides'),
+  };
+}
+
+/**
+ * Rebuild .mgp bytes from JSON. A file exported by presetToJson comes back
+ * byte for byte. Throws if the JSON does not match the format.
+ */
+export function presetFromJson(value: unknown): Buffer {
+  const preset = parsePresetJson(value);
+  const buffer = buildFromFields(preset);
+  writeRegions(buffer, preset.rawOverrides);
+  return buffer;
+}
+
+/**
+ * Write a .mgp file as formatted JSON
+ */
+export async function exportPresetJson(presetPath: string, jsonPath: string): Promise<void> {
+  const buffer = await fs.readFile(presetPath);
+  await fs.writeFile(jsonPath, `${JSON.stringify(presetToJson(buffer), null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Replace a preset with one rebuilt from a JSON file. The preset number is set
+ * to the target slot (0 for Autosave) and an exact copy of the file being
+ * replaced is saved to the backup folder first.
+ * Returns the backup path, or null when there was no file to replace.
+ */
+export async function importPresetJson(
+  jsonPath: string,
+  presetPath: string,
+  backupDir: string
+): Promise<{ backupPath: string | null }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(jsonPath, 'utf-8'));
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`${path.basename(jsonPath)} is not valid JSON: ${error.message}`);
+    }
+    throw error;
+  }
+  const rebuilt = presetFromJson(parsed);
+
+  const fileName = path.basename(presetPath);
+  const slotMatch = fileName.match(PRESET_FILE_REGEX);
+  if (slotMatch) {
+    writePresetNumber(rebuilt, parseInt(slotMatch[1], 10));
+  } else if (fileName.toLowerCase() === FOLDER_NAMES.AUTOSAVE_FILE.toLowerCase()) {
+    writePresetNumber(rebuilt, 0);
+  }
+
+  let backupPath: string | null = null;
+  try {
+    const original = await fs.readFile(presetPath);
+    backupPath = await backupPreset(presetPath, original, backupDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  await fs.writeFile(presetPath, rebuilt);
+  return { backupPath };
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import {
+  PRESET_METADATA_FILENAME,
+  readPresetMetadata,
+  readPresetMetadataFile,
+  transferPresetMetadata,
+  writePresetMetadata,
+} from './presetMetadata';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+const METADATA_PATH = `/card/Project01/${PRESET_METADATA_FILENAME}`;
+
+function readMetadataJson(filePath = METADATA_PATH) {
+  return JSON.parse(vol.readFileSync(filePath, 'utf-8') as string);
+}
+
+describe('presetMetadata', () => {
+  beforeEach(() => {
+    vol.reset();
+    vol.fromJSON({
+      '/card/Project01/Preset01.mgp': '',
+      '/card/Project01/Preset02.mgp': '',
+      '/card/Project02/Preset05.mgp': '',
+      [METADATA_PATH]: JSON.stringify({
+        presets: {
+          Preset01: { customName: 'Glass Pads', notes: 'Mod wheel on X' },
+        },
+      }),
+    });
+  });
+
+  it('reads metadata by preset file name', async () => {
+    expect(await readPresetMetadata('/card/Project01/Preset01.mgp')).toEqual({
+      customName: 'Glass Pads',
+      notes: 'Mod wheel on X',
+    });
+    expect(await readPresetMetadata('/card/Project01/Preset02.mgp')).toEqual({});
+  });
+
+  it('treats a missing or invalid file as empty', async () => {
+    expect(await readPresetMetadataFile('/card/Project02')).toEqual({});
+
+    vol.writeFileSync(METADATA_PATH, 'not json');
+    expect(await readPresetMetadataFile('/card/Project01')).toEqual({});
+  });
+
+  it('writes several presets per project and trims values', async () => {
+    await writePresetMetadata([
+      { presetPath: '/card/Project01/Preset02.mgp', metadata: { customName: '  Drones ' } },
+      { presetPath: '/card/Project02/Preset05.mgp', metadata: { notes: 'Live set' } },
+    ]);
+
+    expect(readMetadataJson().presets).toEqual({
+      Preset01: { customName: 'Glass Pads', notes: 'Mod wheel on X' },
+      Preset02: { customName: 'Drones' },
+    });
+    expect(readMetadataJson(`/card/Project02/${PRESET_METADATA_FILENAME}`).presets).toEqual({
+      Preset05: { notes: 'Live set' },
+    });
+  });
+
+  it('removes the file when the last entry is cleared', async () => {
+    await writePresetMetadata([
+      { presetPath: '/card/Project01/Preset01.mgp', metadata: { customName: '', notes: ' ' } },
+    ]);
+
+    expect(vol.existsSync(METADATA_PATH)).toBe(false);
+  });
+
+  describe('transferPresetMetadata', () => {
+    it('copies metadata to the target slot', async () => {
+      await transferPresetMetadata(
+        '/card/Project01/Preset01.mgp',
+        '/card/Project02/Preset05.mgp',
+        'copy'
+      );
+
+      expect(await readPresetMetadata('/card/Project01/Preset01.mgp')).toHaveProperty(
+        'customName',
+        'Glass Pads'
+      );
+      expect(await readPresetMetadata('/card/Project02/Preset05.mgp')).toHaveProperty(
+        'customName',
+        'Glass Pads'
+      );
+    });
+
+    it('moves metadata and clears the source slot', async () => {
+      await transferPresetMetadata(
+        '/card/Project01/Preset01.mgp',
+        '/card/Project01/Preset03.mgp',
+        'move'
+      );
+
+      expect(readMetadataJson().presets).toEqual({
+        Preset03: { customName: 'Glass Pads', notes: 'Mod wheel on X' },
+      });
+    });
+
+    it('swaps metadata between slots', async () => {
+      await writePresetMetadata([
+        { presetPath: '/card/Project01/Preset02.mgp', metadata: { customName: 'Drones' } },
+      ]);
+
+      await transferPresetMetadata(
+        '/card/Project01/Preset01.mgp',
+        '/card/Project01/Preset02.mgp',
+        'swap'
+      );
+
+      expect(readMetadataJson().presets).toEqual({
+        Preset01: { customName: 'Drones' },
+        Preset02: { customName: 'Glass Pads', notes: 'Mod wheel on X' },
+      });
+    });
+
+    it('clears the name of a slot overwritten by an unnamed preset', async () => {
+      await transferPresetMetadata(
+        '/card/Project01/Preset02.mgp',
+        '/card/Project01/Preset01.mgp',
+        'copy'
+      );
+
+      expect(vol.existsSync(METADATA_PATH)).toBe(false);
+    });
+  });
+});
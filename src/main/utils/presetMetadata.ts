@@ -0,0 +1,130 @@
+/**
+ * Custom preset names and notes, stored per project in .preset-metadata.json.
+ * Entries are keyed by preset file name without extension (e.g. "Preset01").
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { PresetMetadata, PresetTransferMode } from '@shared/types';
+
+export const PRESET_METADATA_FILENAME = '.preset-metadata.json';
+
+interface PresetMetadataFile {
+  presets: Record<string, PresetMetadata>;
+}
+
+/**
+ * Key of a preset in its project's metadata file
+ */
+export function getPresetMetadataKey(presetPath: string): string {
+  return path.basename(presetPath, path.extname(presetPath));
+}
+
+/**
+ * Drop empty fields so unnamed presets leave no entry behind
+ */
+function cleanMetadata(metadata: PresetMetadata): PresetMetadata | null {
+  const cleaned: PresetMetadata = {};
+  const customName = metadata.customName?.trim();
+  const notes = metadata.notes?.trim();
+  if (customName) cleaned.customName = customName;
+  if (notes) cleaned.notes = notes;
+  return Object.keys(cleaned).length > 0 ? cleaned : null;
+}
+
+/**
+ * Read all preset metadata for a project. Missing or invalid files read as empty.
+ */
+export async function readPresetMetadataFile(
+  projectPath: string
+): Promise<Record<string, PresetMetadata>> {
+  try {
+    const data = await fs.readFile(path.join(projectPath, PRESET_METADATA_FILENAME), 'utf-8');
+    const parsed: Partial<PresetMetadataFile> = JSON.parse(data);
+    return parsed.presets && typeof parsed.presets === 'object' ? parsed.presets : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Replace a project's preset metadata. The file is removed when nothing is left.
+ */
+export async function writePresetMetadataFile(
+  projectPath: string,
+  presets: Record<string, PresetMetadata>
+): Promise<void> {
+  const metadataPath = path.join(projectPath, PRESET_METADATA_FILENAME);
+
+  const entries: Record<string, PresetMetadata> = {};
+  for (const key of Object.keys(presets).sort()) {
+    const cleaned = cleanMetadata(presets[key]);
+    if (cleaned) entries[key] = cleaned;
+  }
+
+  // Delete first to avoid permission issues
+  // (Windows can't modify files from other computers, but can delete them)
+  try {
+    await fs.unlink(metadataPath);
+  } catch {
+    // File doesn't exist, that's fine
+  }
+
+  if (Object.keys(entries).length === 0) return;
+
+  const file: PresetMetadataFile = { presets: entries };
+  await fs.writeFile(metadataPath, JSON.stringify(file, null, 2), 'utf-8');
+}
+
+/**
+ * Metadata of a single preset (empty object if it has none)
+ */
+export async function readPresetMetadata(presetPath: string): Promise<PresetMetadata> {
+  const presets = await readPresetMetadataFile(path.dirname(presetPath));
+  return presets[getPresetMetadataKey(presetPath)] ?? {};
+}
+
+/**
+ * Set the metadata of several presets, reading and writing each project file once
+ */
+export async function writePresetMetadata(
+  updates: Array<{ presetPath: string; metadata: PresetMetadata }>
+): Promise<void> {
+  const byProject = new Map<string, typeof updates>();
+  for (const update of updates) {
+    const projectPath = path.dirname(update.presetPath);
+    byProject.set(projectPath, [...(byProject.get(projectPath) ?? []), update]);
+  }
+
+  for (const [projectPath, projectUpdates] of byProject) {
+    const presets = await readPresetMetadataFile(projectPath);
+    for (const { presetPath, metadata } of projectUpdates) {
+      presets[getPresetMetadataKey(presetPath)] = metadata;
+    }
+    await writePresetMetadataFile(projectPath, presets);
+  }
+}
+
+/**
+ * Carry names and notes along when a preset is copied, moved or swapped.
+ * The target slot always ends up with the source preset's metadata.
+ */
+export async function transferPresetMetadata(
+  sourcePath: string,
+  targetPath: string,
+  mode: PresetTransferMode
+): Promise<void> {
+  const [source, target] = await Promise.all([
+    readPresetMetadata(sourcePath),
+    readPresetMetadata(targetPath),
+  ]);
+
+  const updates = [{ presetPath: targetPath, metadata: source }];
+  if (mode === 'move') {
+    updates.push({ presetPath: sourcePath, metadata: {} });
+  } else if (mode === 'swap') {
+    updates.push({ presetPath: sourcePath, metadata: target });
+  }
+
+  await writePresetMetadata(updates);
+}
@@ -1,6 +1,18 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { vol } from 'memfs';
-import { extractSamplesFromPreset } from './presetParser';
+import {
+  extractSamplesFromPreset,
+  findSampleReferences,
+  getMaxFilenameLength,
+  patchSampleReference,
+  MAX_FILENAME_FIELD_LENGTH,
+  decodePreset,
+  getSoundBlockOffset,
+  readPresetData,
+  getSampleFolders,
+  writeSoundSample,
+  PRESET_LAYOUT,
+} from './presetParser';
 
 // Mock fs with memfs
 vi.mock('node:fs/promises', () => ({
@@ -169,8 +181,281 @@ describe('Preset Parser', () => {
       expect(samples).toContain('sample3.wAv');
     });
   });
+
+  describe('findSampleReferences', () => {
+    it('should report offset, folder prefix and field length', () => {
+      const buffer = createMockMGPFile(['/WAVS/kick.wav', '/PROJECT/snare.wav']);
+
+      const references = findSampleReferences(buffer);
+
+      expect(references).toHaveLength(2);
+      expect(references[0]).toEqual({
+        offset: 0,
+        value: '/WAVS/kick.wav',
+        filename: 'kick.wav',
+        // String + null terminator + 10 padding bytes
+        fieldLength: 25,
+      });
+      expect(references[1].offset).toBe(25);
+      expect(references[1].filename).toBe('snare.wav');
+    });
+
+    it('should cap the field length of the last reference', () => {
+      const buffer = createMockMGPFile(['/WAVS/kick.wav']);
+
+      const [reference] = findSampleReferences(buffer);
+
+      expect(reference.fieldLength).toBe(MAX_FILENAME_FIELD_LENGTH);
+    });
+
+    it('should compute the maximum filename length without the folder prefix', () => {
+      const buffer = createMockMGPFile(['/WAVS/kick.wav', '/PROJECT/snare.wav']);
+
+      const [first] = findSampleReferences(buffer);
+
+      // 25 bytes - 1 terminator - 6 prefix bytes
+      expect(getMaxFilenameLength(first)).toBe(18);
+    });
+  });
+
+  describe('patchSampleReference', () => {
+    it('should replace the filename and keep the folder prefix', () => {
+      const buffer = createMockMGPFile(['/WAVS/kick.wav', '/PROJECT/snare.wav']);
+      const [first] = findSampleReferences(buffer);
+
+      patchSampleReference(buffer, first, 'k.wav');
+
+      const references = findSampleReferences(buffer);
+      expect(references.map((r) => r.value)).toEqual(['/WAVS/k.wav', '/PROJECT/snare.wav']);
+      expect(buffer.length).toBe(16384);
+      // Remainder of the old name is zero-filled
+      expect(buffer.subarray(11, 25).every((byte) => byte === 0)).toBe(true);
+    });
+
+    it('should not touch bytes outside the field', () => {
+      const buffer = createMockMGPFile(['/WAVS/kick.wav', '/PROJECT/snare.wav']);
+      const original = Buffer.from(buffer);
+      const [first] = findSampleReferences(buffer);
+
+      patchSampleReference(buffer, first, '01 kick.wav');
+
+      expect(buffer.subarray(first.fieldLength).equals(original.subarray(first.fieldLength))).toBe(
+        true
+      );
+    });
+
+    it('should throw when the new name does not fit', () => {
+      const buffer = createMockMGPFile(['/WAVS/kick.wav', '/PROJECT/snare.wav']);
+      const original = Buffer.from(buffer);
+      const [first] = findSampleReferences(buffer);
+
+      expect(() => patchSampleReference(buffer, first, 'a-very-long-kick-name.wav')).toThrow(
+        /too long/
+      );
+      expect(buffer.equals(original)).toBe(true);
+    });
+
+    it('should throw for non-ASCII names', () => {
+      const buffer = createMockMGPFile(['/WAVS/kick.wav']);
+      const [first] = findSampleReferences(buffer);
+
+      expect(() => patchSampleReference(buffer, first, 'kück.wav')).toThrow(/characters/);
+    });
+  });
+
+  describe('decodePreset', () => {
+    it('should decode preset-level settings', () => {
+      const buffer = createLayoutPreset();
+      buffer[PRESET_LAYOUT.HEADER.PRESET_NUMBER] = 12;
+      buffer[PRESET_LAYOUT.HEADER.LATEST_SCENE] = 1;
+      buffer[PRESET_LAYOUT.HEADER.LATEST_SOUND] = 4;
+      buffer[PRESET_LAYOUT.HEADER.INPUT_THRU] = 1;
+      buffer[PRESET_LAYOUT.HEADER.LATCH] = 1;
+
+      const data = decodePreset(buffer);
+
+      expect(data.presetNumber).toBe(12);
+      expect(data.latestScene).toBe(2);
+      expect(data.latestSound).toBe(5);
+      expect(data.inputThru).toBe(true);
+      expect(data.latch).toBe(true);
+      expect(data.sync).toBe(false);
+      expect(data.sounds).toHaveLength(8);
+    });
+
+    it('should decode sound blocks', () => {
+      const buffer = createLayoutPreset();
+      const block = getSoundBlockOffset(3);
+      const { SOUND, SCENE } = PRESET_LAYOUT;
+      buffer[block + SOUND.SAMPLE_FOLDER] = 1;
+      buffer.write('pad.wav', block + SOUND.SAMPLE_FILENAME, 'ascii');
+      buffer[block + SOUND.PING_PONG] = 1;
+      buffer.writeInt16LE(-25, block + SOUND.FINE_TUNE);
+      const scene2 = block + SOUND.SCENES + SOUND.SCENE_SIZE;
+      buffer.writeUInt16LE(4095, scene2 + SCENE.KNOBS + 2 * 2);
+      buffer[scene2 + SCENE.REVERSE] = 1;
+      // Y axis, knob 1
+      buffer.writeInt8(-64, scene2 + SCENE.MOD_ASSIGNS + 2 * SCENE.MOD_TARGET_COUNT);
+
+      const sound = decodePreset(buffer).sounds[2];
+
+      expect(sound.soundNumber).toBe(3);
+      expect(sound.blockOffset).toBe(0x3a3 + 2 * 0x5ba);
+      expect(sound.hasBlockMarker).toBe(true);
+      expect(sound.sampleFolder).toBe('WAVS');
+      expect(sound.sampleFilename).toBe('pad.wav');
+      expect(sound.pingPong).toBe(true);
+      expect(sound.fineTune).toBe(-25);
+      expect(sound.scenes[0].reverse).toBe(false);
+      expect(sound.scenes[1].knobs[2]).toBe(4095);
+      expect(sound.scenes[1].reverse).toBe(true);
+      expect(sound.scenes[1].modAssigns.Y[0]).toBe(-64);
+    });
+
+    it('should place sample filenames at the offsets found in research', () => {
+      const offsets = [0x3ab, 0x965, 0xf1f, 0x14d9, 0x1a93, 0x204d, 0x2607];
+      offsets.forEach((offset, index) => {
+        expect(getSoundBlockOffset(index + 1) + PRESET_LAYOUT.SOUND.SAMPLE_FILENAME).toBe(offset);
+      });
+    });
+
+    it('should flag unknown sample folders and missing block markers', () => {
+      const buffer = createLayoutPreset();
+      buffer[getSoundBlockOffset(1) + PRESET_LAYOUT.SOUND.SAMPLE_FOLDER] = 7;
+      buffer[getSoundBlockOffset(2) + 2] = 0;
+
+      const data = decodePreset(buffer);
+
+      expect(data.sounds[0].sampleFolder).toBe('UNKNOWN');
+      expect(data.sounds[0].sampleFolderRaw).toBe(7);
+      expect(data.sounds[1].hasBlockMarker).toBe(false);
+    });
+
+    it('should report undecoded bytes as hex ranges', () => {
+      const buffer = createLayoutPreset();
+      buffer[0x10] = 0xab;
+      buffer[0x11] = 0x01;
+
+      const data = decodePreset(buffer);
+
+      const headerRange = data.unknownRanges.find(
+        (range) => range.offset <= 0x10 && 0x10 < range.offset + range.length
+      );
+      expect(headerRange).toBeDefined();
+      expect(headerRange!.isZero).toBe(false);
+      expect(headerRange!.hex.split(' ')[0x10 - headerRange!.offset]).toBe('ab');
+      // Decoded fields are not part of any unknown range
+      const filenameOffset = getSoundBlockOffset(1) + PRESET_LAYOUT.SOUND.SAMPLE_FILENAME;
+      expect(
+        data.unknownRanges.some(
+          (range) => range.offset <= filenameOffset && filenameOffset < range.offset + range.length
+        )
+      ).toBe(false);
+      // Ranges end at the end of the file
+      const last = data.unknownRanges[data.unknownRanges.length - 1];
+      expect(last.offset + last.length).toBe(16384);
+    });
+
+    it('should reject files with the wrong size', () => {
+      expect(() => decodePreset(Buffer.alloc(100))).toThrow(/Invalid preset file size/);
+    });
+  });
+
+  describe('getSampleFolders', () => {
+    it('should return the stored folder for references at layout offsets', () => {
+      const buffer = createLayoutPreset();
+      const { SOUND } = PRESET_LAYOUT;
+      buffer.write('kick.wav', getSoundBlockOffset(1) + SOUND.SAMPLE_FILENAME);
+      buffer[getSoundBlockOffset(2) + SOUND.SAMPLE_FOLDER] = 2;
+      buffer.write('rec.wav', getSoundBlockOffset(2) + SOUND.SAMPLE_FILENAME);
+
+      expect(getSampleFolders(buffer)).toEqual(['PROJECT', 'RECS']);
+    });
+
+    it('should return null for references outside the known layout', () => {
+      const buffer = createMockMGPFile(['/WAVS/kick.wav', 'snare.wav']);
+
+      expect(getSampleFolders(buffer)).toEqual([null, null]);
+    });
+  });
+
+  describe('writeSoundSample', () => {
+    it('should write folder and filename into the sound block', () => {
+      const buffer = createLayoutPreset();
+      const block = getSoundBlockOffset(4);
+      buffer.write('a-much-longer-old-name.wav', block + PRESET_LAYOUT.SOUND.SAMPLE_FILENAME);
+      buffer[block + PRESET_LAYOUT.SOUND.PING_PONG] = 1;
+
+      writeSoundSample(buffer, 4, 'RECS', 'Rec00012.wav');
+
+      const sound = decodePreset(buffer).sounds[3];
+      expect(sound.sampleFolder).toBe('RECS');
+      expect(sound.sampleFilename).toBe('Rec00012.wav');
+      // Neighbouring fields are untouched
+      expect(sound.pingPong).toBe(true);
+    });
+
+    it('should only change the folder byte and filename field', () => {
+      const buffer = createLayoutPreset();
+      buffer.fill(0x5a, 0x10, 0x20);
+      const original = Buffer.from(buffer);
+      const block = getSoundBlockOffset(2);
+
+      writeSoundSample(buffer, 2, 'WAVS', 'pad.wav');
+
+      const { SOUND } = PRESET_LAYOUT;
+      for (let i = 0; i < buffer.length; i++) {
+        const inField =
+          i === block + SOUND.SAMPLE_FOLDER ||
+          (i >= block + SOUND.SAMPLE_FILENAME &&
+            i < block + SOUND.SAMPLE_FILENAME + SOUND.SAMPLE_FILENAME_LENGTH);
+        if (!inField) {
+          expect(buffer[i]).toBe(original[i]);
+        }
+      }
+    });
+
+    it('should refuse to write when the block marker is missing', () => {
+      const buffer = Buffer.alloc(PRESET_LAYOUT.FILE_SIZE);
+
+      expect(() => writeSoundSample(buffer, 1, 'PROJECT', 'kick.wav')).toThrow(/not found/);
+    });
+
+    it('should validate sound number and filename', () => {
+      const buffer = createLayoutPreset();
+
+      expect(() => writeSoundSample(buffer, 9, 'PROJECT', 'kick.wav')).toThrow(/between 1 and 8/);
+      expect(() => writeSoundSample(buffer, 1, 'PROJECT', `${'x'.repeat(64)}.wav`)).toThrow(
+        /too long/
+      );
+      expect(() => writeSoundSample(buffer, 1, 'PROJECT', 'kück.wav')).toThrow(/characters/);
+    });
+  });
+
+  describe('readPresetData', () => {
+    it('should read and decode a preset file', async () => {
+      const buffer = createLayoutPreset();
+      buffer.write('kick.wav', getSoundBlockOffset(1) + PRESET_LAYOUT.SOUND.SAMPLE_FILENAME);
+      vol.fromJSON({ '/test/preset.mgp': buffer });
+
+      const data = await readPresetData('/test/preset.mgp');
+
+      expect(data.sounds[0].sampleFilename).toBe('kick.wav');
+    });
+  });
 });
 
+/**
+ * Create an empty preset with valid sound block markers
+ */
+function createLayoutPreset(): Buffer {
+  const buffer = Buffer.alloc(PRESET_LAYOUT.FILE_SIZE);
+  for (let soundNumber = 1; soundNumber <= 8; soundNumber++) {
+    buffer[getSoundBlockOffset(soundNumber) + 2] = 1;
+  }
+  return buffer;
+}
+
 /**
  * Create a mock .mgp file buffer with sample references
  * .mgp files are 16KB binary files with null-terminated ASCII strings
@@ -3,44 +3,428 @@
  */
 
 import fs from 'node:fs/promises';
+import {
+  ModAxis,
+  PresetData,
+  PresetSampleFolder,
+  SampleFolder,
+  PresetScene,
+  PresetSound,
+  UnknownByteRange,
+} from '@shared/types';
 
 /**
- * Extract sample filenames from a .mgp preset file
- * Returns the 8 sample names referenced in the preset (one per Sound)
+ * Upper bound for a filename field, including the null terminator. The zero
+ * run after the last filename can run into other zero-valued settings, so
+ * patched names are never allowed to extend further than this.
  */
-export async function extractSamplesFromPreset(mgpFilePath: string): Promise<string[]> {
-  try {
-    const buffer = await fs.readFile(mgpFilePath);
-    const samples: string[] = [];
+export const MAX_FILENAME_FIELD_LENGTH = 64;
 
-    // Look for null-terminated strings ending in .wav
-    let currentString = '';
-    for (let i = 0; i < buffer.length; i++) {
-      const byte = buffer[i];
+/**
+ * A sample filename string found inside a .mgp buffer
+ */
+export interface SampleReference {
+  /** Byte offset of the first character of the stored string */
+  offset: number;
+  /** Raw stored string, including any folder prefix (e.g. "/WAVS/kick.wav") */
+  value: string;
+  /** Filename without folder prefix (e.g. "kick.wav") */
+  filename: string;
+  /**
+   * Bytes available for the string: its current length plus the zero padding
+   * that follows it. One byte is always reserved for the null terminator.
+   */
+  fieldLength: number;
+}
 
-      if (byte === 0) {
-        // Null terminator - check if we have a .wav file
-        if (currentString.toLowerCase().endsWith('.wav')) {
-          // Remove folder prefix if present (e.g., "/PROJECT/sample.wav" -> "sample.wav")
-          const cleanFilename = currentString.split('/').pop() || '';
-          samples.push(cleanFilename);
-        }
-        currentString = '';
-      } else if (byte >= 32 && byte <= 126) {
-        // Printable ASCII character
-        currentString += String.fromCharCode(byte);
-      } else {
-        // Non-printable character - reset if we don't have a potential .wav
-        if (currentString.length > 0 && !currentString.toLowerCase().endsWith('.wav')) {
-          currentString = '';
+/**
+ * Find every null-terminated printable ASCII string ending in .wav, in file order
+ */
+export function findSampleReferences(buffer: Buffer): SampleReference[] {
+  const references: SampleReference[] = [];
+  let start = 0;
+
+  for (let i = 0; i < buffer.length; i++) {
+    const byte = buffer[i];
+
+    if (byte === 0) {
+      const value = buffer.toString('ascii', start, i);
+      if (value.toLowerCase().endsWith('.wav')) {
+        // The field extends over the zero padding up to the next non-zero byte (capped)
+        let end = i;
+        const limit = Math.min(buffer.length, start + MAX_FILENAME_FIELD_LENGTH);
+        while (end < limit && buffer[end] === 0) {
+          end++;
         }
+        references.push({
+          offset: start,
+          value,
+          // Remove folder prefix if present (e.g., "/PROJECT/sample.wav" -> "sample.wav")
+          filename: value.split('/').pop() || '',
+          fieldLength: end - start,
+        });
       }
+      start = i + 1;
+    } else if (byte < 32 || byte > 126) {
+      // Non-printable character - cannot be part of a filename
+      start = i + 1;
     }
+  }
+
+  return references;
+}
+
+/**
+ * Maximum filename length that fits into an existing reference, keeping its folder prefix
+ */
+export function getMaxFilenameLength(reference: SampleReference): number {
+  const prefixLength = reference.value.length - reference.filename.length;
+  return reference.fieldLength - 1 - prefixLength;
+}
+
+/**
+ * Overwrite a sample reference in place with a new filename.
+ * The folder prefix (if any) is kept and the rest of the field is zero-filled,
+ * so the buffer keeps its size and every other byte stays untouched.
+ * Throws if the new name does not fit or cannot be stored as ASCII.
+ */
+export function patchSampleReference(
+  buffer: Buffer,
+  reference: SampleReference,
+  newFilename: string
+): void {
+  if (!/^[\x20-\x7E]+$/.test(newFilename)) {
+    throw new Error(`"${newFilename}" contains characters that cannot be stored in a preset`);
+  }
+
+  const maxLength = getMaxFilenameLength(reference);
+  if (newFilename.length > maxLength) {
+    throw new Error(
+      `"${newFilename}" is too long for the preset filename field (max ${maxLength} characters)`
+    );
+  }
+
+  const prefix = reference.value.slice(0, reference.value.length - reference.filename.length);
+  buffer.fill(0, reference.offset, reference.offset + reference.fieldLength);
+  buffer.write(prefix + newFilename, reference.offset, 'ascii');
+}
+
+/**
+ * Extract sample filenames from a .mgp preset file
+ * Returns the 8 sample names referenced in the preset (one per Sound)
+ */
+export async function extractSamplesFromPreset(mgpFilePath: string): Promise<string[]> {
+  try {
+    const buffer = await fs.readFile(mgpFilePath);
 
     // Should return exactly 8 samples (one per Sound button)
-    return samples.slice(0, 8);
+    return findSampleReferences(buffer)
+      .map((reference) => reference.filename)
+      .slice(0, 8);
   } catch (error) {
     console.error('Error reading .mgp file:', error);
     throw error;
   }
 }
+
+/**
+ * Byte layout of a .mgp file. Offsets inside a sound block are relative to the
+ * block start. See docs/MGP_RESEARCH.md for how confident we are in each field.
+ */
+export const PRESET_LAYOUT = {
+  FILE_SIZE: 16384,
+  HEADER: {
+    PRESET_NUMBER: 0x04,
+    LATEST_SCENE: 0x05,
+    LATEST_SOUND: 0x06,
+    MOD_A_OUT: 0x07,
+    MOD_B_OUT: 0x08,
+    INPUT_THRU: 0x09,
+    LATCH: 0x0a,
+    SYNC: 0x0b,
+    FREEZE_MOD_ASSIGNS: 0x0c,
+  },
+  SOUND_BLOCK_START: 0x3a3,
+  SOUND_BLOCK_SIZE: 0x5ba,
+  SOUND_COUNT: 8,
+  SOUND: {
+    MARKER: 0x00, // "00 00 01"
+    SYNC_MODE: 0x03,
+    LINK_SIZE_PITCH: 0x04,
+    LINK_SIZE_RATE: 0x05,
+    QUANTIZER: 0x06,
+    SAMPLE_FOLDER: 0x07,
+    SAMPLE_FILENAME: 0x08,
+    SAMPLE_FILENAME_LENGTH: MAX_FILENAME_FIELD_LENGTH,
+    QUANTIZE_MODE: 0x48,
+    PING_PONG: 0x49,
+    FINE_TUNE: 0x4a, // int16 LE
+    SCENES: 0x50,
+    SCENE_SIZE: 0x50,
+  },
+  SCENE: {
+    KNOBS: 0x00, // 10 x uint16 LE
+    KNOB_COUNT: 10,
+    REVERSE: 0x14,
+    MOD_ASSIGNS: 0x15, // 4 axes x 11 int8 (10 knobs + Reverse)
+    MOD_TARGET_COUNT: 11,
+  },
+  SCENE_COUNT: 2,
+} as const;
+
+export const PRESET_SAMPLE_FOLDERS: PresetSampleFolder[] = ['PROJECT', 'WAVS', 'RECS'];
+
+export const MOD_AXES: ModAxis[] = ['RAND', 'X', 'Y', 'Z'];
+
+export const SOUND_BLOCK_MARKER = [0x00, 0x00, 0x01];
+
+/**
+ * Byte offset of a sound block (soundNumber is 1-8)
+ */
+export function getSoundBlockOffset(soundNumber: number): number {
+  return PRESET_LAYOUT.SOUND_BLOCK_START + (soundNumber - 1) * PRESET_LAYOUT.SOUND_BLOCK_SIZE;
+}
+
+function readFixedString(buffer: Buffer, offset: number, length: number): string {
+  const end = buffer.indexOf(0, offset);
+  const stringEnd = end === -1 || end > offset + length ? offset + length : end;
+  return buffer.toString('ascii', offset, stringEnd);
+}
+
+function decodeScene(buffer: Buffer, offset: number, known: Uint8Array): PresetScene {
+  const { SCENE } = PRESET_LAYOUT;
+  const knobs: number[] = [];
+  for (let i = 0; i < SCENE.KNOB_COUNT; i++) {
+    knobs.push(buffer.readUInt16LE(offset + SCENE.KNOBS + i * 2));
+  }
+
+  const modAssigns = {} as Record<ModAxis, number[]>;
+  MOD_AXES.forEach((axis, axisIndex) => {
+    const axisOffset = offset + SCENE.MOD_ASSIGNS + axisIndex * SCENE.MOD_TARGET_COUNT;
+    modAssigns[axis] = Array.from({ length: SCENE.MOD_TARGET_COUNT }, (_, i) =>
+      buffer.readInt8(axisOffset + i)
+    );
+  });
+
+  known.fill(1, offset, offset + SCENE.MOD_ASSIGNS + MOD_AXES.length * SCENE.MOD_TARGET_COUNT);
+
+  return {
+    knobs,
+    reverse: buffer[offset + SCENE.REVERSE] !== 0,
+    modAssigns,
+  };
+}
+
+function decodeSound(buffer: Buffer, soundNumber: number, known: Uint8Array): PresetSound {
+  const { SOUND } = PRESET_LAYOUT;
+  const blockOffset = getSoundBlockOffset(soundNumber);
+  const at = (field: number) => blockOffset + field;
+
+  const sampleFolderRaw = buffer[at(SOUND.SAMPLE_FOLDER)];
+  const scenes: PresetScene[] = [];
+  for (let i = 0; i < PRESET_LAYOUT.SCENE_COUNT; i++) {
+    scenes.push(decodeScene(buffer, at(SOUND.SCENES) + i * SOUND.SCENE_SIZE, known));
+  }
+
+  // Everything from the marker up to the end of fine tune is decoded
+  known.fill(1, blockOffset, at(SOUND.FINE_TUNE) + 2);
+
+  return {
+    soundNumber,
+    blockOffset,
+    hasBlockMarker: SOUND_BLOCK_MARKER.every((byte, i) => buffer[at(SOUND.MARKER) + i] === byte),
+    syncMode: buffer[at(SOUND.SYNC_MODE)],
+    linkSizePitch: buffer[at(SOUND.LINK_SIZE_PITCH)] !== 0,
+    linkSizeRate: buffer[at(SOUND.LINK_SIZE_RATE)] !== 0,
+    quantizer: buffer[at(SOUND.QUANTIZER)],
+    sampleFolder: PRESET_SAMPLE_FOLDERS[sampleFolderRaw] ?? 'UNKNOWN',
+    sampleFolderRaw,
+    sampleFilename: readFixedString(
+      buffer,
+      at(SOUND.SAMPLE_FILENAME),
+      SOUND.SAMPLE_FILENAME_LENGTH
+    ),
+    quantizeMode: buffer[at(SOUND.QUANTIZE_MODE)],
+    fineTune: buffer.readInt16LE(at(SOUND.FINE_TUNE)),
+    pingPong: buffer[at(SOUND.PING_PONG)] !== 0,
+    scenes,
+  };
+}
+
+/**
+ * Collect every run of bytes not covered by a decoded field
+ */
+export function collectUnknownRanges(buffer: Buffer, known: Uint8Array): UnknownByteRange[] {
+  const ranges: UnknownByteRange[] = [];
+  let start = -1;
+
+  for (let i = 0; i <= buffer.length; i++) {
+    const isUnknown = i < buffer.length && known[i] === 0;
+    if (isUnknown && start === -1) {
+      start = i;
+    } else if (!isUnknown && start !== -1) {
+      const bytes = buffer.subarray(start, i);
+      ranges.push({
+        offset: start,
+        length: bytes.length,
+        hex: Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(' '),
+        isZero: bytes.every((byte) => byte === 0),
+      });
+      start = -1;
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Decode a .mgp buffer into typed preset data.
+ * Throws if the buffer is not a 16 KB preset file.
+ */
+export function decodePreset(buffer: Buffer): PresetData {
+  if (buffer.length !== PRESET_LAYOUT.FILE_SIZE) {
+    throw new Error(
+      `Invalid preset file size: ${buffer.length} bytes (expected ${PRESET_LAYOUT.FILE_SIZE})`
+    );
+  }
+
+  const { HEADER } = PRESET_LAYOUT;
+  const known = new Uint8Array(buffer.length);
+  known.fill(1, HEADER.PRESET_NUMBER, HEADER.FREEZE_MOD_ASSIGNS + 1);
+
+  const sounds: PresetSound[] = [];
+  for (let soundNumber = 1; soundNumber <= PRESET_LAYOUT.SOUND_COUNT; soundNumber++) {
+    sounds.push(decodeSound(buffer, soundNumber, known));
+  }
+
+  return {
+    fileSize: buffer.length,
+    presetNumber: buffer[HEADER.PRESET_NUMBER],
+    // Stored 0-based
+    latestScene: buffer[HEADER.LATEST_SCENE] + 1,
+    latestSound: buffer[HEADER.LATEST_SOUND] + 1,
+    modAOut: buffer[HEADER.MOD_A_OUT],
+    modBOut: buffer[HEADER.MOD_B_OUT],
+    inputThru: buffer[HEADER.INPUT_THRU] !== 0,
+    latch: buffer[HEADER.LATCH] !== 0,
+    sync: buffer[HEADER.SYNC] !== 0,
+    freezeModAssigns: buffer[HEADER.FREEZE_MOD_ASSIGNS] !== 0,
+    sounds,
+    unknownRanges: collectUnknownRanges(buffer, known),
+  };
+}
+
+/**
+ * Point a sound at a different sample by writing its folder and filename into
+ * the sound block. The filename field is zero-filled first; every other byte
+ * is left untouched. Throws if the buffer does not match the known layout or
+ * the filename cannot be stored.
+ */
+export function writeSoundSample(
+  buffer: Buffer,
+  soundNumber: number,
+  folder: SampleFolder,
+  filename: string
+): void {
+  const { SOUND } = PRESET_LAYOUT;
+
+  if (buffer.length !== PRESET_LAYOUT.FILE_SIZE) {
+    throw new Error(
+      `Invalid preset file size: ${buffer.length} bytes (expected ${PRESET_LAYOUT.FILE_SIZE})`
+    );
+  }
+  if (
+    !Number.isInteger(soundNumber) ||
+    soundNumber < 1 ||
+    soundNumber > PRESET_LAYOUT.SOUND_COUNT
+  ) {
+    throw new Error(`Sound number must be between 1 and ${PRESET_LAYOUT.SOUND_COUNT}`);
+  }
+
+  const blockOffset = getSoundBlockOffset(soundNumber);
+  if (!SOUND_BLOCK_MARKER.every((byte, i) => buffer[blockOffset + SOUND.MARKER + i] === byte)) {
+    throw new Error(`Sound ${soundNumber} block was not found at the expected offset`);
+  }
+  if (!/^[\x20-\x7E]+$/.test(filename)) {
+    throw new Error(`"${filename}" contains characters that cannot be stored in a preset`);
+  }
+  if (filename.length > SOUND.SAMPLE_FILENAME_LENGTH - 1) {
+    throw new Error(
+      `"${filename}" is too long for the preset filename field (max ${SOUND.SAMPLE_FILENAME_LENGTH - 1} characters)`
+    );
+  }
+
+  const filenameOffset = blockOffset + SOUND.SAMPLE_FILENAME;
+  buffer[blockOffset + SOUND.SAMPLE_FOLDER] = PRESET_SAMPLE_FOLDERS.indexOf(folder);
+  buffer.fill(0, filenameOffset, filenameOffset + SOUND.SAMPLE_FILENAME_LENGTH);
+  buffer.write(filename, filenameOffset, 'ascii');
+}
+
+/**
+ * True if the buffer matches the decoded layout: the expected file size and a
+ * block marker at the start of every sound block
+ */
+export function hasKnownLayout(buffer: Buffer): boolean {
+  if (buffer.length !== PRESET_LAYOUT.FILE_SIZE) return false;
+  return Array.from({ length: PRESET_LAYOUT.SOUND_COUNT }, (_, i) =>
+    getSoundBlockOffset(i + 1)
+  ).every((blockOffset) =>
+    SOUND_BLOCK_MARKER.every(
+      (byte, i) => buffer[blockOffset + PRESET_LAYOUT.SOUND.MARKER + i] === byte
+    )
+  );
+}
+
+/**
+ * Store the slot number a preset is saved in (1-48, 0 for Autosave)
+ */
+export function writePresetNumber(buffer: Buffer, presetNumber: number): void {
+  if (buffer.length !== PRESET_LAYOUT.FILE_SIZE) {
+    throw new Error(
+      `Invalid preset file size: ${buffer.length} bytes (expected ${PRESET_LAYOUT.FILE_SIZE})`
+    );
+  }
+  buffer[PRESET_LAYOUT.HEADER.PRESET_NUMBER] = presetNumber;
+}
+
+/**
+ * Read and decode a .mgp preset file
+ */
+export async function readPresetData(mgpFilePath: string): Promise<PresetData> {
+  const buffer = await fs.readFile(mgpFilePath);
+  return decodePreset(buffer);
+}
+
+/**
+ * Sample folder stored for each reference returned by extractSamplesFromPreset.
+ * A reference that does not sit at a sound block's filename offset gets null,
+ * so callers can fall back to searching the folders.
+ */
+export function getSampleFolders(buffer: Buffer): Array<PresetSampleFolder | null> {
+  const filenameOffsets = Array.from({ length: PRESET_LAYOUT.SOUND_COUNT }, (_, i) =>
+    getSoundBlockOffset(i + 1)
+  );
+
+  return findSampleReferences(buffer)
+    .slice(0, PRESET_LAYOUT.SOUND_COUNT)
+    .map((reference) => {
+      const blockOffset = filenameOffsets.find(
+        (offset) => offset + PRESET_LAYOUT.SOUND.SAMPLE_FILENAME === reference.offset
+      );
+      if (blockOffset === undefined || buffer.length !== PRESET_LAYOUT.FILE_SIZE) {
+        return null;
+      }
+      const raw = buffer[blockOffset + PRESET_LAYOUT.SOUND.SAMPLE_FOLDER];
+      return PRESET_SAMPLE_FOLDERS[raw] ?? 'UNKNOWN';
+    });
+}
+
+/**
+ * Read the stored sample folder for each sample in a .mgp preset file
+ */
+export async function extractSampleFoldersFromPreset(
+  mgpFilePath: string
+): Promise<Array<PresetSampleFolder | null>> {
+  const buffer = await fs.readFile(mgpFilePath);
+  return getSampleFolders(buffer);
+}
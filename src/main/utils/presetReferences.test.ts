@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import {
+  getPresetSampleFolder,
+  findPresetsForSampleFolder,
+  planPresetReferenceUpdates,
+} from './presetReferences';
+import { createPreset } from '../../test/helpers';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+describe('presetReferences', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe('getPresetSampleFolder', () => {
+    const presetPath = '/card/Project03/Preset01.mgp';
+
+    it('maps the preset project and shared folders', () => {
+      expect(getPresetSampleFolder(presetPath, '/card/Project03/kick.wav')).toBe('PROJECT');
+      expect(getPresetSampleFolder(presetPath, '/card/Wavs/pad.wav')).toBe('WAVS');
+      expect(getPresetSampleFolder(presetPath, '/card/Recs/Rec00001.wav')).toBe('RECS');
+    });
+
+    it('rejects samples the preset cannot load', () => {
+      expect(getPresetSampleFolder(presetPath, '/card/Project04/kick.wav')).toBeNull();
+      expect(getPresetSampleFolder(presetPath, '/other/Wavs/pad.wav')).toBeNull();
+    });
+  });
+
+  describe('findPresetsForSampleFolder', () => {
+    beforeEach(() => {
+      vol.fromJSON({
+        '/card/Project01/Preset01.mgp': 'x',
+        '/card/Project01/Autosave.mgp': 'x',
+        '/card/Project02/Preset05.mgp': 'x',
+        '/card/Wavs/pad.wav': 'x',
+      });
+    });
+
+    it('only returns the project presets for a project folder', async () => {
+      expect(await findPresetsForSampleFolder('/card/Project01')).toEqual([
+        '/card/Project01/Autosave.mgp',
+        '/card/Project01/Preset01.mgp',
+      ]);
+    });
+
+    it('returns presets of every project for Wavs', async () => {
+      expect(await findPresetsForSampleFolder('/card/Wavs')).toHaveLength(3);
+    });
+  });
+
+  describe('planPresetReferenceUpdates', () => {
+    it('only patches references stored for the renamed folder', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'a',
+        '/card/Wavs/kick.wav': 'b',
+        '/card/Project01/Preset01.mgp': createPreset([
+          ['kick.wav', 'WAVS'],
+          ['kick.wav', 'PROJECT'],
+        ]),
+      });
+
+      const plan = await planPresetReferenceUpdates('/card/Project01', [
+        { oldName: 'kick.wav', newName: 'bass.wav' },
+      ]);
+
+      expect(plan.updates).toEqual([
+        expect.objectContaining({
+          sounds: [{ soundNumber: 2, oldName: 'kick.wav', newName: 'bass.wav' }],
+        }),
+      ]);
+    });
+
+    it('patches references whose stored folder does not have the file', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'a',
+        '/card/Project01/Preset01.mgp': createPreset([['kick.wav', 'WAVS']]),
+      });
+
+      const plan = await planPresetReferenceUpdates('/card/Project01', [
+        { oldName: 'kick.wav', newName: 'bass.wav' },
+      ]);
+
+      expect(plan.updates).toEqual([
+        expect.objectContaining({
+          sounds: [{ soundNumber: 1, oldName: 'kick.wav', newName: 'bass.wav' }],
+        }),
+      ]);
+    });
+
+    it('numbers sounds by their block when earlier slots are empty', async () => {
+      vol.fromJSON({
+        '/card/Wavs/pad.wav': 'a',
+        '/card/Project01/Preset01.mgp': createPreset([null, null, ['pad.wav', 'WAVS']]),
+      });
+
+      const plan = await planPresetReferenceUpdates('/card/Wavs', [
+        { oldName: 'pad.wav', newName: 'pad2.wav' },
+      ]);
+
+      expect(plan.updates[0].sounds).toEqual([
+        { soundNumber: 3, oldName: 'pad.wav', newName: 'pad2.wav' },
+      ]);
+    });
+  });
+});
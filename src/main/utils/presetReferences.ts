@@ -0,0 +1,249 @@
+/**
+ * Keep .mgp sample references in sync when samples are renamed.
+ * Presets store sample filenames as fixed-size null-terminated strings, so a
+ * rename is applied by patching those strings in place.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  PresetReferenceUpdate,
+  PresetReferenceOverflow,
+  PresetSampleFolder,
+  SampleFolder,
+} from '@shared/types';
+import { STORAGE_LIMITS, FOLDER_NAMES } from '@shared/constants';
+import {
+  findSampleReferences,
+  getMaxFilenameLength,
+  getSampleFolders,
+  patchSampleReference,
+  PRESET_LAYOUT,
+  SampleReference,
+} from './presetParser';
+import { PROJECT_FOLDER_REGEX, getSampleFolderPaths } from './sampleFolders';
+
+/**
+ * Planned preset changes for a set of renames in one folder
+ */
+export interface PresetPatchPlan {
+  updates: PresetReferenceUpdate[];
+  overflows: PresetReferenceOverflow[];
+  // Original and patched bytes for every preset that changes
+  files: Array<{ presetPath: string; original: Buffer; patched: Buffer }>;
+}
+
+async function listMgpFiles(dirPath: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && entry.name.toLowerCase().endsWith('.mgp'))
+      .map((entry) => path.join(dirPath, entry.name))
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find every preset (including Autosave.mgp) that can reference samples in a folder.
+ * A project folder is only visible to its own presets; Wavs and Recs are shared by
+ * the presets of every project on the card.
+ */
+export async function findPresetsForSampleFolder(folderPath: string): Promise<string[]> {
+  const presets = await listMgpFiles(folderPath);
+  if (PROJECT_FOLDER_REGEX.test(path.basename(folderPath))) {
+    return presets;
+  }
+
+  const rootPath = path.dirname(folderPath);
+  try {
+    const entries = await fs.readdir(rootPath, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.isDirectory() && PROJECT_FOLDER_REGEX.test(entry.name)) {
+        presets.push(...(await listMgpFiles(path.join(rootPath, entry.name))));
+      }
+    }
+  } catch {
+    // Root not readable - only the folder's own presets are checked
+  }
+
+  return presets;
+}
+
+/**
+ * Folder value a preset stores for a sample file, or null if the preset
+ * cannot load it (samples must be in the preset's own project, Wavs or Recs)
+ */
+export function getPresetSampleFolder(presetPath: string, samplePath: string): SampleFolder | null {
+  const projectPath = path.dirname(presetPath);
+  const sampleFolder = path.dirname(samplePath);
+
+  if (sampleFolder === projectPath) {
+    return 'PROJECT';
+  }
+  if (path.dirname(sampleFolder) === path.dirname(projectPath)) {
+    if (path.basename(sampleFolder) === FOLDER_NAMES.WAVS) return 'WAVS';
+    if (path.basename(sampleFolder) === FOLDER_NAMES.RECS) return 'RECS';
+  }
+  return null;
+}
+
+/**
+ * Sound number (1-8) of a reference, from the sound block its filename field
+ * sits in. References found elsewhere fall back to their position in the list.
+ */
+export function getReferenceSoundNumber(reference: SampleReference, index: number): number {
+  const { SOUND_BLOCK_START, SOUND_BLOCK_SIZE, SOUND_COUNT, SOUND } = PRESET_LAYOUT;
+  const blockOffset = reference.offset - SOUND.SAMPLE_FILENAME - SOUND_BLOCK_START;
+  const soundIndex = blockOffset / SOUND_BLOCK_SIZE;
+  return Number.isInteger(soundIndex) && soundIndex >= 0 && soundIndex < SOUND_COUNT
+    ? soundIndex + 1
+    : index + 1;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Folder a reference points into: the decoded folder byte, else a "/WAVS/"
+ * style prefix on the stored value, else null when the preset does not say
+ */
+function getReferenceFolder(
+  reference: SampleReference,
+  storedFolder: PresetSampleFolder | null | undefined
+): SampleFolder | null {
+  if (storedFolder && storedFolder !== 'UNKNOWN') {
+    return storedFolder;
+  }
+  const prefix = reference.value.match(/^\/(PROJECT|WAVS|RECS)\//i);
+  return prefix ? (prefix[1].toUpperCase() as SampleFolder) : null;
+}
+
+/**
+ * Work out which presets need patching for a set of renames within one folder.
+ * Renames are applied simultaneously, so swaps (a → b, b → a) are handled correctly.
+ */
+export async function planPresetReferenceUpdates(
+  folderPath: string,
+  renames: Array<{ oldName: string; newName: string }>
+): Promise<PresetPatchPlan> {
+  const plan: PresetPatchPlan = { updates: [], overflows: [], files: [] };
+  const renameMap = new Map(
+    renames.filter((r) => r.oldName !== r.newName).map((r) => [r.oldName, r.newName])
+  );
+  if (renameMap.size === 0) {
+    return plan;
+  }
+
+  for (const presetPath of await findPresetsForSampleFolder(folderPath)) {
+    let original: Buffer;
+    try {
+      original = await fs.readFile(presetPath);
+    } catch {
+      // Skip unreadable preset files
+      continue;
+    }
+
+    const presetName = path.basename(presetPath, path.extname(presetPath));
+    const projectName = path.basename(path.dirname(presetPath));
+    const patched = Buffer.from(original);
+    const sounds: PresetReferenceUpdate['sounds'] = [];
+
+    const storedFolders = getSampleFolders(original);
+    const references = findSampleReferences(original).slice(0, STORAGE_LIMITS.SOUNDS_PER_PRESET);
+    for (const [index, reference] of references.entries()) {
+      const newName = renameMap.get(reference.filename);
+      if (newName === undefined) continue;
+
+      // A same-named sample in another folder (e.g. Wavs while renaming in a
+      // project) keeps its reference. The folder byte is unconfirmed, so the
+      // reference is only left alone when that folder really has the file.
+      const referenceFolder = getReferenceFolder(reference, storedFolders[index]);
+      const renamedFolder = getPresetSampleFolder(
+        presetPath,
+        path.join(folderPath, reference.filename)
+      );
+      const referenceFolderPath =
+        referenceFolder !== null && referenceFolder !== renamedFolder
+          ? getSampleFolderPaths(presetPath)[referenceFolder]
+          : null;
+      if (
+        referenceFolderPath &&
+        (await fileExists(path.join(referenceFolderPath, reference.filename)))
+      ) {
+        continue;
+      }
+
+      const soundNumber = getReferenceSoundNumber(reference, index);
+
+      const maxLength = getMaxFilenameLength(reference);
+      if (newName.length > maxLength || !/^[\x20-\x7E]+$/.test(newName)) {
+        plan.overflows.push({
+          presetPath,
+          presetName,
+          projectName,
+          soundNumber,
+          newName,
+          maxLength,
+        });
+        continue;
+      }
+
+      patchSampleReference(patched, reference, newName);
+      sounds.push({ soundNumber, oldName: reference.filename, newName });
+    }
+
+    if (sounds.length > 0) {
+      plan.updates.push({ presetPath, presetName, projectName, sounds });
+      plan.files.push({ presetPath, original, patched });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Write all patched presets. If any write fails, presets already written are
+ * restored to their original bytes and the error is rethrown.
+ */
+export async function applyPresetPatchPlan(plan: PresetPatchPlan): Promise<void> {
+  if (plan.overflows.length > 0) {
+    throw new Error('Some preset references do not fit the new sample names');
+  }
+
+  const written: PresetPatchPlan['files'] = [];
+  try {
+    for (const file of plan.files) {
+      await fs.writeFile(file.presetPath, file.patched);
+      written.push(file);
+    }
+  } catch (error) {
+    for (const file of written) {
+      try {
+        await fs.writeFile(file.presetPath, file.original);
+      } catch {
+        // Ignore restore failure
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Human readable summary of overflowing references, used in error messages
+ */
+export function describeOverflows(overflows: PresetReferenceOverflow[]): string {
+  return overflows
+    .map(
+      (o) =>
+        `${o.projectName}/${o.presetName} sound ${o.soundNumber}: "${o.newName}" (max ${o.maxLength} characters)`
+    )
+    .join('\n');
+}
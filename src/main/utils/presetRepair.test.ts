@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import { applyPresetRepairs, findMissingPresetSamples, findRelinkCandidates } from './presetRepair';
+import { decodePreset } from './presetParser';
+import { OperationLogEntry } from './operationLog';
+import {
+  createPreset,
+  createMockPreset,
+  createMockProject,
+  createMockSample,
+  createMockStructure,
+} from '../../test/helpers';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+const project = createMockProject({
+  path: '/card/Project01',
+  presets: [createMockPreset({ name: 'Preset01.mgp', path: '/card/Project01/Preset01.mgp' })],
+  samples: [
+    createMockSample({ name: '01 kick.wav', path: '/card/Project01/01 kick.wav' }),
+    createMockSample({ name: 'snare-tight.wav', path: '/card/Project01/snare-tight.wav' }),
+    createMockSample({ name: 'bass.wav', path: '/card/Project01/bass.wav' }),
+  ],
+});
+const structure = createMockStructure({
+  rootPath: '/card',
+  projects: [project],
+  globalWavs: [createMockSample({ name: 'pad.wav', path: '/card/Wavs/pad.wav' })],
+});
+
+describe('presetRepair', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe('findRelinkCandidates', () => {
+    it('suggests the same name with a number prefix', () => {
+      expect(findRelinkCandidates('kick.wav', 'PROJECT', project, structure, [])[0]).toMatchObject({
+        name: '01 kick.wav',
+        folder: 'PROJECT',
+        reason: 'numbering',
+      });
+    });
+
+    it('suggests similar names', () => {
+      expect(findRelinkCandidates('snare.wav', 'PROJECT', project, structure, [])).toEqual([
+        expect.objectContaining({ name: 'snare-tight.wav', reason: 'fuzzy' }),
+      ]);
+    });
+
+    it('follows renames from the operation log', () => {
+      const log: OperationLogEntry[] = [
+        {
+          type: 'rename',
+          timestamp: '2026-01-01T00:00:00.000Z',
+          folderPath: '/card/Project01',
+          oldName: 'old.wav',
+          newName: 'tmp.wav',
+        },
+        {
+          type: 'rename',
+          timestamp: '2026-01-01T00:00:01.000Z',
+          folderPath: '/card/Project01',
+          oldName: 'tmp.wav',
+          newName: 'bass.wav',
+        },
+      ];
+
+      expect(findRelinkCandidates('old.wav', 'PROJECT', project, structure, log)).toEqual([
+        expect.objectContaining({ name: 'bass.wav', reason: 'renamed', score: 1 }),
+      ]);
+    });
+
+    it('only searches the stored folder', () => {
+      expect(findRelinkCandidates('pad.wav', 'PROJECT', project, structure, [])).toEqual([]);
+    });
+  });
+
+  describe('findMissingPresetSamples', () => {
+    it('lists only the sounds whose sample cannot be found', async () => {
+      vol.fromJSON({
+        '/card/Project01/Preset01.mgp': createPreset([
+          ['kick.wav', 'PROJECT'],
+          ['bass.wav', 'PROJECT'],
+          ['pad.wav', 'WAVS'],
+        ]),
+      });
+
+      const missing = await findMissingPresetSamples(structure, []);
+
+      expect(missing).toHaveLength(1);
+      expect(missing[0]).toMatchObject({
+        presetPath: '/card/Project01/Preset01.mgp',
+        soundNumber: 1,
+        name: 'kick.wav',
+        folder: 'PROJECT',
+      });
+      expect(missing[0].candidates[0].name).toBe('01 kick.wav');
+    });
+  });
+
+  describe('applyPresetRepairs', () => {
+    it('writes the fixes and backs up the original', async () => {
+      vol.fromJSON({
+        '/card/Project01/Preset01.mgp': createPreset([
+          ['kick.wav', 'PROJECT'],
+          ['pad.wav', 'WAVS'],
+        ]),
+      });
+
+      const result = await applyPresetRepairs(
+        [
+          {
+            presetPath: '/card/Project01/Preset01.mgp',
+            soundNumber: 1,
+            oldName: 'kick.wav',
+            newName: '01 kick.wav',
+            folder: 'PROJECT',
+          },
+        ],
+        '/backups'
+      );
+
+      expect(result.updatedPresets).toEqual(['/card/Project01/Preset01.mgp']);
+      expect(result.backupPaths).toHaveLength(1);
+      const data = decodePreset(
+        (await vol.promises.readFile('/card/Project01/Preset01.mgp')) as Buffer
+      );
+      expect(data.sounds[0].sampleFilename).toBe('01 kick.wav');
+      expect(data.sounds[1].sampleFilename).toBe('pad.wav');
+    });
+
+    it('restores presets already written when a later write fails', async () => {
+      const original = createPreset([['kick.wav', 'PROJECT']]);
+      vol.fromJSON({
+        '/card/Project01/Preset01.mgp': original,
+        '/card/Project01/Preset02.mgp': createPreset([['kick.wav', 'PROJECT']]),
+      });
+      const writeFile = vol.promises.writeFile;
+      const spy = vi.spyOn(vol.promises, 'writeFile').mockImplementation(async (file, data) => {
+        if (file === '/card/Project01/Preset02.mgp') throw new Error('Card is read-only');
+        return writeFile(file, data);
+      });
+
+      const fix = (presetPath: string) => ({
+        presetPath,
+        soundNumber: 1,
+        oldName: 'kick.wav',
+        newName: '01 kick.wav',
+        folder: 'PROJECT' as const,
+      });
+      await expect(
+        applyPresetRepairs(
+          [fix('/card/Project01/Preset01.mgp'), fix('/card/Project01/Preset02.mgp')],
+          '/backups'
+        )
+      ).rejects.toThrow('Card is read-only');
+      spy.mockRestore();
+
+      expect(vol.readFileSync('/card/Project01/Preset01.mgp')).toEqual(original);
+    });
+
+    it('writes nothing when a fix no longer applies', async () => {
+      const original = Buffer.from('MGP\0kick.wav\0\0\0\0\0\0\0\0');
+      vol.fromJSON({ '/card/Project01/Preset01.mgp': original });
+
+      await expect(
+        applyPresetRepairs(
+          [
+            {
+              presetPath: '/card/Project01/Preset01.mgp',
+              soundNumber: 1,
+              oldName: 'snare.wav',
+              newName: 'snare-tight.wav',
+              folder: 'PROJECT',
+            },
+          ],
+          '/backups'
+        )
+      ).rejects.toThrow('no longer references snare.wav');
+      expect(await vol.promises.readFile('/card/Project01/Preset01.mgp')).toEqual(original);
+    });
+
+    it('does not overwrite a decoded slot that was reassigned since planning', async () => {
+      const original = createPreset([null, ['bass.wav', 'WAVS']]);
+      vol.fromJSON({ '/card/Project01/Preset01.mgp': original });
+
+      await expect(
+        applyPresetRepairs(
+          [
+            {
+              presetPath: '/card/Project01/Preset01.mgp',
+              soundNumber: 2,
+              oldName: 'kick.wav',
+              newName: '01 kick.wav',
+              folder: 'PROJECT',
+            },
+          ],
+          '/backups'
+        )
+      ).rejects.toThrow('sound 2 no longer references kick.wav');
+      expect(vol.readFileSync('/card/Project01/Preset01.mgp')).toEqual(original);
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Find preset sounds whose sample is missing from the card and suggest files
+ * to relink them to. Accepted fixes are written into the .mgp files in one go.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  MissingPresetSample,
+  MultigainStructure,
+  Preset,
+  PresetRepairFix,
+  PresetSampleFolder,
+  Project,
+  RelinkCandidate,
+  SampleFolder,
+  WavFile,
+} from '@shared/types';
+import { STORAGE_LIMITS, formatPresetDisplayName } from '@shared/constants';
+import { resolvePresetSample, SAMPLE_SEARCH_ORDER } from '@shared/sampleResolution';
+import {
+  decodePreset,
+  findSampleReferences,
+  getSampleFolders,
+  hasKnownLayout,
+  patchSampleReference,
+  writeSoundSample,
+} from './presetParser';
+import { removeNumberPrefix } from './sampleNumbering';
+import { findRenamedName, OperationLogEntry } from './operationLog';
+import { backupPreset } from './presetBackup';
+
+// Fuzzy matches below this similarity are not suggested
+const FUZZY_THRESHOLD = 0.6;
+const MAX_CANDIDATES = 5;
+
+/**
+ * Lowercased name without extension or number prefix, for comparing filenames
+ */
+function comparableName(filename: string): string {
+  return removeNumberPrefix(filename)
+    .replace(/\.wav$/i, '')
+    .toLowerCase();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two filenames from 0 (nothing in common) to 1 (same name)
+ */
+export function filenameSimilarity(a: string, b: string): number {
+  const left = comparableName(a);
+  const right = comparableName(b);
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) return 1;
+
+  const similarity = 1 - levenshtein(left, right) / longest;
+  // A name kept whole inside a longer one (e.g. "snare" in "snare-tight") is a
+  // likely match even though many characters were added
+  const shortest = Math.min(left.length, right.length);
+  if (shortest >= 3 && (left.includes(right) || right.includes(left))) {
+    return Math.max(similarity, FUZZY_THRESHOLD + 0.3 * (shortest / longest));
+  }
+  return similarity;
+}
+
+function folderSamples(
+  folder: SampleFolder,
+  project: Project,
+  structure: MultigainStructure
+): WavFile[] {
+  if (folder === 'PROJECT') return project.samples;
+  if (folder === 'WAVS') return structure.globalWavs;
+  return structure.recordings;
+}
+
+function folderPath(
+  folder: SampleFolder,
+  project: Project,
+  structure: MultigainStructure
+): string | null {
+  if (folder === 'PROJECT') return project.path;
+  const samples = folderSamples(folder, project, structure);
+  return samples.length > 0 ? path.dirname(samples[0].path) : null;
+}
+
+/**
+ * Suggest files for a missing sample. Only the stored folder is searched when
+ * it is known, since a preset cannot load a file from another folder without
+ * its folder byte being rewritten.
+ */
+export function findRelinkCandidates(
+  name: string,
+  storedFolder: PresetSampleFolder | null,
+  project: Project,
+  structure: MultigainStructure,
+  log: OperationLogEntry[]
+): RelinkCandidate[] {
+  const folders: SampleFolder[] =
+    storedFolder && storedFolder !== 'UNKNOWN' ? [storedFolder] : SAMPLE_SEARCH_ORDER;
+  const candidates = new Map<string, RelinkCandidate>();
+
+  const add = (candidate: RelinkCandidate) => {
+    const existing = candidates.get(candidate.path);
+    if (!existing || existing.score < candidate.score) {
+      candidates.set(candidate.path, candidate);
+    }
+  };
+
+  for (const folder of folders) {
+    const samples = folderSamples(folder, project, structure);
+
+    // Renamed through this app
+    const dir = folderPath(folder, project, structure);
+    const renamedTo = dir ? findRenamedName(log, dir, name) : null;
+    const renamed = renamedTo && samples.find((s) => s.name === renamedTo);
+    if (renamed) {
+      add({ name: renamed.name, folder, path: renamed.path, reason: 'renamed', score: 1 });
+    }
+
+    const target = comparableName(name);
+    for (const sample of samples) {
+      if (sample.name === name) continue;
+
+      // Number prefix added or removed
+      if (comparableName(sample.name) === target) {
+        add({ name: sample.name, folder, path: sample.path, reason: 'numbering', score: 0.95 });
+        continue;
+      }
+
+      const score = filenameSimilarity(name, sample.name);
+      if (score >= FUZZY_THRESHOLD) {
+        add({
+          name: sample.name,
+          folder,
+          path: sample.path,
+          reason: 'fuzzy',
+          score: Math.round(score * 100) / 100,
+        });
+      }
+    }
+  }
+
+  return Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Sample name and stored folder per sound slot (1-8)
+ */
+export function readPresetSounds(
+  buffer: Buffer
+): Array<{ soundNumber: number; name: string; folder: PresetSampleFolder | null }> {
+  if (hasKnownLayout(buffer)) {
+    return decodePreset(buffer)
+      .sounds.filter((sound) => sound.sampleFilename)
+      .map((sound) => ({
+        soundNumber: sound.soundNumber,
+        name: sound.sampleFilename,
+        folder: sound.sampleFolder,
+      }));
+  }
+
+  const folders = getSampleFolders(buffer);
+  return findSampleReferences(buffer)
+    .slice(0, STORAGE_LIMITS.SOUNDS_PER_PRESET)
+    .map((reference, index) => ({
+      soundNumber: index + 1,
+      name: reference.filename,
+      folder: folders[index] ?? null,
+    }));
+}
+
+/**
+ * List every preset sound on the card whose sample cannot be found
+ */
+export async function findMissingPresetSamples(
+  structure: MultigainStructure,
+  log: OperationLogEntry[]
+): Promise<MissingPresetSample[]> {
+  const missing: MissingPresetSample[] = [];
+
+  for (const project of structure.projects) {
+    const presets: Preset[] = [...(project.autosave ? [project.autosave] : []), ...project.presets];
+
+    for (const preset of presets) {
+      let buffer: Buffer;
+      try {
+        buffer = await fs.readFile(preset.path);
+      } catch {
+        continue;
+      }
+
+      for (const sound of readPresetSounds(buffer)) {
+        const resolved = resolvePresetSample(sound.name, sound.folder, project, structure);
+        if (resolved.status !== 'missing') continue;
+
+        missing.push({
+          presetPath: preset.path,
+          presetName: formatPresetDisplayName(preset.name, preset.customName),
+          projectName: project.customName || project.name,
+          soundNumber: sound.soundNumber,
+          name: sound.name,
+          folder: sound.folder,
+          candidates: findRelinkCandidates(sound.name, sound.folder, project, structure, log),
+        });
+      }
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Write accepted fixes. Every preset is patched in memory first so nothing is
+ * written if any fix cannot be stored; changed presets are backed up, and
+ * presets already written are restored if a later write fails.
+ */
+export async function applyPresetRepairs(
+  fixes: PresetRepairFix[],
+  backupDir: string
+): Promise<{ updatedPresets: string[]; backupPaths: string[] }> {
+  const byPreset = new Map<string, PresetRepairFix[]>();
+  for (const fix of fixes) {
+    byPreset.set(fix.presetPath, [...(byPreset.get(fix.presetPath) ?? []), fix]);
+  }
+
+  const files: Array<{ presetPath: string; original: Buffer; patched: Buffer }> = [];
+  for (const [presetPath, presetFixes] of byPreset) {
+    const original = await fs.readFile(presetPath);
+    const patched = Buffer.from(original);
+    const isKnownLayout = hasKnownLayout(original);
+    const sounds = readPresetSounds(original);
+    const references = findSampleReferences(original).slice(0, STORAGE_LIMITS.SOUNDS_PER_PRESET);
+
+    for (const fix of presetFixes) {
+      // The preset may have changed since the repair was planned
+      const sound = sounds.find((s) => s.soundNumber === fix.soundNumber);
+      if (!sound || sound.name !== fix.oldName) {
+        throw new Error(
+          `${path.basename(presetPath)} sound ${fix.soundNumber} no longer references ${fix.oldName}`
+        );
+      }
+
+      if (isKnownLayout) {
+        writeSoundSample(patched, fix.soundNumber, fix.folder, fix.newName);
+      } else {
+        // Undecoded layout: only the filename can be rewritten
+        patchSampleReference(patched, references[fix.soundNumber - 1], fix.newName);
+      }
+    }
+
+    files.push({ presetPath, original, patched });
+  }
+
+  const backupPaths: string[] = [];
+  for (const file of files) {
+    backupPaths.push(await backupPreset(file.presetPath, file.original, backupDir));
+  }
+  const written: typeof files = [];
+  try {
+    for (const file of files) {
+      await fs.writeFile(file.presetPath, file.patched);
+      written.push(file);
+    }
+  } catch (error) {
+    for (const file of written) {
+      try {
+        await fs.writeFile(file.presetPath, file.original);
+      } catch {
+        // Ignore restore failure - the backup is still available
+      }
+    }
+    throw error;
+  }
+
+  return { updatedPresets: files.map((file) => file.presetPath), backupPaths };
+}
@@ -0,0 +1,387 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import { planPresetTransfer, executePresetTransfer } from './presetTransfer';
+import { decodePreset } from './presetParser';
+import { createPreset } from '../../test/helpers';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+vi.mock('fs/promises', () => vol.promises);
+
+const BACKUP_DIR = '/backups';
+
+function readPreset(presetPath: string) {
+  return decodePreset(Buffer.from(vol.readFileSync(presetPath) as Buffer));
+}
+
+describe('presetTransfer', () => {
+  beforeEach(() => {
+    vol.reset();
+    vol.fromJSON({
+      '/card/Project01/Preset01.mgp': createPreset(
+        [
+          ['kick.wav', 'PROJECT'],
+          ['pad.wav', 'WAVS'],
+          ['kick.wav', 'PROJECT'],
+          ['snare.wav', 'PROJECT'],
+        ],
+        1
+      ),
+      '/card/Project01/Preset02.mgp': createPreset([['pad.wav', 'WAVS']], 2),
+      '/card/Project01/kick.wav': 'kick audio',
+      '/card/Project01/snare.wav': 'snare audio',
+      '/card/Project02/Preset05.mgp': createPreset([['bass.wav', 'PROJECT']], 5),
+      '/card/Project02/bass.wav': 'bass audio',
+      '/card/Project02/snare.wav': 'a different snare',
+      '/card/Wavs/pad.wav': 'pad audio',
+    });
+  });
+
+  describe('planPresetTransfer', () => {
+    it('has no dependencies within the same project', async () => {
+      const plan = await planPresetTransfer({
+        presetPath: '/card/Project01/Preset01.mgp',
+        targetProjectPath: '/card/Project01',
+        targetSlot: 9,
+        mode: 'copy',
+        copySamples: true,
+      });
+
+      expect(plan.targetPath).toBe('/card/Project01/Preset09.mgp');
+      expect(plan.targetExists).toBe(false);
+      expect(plan.dependencies).toEqual([]);
+    });
+
+    it('lists project samples and resolves conflicts in another project', async () => {
+      const plan = await planPresetTransfer({
+        presetPath: '/card/Project01/Preset01.mgp',
+        targetProjectPath: '/card/Project02',
+        targetSlot: 1,
+        mode: 'copy',
+        copySamples: true,
+      });
+
+      expect(plan.dependencies).toEqual([
+        {
+          name: 'kick.wav',
+          sourcePath: '/card/Project01/kick.wav',
+          soundNumbers: [1, 3],
+          action: 'copy',
+          targetName: 'kick.wav',
+        },
+        {
+          name: 'snare.wav',
+          sourcePath: '/card/Project01/snare.wav',
+          soundNumbers: [4],
+          action: 'rename',
+          targetName: 'snare_1.wav',
+        },
+      ]);
+    });
+
+    it('numbers dependencies by their sound slot when earlier sounds are empty', async () => {
+      vol.writeFileSync(
+        '/card/Project01/Preset03.mgp',
+        createPreset([null, ['pad.wav', 'WAVS'], ['snare.wav', 'PROJECT']], 3)
+      );
+
+      const plan = await planPresetTransfer({
+        presetPath: '/card/Project01/Preset03.mgp',
+        targetProjectPath: '/card/Project02',
+        targetSlot: 3,
+        mode: 'copy',
+        copySamples: true,
+      });
+
+      expect(plan.dependencies).toEqual([
+        expect.objectContaining({ name: 'snare.wav', soundNumbers: [3], action: 'rename' }),
+      ]);
+
+      await executePresetTransfer(
+        {
+          presetPath: '/card/Project01/Preset03.mgp',
+          targetProjectPath: '/card/Project02',
+          targetSlot: 3,
+          mode: 'copy',
+          copySamples: true,
+        },
+        BACKUP_DIR
+      );
+      expect(readPreset('/card/Project02/Preset03.mgp').sounds[2].sampleFilename).toBe(
+        'snare_1.wav'
+      );
+    });
+
+    it('reuses identical files', async () => {
+      vol.writeFileSync('/card/Project02/kick.wav', 'kick audio');
+
+      const plan = await planPresetTransfer({
+        presetPath: '/card/Project01/Preset01.mgp',
+        targetProjectPath: '/card/Project02',
+        targetSlot: 1,
+        mode: 'copy',
+        copySamples: true,
+      });
+
+      expect(plan.dependencies[0].action).toBe('reuse');
+    });
+
+    it('rejects swapping with an empty slot', async () => {
+      await expect(
+        planPresetTransfer({
+          presetPath: '/card/Project01/Preset01.mgp',
+          targetProjectPath: '/card/Project01',
+          targetSlot: 3,
+          mode: 'swap',
+          copySamples: false,
+        })
+      ).rejects.toThrow(/no preset/);
+    });
+
+    it('only allows the Autosave preset to be copied', async () => {
+      vol.writeFileSync('/card/Project01/Autosave.mgp', createPreset([]));
+
+      await expect(
+        planPresetTransfer({
+          presetPath: '/card/Project01/Autosave.mgp',
+          targetProjectPath: '/card/Project01',
+          targetSlot: 3,
+          mode: 'move',
+          copySamples: false,
+        })
+      ).rejects.toThrow(/Autosave can only be copied/);
+
+      const plan = await planPresetTransfer({
+        presetPath: '/card/Project01/Autosave.mgp',
+        targetProjectPath: '/card/Project01',
+        targetSlot: 2,
+        mode: 'copy',
+        copySamples: false,
+      });
+      expect(plan.targetExists).toBe(true);
+    });
+
+    it('rejects other files', async () => {
+      vol.writeFileSync('/card/Project01/Scratch.mgp', createPreset([]));
+
+      await expect(
+        planPresetTransfer({
+          presetPath: '/card/Project01/Scratch.mgp',
+          targetProjectPath: '/card/Project01',
+          targetSlot: 3,
+          mode: 'copy',
+          copySamples: false,
+        })
+      ).rejects.toThrow(/PresetNN/);
+    });
+  });
+
+  describe('executePresetTransfer', () => {
+    it('copies a preset to another slot and sets its number', async () => {
+      await executePresetTransfer(
+        {
+          presetPath: '/card/Project01/Preset01.mgp',
+          targetProjectPath: '/card/Project01',
+          targetSlot: 12,
+          mode: 'copy',
+          copySamples: true,
+        },
+        BACKUP_DIR
+      );
+
+      expect(vol.existsSync('/card/Project01/Preset01.mgp')).toBe(true);
+      const copy = readPreset('/card/Project01/Preset12.mgp');
+      expect(copy.presetNumber).toBe(12);
+      expect(copy.sounds[0].sampleFilename).toBe('kick.wav');
+    });
+
+    it('saves Autosave into a numbered slot', async () => {
+      vol.writeFileSync('/card/Project01/Autosave.mgp', createPreset([['kick.wav', 'PROJECT']]));
+
+      await executePresetTransfer(
+        {
+          presetPath: '/card/Project01/Autosave.mgp',
+          targetProjectPath: '/card/Project01',
+          targetSlot: 7,
+          mode: 'copy',
+          copySamples: false,
+        },
+        BACKUP_DIR
+      );
+
+      expect(vol.existsSync('/card/Project01/Autosave.mgp')).toBe(true);
+      const saved = readPreset('/card/Project01/Preset07.mgp');
+      expect(saved.presetNumber).toBe(7);
+      expect(saved.sounds[0].sampleFilename).toBe('kick.wav');
+    });
+
+    it('copies presets with an unknown layout byte for byte', async () => {
+      const unknown = Buffer.from('MGP\0kick.wav\0\0\0');
+      vol.writeFileSync('/card/Project01/Autosave.mgp', unknown);
+
+      await executePresetTransfer(
+        {
+          presetPath: '/card/Project01/Autosave.mgp',
+          targetProjectPath: '/card/Project01',
+          targetSlot: 7,
+          mode: 'copy',
+          copySamples: false,
+        },
+        BACKUP_DIR
+      );
+
+      expect(Buffer.from(vol.readFileSync('/card/Project01/Preset07.mgp') as Buffer)).toEqual(
+        unknown
+      );
+    });
+
+    it('moves a preset to another project with its samples', async () => {
+      const result = await executePresetTransfer(
+        {
+          presetPath: '/card/Project01/Preset01.mgp',
+          targetProjectPath: '/card/Project02',
+          targetSlot: 1,
+          mode: 'move',
+          copySamples: true,
+        },
+        BACKUP_DIR
+      );
+
+      expect(vol.existsSync('/card/Project01/Preset01.mgp')).toBe(false);
+      expect(result.copiedSamples).toEqual([
+        '/card/Project02/kick.wav',
+        '/card/Project02/snare_1.wav',
+      ]);
+      expect(vol.readFileSync('/card/Project02/snare_1.wav', 'utf8')).toBe('snare audio');
+      // Existing file in the target project is untouched
+      expect(vol.readFileSync('/card/Project02/snare.wav', 'utf8')).toBe('a different snare');
+
+      const moved = readPreset('/card/Project02/Preset01.mgp');
+      expect(moved.sounds.map((s) => s.sampleFilename).slice(0, 4)).toEqual([
+        'kick.wav',
+        'pad.wav',
+        'kick.wav',
+        'snare_1.wav',
+      ]);
+      // The removed source is backed up
+      expect(result.backupPaths).toHaveLength(1);
+      expect(vol.existsSync(result.backupPaths[0])).toBe(true);
+    });
+
+    it('only renames the project references of a renamed sample', async () => {
+      vol.writeFileSync(
+        '/card/Project01/Preset03.mgp',
+        createPreset(
+          [
+            ['snare.wav', 'WAVS'],
+            ['snare.wav', 'PROJECT'],
+          ],
+          3
+        )
+      );
+      vol.writeFileSync('/card/Wavs/snare.wav', 'wavs snare');
+
+      await executePresetTransfer(
+        {
+          presetPath: '/card/Project01/Preset03.mgp',
+          targetProjectPath: '/card/Project02',
+          targetSlot: 3,
+          mode: 'copy',
+          copySamples: true,
+        },
+        BACKUP_DIR
+      );
+
+      const copied = readPreset('/card/Project02/Preset03.mgp');
+      expect(copied.sounds.slice(0, 2).map((s) => [s.sampleFolder, s.sampleFilename])).toEqual([
+        ['WAVS', 'snare.wav'],
+        ['PROJECT', 'snare_1.wav'],
+      ]);
+    });
+
+    it('leaves samples behind when asked to', async () => {
+      await executePresetTransfer(
+        {
+          presetPath: '/card/Project01/Preset01.mgp',
+          targetProjectPath: '/card/Project02',
+          targetSlot: 1,
+          mode: 'copy',
+          copySamples: false,
+        },
+        BACKUP_DIR
+      );
+
+      expect(vol.existsSync('/card/Project02/kick.wav')).toBe(false);
+      expect(readPreset('/card/Project02/Preset01.mgp').sounds[3].sampleFilename).toBe('snare.wav');
+    });
+
+    it('swaps presets across projects in both directions', async () => {
+      const result = await executePresetTransfer(
+        {
+          presetPath: '/card/Project01/Preset02.mgp',
+          targetProjectPath: '/card/Project02',
+          targetSlot: 5,
+          mode: 'swap',
+          copySamples: true,
+        },
+        BACKUP_DIR
+      );
+
+      const inProject01 = readPreset('/card/Project01/Preset02.mgp');
+      const inProject02 = readPreset('/card/Project02/Preset05.mgp');
+      expect(inProject01.presetNumber).toBe(2);
+      expect(inProject01.sounds[0].sampleFilename).toBe('bass.wav');
+      expect(inProject02.presetNumber).toBe(5);
+      expect(inProject02.sounds[0].sampleFilename).toBe('pad.wav');
+      // bass.wav comes along to Project01
+      expect(vol.readFileSync('/card/Project01/bass.wav', 'utf8')).toBe('bass audio');
+      expect(result.backupPaths).toHaveLength(2);
+    });
+
+    it('backs up a preset it overwrites', async () => {
+      const original = Buffer.from(vol.readFileSync('/card/Project01/Preset02.mgp') as Buffer);
+
+      const result = await executePresetTransfer(
+        {
+          presetPath: '/card/Project01/Preset01.mgp',
+          targetProjectPath: '/card/Project01',
+          targetSlot: 2,
+          mode: 'copy',
+          copySamples: true,
+        },
+        BACKUP_DIR
+      );
+
+      expect(readPreset('/card/Project01/Preset02.mgp').sounds[0].sampleFilename).toBe('kick.wav');
+      expect(Buffer.from(vol.readFileSync(result.backupPaths[0]) as Buffer).equals(original)).toBe(
+        true
+      );
+    });
+
+    it('carries the custom name along with a moved preset', async () => {
+      vol.writeFileSync(
+        '/card/Project01/.preset-metadata.json',
+        JSON.stringify({ presets: { Preset01: { customName: 'Glass Pads' } } })
+      );
+
+      await executePresetTransfer(
+        {
+          presetPath: '/card/Project01/Preset01.mgp',
+          targetProjectPath: '/card/Project02',
+          targetSlot: 9,
+          mode: 'move',
+          copySamples: false,
+        },
+        BACKUP_DIR
+      );
+
+      expect(vol.existsSync('/card/Project01/.preset-metadata.json')).toBe(false);
+      expect(
+        JSON.parse(vol.readFileSync('/card/Project02/.preset-metadata.json', 'utf8') as string)
+      ).toEqual({ presets: { Preset09: { customName: 'Glass Pads' } } });
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Copy, move and swap presets between slots and projects.
+ * A preset only references samples by folder and filename, so when it changes
+ * project the samples it loads from its project folder have to come along.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { PresetSampleDependency, PresetTransferPlan, PresetTransferRequest } from '@shared/types';
+import { FOLDER_NAMES, STORAGE_LIMITS, getPresetFileName } from '@shared/constants';
+import {
+  findSampleReferences,
+  getSampleFolders,
+  hasKnownLayout,
+  patchSampleReference,
+  writePresetNumber,
+} from './presetParser';
+import { getReferenceSoundNumber } from './presetReferences';
+import { countWavFiles } from './sampleFolders';
+import { resolveConflict } from './fileConflictResolver';
+import { backupPreset } from './presetBackup';
+import { transferPresetMetadata } from './presetMetadata';
+
+const PRESET_FILE_REGEX = /^Preset(\d{2})\.mgp$/i;
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the samples a preset loads from its own project folder and decide how
+ * each one would land in the destination project folder.
+ */
+export async function findProjectSampleDependencies(
+  buffer: Buffer,
+  sourceProjectPath: string,
+  targetProjectPath: string
+): Promise<PresetSampleDependency[]> {
+  const references = findSampleReferences(buffer).slice(0, STORAGE_LIMITS.SOUNDS_PER_PRESET);
+  const folders = getSampleFolders(buffer);
+  const byName = new Map<string, PresetSampleDependency>();
+
+  for (const [i, reference] of references.entries()) {
+    const folder = folders[i];
+    // Only PROJECT samples move with the preset. Undecoded folders are
+    // treated as PROJECT when the file is in the project folder.
+    if (folder !== 'PROJECT' && folder !== null) continue;
+
+    const name = reference.filename;
+    const soundNumber = getReferenceSoundNumber(reference, i);
+    const existing = byName.get(name);
+    if (existing) {
+      existing.soundNumbers.push(soundNumber);
+      continue;
+    }
+
+    const sourcePath = path.join(sourceProjectPath, name);
+    if (!(await fileExists(sourcePath))) continue;
+
+    byName.set(name, {
+      name,
+      sourcePath,
+      soundNumbers: [soundNumber],
+      action: 'copy',
+      targetName: name,
+    });
+  }
+
+  for (const dependency of byName.values()) {
+    const targetPath = path.join(targetProjectPath, dependency.name);
+    if (!(await fileExists(targetPath))) continue;
+
+    const [source, target] = await Promise.all([
+      fs.readFile(dependency.sourcePath),
+      fs.readFile(targetPath),
+    ]);
+    if (source.equals(target)) {
+      dependency.action = 'reuse';
+    } else {
+      dependency.action = 'rename';
+      dependency.targetName = await resolveConflict(targetProjectPath, dependency.name);
+    }
+  }
+
+  return Array.from(byName.values());
+}
+
+async function checkStorage(
+  projectPath: string,
+  dependencies: PresetSampleDependency[]
+): Promise<string | undefined> {
+  const newFiles = dependencies.filter((d) => d.action !== 'reuse').length;
+  if (newFiles === 0) return undefined;
+
+  const existing = await countWavFiles(projectPath);
+  if (existing + newFiles > STORAGE_LIMITS.SAMPLES_PER_PROJECT) {
+    return `${path.basename(projectPath)} has ${existing} samples. Copying ${newFiles} more would exceed the limit of ${STORAGE_LIMITS.SAMPLES_PER_PROJECT}.`;
+  }
+  return undefined;
+}
+
+/**
+ * Work out what a transfer will do without changing anything.
+ * Throws for requests that can never succeed.
+ */
+export async function planPresetTransfer(
+  request: PresetTransferRequest
+): Promise<PresetTransferPlan> {
+  const { presetPath, targetProjectPath, targetSlot, mode } = request;
+
+  const sourceName = path.basename(presetPath);
+  const isAutosave = sourceName.toLowerCase() === FOLDER_NAMES.AUTOSAVE_FILE.toLowerCase();
+  // Autosave can be saved into a slot, but it is never moved or swapped
+  if (!PRESET_FILE_REGEX.test(sourceName) && !(isAutosave && mode === 'copy')) {
+    throw new Error(
+      isAutosave
+        ? 'Autosave can only be copied into a preset slot'
+        : 'Only PresetNN.mgp files can be copied, moved or swapped'
+    );
+  }
+  const targetPath = path.join(targetProjectPath, getPresetFileName(targetSlot));
+  if (path.resolve(targetPath) === path.resolve(presetPath)) {
+    throw new Error('Choose a different slot');
+  }
+
+  const source = await fs.readFile(presetPath);
+  const targetExists = await fileExists(targetPath);
+  if (mode === 'swap' && !targetExists) {
+    throw new Error(`There is no preset in ${path.basename(targetPath)} to swap with`);
+  }
+
+  const sourceProjectPath = path.dirname(presetPath);
+  const plan: PresetTransferPlan = {
+    targetPath,
+    targetExists,
+    dependencies: [],
+    reverseDependencies: [],
+  };
+
+  if (path.resolve(sourceProjectPath) === path.resolve(targetProjectPath)) {
+    return plan;
+  }
+
+  plan.dependencies = await findProjectSampleDependencies(
+    source,
+    sourceProjectPath,
+    targetProjectPath
+  );
+  if (mode === 'swap') {
+    const target = await fs.readFile(targetPath);
+    plan.reverseDependencies = await findProjectSampleDependencies(
+      target,
+      targetProjectPath,
+      sourceProjectPath
+    );
+  }
+
+  plan.storageError =
+    (await checkStorage(targetProjectPath, plan.dependencies)) ??
+    (await checkStorage(sourceProjectPath, plan.reverseDependencies));
+
+  return plan;
+}
+
+/**
+ * Prepare preset bytes for their new slot: set the preset number (when the
+ * file matches the decoded layout) and point renamed samples at their new names
+ */
+function preparePreset(
+  original: Buffer,
+  slot: number,
+  dependencies: PresetSampleDependency[]
+): Buffer {
+  const prepared = Buffer.from(original);
+  if (hasKnownLayout(prepared)) {
+    writePresetNumber(prepared, slot);
+  }
+
+  // Only the sounds that load the dependency from the project folder; a Wavs or
+  // Recs reference with the same filename keeps pointing at its own file
+  const renames = new Map<number, PresetSampleDependency>();
+  for (const dependency of dependencies.filter((d) => d.action === 'rename')) {
+    for (const soundNumber of dependency.soundNumbers) {
+      renames.set(soundNumber, dependency);
+    }
+  }
+  if (renames.size > 0) {
+    findSampleReferences(original)
+      .slice(0, STORAGE_LIMITS.SOUNDS_PER_PRESET)
+      .forEach((reference, index) => {
+        const dependency = renames.get(getReferenceSoundNumber(reference, index));
+        if (dependency && dependency.name === reference.filename) {
+          patchSampleReference(prepared, reference, dependency.targetName);
+        }
+      });
+  }
+
+  return prepared;
+}
+
+/**
+ * Run a transfer. Presets that get overwritten or removed are backed up first.
+ * If anything fails, copied samples are removed and written presets restored.
+ * Custom names and notes move with the preset.
+ */
+export async function executePresetTransfer(
+  request: PresetTransferRequest,
+  backupDir: string
+): Promise<{ targetPath: string; copiedSamples: string[]; backupPaths: string[] }> {
+  const plan = await planPresetTransfer(request);
+  const dependencies = request.copySamples ? plan.dependencies : [];
+  const reverseDependencies = request.copySamples ? plan.reverseDependencies : [];
+  if (request.copySamples && plan.storageError) {
+    throw new Error(plan.storageError);
+  }
+
+  const { presetPath, targetProjectPath, targetSlot, mode } = request;
+  const sourceProjectPath = path.dirname(presetPath);
+  const source = await fs.readFile(presetPath);
+  const target = plan.targetExists ? await fs.readFile(plan.targetPath) : null;
+
+  // Patch everything in memory first so a name that does not fit fails before any write
+  const writes: Array<{ path: string; data: Buffer; original: Buffer | null }> = [
+    {
+      path: plan.targetPath,
+      data: preparePreset(source, targetSlot, dependencies),
+      original: target,
+    },
+  ];
+  if (mode === 'swap' && target) {
+    const sourceSlot = parseInt(path.basename(presetPath).match(PRESET_FILE_REGEX)![1], 10);
+    writes.push({
+      path: presetPath,
+      data: preparePreset(target, sourceSlot, reverseDependencies),
+      original: source,
+    });
+  }
+
+  const backupPaths: string[] = [];
+  if (target) {
+    backupPaths.push(await backupPreset(plan.targetPath, target, backupDir));
+  }
+  if (mode !== 'copy') {
+    backupPaths.push(await backupPreset(presetPath, source, backupDir));
+  }
+
+  const copiedSamples: string[] = [];
+  const written: typeof writes = [];
+  try {
+    const copies = [
+      ...dependencies.map((d) => ({ dependency: d, projectPath: targetProjectPath })),
+      ...reverseDependencies.map((d) => ({ dependency: d, projectPath: sourceProjectPath })),
+    ];
+    for (const { dependency, projectPath } of copies) {
+      if (dependency.action === 'reuse') continue;
+      const destination = path.join(projectPath, dependency.targetName);
+      await fs.copyFile(dependency.sourcePath, destination);
+      copiedSamples.push(destination);
+    }
+
+    for (const write of writes) {
+      await fs.writeFile(write.path, write.data);
+      written.push(write);
+    }
+
+    if (mode === 'move') {
+      await fs.unlink(presetPath);
+    }
+  } catch (error) {
+    for (const write of written) {
+      try {
+        if (write.original) {
+          await fs.writeFile(write.path, write.original);
+        } else {
+          await fs.unlink(write.path);
+        }
+      } catch {
+        // Ignore restore failure - the backup is still available
+      }
+    }
+    for (const copied of copiedSamples) {
+      try {
+        await fs.unlink(copied);
+      } catch {
+        // Ignore cleanup failure
+      }
+    }
+    throw error;
+  }
+
+  // Names and notes follow the preset. The presets are already in place, so a
+  // metadata failure is logged rather than undoing the transfer.
+  try {
+    await transferPresetMetadata(presetPath, plan.targetPath, mode);
+  } catch (error) {
+    console.error('Error updating preset metadata:', error);
+  }
+
+  return { targetPath: plan.targetPath, copiedSamples, backupPaths };
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import { applyRecsOrder, planRecsOrder, readRecsOrderUndo, undoRecsOrder } from './recsOrder';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+const RECS = '/card/Recs';
+const recording = (name: string) => `${RECS}/${name}`;
+const mtime = (name: string) => vol.statSync(recording(name)).mtimeMs;
+
+// Recordings made a minute apart, REC003 newest
+const BASE = Date.UTC(2024, 0, 1, 12, 0, 0);
+const setupRecs = () => {
+  vol.fromJSON({
+    [recording('REC001.wav')]: 'a',
+    [recording('REC002.wav')]: 'b',
+    [recording('REC003.wav')]: 'c',
+  });
+  ['REC001.wav', 'REC002.wav', 'REC003.wav'].forEach((name, i) => {
+    const time = new Date(BASE + i * 60000);
+    vol.utimesSync(recording(name), time, time);
+  });
+};
+
+describe('recsOrder', () => {
+  beforeEach(() => {
+    vol.reset();
+    setupRecs();
+  });
+
+  describe('planRecsOrder', () => {
+    it('should leave recordings already in order alone', async () => {
+      const plan = await planRecsOrder(
+        RECS,
+        ['REC003.wav', 'REC002.wav', 'REC001.wav'].map(recording)
+      );
+
+      expect(plan.changedCount).toBe(0);
+    });
+
+    it('should only move the times the new order needs, in 2-second steps', async () => {
+      // REC001 to the top
+      const plan = await planRecsOrder(
+        RECS,
+        ['REC001.wav', 'REC003.wav', 'REC002.wav'].map(recording)
+      );
+
+      expect(plan.items.map((item) => [item.name, item.changed, item.newTime - BASE])).toEqual([
+        ['REC001.wav', true, 120000 + 2000],
+        ['REC003.wav', false, 120000],
+        ['REC002.wav', false, 60000],
+      ]);
+    });
+
+    it('should keep times distinct when recordings share a FAT time step', async () => {
+      const time = new Date(BASE + 500);
+      vol.utimesSync(recording('REC002.wav'), new Date(BASE), new Date(BASE));
+      vol.utimesSync(recording('REC003.wav'), time, time);
+
+      const plan = await planRecsOrder(
+        RECS,
+        ['REC003.wav', 'REC002.wav', 'REC001.wav'].map(recording)
+      );
+
+      expect(plan.items.map((item) => item.newTime - BASE)).toEqual([4000, 2000, 0]);
+    });
+
+    it('should refuse an order that does not list every recording', async () => {
+      await expect(
+        planRecsOrder(RECS, ['REC003.wav', 'REC001.wav'].map(recording))
+      ).rejects.toThrow('The recordings have changed on the card');
+    });
+  });
+
+  describe('applyRecsOrder and undoRecsOrder', () => {
+    it('should rewrite modification times and restore them on undo', async () => {
+      await applyRecsOrder(
+        RECS,
+        ['REC001.wav', 'REC003.wav', 'REC002.wav'].map(recording),
+        '/userData'
+      );
+
+      expect(mtime('REC001.wav')).toBe(BASE + 122000);
+      expect(await readRecsOrderUndo('/userData', RECS)).toMatchObject({ fileCount: 1 });
+      expect(await readRecsOrderUndo('/userData', '/other/Recs')).toBeNull();
+
+      const result = await undoRecsOrder('/userData', RECS);
+
+      expect(result).toEqual({ restored: [recording('REC001.wav')], missing: [] });
+      expect(mtime('REC001.wav')).toBe(BASE);
+      expect(await readRecsOrderUndo('/userData', RECS)).toBeNull();
+    });
+
+    it('should undo several reorders back to the recording times', async () => {
+      await applyRecsOrder(
+        RECS,
+        ['REC001.wav', 'REC003.wav', 'REC002.wav'].map(recording),
+        '/userData'
+      );
+      await applyRecsOrder(
+        RECS,
+        ['REC002.wav', 'REC001.wav', 'REC003.wav'].map(recording),
+        '/userData'
+      );
+
+      await undoRecsOrder('/userData', RECS);
+
+      expect(['REC001.wav', 'REC002.wav', 'REC003.wav'].map(mtime)).toEqual([
+        BASE,
+        BASE + 60000,
+        BASE + 120000,
+      ]);
+    });
+
+    it('should keep the undo of each Recs folder', async () => {
+      vol.fromJSON({ '/other/Recs/REC001.wav': 'x', '/other/Recs/REC002.wav': 'y' });
+      vol.utimesSync('/other/Recs/REC002.wav', new Date(BASE), new Date(BASE));
+
+      await applyRecsOrder(
+        RECS,
+        ['REC001.wav', 'REC003.wav', 'REC002.wav'].map(recording),
+        '/userData'
+      );
+      await applyRecsOrder(
+        '/other/Recs',
+        ['/other/Recs/REC002.wav', '/other/Recs/REC001.wav'],
+        '/userData'
+      );
+
+      expect(await readRecsOrderUndo('/userData', RECS)).toMatchObject({ fileCount: 1 });
+      await undoRecsOrder('/userData', RECS);
+      expect(mtime('REC001.wav')).toBe(BASE);
+      expect(await readRecsOrderUndo('/userData', '/other/Recs')).toMatchObject({ fileCount: 1 });
+    });
+  });
+});
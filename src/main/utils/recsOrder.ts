@@ -0,0 +1,200 @@
+/**
+ * Reorder recordings by rewriting their modification times. The module
+ * indexes Recs by modification time, newest first, so that is the only
+ * order it reads. Original timestamps are saved on the computer, per folder,
+ * so reorders can be undone back to the recording times.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { RecsOrderItem, RecsOrderPlan, RecsOrderUndo } from '@shared/types';
+import { FILE_EXTENSIONS } from '@shared/constants';
+
+// FAT stores modification times in 2-second steps
+export const FAT_TIME_RESOLUTION_MS = 2000;
+
+export const RECS_TIMESTAMP_BACKUP_FILENAME = 'recs-timestamps.json';
+
+interface TimestampBackup {
+  folderPath: string;
+  savedAt: string; // ISO date of the first reorder since the last undo
+  files: Array<{ name: string; atimeMs: number; mtimeMs: number }>;
+}
+
+// One backup per Recs folder, so every card keeps its own undo
+interface TimestampBackupStore {
+  folders: TimestampBackup[];
+}
+
+// The time a FAT card would store
+const toFatTime = (time: number) =>
+  Math.floor(time / FAT_TIME_RESOLUTION_MS) * FAT_TIME_RESOLUTION_MS;
+
+/**
+ * Check that the ordered paths are exactly the recordings in the folder
+ */
+async function checkRecordings(folderPath: string, orderedPaths: string[]): Promise<void> {
+  const names = (await fs.readdir(folderPath)).filter(
+    (name) => !name.startsWith('.') && name.toLowerCase().endsWith(FILE_EXTENSIONS.AUDIO)
+  );
+  const ordered = new Set(orderedPaths.map((filePath) => path.resolve(filePath)));
+  if (
+    ordered.size !== orderedPaths.length ||
+    ordered.size !== names.length ||
+    names.some((name) => !ordered.has(path.resolve(folderPath, name)))
+  ) {
+    throw new Error('The recordings have changed on the card, reload and try again');
+  }
+}
+
+/**
+ * Modification times that make the module index the recordings in the given
+ * order, newest first. Times are only moved where the order needs it, so
+ * most recordings keep their real recording time. Every time is a distinct
+ * 2-second FAT step, otherwise the card could store two recordings with the
+ * same time and the module's order between them would be undefined.
+ */
+export async function planRecsOrder(
+  folderPath: string,
+  orderedPaths: string[]
+): Promise<RecsOrderPlan> {
+  await checkRecordings(folderPath, orderedPaths);
+
+  const items: RecsOrderItem[] = [];
+  for (const filePath of orderedPaths) {
+    const stats = await fs.stat(filePath);
+    items.push({
+      name: path.basename(filePath),
+      path: filePath,
+      oldTime: stats.mtimeMs,
+      newTime: stats.mtimeMs,
+      changed: false,
+    });
+  }
+
+  // Walk from the oldest up; each recording must be newer than the one below
+  let below = -Infinity;
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i];
+    const current = toFatTime(item.oldTime);
+    if (current > below) {
+      below = current;
+      continue;
+    }
+    below += FAT_TIME_RESOLUTION_MS;
+    item.newTime = below;
+    item.changed = true;
+  }
+
+  return {
+    folderPath,
+    items,
+    changedCount: items.filter((item) => item.changed).length,
+  };
+}
+
+async function readBackups(backupDir: string): Promise<TimestampBackupStore> {
+  try {
+    const data = JSON.parse(
+      await fs.readFile(path.join(backupDir, RECS_TIMESTAMP_BACKUP_FILENAME), 'utf-8')
+    );
+    // Older versions kept a single backup for the last folder reordered
+    return Array.isArray(data.folders) ? data : { folders: data.folderPath ? [data] : [] };
+  } catch {
+    return { folders: [] };
+  }
+}
+
+async function writeBackups(backupDir: string, store: TimestampBackupStore): Promise<void> {
+  const backupPath = path.join(backupDir, RECS_TIMESTAMP_BACKUP_FILENAME);
+  if (store.folders.length === 0) {
+    await fs.rm(backupPath, { force: true });
+    return;
+  }
+  await fs.mkdir(backupDir, { recursive: true });
+  await fs.writeFile(backupPath, JSON.stringify(store, null, 2), 'utf-8');
+}
+
+const findBackup = (store: TimestampBackupStore, folderPath: string) =>
+  store.folders.find((backup) => backup.folderPath === path.resolve(folderPath));
+
+/**
+ * The reorder that can be undone in this folder, or null
+ */
+export async function readRecsOrderUndo(
+  backupDir: string,
+  folderPath: string
+): Promise<RecsOrderUndo | null> {
+  const backup = findBackup(await readBackups(backupDir), folderPath);
+  if (!backup) return null;
+  return { savedAt: backup.savedAt, fileCount: backup.files.length };
+}
+
+/**
+ * Rewrite modification times so the module indexes the recordings in the
+ * given order. The times being replaced are saved first; a recording that
+ * already has a saved time keeps it, so undo returns to the times before the
+ * first reorder.
+ */
+export async function applyRecsOrder(
+  folderPath: string,
+  orderedPaths: string[],
+  backupDir: string
+): Promise<RecsOrderPlan> {
+  const plan = await planRecsOrder(folderPath, orderedPaths);
+  const changed = plan.items.filter((item) => item.changed);
+  if (changed.length === 0) return plan;
+
+  const store = await readBackups(backupDir);
+  let backup = findBackup(store, folderPath);
+  if (!backup) {
+    backup = { folderPath: path.resolve(folderPath), savedAt: new Date().toISOString(), files: [] };
+    store.folders.push(backup);
+  }
+
+  const atimes: number[] = [];
+  for (const item of changed) {
+    const stats = await fs.stat(item.path);
+    atimes.push(stats.atimeMs);
+    if (!backup.files.some((file) => file.name === item.name)) {
+      backup.files.push({ name: item.name, atimeMs: stats.atimeMs, mtimeMs: stats.mtimeMs });
+    }
+  }
+  await writeBackups(backupDir, store);
+
+  for (const [i, item] of changed.entries()) {
+    await fs.utimes(item.path, new Date(atimes[i]), new Date(item.newTime));
+  }
+  return plan;
+}
+
+/**
+ * Put back the modification times saved before the first reorder in this
+ * folder. Recordings deleted or renamed since are skipped.
+ */
+export async function undoRecsOrder(
+  backupDir: string,
+  folderPath: string
+): Promise<{ restored: string[]; missing: string[] }> {
+  const store = await readBackups(backupDir);
+  const backup = findBackup(store, folderPath);
+  if (!backup) {
+    throw new Error('There is no reorder to undo for this folder');
+  }
+
+  const restored: string[] = [];
+  const missing: string[] = [];
+  for (const file of backup.files) {
+    const filePath = path.join(folderPath, file.name);
+    try {
+      await fs.utimes(filePath, new Date(file.atimeMs), new Date(file.mtimeMs));
+      restored.push(filePath);
+    } catch {
+      missing.push(filePath);
+    }
+  }
+
+  store.folders = store.folders.filter((b) => b !== backup);
+  await writeBackups(backupDir, store);
+  return { restored, missing };
+}
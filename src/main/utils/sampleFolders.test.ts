@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import { countWavFiles, resolvePresetSampleFile } from './sampleFolders';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+const PRESET = '/card/Project01/Preset01.mgp';
+
+describe('sampleFolders', () => {
+  beforeEach(() => {
+    vol.reset();
+    vol.fromJSON({
+      '/card/Project01/kick.wav': 'kick',
+      '/card/Project01/._kick.wav': '',
+      '/card/Wavs/kick.wav': 'kick',
+      '/card/Recs/take.wav': 'take',
+    });
+  });
+
+  it('should count .wav files without resource forks', async () => {
+    expect(await countWavFiles('/card/Project01')).toBe(1);
+    expect(await countWavFiles('/card/Missing')).toBe(0);
+  });
+
+  it('should resolve sounds like the Preset Viewer', async () => {
+    expect(await resolvePresetSampleFile(PRESET, 'kick.wav', 'WAVS')).toMatchObject({
+      status: 'ok',
+      samplePath: '/card/Wavs/kick.wav',
+    });
+    expect(await resolvePresetSampleFile(PRESET, 'take.wav', 'PROJECT')).toMatchObject({
+      status: 'moved',
+      samplePath: '/card/Recs/take.wav',
+    });
+    expect(await resolvePresetSampleFile(PRESET, 'kick.wav', 'UNKNOWN')).toMatchObject({
+      status: 'ambiguous',
+      samplePath: '/card/Project01/kick.wav',
+    });
+    expect(await resolvePresetSampleFile(PRESET, 'gone.wav', null)).toMatchObject({
+      status: 'missing',
+      samplePath: null,
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * The folders presets load samples from: a project folder, Wavs and Recs.
+ * Lists their files and resolves which file a preset sound loads, using the
+ * same rule as the Preset Viewer.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { PresetSampleFolder, SampleFolder } from '@shared/types';
+import { FOLDER_NAMES } from '@shared/constants';
+import { resolveSampleFolder, SampleFolderResolution } from '@shared/sampleResolution';
+
+export const PROJECT_FOLDER_REGEX = /^Project\d{2}$/;
+
+/**
+ * Names of the .wav files in a folder, without macOS resource forks.
+ * A folder that cannot be read has none.
+ */
+export async function listWavNames(dirPath: string): Promise<Set<string>> {
+  try {
+    const entries = await fs.readdir(dirPath);
+    return new Set(entries.filter((name) => /\.wav$/i.test(name) && !name.startsWith('._')));
+  } catch {
+    return new Set();
+  }
+}
+
+export async function countWavFiles(dirPath: string): Promise<number> {
+  return (await listWavNames(dirPath)).size;
+}
+
+/**
+ * Lists each folder once; for passes over many presets sharing Wavs and Recs
+ */
+export function createWavNameCache(): (dirPath: string) => Promise<Set<string>> {
+  const cache = new Map<string, Promise<Set<string>>>();
+  return (dirPath) => {
+    if (!cache.has(dirPath)) {
+      cache.set(dirPath, listWavNames(dirPath));
+    }
+    return cache.get(dirPath)!;
+  };
+}
+
+/**
+ * Paths of the folders a preset can load samples from
+ */
+export function getSampleFolderPaths(presetPath: string): Record<SampleFolder, string> {
+  const projectPath = path.dirname(presetPath);
+  const rootPath = path.dirname(projectPath);
+  return {
+    PROJECT: projectPath,
+    WAVS: path.join(rootPath, FOLDER_NAMES.WAVS),
+    RECS: path.join(rootPath, FOLDER_NAMES.RECS),
+  };
+}
+
+/**
+ * Resolve a preset sound against the files on the card, like the Preset
+ * Viewer does. samplePath is the file it loads, null when none is found.
+ */
+export async function resolvePresetSampleFile(
+  presetPath: string,
+  name: string,
+  presetFolder: PresetSampleFolder | null | undefined,
+  listWavs: (dirPath: string) => Promise<Set<string>> = listWavNames
+): Promise<SampleFolderResolution & { samplePath: string | null }> {
+  const folderPaths = getSampleFolderPaths(presetPath);
+  const files: Record<SampleFolder, Set<string>> = {
+    PROJECT: await listWavs(folderPaths.PROJECT),
+    WAVS: await listWavs(folderPaths.WAVS),
+    RECS: await listWavs(folderPaths.RECS),
+  };
+  const resolved = resolveSampleFolder(presetFolder, (folder) => files[folder].has(name));
+  return {
+    ...resolved,
+    samplePath: resolved.folder ? path.join(folderPaths[resolved.folder], name) : null,
+  };
+}
@@ -3,6 +3,8 @@
  * to enforce reliable alphabetical ordering on the Multigrain hardware.
  */
 
+import { NUMBER_PREFIX_REGEX } from '@shared/constants';
+
 /**
  * Supported separator types between number and filename
  */
@@ -22,13 +24,6 @@ export interface NumberingScheme {
   nextNumber: number;
 }
 
-/**
- * Flexible regex to detect number prefixes with various separators
- * Matches: 01_xxx, 01 xxx, 01 - xxx, 01-xxx, 01.xxx
- * Captures: (digits)(separator)
- */
-const FLEXIBLE_PREFIX_REGEX = /^(\d{1,3})(\s*[-_.]\s*|\s+)(?=\S)/;
-
 /**
  * Map separator strings to canonical types
  */
@@ -48,7 +43,7 @@ function normalizeSeparator(sep: string): SeparatorType {
  * @returns true if the filename starts with a number prefix pattern
  */
 export function hasNumberPrefix(filename: string): boolean {
-  return FLEXIBLE_PREFIX_REGEX.test(filename);
+  return NUMBER_PREFIX_REGEX.test(filename);
 }
 
 /**
@@ -57,7 +52,7 @@ export function hasNumberPrefix(filename: string): boolean {
  * @returns The extracted number, or null if no prefix found
  */
 export function extractPrefixNumber(filename: string): number | null {
-  const match = filename.match(FLEXIBLE_PREFIX_REGEX);
+  const match = filename.match(NUMBER_PREFIX_REGEX);
   if (match) {
     return parseInt(match[1], 10);
   }
@@ -72,7 +67,7 @@ export function extractPrefixNumber(filename: string): number | null {
 function extractPrefixInfo(
   filename: string
 ): { number: number; digits: number; separator: SeparatorType } | null {
-  const match = filename.match(FLEXIBLE_PREFIX_REGEX);
+  const match = filename.match(NUMBER_PREFIX_REGEX);
   if (match) {
     const numStr = match[1];
     return {
@@ -197,7 +192,7 @@ export function applyNumberPrefix(
  * @returns The filename without the number prefix
  */
 export function removeNumberPrefix(filename: string): string {
-  return filename.replace(FLEXIBLE_PREFIX_REGEX, '');
+  return filename.replace(NUMBER_PREFIX_REGEX, '');
 }
 
 /**
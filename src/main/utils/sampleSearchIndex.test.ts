@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import { parseFile } from 'music-metadata';
+import { refreshSearchIndex, searchSamples } from './sampleSearchIndex';
+import {
+  createPreset,
+  createMockStructure,
+  createMockProject,
+  createMockSample,
+  createMockPreset,
+} from '../../test/helpers';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+// Durations come from the filename, only pad.wav has a description
+const DURATIONS: Record<string, number> = { 'kick.wav': 0.5, 'pad.wav': 12, 'vox.wav': 3 };
+vi.mock('music-metadata', () => ({
+  parseFile: vi.fn(async (filePath: string) => ({
+    common: filePath.endsWith('pad.wav') ? { comment: ['Warm analog pad'] } : {},
+    native: {},
+    format: { duration: DURATIONS[filePath.split('/').pop() ?? ''] ?? 1 },
+  })),
+}));
+
+// The index is kept per card, so every test uses its own root
+let cardNumber = 0;
+
+function createCard() {
+  const root = `/card${++cardNumber}`;
+  vol.fromJSON({
+    [`${root}/Project01/kick.wav`]: 'kick',
+    [`${root}/Project01/Preset01.mgp`]: createPreset([
+      ['kick.wav', 'PROJECT'],
+      ['pad.wav', 'WAVS'],
+    ]),
+    [`${root}/Project01/Autosave.mgp`]: createPreset([['vox.wav', 'RECS']]),
+    [`${root}/Wavs/pad.wav`]: 'pad',
+    [`${root}/Wavs/noise.wav`]: 'noise',
+    [`${root}/Recs/vox.wav`]: 'vox',
+  });
+
+  const sample = (folder: string, name: string) =>
+    createMockSample({ name, path: `${root}/${folder}/${name}` });
+  const structure = createMockStructure({
+    rootPath: root,
+    projects: [
+      createMockProject({
+        path: `${root}/Project01`,
+        samples: [sample('Project01', 'kick.wav')],
+        presets: [
+          createMockPreset({
+            name: 'Preset01',
+            path: `${root}/Project01/Preset01.mgp`,
+            customName: 'Drone',
+          }),
+        ],
+        hasAutosave: true,
+        autosave: createMockPreset({ name: 'Autosave', path: `${root}/Project01/Autosave.mgp` }),
+      }),
+    ],
+    globalWavs: [sample('Wavs', 'pad.wav'), sample('Wavs', 'noise.wav')],
+    recordings: [sample('Recs', 'vox.wav')],
+  });
+  return { root, structure, sample };
+}
+
+const names = async (root: string, query: Parameters<typeof searchSamples>[1]) =>
+  (await searchSamples(root, query)).results.map((result) => result.name);
+
+describe('sampleSearchIndex', () => {
+  beforeEach(() => {
+    vol.reset();
+    vi.mocked(parseFile).mockClear();
+  });
+
+  it('should index descriptions, durations and the presets that load each sample', async () => {
+    const { root, structure } = createCard();
+
+    await expect(refreshSearchIndex(structure)).resolves.toEqual({
+      sampleCount: 4,
+      readCount: 4,
+    });
+
+    const { results, totalCount } = await searchSamples(root, { text: 'pad' });
+    expect(totalCount).toBe(1);
+    expect(results[0]).toMatchObject({
+      name: 'pad.wav',
+      folderLabel: 'Wavs',
+      duration: 12,
+      description: 'Warm analog pad',
+      presets: [{ presetPath: `${root}/Project01/Preset01.mgp`, label: 'Project01/Preset01' }],
+    });
+  });
+
+  it('should combine text, duration, folder, usage and preset filters', async () => {
+    const { root, structure } = createCard();
+    await refreshSearchIndex(structure);
+
+    expect(await names(root, { text: 'WARM analog' })).toEqual(['pad.wav']);
+    expect(await names(root, { text: 'warm kick' })).toEqual([]);
+    expect(await names(root, { minDuration: 1, maxDuration: 5 })).toEqual(['noise.wav', 'vox.wav']);
+    expect(await names(root, { folderPath: `${root}/Wavs` })).toEqual(['pad.wav', 'noise.wav']);
+    expect(await names(root, { usage: 'unused' })).toEqual(['noise.wav']);
+    expect(await names(root, { usage: 'used', folderPath: `${root}/Recs` })).toEqual(['vox.wav']);
+    expect(await names(root, { preset: 'drone' })).toEqual(['kick.wav', 'pad.wav']);
+    expect(await names(root, { preset: 'project01/autosave' })).toEqual(['vox.wav']);
+  });
+
+  it('should only re-read samples that were added or changed', async () => {
+    const { root, structure, sample } = createCard();
+    await refreshSearchIndex(structure);
+    await expect(refreshSearchIndex(structure)).resolves.toMatchObject({ readCount: 0 });
+
+    // Rename noise.wav and stop the preset loading pad.wav
+    vol.renameSync(`${root}/Wavs/noise.wav`, `${root}/Wavs/hiss.wav`);
+    vol.writeFileSync(`${root}/Project01/Preset01.mgp`, createPreset([['kick.wav', 'PROJECT']]));
+    // Presets keep their size, only the modification time tells the rewrite apart
+    vol.utimesSync(`${root}/Project01/Preset01.mgp`, new Date(), new Date(Date.now() + 2000));
+    const updated = {
+      ...structure,
+      globalWavs: [sample('Wavs', 'pad.wav'), sample('Wavs', 'hiss.wav')],
+    };
+
+    await expect(refreshSearchIndex(updated)).resolves.toEqual({ sampleCount: 4, readCount: 1 });
+    expect(await names(root, { folderPath: `${root}/Wavs` })).toEqual(['pad.wav', 'hiss.wav']);
+    expect(await names(root, { usage: 'unused' })).toEqual(['pad.wav', 'hiss.wav']);
+  });
+
+  it('should refuse to search a card that has not been indexed', async () => {
+    await expect(searchSamples('/not-indexed', { text: 'kick' })).rejects.toThrow(
+      'has not been built'
+    );
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Card-wide sample search index. Descriptions, durations and preset sample
+ * references are read once and kept in memory, keyed by file size and
+ * modification time, so queries never touch the card. Refreshing after an
+ * import, rename or delete only re-reads the files that changed.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  MultigainStructure,
+  PresetSampleFolder,
+  SampleFolder,
+  SampleSearchPreset,
+  SampleSearchQuery,
+  SampleSearchResponse,
+  SampleSearchResult,
+  WavFile,
+} from '@shared/types';
+import { FOLDER_NAMES, formatProjectDisplayName } from '@shared/constants';
+import { resolveSampleFolder } from '@shared/sampleResolution';
+import { readSampleMetadata } from './exportDataAggregator';
+import { readPresetSounds } from './presetRepair';
+
+// Results returned per query; the rest are only counted
+export const SEARCH_RESULT_LIMIT = 500;
+
+// Files read at once while building the index
+const READ_BATCH_SIZE = 32;
+
+interface IndexedSample {
+  stamp: string;
+  description: string;
+  duration: number;
+}
+
+interface IndexedPreset {
+  stamp: string;
+  sounds: Array<{ name: string; folder: PresetSampleFolder | null }>;
+}
+
+interface SearchIndex {
+  rootPath: string;
+  samples: Map<string, IndexedSample>;
+  presets: Map<string, IndexedPreset>;
+  entries: SampleSearchResult[];
+}
+
+let index: SearchIndex | null = null;
+let pendingRefresh: Promise<unknown> = Promise.resolve();
+
+async function readStamp(filePath: string): Promise<string> {
+  try {
+    const stats = await fs.stat(filePath);
+    return `${stats.size}:${stats.mtimeMs}`;
+  } catch {
+    return '';
+  }
+}
+
+async function inBatches<T>(items: T[], task: (item: T) => Promise<void>): Promise<void> {
+  for (let i = 0; i < items.length; i += READ_BATCH_SIZE) {
+    await Promise.all(items.slice(i, i + READ_BATCH_SIZE).map(task));
+  }
+}
+
+/**
+ * Re-read files whose stamp changed and drop files no longer on the card.
+ * Returns how many files were read.
+ */
+async function updateCache<T extends { stamp: string }>(
+  cache: Map<string, T>,
+  filePaths: string[],
+  read: (filePath: string, stamp: string) => Promise<T>
+): Promise<number> {
+  const wanted = new Set(filePaths);
+  for (const cachedPath of cache.keys()) {
+    if (!wanted.has(cachedPath)) cache.delete(cachedPath);
+  }
+
+  let readCount = 0;
+  await inBatches(filePaths, async (filePath) => {
+    const stamp = await readStamp(filePath);
+    if (cache.get(filePath)?.stamp === stamp) return;
+    cache.set(filePath, await read(filePath, stamp));
+    readCount++;
+  });
+  return readCount;
+}
+
+async function readIndexedSample(samplePath: string, stamp: string): Promise<IndexedSample> {
+  const { description, duration } = await readSampleMetadata(samplePath);
+  return { stamp, description, duration };
+}
+
+async function readIndexedPreset(presetPath: string, stamp: string): Promise<IndexedPreset> {
+  try {
+    const sounds = readPresetSounds(await fs.readFile(presetPath)).map(({ name, folder }) => ({
+      name,
+      folder,
+    }));
+    return { stamp, sounds };
+  } catch {
+    // Unreadable presets load nothing
+    return { stamp, sounds: [] };
+  }
+}
+
+/**
+ * Presets that load each sample, resolved like the preset viewer does
+ */
+function buildPresetLinks(
+  structure: MultigainStructure,
+  presets: Map<string, IndexedPreset>
+): Map<string, SampleSearchPreset[]> {
+  const byName = (samples: WavFile[]) =>
+    new Map(samples.map((sample) => [sample.name, sample.path]));
+  const wavs = byName(structure.globalWavs);
+  const recs = byName(structure.recordings);
+  const links = new Map<string, SampleSearchPreset[]>();
+
+  for (const project of structure.projects) {
+    const folders: Record<SampleFolder, Map<string, string>> = {
+      PROJECT: byName(project.samples),
+      WAVS: wavs,
+      RECS: recs,
+    };
+    const projectPresets = project.autosave
+      ? [project.autosave, ...project.presets]
+      : project.presets;
+
+    for (const preset of projectPresets) {
+      const samplePaths = new Set<string>();
+      for (const sound of presets.get(preset.path)?.sounds ?? []) {
+        const resolved = resolveSampleFolder(sound.folder, (f) => folders[f].has(sound.name));
+        if (resolved.folder) samplePaths.add(folders[resolved.folder].get(sound.name)!);
+      }
+
+      for (const samplePath of samplePaths) {
+        const presetLinks = links.get(samplePath) ?? [];
+        presetLinks.push({
+          presetPath: preset.path,
+          projectPath: project.path,
+          label: `${project.name}/${preset.name}`,
+          ...(preset.customName ? { customName: preset.customName } : {}),
+        });
+        links.set(samplePath, presetLinks);
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Bring the index in line with a freshly loaded card structure. The first
+ * call reads every sample and preset; later calls only read what changed.
+ * Refreshes run one at a time, queries wait for the one in progress.
+ */
+export function refreshSearchIndex(
+  structure: MultigainStructure
+): Promise<{ sampleCount: number; readCount: number }> {
+  const refresh = pendingRefresh.then(async () => {
+    if (index?.rootPath !== structure.rootPath) {
+      index = {
+        rootPath: structure.rootPath,
+        samples: new Map(),
+        presets: new Map(),
+        entries: [],
+      };
+    }
+    const current = index;
+
+    const folders = [
+      ...structure.projects.map((project) => ({
+        folderPath: project.path,
+        folderLabel: formatProjectDisplayName(project.index, project.name, project.customName),
+        samples: project.samples,
+      })),
+      {
+        folderPath: path.join(structure.rootPath, FOLDER_NAMES.WAVS),
+        folderLabel: FOLDER_NAMES.WAVS,
+        samples: structure.globalWavs,
+      },
+      {
+        folderPath: path.join(structure.rootPath, FOLDER_NAMES.RECS),
+        folderLabel: FOLDER_NAMES.RECS,
+        samples: structure.recordings,
+      },
+    ];
+    const presetPaths = structure.projects.flatMap((project) => [
+      ...(project.autosave ? [project.autosave.path] : []),
+      ...project.presets.map((preset) => preset.path),
+    ]);
+
+    const readCount = await updateCache(
+      current.samples,
+      folders.flatMap((folder) => folder.samples.map((sample) => sample.path)),
+      readIndexedSample
+    );
+    await updateCache(current.presets, presetPaths, readIndexedPreset);
+
+    const links = buildPresetLinks(structure, current.presets);
+    current.entries = folders.flatMap(({ folderPath, folderLabel, samples }) =>
+      samples.map((sample) => {
+        const metadata = current.samples.get(sample.path);
+        return {
+          name: sample.name,
+          path: sample.path,
+          folderPath,
+          folderLabel,
+          size: sample.size,
+          duration: metadata?.duration ?? 0,
+          ...(metadata?.description ? { description: metadata.description } : {}),
+          presets: links.get(sample.path) ?? [],
+        };
+      })
+    );
+
+    return { sampleCount: current.entries.length, readCount };
+  });
+
+  // A failed refresh must not block the next one
+  pendingRefresh = refresh.catch(() => undefined);
+  return refresh;
+}
+
+/**
+ * Samples matching every filter in the query, in tree order
+ */
+export async function searchSamples(
+  rootPath: string,
+  query: SampleSearchQuery
+): Promise<SampleSearchResponse> {
+  await pendingRefresh;
+  if (!index || index.rootPath !== rootPath) {
+    throw new Error('The search index has not been built for this card');
+  }
+
+  const words = (query.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  const preset = query.preset?.trim().toLowerCase();
+  const folderPath = query.folderPath ? path.resolve(query.folderPath) : null;
+
+  const matches = index.entries.filter((entry) => {
+    if (folderPath && path.resolve(entry.folderPath) !== folderPath) return false;
+    if (query.minDuration !== undefined && entry.duration < query.minDuration) return false;
+    if (query.maxDuration !== undefined && entry.duration > query.maxDuration) return false;
+    if (query.usage === 'used' && entry.presets.length === 0) return false;
+    if (query.usage === 'unused' && entry.presets.length > 0) return false;
+    if (
+      preset &&
+      !entry.presets.some(
+        (p) =>
+          p.label.toLowerCase().includes(preset) || p.customName?.toLowerCase().includes(preset)
+      )
+    ) {
+      return false;
+    }
+    const haystack = `${entry.name}\n${entry.description ?? ''}`.toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+
+  return { results: matches.slice(0, SEARCH_RESULT_LIMIT), totalCount: matches.length };
+}
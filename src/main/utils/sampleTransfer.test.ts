@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import { executeSampleTransfer, planSampleTransfer } from './sampleTransfer';
+import { decodePreset, getSoundBlockOffset, PRESET_LAYOUT } from './presetParser';
+import { createPreset } from '../../test/helpers';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+vi.mock('fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+function readSounds(presetPath: string) {
+  return decodePreset(vol.readFileSync(presetPath) as Buffer).sounds.map((sound) => [
+    sound.sampleFilename,
+    sound.sampleFolder,
+  ]);
+}
+
+describe('sampleTransfer', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe('planSampleTransfer', () => {
+    it('should resolve name conflicts in the target folder and within the batch', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'a',
+        '/card/Project02/kick.wav': 'b',
+        '/card/Wavs/kick.wav': 'c',
+      });
+
+      const plan = await planSampleTransfer(
+        ['/card/Project01/kick.wav', '/card/Project02/kick.wav'],
+        '/card/Wavs',
+        'copy'
+      );
+
+      expect(plan.items.map((item) => item.targetPath)).toEqual([
+        '/card/Wavs/kick_1.wav',
+        '/card/Wavs/kick_2.wav',
+      ]);
+      expect(plan.items.every((item) => item.renamed)).toBe(true);
+      expect(plan.presetUpdates).toEqual([]);
+    });
+
+    it('should report when the target folder would go over its limit', async () => {
+      const files: Record<string, string> = { '/card/Project01/new.wav': 'x' };
+      for (let i = 0; i < 128; i++) {
+        files[`/card/Wavs/${i}.wav`] = 'x';
+      }
+      vol.fromJSON(files);
+
+      const plan = await planSampleTransfer(['/card/Project01/new.wav'], '/card/Wavs', 'move');
+
+      expect(plan.storageError).toMatch(/Wavs has 128 samples.*limit of 128/);
+      await expect(
+        executeSampleTransfer(['/card/Project01/new.wav'], '/card/Wavs', 'move')
+      ).rejects.toThrow(/limit of 128/);
+      expect(vol.existsSync('/card/Project01/new.wav')).toBe(true);
+    });
+
+    it('should reject invalid targets and sources', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'a',
+        '/card/Other/x.txt': '',
+      });
+
+      await expect(
+        planSampleTransfer(['/card/Project01/kick.wav'], '/card/Other', 'move')
+      ).rejects.toThrow(/project folder, Wavs or Recs/);
+      await expect(
+        planSampleTransfer(['/card/Project01/kick.wav'], '/card/Project01', 'move')
+      ).rejects.toThrow(/already in Project01/);
+      await expect(
+        planSampleTransfer(['/elsewhere/Project01/kick.wav'], '/card/Wavs', 'move')
+      ).rejects.toThrow(/not on the same card/);
+    });
+  });
+
+  describe('executeSampleTransfer', () => {
+    it('should move a project sample to Wavs and update the folder of its presets', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'kick',
+        '/card/Project01/Preset01.mgp': createPreset([
+          ['kick.wav', 'PROJECT'],
+          ['kick.wav', 'WAVS'],
+        ]),
+        '/card/Project02/Preset01.mgp': createPreset([['kick.wav', 'PROJECT']]),
+        '/card/Wavs/.keep': '',
+      });
+
+      const plan = await executeSampleTransfer(['/card/Project01/kick.wav'], '/card/Wavs', 'move');
+
+      expect(vol.existsSync('/card/Project01/kick.wav')).toBe(false);
+      expect(vol.readFileSync('/card/Wavs/kick.wav', 'utf-8')).toBe('kick');
+      // Only the sound loading the moved file changes
+      expect(readSounds('/card/Project01/Preset01.mgp').slice(0, 2)).toEqual([
+        ['kick.wav', 'WAVS'],
+        ['kick.wav', 'WAVS'],
+      ]);
+      // Another project's preset cannot see Project01
+      expect(readSounds('/card/Project02/Preset01.mgp')[0]).toEqual(['kick.wav', 'PROJECT']);
+      expect(plan.presetUpdates).toHaveLength(1);
+      expect(plan.presetUpdates[0].sounds).toEqual([
+        { soundNumber: 1, oldName: 'kick.wav', newName: 'kick.wav' },
+      ]);
+    });
+
+    it('should point presets at the new name when the sample is renamed', async () => {
+      vol.fromJSON({
+        '/card/Wavs/pad.wav': 'new pad',
+        '/card/Project01/pad.wav': 'old pad',
+        '/card/Project01/Autosave.mgp': createPreset([['pad.wav', 'WAVS']]),
+      });
+
+      await executeSampleTransfer(['/card/Wavs/pad.wav'], '/card/Project01', 'move');
+
+      expect(vol.readFileSync('/card/Project01/pad_1.wav', 'utf-8')).toBe('new pad');
+      expect(readSounds('/card/Project01/Autosave.mgp')[0]).toEqual(['pad_1.wav', 'PROJECT']);
+    });
+
+    it('should relink presets whose stored folder does not have the sample', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'kick',
+        '/card/Project01/Preset01.mgp': createPreset([['kick.wav', 'WAVS']]),
+        '/card/Recs/.keep': '',
+      });
+
+      const plan = await executeSampleTransfer(['/card/Project01/kick.wav'], '/card/Recs', 'move');
+
+      expect(plan.brokenReferences).toEqual([]);
+      expect(readSounds('/card/Project01/Preset01.mgp')[0]).toEqual(['kick.wav', 'RECS']);
+    });
+
+    it('should list sounds that could load the sample from several folders', async () => {
+      // A folder byte that does not decode, like the Preset Viewer's AMBIGUOUS
+      const preset = createPreset([['kick.wav', 'RECS']]);
+      preset[getSoundBlockOffset(1) + PRESET_LAYOUT.SOUND.SAMPLE_FOLDER] = 9;
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'project kick',
+        '/card/Wavs/kick.wav': 'wavs kick',
+        '/card/Project01/Preset01.mgp': preset,
+        '/card/Project02/.keep': '',
+      });
+
+      const plan = await planSampleTransfer(
+        ['/card/Project01/kick.wav'],
+        '/card/Project02',
+        'move'
+      );
+
+      expect(plan.presetUpdates).toEqual([]);
+      expect(plan.brokenReferences).toEqual([
+        expect.objectContaining({ presetName: 'Preset01', soundNumber: 1, reason: 'ambiguous' }),
+      ]);
+    });
+
+    it('should report presets that cannot reach the target folder', async () => {
+      vol.fromJSON({
+        '/card/Wavs/pad.wav': 'pad',
+        '/card/Project01/.keep': '',
+        '/card/Project02/Preset03.mgp': createPreset([['pad.wav', 'WAVS']]),
+        '/card/Project03/Preset01.mgp': Buffer.concat([
+          Buffer.from('pad.wav\0'),
+          Buffer.alloc(PRESET_LAYOUT.FILE_SIZE - 8),
+        ]),
+      });
+
+      const plan = await executeSampleTransfer(['/card/Wavs/pad.wav'], '/card/Project01', 'move');
+
+      expect(plan.presetUpdates).toEqual([]);
+      expect(plan.brokenReferences).toEqual([
+        expect.objectContaining({
+          projectName: 'Project02',
+          presetName: 'Preset03',
+          soundNumber: 1,
+          reason: 'unreachable',
+        }),
+        expect.objectContaining({
+          projectName: 'Project03',
+          presetName: 'Preset01',
+          reason: 'unknownLayout',
+        }),
+      ]);
+      expect(readSounds('/card/Project02/Preset03.mgp')[0]).toEqual(['pad.wav', 'WAVS']);
+    });
+
+    it('should copy samples without touching presets', async () => {
+      const preset = createPreset([['kick.wav', 'PROJECT']]);
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'kick',
+        '/card/Project01/Preset01.mgp': preset,
+        '/card/Recs/.keep': '',
+      });
+
+      const plan = await executeSampleTransfer(['/card/Project01/kick.wav'], '/card/Recs', 'copy');
+
+      expect(vol.readFileSync('/card/Project01/kick.wav', 'utf-8')).toBe('kick');
+      expect(vol.readFileSync('/card/Recs/kick.wav', 'utf-8')).toBe('kick');
+      expect((vol.readFileSync('/card/Project01/Preset01.mgp') as Buffer).equals(preset)).toBe(
+        true
+      );
+      expect(plan.brokenReferences).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Move and copy samples between project folders, Wavs and Recs.
+ * Presets store the folder and filename of each sample, so a move rewrites
+ * both fields in every preset that loads the moved file.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  PresetReferenceBreak,
+  PresetReferenceUpdate,
+  PresetSampleFolder,
+  SampleTransferItem,
+  SampleTransferMode,
+  SampleTransferPlan,
+} from '@shared/types';
+import { FOLDER_NAMES, STORAGE_LIMITS } from '@shared/constants';
+import {
+  PRESET_LAYOUT,
+  decodePreset,
+  findSampleReferences,
+  getSampleFolders,
+  hasKnownLayout,
+  writeSoundSample,
+} from './presetParser';
+import {
+  PresetPatchPlan,
+  applyPresetPatchPlan,
+  findPresetsForSampleFolder,
+  getPresetSampleFolder,
+  getReferenceSoundNumber,
+} from './presetReferences';
+import {
+  PROJECT_FOLDER_REGEX,
+  countWavFiles,
+  createWavNameCache,
+  resolvePresetSampleFile,
+} from './sampleFolders';
+import { resolveConflict } from './fileConflictResolver';
+
+/**
+ * Sample limit of a folder, or null if samples cannot be stored there
+ */
+function getSampleLimit(folderPath: string): number | null {
+  const name = path.basename(folderPath);
+  if (PROJECT_FOLDER_REGEX.test(name)) return STORAGE_LIMITS.SAMPLES_PER_PROJECT;
+  if (name === FOLDER_NAMES.WAVS) return STORAGE_LIMITS.SAMPLES_IN_WAVS;
+  if (name === FOLDER_NAMES.RECS) return STORAGE_LIMITS.SAMPLES_IN_RECS;
+  return null;
+}
+
+/**
+ * Pick a free name in the target folder, also avoiding names already given to
+ * other samples in the same batch
+ */
+async function pickTargetName(
+  targetFolder: string,
+  name: string,
+  reserved: Set<string>
+): Promise<string> {
+  const ext = path.extname(name);
+  const baseName = path.basename(name, ext);
+  let targetName = await resolveConflict(targetFolder, name);
+  for (let counter = 1; reserved.has(targetName.toLowerCase()); counter++) {
+    targetName = await resolveConflict(targetFolder, `${baseName}_${counter}${ext}`);
+  }
+  reserved.add(targetName.toLowerCase());
+  return targetName;
+}
+
+/**
+ * Work out how presets follow the moved samples. A sound follows a sample when
+ * the Preset Viewer would resolve it to that file. Sounds that could load a
+ * moved sample from more than one folder are listed instead of guessed.
+ * Presets are patched in memory; nothing is written.
+ */
+async function planPresetMoves(items: SampleTransferItem[]): Promise<{
+  patchPlan: PresetPatchPlan;
+  brokenReferences: PresetReferenceBreak[];
+}> {
+  const patchPlan: PresetPatchPlan = { updates: [], overflows: [], files: [] };
+  const brokenReferences: PresetReferenceBreak[] = [];
+  const maxNameLength = PRESET_LAYOUT.SOUND.SAMPLE_FILENAME_LENGTH - 1;
+
+  const presetPaths = new Set<string>();
+  for (const sourceFolder of new Set(items.map((item) => path.dirname(item.sourcePath)))) {
+    (await findPresetsForSampleFolder(sourceFolder)).forEach((p) => presetPaths.add(p));
+  }
+
+  const listWavs = createWavNameCache();
+
+  for (const presetPath of Array.from(presetPaths).sort()) {
+    let original: Buffer;
+    try {
+      original = await fs.readFile(presetPath);
+    } catch {
+      // Skip unreadable preset files
+      continue;
+    }
+
+    const presetName = path.basename(presetPath, path.extname(presetPath));
+    const projectName = path.basename(path.dirname(presetPath));
+    const patched = Buffer.from(original);
+    const sounds: PresetReferenceUpdate['sounds'] = [];
+    const addBreak = (soundNumber: number, name: string, reason: PresetReferenceBreak['reason']) =>
+      brokenReferences.push({ presetPath, presetName, projectName, soundNumber, name, reason });
+
+    // Moved sample a sound loads, and whether another file could be loaded instead
+    const resolve = async (name: string, storedFolder: PresetSampleFolder | null) => {
+      const { samplePath, status } = await resolvePresetSampleFile(
+        presetPath,
+        name,
+        storedFolder,
+        listWavs
+      );
+      const moved = samplePath
+        ? items.find((item) => path.resolve(item.sourcePath) === path.resolve(samplePath))
+        : undefined;
+      return { moved, ambiguous: status === 'ambiguous' };
+    };
+
+    if (hasKnownLayout(original)) {
+      for (const sound of decodePreset(original).sounds) {
+        if (!sound.sampleFilename) continue;
+        const { moved, ambiguous } = await resolve(sound.sampleFilename, sound.sampleFolder);
+        if (!moved) continue;
+
+        const newName = path.basename(moved.targetPath);
+        const newFolder = getPresetSampleFolder(presetPath, moved.targetPath);
+        // Already points where the sample is going
+        if (newFolder === sound.sampleFolder && newName === sound.sampleFilename) continue;
+
+        if (ambiguous) {
+          addBreak(sound.soundNumber, sound.sampleFilename, 'ambiguous');
+        } else if (!newFolder) {
+          addBreak(sound.soundNumber, sound.sampleFilename, 'unreachable');
+        } else if (newName.length > maxNameLength || !/^[\x20-\x7E]+$/.test(newName)) {
+          addBreak(sound.soundNumber, sound.sampleFilename, 'nameTooLong');
+        } else {
+          writeSoundSample(patched, sound.soundNumber, newFolder, newName);
+          sounds.push({ soundNumber: sound.soundNumber, oldName: sound.sampleFilename, newName });
+        }
+      }
+    } else {
+      // Without a decoded folder byte the reference cannot be pointed elsewhere
+      const storedFolders = getSampleFolders(original);
+      const references = findSampleReferences(original).slice(0, STORAGE_LIMITS.SOUNDS_PER_PRESET);
+      for (const [index, reference] of references.entries()) {
+        if ((await resolve(reference.filename, storedFolders[index] ?? null)).moved) {
+          addBreak(getReferenceSoundNumber(reference, index), reference.filename, 'unknownLayout');
+        }
+      }
+    }
+
+    if (sounds.length > 0) {
+      patchPlan.updates.push({ presetPath, presetName, projectName, sounds });
+      patchPlan.files.push({ presetPath, original, patched });
+    }
+  }
+
+  return { patchPlan, brokenReferences };
+}
+
+async function buildPlan(
+  samplePaths: string[],
+  targetFolder: string,
+  mode: SampleTransferMode
+): Promise<{ plan: SampleTransferPlan; patchPlan: PresetPatchPlan }> {
+  const limit = getSampleLimit(targetFolder);
+  if (limit === null) {
+    throw new Error('Samples can only be moved or copied into a project folder, Wavs or Recs');
+  }
+  if (samplePaths.length === 0) {
+    throw new Error('No samples selected');
+  }
+
+  const items: SampleTransferItem[] = [];
+  const reserved = new Set<string>();
+  for (const samplePath of samplePaths) {
+    const name = path.basename(samplePath);
+    const sourceFolder = path.dirname(samplePath);
+    if (!name.toLowerCase().endsWith('.wav')) {
+      throw new Error(`Not a .wav file: ${name}`);
+    }
+    if (path.resolve(sourceFolder) === path.resolve(targetFolder)) {
+      throw new Error(`${name} is already in ${path.basename(targetFolder)}`);
+    }
+    if (path.resolve(path.dirname(sourceFolder)) !== path.resolve(path.dirname(targetFolder))) {
+      throw new Error(`${name} is not on the same card as ${path.basename(targetFolder)}`);
+    }
+    const stats = await fs.stat(samplePath);
+    if (!stats.isFile()) {
+      throw new Error(`Not a file: ${name}`);
+    }
+
+    const targetName = await pickTargetName(targetFolder, name, reserved);
+    items.push({
+      sourcePath: samplePath,
+      targetPath: path.join(targetFolder, targetName),
+      renamed: targetName !== name,
+    });
+  }
+
+  const { patchPlan, brokenReferences } =
+    mode === 'move'
+      ? await planPresetMoves(items)
+      : { patchPlan: { updates: [], overflows: [], files: [] }, brokenReferences: [] };
+
+  const plan: SampleTransferPlan = {
+    mode,
+    targetFolder,
+    items,
+    presetUpdates: patchPlan.updates,
+    brokenReferences,
+  };
+
+  const existing = await countWavFiles(targetFolder);
+  if (existing + items.length > limit) {
+    plan.storageError = `${path.basename(targetFolder)} has ${existing} samples. Adding ${items.length} more would exceed the limit of ${limit}.`;
+  }
+
+  return { plan, patchPlan };
+}
+
+/**
+ * Work out what moving or copying samples will do without changing anything.
+ * Throws for requests that can never succeed.
+ */
+export async function planSampleTransfer(
+  samplePaths: string[],
+  targetFolder: string,
+  mode: SampleTransferMode
+): Promise<SampleTransferPlan> {
+  return (await buildPlan(samplePaths, targetFolder, mode)).plan;
+}
+
+/**
+ * Move or copy samples into another folder. Names taken in the target folder
+ * get a numeric suffix. After a move, every preset that loaded a moved sample
+ * is pointed at its new folder and name. If anything fails, files are put back
+ * and written presets restored.
+ */
+export async function executeSampleTransfer(
+  samplePaths: string[],
+  targetFolder: string,
+  mode: SampleTransferMode
+): Promise<SampleTransferPlan> {
+  const { plan, patchPlan } = await buildPlan(samplePaths, targetFolder, mode);
+  if (plan.storageError) {
+    throw new Error(plan.storageError);
+  }
+
+  const done: SampleTransferItem[] = [];
+  try {
+    for (const item of plan.items) {
+      if (mode === 'move') {
+        await fs.rename(item.sourcePath, item.targetPath);
+      } else {
+        await fs.copyFile(item.sourcePath, item.targetPath);
+      }
+      done.push(item);
+    }
+    await applyPresetPatchPlan(patchPlan);
+  } catch (error) {
+    for (const item of done.reverse()) {
+      try {
+        if (mode === 'move') {
+          await fs.rename(item.targetPath, item.sourcePath);
+        } else {
+          await fs.unlink(item.targetPath);
+        }
+      } catch {
+        // Ignore restore failure
+      }
+    }
+    throw error;
+  }
+
+  return plan;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import { findSampleUsages, findSamplesOnlyUsedByProject } from './sampleUsage';
+import { PRESET_LAYOUT } from './presetParser';
+import { createPreset } from '../../test/helpers';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+describe('sampleUsage', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe('findSampleUsages', () => {
+    it('should find every preset sound on the card that loads a Wavs sample', async () => {
+      vol.fromJSON({
+        '/card/Wavs/pad.wav': 'pad',
+        '/card/Project01/pad.wav': 'project pad',
+        '/card/Project01/Preset01.mgp': createPreset([
+          ['pad.wav', 'PROJECT'],
+          ['pad.wav', 'WAVS'],
+        ]),
+        '/card/Project01/Autosave.mgp': createPreset([['pad.wav', 'WAVS']]),
+        '/card/Project17/Preset05.mgp': createPreset([
+          ['kick.wav', 'WAVS'],
+          ['kick.wav', 'WAVS'],
+          ['pad.wav', 'WAVS'],
+        ]),
+      });
+
+      const usages = await findSampleUsages(['/card/Wavs/pad.wav']);
+
+      expect(usages.map((u) => `${u.projectName}/${u.presetName}:${u.soundNumber}`)).toEqual([
+        'Project01/Autosave:1',
+        'Project01/Preset01:2',
+        'Project17/Preset05:3',
+      ]);
+      expect(usages.every((u) => u.samplePath === '/card/Wavs/pad.wav')).toBe(true);
+    });
+
+    it('should resolve presets with an undecoded folder byte by search order', async () => {
+      const legacy = Buffer.alloc(PRESET_LAYOUT.FILE_SIZE);
+      legacy.write('hit.wav', 0, 'ascii');
+      vol.fromJSON({
+        '/card/Recs/hit.wav': 'recorded',
+        '/card/Project02/Preset01.mgp': legacy,
+      });
+
+      const usages = await findSampleUsages(['/card/Recs/hit.wav']);
+
+      expect(usages).toEqual([
+        {
+          samplePath: '/card/Recs/hit.wav',
+          presetPath: '/card/Project02/Preset01.mgp',
+          presetName: 'Preset01',
+          projectName: 'Project02',
+          soundNumber: 1,
+        },
+      ]);
+    });
+
+    it('should count a sample found outside the stored folder as used', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'kick',
+        '/card/Project01/Preset01.mgp': createPreset([['kick.wav', 'WAVS']]),
+      });
+
+      const usages = await findSampleUsages(['/card/Project01/kick.wav']);
+
+      expect(usages.map((u) => `${u.presetName}:${u.soundNumber}`)).toEqual(['Preset01:1']);
+    });
+
+    it('should prefer the stored folder when the name exists in several folders', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'project kick',
+        '/card/Wavs/kick.wav': 'wavs kick',
+        '/card/Project01/Preset01.mgp': createPreset([['kick.wav', 'WAVS']]),
+      });
+
+      expect(await findSampleUsages(['/card/Project01/kick.wav'])).toEqual([]);
+      expect(await findSampleUsages(['/card/Wavs/kick.wav'])).toHaveLength(1);
+    });
+
+    it('should not report presets of other projects for a project sample', async () => {
+      vol.fromJSON({
+        '/card/Project01/kick.wav': 'kick',
+        '/card/Project02/Preset01.mgp': createPreset([['kick.wav', 'PROJECT']]),
+      });
+
+      expect(await findSampleUsages(['/card/Project01/kick.wav'])).toEqual([]);
+    });
+  });
+
+  describe('findSamplesOnlyUsedByProject', () => {
+    it('should list Wavs and Recs samples no other project uses', async () => {
+      vol.fromJSON({
+        '/card/Wavs/shared.wav': 'a',
+        '/card/Wavs/only.wav': 'b',
+        '/card/Recs/take.wav': 'c',
+        '/card/Project01/local.wav': 'd',
+        '/card/Project01/Preset01.mgp': createPreset([
+          ['shared.wav', 'WAVS'],
+          ['only.wav', 'WAVS'],
+          ['take.wav', 'RECS'],
+          ['local.wav', 'PROJECT'],
+        ]),
+        '/card/Project02/Preset01.mgp': createPreset([['shared.wav', 'WAVS']]),
+      });
+
+      const usages = await findSamplesOnlyUsedByProject('/card/Project01');
+
+      expect(usages.map((u) => u.samplePath)).toEqual([
+        '/card/Recs/take.wav',
+        '/card/Wavs/only.wav',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Card-wide reverse index from sample files to the preset sounds that load them.
+ * Samples in Wavs and Recs can be loaded by presets in every project, so the
+ * whole card is scanned before a sample or project is deleted.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { SampleUsage } from '@shared/types';
+import { FOLDER_NAMES } from '@shared/constants';
+import { findPresetsForSampleFolder } from './presetReferences';
+import { readPresetSounds } from './presetRepair';
+import { createWavNameCache, resolvePresetSampleFile } from './sampleFolders';
+
+/**
+ * Map every sample file on the card to the preset sounds that load it.
+ * References to files that do not exist are left out; they are already broken.
+ */
+export async function buildSampleUsageIndex(rootPath: string): Promise<Map<string, SampleUsage[]>> {
+  const index = new Map<string, SampleUsage[]>();
+  const listWavs = createWavNameCache();
+
+  // Every preset on the card can load from Wavs
+  for (const presetPath of await findPresetsForSampleFolder(
+    path.join(rootPath, FOLDER_NAMES.WAVS)
+  )) {
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(presetPath);
+    } catch {
+      // Skip unreadable preset files
+      continue;
+    }
+
+    for (const sound of readPresetSounds(buffer)) {
+      // Same resolution as the Preset Viewer: the folder byte is unconfirmed, so a
+      // file found in another folder is a moved reference and still counts as used
+      const { samplePath } = await resolvePresetSampleFile(
+        presetPath,
+        sound.name,
+        sound.folder,
+        listWavs
+      );
+      if (!samplePath) continue;
+
+      const usages = index.get(samplePath) ?? [];
+      usages.push({
+        samplePath,
+        presetPath,
+        presetName: path.basename(presetPath, path.extname(presetPath)),
+        projectName: path.basename(path.dirname(presetPath)),
+        soundNumber: sound.soundNumber,
+      });
+      index.set(samplePath, usages);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Every preset sound that would lose its sample if these files were deleted
+ */
+export async function findSampleUsages(samplePaths: string[]): Promise<SampleUsage[]> {
+  const byRoot = new Map<string, string[]>();
+  for (const samplePath of samplePaths) {
+    const rootPath = path.dirname(path.dirname(samplePath));
+    byRoot.set(rootPath, [...(byRoot.get(rootPath) ?? []), path.normalize(samplePath)]);
+  }
+
+  const usages: SampleUsage[] = [];
+  for (const [rootPath, paths] of byRoot) {
+    const index = await buildSampleUsageIndex(rootPath);
+    for (const samplePath of paths) {
+      usages.push(...(index.get(samplePath) ?? []));
+    }
+  }
+  return usages;
+}
+
+/**
+ * Wavs and Recs samples that only presets in this project load. They become
+ * unused once the project is deleted.
+ */
+export async function findSamplesOnlyUsedByProject(projectPath: string): Promise<SampleUsage[]> {
+  const rootPath = path.dirname(projectPath);
+  const sharedFolders = [FOLDER_NAMES.WAVS, FOLDER_NAMES.RECS].map((name) =>
+    path.join(rootPath, name)
+  );
+  const index = await buildSampleUsageIndex(rootPath);
+
+  const usages: SampleUsage[] = [];
+  for (const [samplePath, sampleUsages] of index) {
+    if (!sharedFolders.includes(path.dirname(samplePath))) continue;
+    if (
+      sampleUsages.every(
+        (usage) => path.resolve(path.dirname(usage.presetPath)) === path.resolve(projectPath)
+      )
+    ) {
+      usages.push(...sampleUsages);
+    }
+  }
+  return usages.sort((a, b) => a.samplePath.localeCompare(b.samplePath));
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import {
+  decodeSettings,
+  encodeSettings,
+  writeGlobalSettings,
+  SETTINGS_LAYOUT,
+} from './settingsParser';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+/**
+ * Create a settings file with recognisable bytes outside the decoded fields
+ */
+function createSettings(): Buffer {
+  const buffer = Buffer.alloc(64, 0xaa);
+  buffer[SETTINGS_LAYOUT.LATEST_PROJECT] = 3;
+  buffer.writeUInt32LE(1234, SETTINGS_LAYOUT.SESSION_COUNT);
+  buffer.writeInt8(-6, SETTINGS_LAYOUT.INPUT_TRIM);
+  buffer[SETTINGS_LAYOUT.RESAMPLING] = 1;
+  buffer[SETTINGS_LAYOUT.NORMALIZE] = 0;
+  buffer[SETTINGS_LAYOUT.THEME] = 2;
+  buffer[SETTINGS_LAYOUT.THRESHOLD] = 40;
+  buffer[SETTINGS_LAYOUT.BLUR] = 5;
+  return buffer;
+}
+
+describe('settingsParser', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe('decodeSettings', () => {
+    it('decodes every global setting', () => {
+      const settings = decodeSettings(createSettings());
+
+      expect(settings).toMatchObject({
+        fileSize: 64,
+        latestProject: 3,
+        sessionCount: 1234,
+        inputTrim: -6,
+        resampling: 1,
+        normalize: 0,
+        theme: 2,
+        threshold: 40,
+        blur: 5,
+      });
+      expect(settings.unknownRanges.map((range) => [range.offset, range.length])).toEqual([
+        [0, 4],
+        [SETTINGS_LAYOUT.MIN_FILE_SIZE, 64 - SETTINGS_LAYOUT.MIN_FILE_SIZE],
+      ]);
+    });
+
+    it('rejects files too short for the decoded fields', () => {
+      expect(() => decodeSettings(Buffer.alloc(8))).toThrow('Invalid settings file size');
+    });
+  });
+
+  describe('encodeSettings', () => {
+    it('only changes the bytes of updated fields', () => {
+      const original = createSettings();
+      const patched = Buffer.from(original);
+
+      encodeSettings(patched, { latestProject: 17, inputTrim: 4 });
+
+      const changed = Array.from(patched.keys()).filter((i) => patched[i] !== original[i]);
+      expect(changed).toEqual([SETTINGS_LAYOUT.LATEST_PROJECT, SETTINGS_LAYOUT.INPUT_TRIM]);
+      expect(decodeSettings(patched)).toMatchObject({ latestProject: 17, inputTrim: 4 });
+    });
+
+    it('rejects out of range values without writing anything', () => {
+      const buffer = createSettings();
+      const original = Buffer.from(buffer);
+
+      expect(() => encodeSettings(buffer, { theme: 1, latestProject: 49 })).toThrow(
+        'Latest project must be a whole number between 1 and 48'
+      );
+      expect(buffer).toEqual(original);
+    });
+  });
+
+  describe('writeGlobalSettings', () => {
+    it('backs up the original before writing', async () => {
+      vol.fromJSON({ '/card/Multigrain/Settings.mgs': createSettings() });
+
+      const result = await writeGlobalSettings(
+        '/card/Multigrain/Settings.mgs',
+        { latestProject: 8 },
+        '/backups'
+      );
+
+      expect(result.settings.latestProject).toBe(8);
+      expect(result.backupPath).toMatch(/^\/backups\/Settings-.*\.mgs$/);
+      expect(await vol.promises.readFile(result.backupPath as string)).toEqual(createSettings());
+      const written = (await vol.promises.readFile('/card/Multigrain/Settings.mgs')) as Buffer;
+      expect(decodeSettings(written).latestProject).toBe(8);
+    });
+
+    it('leaves the file alone when nothing changes', async () => {
+      vol.fromJSON({ '/card/Multigrain/Settings.mgs': createSettings() });
+
+      const result = await writeGlobalSettings(
+        '/card/Multigrain/Settings.mgs',
+        { latestProject: 3 },
+        '/backups'
+      );
+
+      expect(result.backupPath).toBeNull();
+      expect(vol.existsSync('/backups')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Decode and edit the global Settings.mgs file. Only the bytes of decoded
+ * fields are ever written; everything else is kept exactly as stored.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { GlobalSettings, GlobalSettingsUpdate } from '@shared/types';
+import { STORAGE_LIMITS } from '@shared/constants';
+import { collectUnknownRanges } from './presetParser';
+
+export const SETTINGS_BACKUP_FOLDER = 'settings-backups';
+
+/**
+ * Byte layout of Settings.mgs. See docs/MGP_RESEARCH.md for how confident we
+ * are in each field.
+ */
+export const SETTINGS_LAYOUT = {
+  LATEST_PROJECT: 0x04,
+  SESSION_COUNT: 0x05, // uint32 LE
+  INPUT_TRIM: 0x09, // int8
+  RESAMPLING: 0x0a,
+  NORMALIZE: 0x0b,
+  THEME: 0x0c,
+  THRESHOLD: 0x0d,
+  BLUR: 0x0e,
+  // Shortest file that holds every decoded field
+  MIN_FILE_SIZE: 0x0f,
+} as const;
+
+type ByteField = 'resampling' | 'normalize' | 'theme' | 'threshold' | 'blur';
+
+const BYTE_FIELDS: Record<ByteField, number> = {
+  resampling: SETTINGS_LAYOUT.RESAMPLING,
+  normalize: SETTINGS_LAYOUT.NORMALIZE,
+  theme: SETTINGS_LAYOUT.THEME,
+  threshold: SETTINGS_LAYOUT.THRESHOLD,
+  blur: SETTINGS_LAYOUT.BLUR,
+};
+
+function checkSize(buffer: Buffer): void {
+  if (buffer.length < SETTINGS_LAYOUT.MIN_FILE_SIZE) {
+    throw new Error(
+      `Invalid settings file size: ${buffer.length} bytes (expected at least ${SETTINGS_LAYOUT.MIN_FILE_SIZE})`
+    );
+  }
+}
+
+function checkRange(label: string, value: number, min: number, max: number): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${label} must be a whole number between ${min} and ${max}`);
+  }
+}
+
+/**
+ * Decode a Settings.mgs buffer into typed settings.
+ * Throws if the buffer is too short to hold the decoded fields.
+ */
+export function decodeSettings(buffer: Buffer): GlobalSettings {
+  checkSize(buffer);
+
+  const known = new Uint8Array(buffer.length);
+  known.fill(1, SETTINGS_LAYOUT.LATEST_PROJECT, SETTINGS_LAYOUT.MIN_FILE_SIZE);
+
+  return {
+    fileSize: buffer.length,
+    latestProject: buffer[SETTINGS_LAYOUT.LATEST_PROJECT],
+    sessionCount: buffer.readUInt32LE(SETTINGS_LAYOUT.SESSION_COUNT),
+    inputTrim: buffer.readInt8(SETTINGS_LAYOUT.INPUT_TRIM),
+    resampling: buffer[SETTINGS_LAYOUT.RESAMPLING],
+    normalize: buffer[SETTINGS_LAYOUT.NORMALIZE],
+    theme: buffer[SETTINGS_LAYOUT.THEME],
+    threshold: buffer[SETTINGS_LAYOUT.THRESHOLD],
+    blur: buffer[SETTINGS_LAYOUT.BLUR],
+    unknownRanges: collectUnknownRanges(buffer, known),
+  };
+}
+
+/**
+ * Write changed settings into a buffer in place. Every value is checked
+ * before anything is written, so an invalid update leaves the buffer as is.
+ */
+export function encodeSettings(buffer: Buffer, updates: GlobalSettingsUpdate): void {
+  checkSize(buffer);
+
+  if (updates.latestProject !== undefined) {
+    checkRange('Latest project', updates.latestProject, 1, STORAGE_LIMITS.MAX_PROJECTS);
+  }
+  if (updates.inputTrim !== undefined) {
+    checkRange('Input trim', updates.inputTrim, -128, 127);
+  }
+  for (const field of Object.keys(BYTE_FIELDS) as ByteField[]) {
+    const value = updates[field];
+    if (value !== undefined) checkRange(field, value, 0, 255);
+  }
+
+  if (updates.latestProject !== undefined) {
+    buffer[SETTINGS_LAYOUT.LATEST_PROJECT] = updates.latestProject;
+  }
+  if (updates.inputTrim !== undefined) {
+    buffer.writeInt8(updates.inputTrim, SETTINGS_LAYOUT.INPUT_TRIM);
+  }
+  for (const field of Object.keys(BYTE_FIELDS) as ByteField[]) {
+    const value = updates[field];
+    if (value !== undefined) buffer[BYTE_FIELDS[field]] = value;
+  }
+}
+
+/**
+ * Read and decode a Settings.mgs file
+ */
+export async function readGlobalSettings(settingsPath: string): Promise<GlobalSettings> {
+  const buffer = await fs.readFile(settingsPath);
+  return decodeSettings(buffer);
+}
+
+/**
+ * Apply setting changes to a Settings.mgs file. An exact copy of the original
+ * is saved to the backup folder first. Returns the decoded result and the
+ * backup path, or null when nothing changed.
+ */
+export async function writeGlobalSettings(
+  settingsPath: string,
+  updates: GlobalSettingsUpdate,
+  backupDir: string
+): Promise<{ settings: GlobalSettings; backupPath: string | null }> {
+  const original = await fs.readFile(settingsPath);
+  const patched = Buffer.from(original);
+  encodeSettings(patched, updates);
+
+  if (patched.equals(original)) {
+    return { settings: decodeSettings(original), backupPath: null };
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = path.join(backupDir, `Settings-${timestamp}.mgs`);
+  await fs.mkdir(backupDir, { recursive: true });
+  await fs.writeFile(backupPath, original);
+
+  await fs.writeFile(settingsPath, patched);
+
+  return { settings: decodeSettings(patched), backupPath };
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import {
+  emptyTrash,
+  listTrash,
+  moveToTrash,
+  restoreFromTrash,
+  TrashStores,
+  writeTrashLocation,
+} from './trash';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+vi.mock('fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+const stores: TrashStores = { cardRoot: '/card', userDataDir: '/userData' };
+const KICK = '/card/Wavs/kick.wav';
+const PROJECT = '/card/Project01';
+
+const exists = (filePath: string) => vol.existsSync(filePath);
+
+describe('trash', () => {
+  beforeEach(() => {
+    vol.reset();
+    vol.fromJSON({
+      [KICK]: 'kick',
+      [`${PROJECT}/Preset01.mgp`]: 'preset',
+      [`${PROJECT}/snare.wav`]: 'snare',
+    });
+  });
+
+  describe('moveToTrash', () => {
+    it('should move items into the hidden folder on the card and list them', async () => {
+      await moveToTrash(stores, KICK, 'sample');
+      await moveToTrash(stores, PROJECT, 'project');
+
+      expect(exists(KICK)).toBe(false);
+      expect(exists(PROJECT)).toBe(false);
+
+      const items = await listTrash(stores);
+      expect(items.map((item) => [item.kind, item.originalPath, item.location])).toEqual(
+        expect.arrayContaining([
+          ['sample', 'Wavs/kick.wav', 'card'],
+          ['project', 'Project01', 'card'],
+        ])
+      );
+      expect(items.find((item) => item.kind === 'project')?.size).toBe(11);
+      expect(exists('/card/.multigrain-trash/manifest.json')).toBe(true);
+    });
+
+    it('should use the trash on this computer when chosen', async () => {
+      await writeTrashLocation(stores.userDataDir, 'local');
+      const item = await moveToTrash(stores, KICK, 'sample');
+
+      expect(item.location).toBe('local');
+      expect(exists(`/userData/trash/${item.id}/kick.wav`)).toBe(true);
+      expect(exists('/card/.multigrain-trash')).toBe(false);
+    });
+
+    it('should only list and restore local items of the open card', async () => {
+      await writeTrashLocation(stores.userDataDir, 'local');
+      const item = await moveToTrash(stores, KICK, 'sample');
+      const otherCard: TrashStores = { cardRoot: '/other', userDataDir: '/userData' };
+
+      expect(await listTrash(otherCard)).toEqual([]);
+      const result = await restoreFromTrash(otherCard, [item.id], 'replace');
+      expect(result.restored).toEqual([]);
+      expect(exists('/other/Wavs/kick.wav')).toBe(false);
+      expect(await emptyTrash(otherCard)).toBe(0);
+
+      expect((await listTrash(stores)).map((i) => i.id)).toEqual([item.id]);
+    });
+  });
+
+  describe('restoreFromTrash', () => {
+    it('should put items back where they were', async () => {
+      const sample = await moveToTrash(stores, KICK, 'sample');
+      const project = await moveToTrash(stores, PROJECT, 'project');
+
+      const result = await restoreFromTrash(stores, [sample.id, project.id], 'keepBoth');
+
+      expect(result.failed).toEqual([]);
+      expect(vol.readFileSync(KICK, 'utf-8')).toBe('kick');
+      expect(vol.readFileSync(`${PROJECT}/snare.wav`, 'utf-8')).toBe('snare');
+      expect(await listTrash(stores)).toEqual([]);
+    });
+
+    it('should flag and handle items whose path is in use', async () => {
+      const sample = await moveToTrash(stores, KICK, 'sample');
+      vol.writeFileSync(KICK, 'new kick');
+
+      expect((await listTrash(stores))[0].conflict).toBe(true);
+
+      // Skip leaves it in the trash
+      let result = await restoreFromTrash(stores, [sample.id], 'skip');
+      expect(result.skipped).toEqual([sample.id]);
+      expect(await listTrash(stores)).toHaveLength(1);
+
+      // Keep both restores it under a free name
+      result = await restoreFromTrash(stores, [sample.id], 'keepBoth');
+      expect(result.restored).toEqual([{ id: sample.id, path: '/card/Wavs/kick_1.wav' }]);
+      expect(vol.readFileSync(KICK, 'utf-8')).toBe('new kick');
+    });
+
+    it('should trash the item in the way when replacing', async () => {
+      const sample = await moveToTrash(stores, KICK, 'sample');
+      vol.writeFileSync(KICK, 'new kick');
+
+      const result = await restoreFromTrash(stores, [sample.id], 'replace');
+
+      expect(vol.readFileSync(KICK, 'utf-8')).toBe('kick');
+      const items = await listTrash(stores);
+      expect(items).toHaveLength(1);
+      expect(items[0].id).not.toBe(sample.id);
+      expect(items[0].conflict).toBe(true);
+      expect(result.restored).toEqual([
+        { id: sample.id, path: KICK, replaced: expect.objectContaining({ id: items[0].id }) },
+      ]);
+    });
+
+    it('should not keep both copies of a project', async () => {
+      const project = await moveToTrash(stores, PROJECT, 'project');
+      vol.mkdirSync(PROJECT);
+
+      const result = await restoreFromTrash(stores, [project.id], 'keepBoth');
+
+      expect(result.failed).toEqual([
+        { id: project.id, error: 'Project01 is in use, restore it with Replace' },
+      ]);
+      expect(await listTrash(stores)).toHaveLength(1);
+    });
+  });
+
+  describe('emptyTrash', () => {
+    it('should delete the given items, and the folder on the card when empty', async () => {
+      const sample = await moveToTrash(stores, KICK, 'sample');
+      await moveToTrash(stores, PROJECT, 'project');
+
+      expect(await emptyTrash(stores, [sample.id])).toBe(1);
+      expect((await listTrash(stores)).map((item) => item.kind)).toEqual(['project']);
+
+      expect(await emptyTrash(stores)).toBe(1);
+      expect(exists('/card/.multigrain-trash')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Trash for deleted samples and projects. Items are moved into a hidden
+ * folder on the card, or into the app's data folder on this computer, next
+ * to a manifest recording where each came from so it can be put back.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { TrashConflictMode, TrashItem, TrashLocation, TrashRestoreResult } from '@shared/types';
+import { FOLDER_NAMES } from '@shared/constants';
+import { resolveConflict } from './fileConflictResolver';
+
+export const TRASH_MANIFEST_FILENAME = 'manifest.json';
+
+// Trash on this computer, inside userData. It is shared by every card, so
+// each item records the card it came from and is only shown for that card.
+export const LOCAL_TRASH_FOLDER = 'trash';
+
+const TRASH_SETTINGS_FILENAME = 'trash-settings.json';
+
+const TRASH_LOCATIONS: TrashLocation[] = ['card', 'local'];
+
+type StoredTrashItem = Omit<TrashItem, 'location' | 'conflict'> & {
+  cardRoot: string; // Absolute root of the card the item was deleted from
+};
+
+// The card the items belong to and the app's data folder
+export interface TrashStores {
+  cardRoot: string;
+  userDataDir: string;
+}
+
+const getTrashDir = (stores: TrashStores, location: TrashLocation) =>
+  location === 'card'
+    ? path.join(stores.cardRoot, FOLDER_NAMES.TRASH)
+    : path.join(stores.userDataDir, LOCAL_TRASH_FOLDER);
+
+// The card's own trash only holds its items; the local trash holds every card's
+const isFromCard = (item: StoredTrashItem, stores: TrashStores, location: TrashLocation) =>
+  location === 'card' || item.cardRoot === path.resolve(stores.cardRoot);
+
+const toTrashItem = (
+  { cardRoot: _cardRoot, ...item }: StoredTrashItem,
+  location: TrashLocation,
+  conflict: boolean
+): TrashItem => ({ ...item, location, conflict });
+
+const exists = (filePath: string) =>
+  fs.access(filePath).then(
+    () => true,
+    () => false
+  );
+
+let idCounter = 0;
+const createId = () => `${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+/**
+ * Where deleted items go. Defaults to the card.
+ */
+export async function readTrashLocation(userDataDir: string): Promise<TrashLocation> {
+  try {
+    const data = await fs.readFile(path.join(userDataDir, TRASH_SETTINGS_FILENAME), 'utf-8');
+    return JSON.parse(data).location === 'local' ? 'local' : 'card';
+  } catch {
+    return 'card';
+  }
+}
+
+export async function writeTrashLocation(
+  userDataDir: string,
+  location: TrashLocation
+): Promise<void> {
+  await fs.mkdir(userDataDir, { recursive: true });
+  await fs.writeFile(
+    path.join(userDataDir, TRASH_SETTINGS_FILENAME),
+    JSON.stringify({ location }, null, 2),
+    'utf-8'
+  );
+}
+
+async function readManifest(trashDir: string): Promise<StoredTrashItem[]> {
+  try {
+    const data = await fs.readFile(path.join(trashDir, TRASH_MANIFEST_FILENAME), 'utf-8');
+    const items = JSON.parse(data);
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeManifest(trashDir: string, items: StoredTrashItem[]): Promise<void> {
+  await fs.mkdir(trashDir, { recursive: true });
+  await fs.writeFile(
+    path.join(trashDir, TRASH_MANIFEST_FILENAME),
+    JSON.stringify(items, null, 2),
+    'utf-8'
+  );
+}
+
+// Rename, or copy and remove when the target is on another drive
+async function moveEntry(source: string, target: string): Promise<void> {
+  try {
+    await fs.rename(source, target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    await fs.cp(source, target, { recursive: true });
+    await fs.rm(source, { recursive: true, force: true });
+  }
+}
+
+async function measureSize(itemPath: string): Promise<number> {
+  const stats = await fs.stat(itemPath);
+  if (!stats.isDirectory()) return stats.size;
+
+  let size = 0;
+  for (const name of await fs.readdir(itemPath)) {
+    size += await measureSize(path.join(itemPath, name));
+  }
+  return size;
+}
+
+/**
+ * Move a sample or project folder into the trash chosen in the settings
+ */
+export async function moveToTrash(
+  stores: TrashStores,
+  itemPath: string,
+  kind: TrashItem['kind']
+): Promise<TrashItem> {
+  const location = await readTrashLocation(stores.userDataDir);
+  const trashDir = getTrashDir(stores, location);
+  const item: StoredTrashItem = {
+    id: createId(),
+    kind,
+    name: path.basename(itemPath),
+    originalPath: path.relative(stores.cardRoot, itemPath).split(path.sep).join('/'),
+    cardRoot: path.resolve(stores.cardRoot),
+    trashedAt: new Date().toISOString(),
+    size: await measureSize(itemPath),
+  };
+
+  const itemDir = path.join(trashDir, item.id);
+  const trashedPath = path.join(itemDir, item.name);
+  await fs.mkdir(itemDir, { recursive: true });
+  try {
+    await moveEntry(itemPath, trashedPath);
+  } catch (error) {
+    await fs.rm(itemDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  // Put the item back if it cannot be recorded, it could never be restored
+  try {
+    await writeManifest(trashDir, [...(await readManifest(trashDir)), item]);
+  } catch (error) {
+    await moveEntry(trashedPath, itemPath);
+    await fs.rm(itemDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  return toTrashItem(item, location, false);
+}
+
+/**
+ * Items in the card's trash and its items in the trash on this computer, newest first
+ */
+export async function listTrash(stores: TrashStores): Promise<TrashItem[]> {
+  const items: TrashItem[] = [];
+  for (const location of TRASH_LOCATIONS) {
+    const trashDir = getTrashDir(stores, location);
+    for (const item of await readManifest(trashDir)) {
+      if (!isFromCard(item, stores, location)) continue;
+      // Skip entries whose files were removed outside the app
+      if (!(await exists(path.join(trashDir, item.id, item.name)))) continue;
+      items.push(
+        toTrashItem(item, location, await exists(path.join(stores.cardRoot, item.originalPath)))
+      );
+    }
+  }
+  return items.sort((a, b) => b.trashedAt.localeCompare(a.trashedAt));
+}
+
+/**
+ * Move items back to their original paths on the card. An item in the way is
+ * skipped, kept next to the restored one under a free name, or moved to the
+ * trash itself, depending on the conflict mode.
+ */
+export async function restoreFromTrash(
+  stores: TrashStores,
+  ids: string[],
+  mode: TrashConflictMode
+): Promise<TrashRestoreResult> {
+  const result: TrashRestoreResult = { restored: [], skipped: [], failed: [] };
+
+  for (const location of TRASH_LOCATIONS) {
+    const trashDir = getTrashDir(stores, location);
+    const restoredIds = new Set<string>();
+
+    for (const item of await readManifest(trashDir)) {
+      if (!ids.includes(item.id) || !isFromCard(item, stores, location)) continue;
+
+      let targetPath = path.join(stores.cardRoot, item.originalPath);
+      let replaced: TrashItem | undefined;
+      try {
+        if (await exists(targetPath)) {
+          if (mode === 'skip') {
+            result.skipped.push(item.id);
+            continue;
+          }
+          if (mode === 'replace') {
+            replaced = await moveToTrash(stores, targetPath, item.kind);
+          } else if (item.kind === 'project') {
+            throw new Error(`${item.name} is in use, restore it with Replace`);
+          } else {
+            const folder = path.dirname(targetPath);
+            targetPath = path.join(folder, await resolveConflict(folder, item.name));
+          }
+        }
+
+        await fs.mkdir(path.dirname(targetPath), { recursive: true });
+        await moveEntry(path.join(trashDir, item.id, item.name), targetPath);
+        await fs.rm(path.join(trashDir, item.id), { recursive: true, force: true });
+        restoredIds.add(item.id);
+        result.restored.push(
+          replaced ? { id: item.id, path: targetPath, replaced } : { id: item.id, path: targetPath }
+        );
+      } catch (error) {
+        result.failed.push({
+          id: item.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // Re-read, replacing an item may have added one to this manifest
+    if (restoredIds.size > 0) {
+      const remaining = (await readManifest(trashDir)).filter((item) => !restoredIds.has(item.id));
+      await writeManifest(trashDir, remaining);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Delete trashed items for good, all of the card's items when no ids are given.
+ * Returns how many items were deleted.
+ */
+export async function emptyTrash(stores: TrashStores, ids?: string[]): Promise<number> {
+  let deleted = 0;
+  for (const location of TRASH_LOCATIONS) {
+    const trashDir = getTrashDir(stores, location);
+    const items = await readManifest(trashDir);
+    const remaining: StoredTrashItem[] = [];
+    for (const item of items) {
+      if ((ids && !ids.includes(item.id)) || !isFromCard(item, stores, location)) {
+        remaining.push(item);
+        continue;
+      }
+      await fs.rm(path.join(trashDir, item.id), { recursive: true, force: true });
+      deleted++;
+    }
+
+    if (remaining.length === 0 && location === 'card') {
+      // Leave nothing behind on the card
+      await fs.rm(trashDir, { recursive: true, force: true });
+    } else if (remaining.length !== items.length) {
+      await writeManifest(trashDir, remaining);
+    }
+  }
+  return deleted;
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import { parseFile } from 'music-metadata';
+import { archiveSamples, findUnusedSamples, ARCHIVE_MANIFEST_FILE } from './unusedSamples';
+import { startJournalEntry, undoLastChange } from './operationJournal';
+import { listTrash, TrashStores } from './trash';
+import {
+  createPreset,
+  createMockStructure,
+  createMockProject,
+  createMockSample,
+  createMockPreset,
+} from '../../test/helpers';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+vi.mock('fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+// Every sample is two seconds long, only pad.wav has a description
+vi.mock('music-metadata', () => ({
+  parseFile: vi.fn(async (filePath: string) => ({
+    common: filePath.endsWith('pad.wav') ? { comment: ['Warm pad'] } : {},
+    native: {},
+    format: { duration: 2 },
+  })),
+}));
+
+const stores: TrashStores = { cardRoot: '/card', userDataDir: '/userData' };
+
+const archive = async (samplePaths: string[], archiveDir: string) => {
+  const journal = startJournalEntry(stores, 'Archive samples');
+  try {
+    return await archiveSamples(samplePaths, archiveDir, stores, journal);
+  } finally {
+    await journal.commit();
+  }
+};
+
+const sample = (folder: string, name: string, size = 1024) =>
+  createMockSample({ name, path: `/card/${folder}/${name}`, size });
+
+describe('unusedSamples', () => {
+  beforeEach(() => {
+    vol.reset();
+    vi.mocked(parseFile).mockClear();
+  });
+
+  describe('findUnusedSamples', () => {
+    it('should list samples no preset or Autosave loads, per folder', async () => {
+      vol.fromJSON({
+        '/card/Project01/Preset01.mgp': createPreset([
+          ['kick.wav', 'PROJECT'],
+          ['pad.wav', 'WAVS'],
+        ]),
+        '/card/Project01/Autosave.mgp': createPreset([['snare.wav', 'PROJECT']]),
+      });
+      const structure = createMockStructure({
+        rootPath: '/card',
+        projects: [
+          createMockProject({
+            path: '/card/Project01',
+            samples: [
+              sample('Project01', 'kick.wav'),
+              sample('Project01', 'snare.wav'),
+              sample('Project01', 'old.wav', 2048),
+            ],
+            presets: [createMockPreset({ name: 'Preset01', path: '/card/Project01/Preset01.mgp' })],
+            hasAutosave: true,
+            autosave: createMockPreset({
+              name: 'Autosave',
+              index: 0,
+              path: '/card/Project01/Autosave.mgp',
+            }),
+          }),
+          createMockProject({
+            name: 'Project02',
+            index: 2,
+            path: '/card/Project02',
+            samples: [sample('Project02', 'kick.wav')],
+          }),
+        ],
+        globalWavs: [sample('Wavs', 'pad.wav'), sample('Wavs', 'spare pad.wav')],
+        recordings: [sample('Recs', 'take1.wav', 4096)],
+      });
+
+      const report = await findUnusedSamples(structure);
+
+      expect(report.folders.map((f) => [f.label, f.samples.map((s) => s.name)])).toEqual([
+        ['X / 1 - Project01', ['old.wav']],
+        ['X / 2 - Project02', ['kick.wav']],
+        ['Wavs', ['spare pad.wav']],
+        ['Recs', ['take1.wav']],
+      ]);
+      expect(report.folders[0]).toMatchObject({
+        folderPath: '/card/Project01',
+        sampleCount: 3,
+        limit: 128,
+        totalSize: 2048,
+        totalDuration: 2,
+      });
+      expect(report.folders[3].limit).toBe(1024);
+      expect(report.totalCount).toBe(4);
+      expect(report.totalSize).toBe(2048 + 1024 + 1024 + 4096);
+      expect(report.totalDuration).toBe(8);
+    });
+  });
+
+  describe('archiveSamples', () => {
+    it('should copy samples to the archive, record descriptions and remove them', async () => {
+      vol.fromJSON({
+        '/card/Wavs/pad.wav': 'pad',
+        '/card/Project01/pad.wav': 'project pad',
+        '/archive/Wavs/pad.wav': 'archived earlier',
+        [`/archive/${ARCHIVE_MANIFEST_FILE}`]: JSON.stringify([
+          { originalPath: 'Wavs/pad.wav', archivedPath: 'Wavs/pad.wav', archivedAt: 'x' },
+        ]),
+      });
+
+      const result = await archive(['/card/Wavs/pad.wav', '/card/Project01/pad.wav'], '/archive');
+
+      expect(result.archived.map((a) => a.targetPath)).toEqual([
+        '/archive/Wavs/pad_1.wav',
+        '/archive/Project01/pad.wav',
+      ]);
+      expect(vol.readFileSync('/archive/Wavs/pad_1.wav', 'utf-8')).toBe('pad');
+      expect(vol.existsSync('/card/Wavs/pad.wav')).toBe(false);
+      expect(vol.existsSync('/card/Project01/pad.wav')).toBe(false);
+
+      const manifest = JSON.parse(vol.readFileSync(result.manifestPath, 'utf-8') as string);
+      expect(manifest).toHaveLength(3);
+      expect(manifest[1]).toMatchObject({
+        originalPath: 'Wavs/pad.wav',
+        archivedPath: 'Wavs/pad_1.wav',
+        description: 'Warm pad',
+      });
+    });
+
+    it('should leave the card untouched when a copy fails', async () => {
+      vol.fromJSON({
+        '/card/Wavs/a.wav': 'a',
+        '/archive/.keep': '',
+      });
+
+      await expect(
+        archive(['/card/Wavs/a.wav', '/card/Wavs/missing.wav'], '/archive')
+      ).rejects.toThrow();
+
+      expect(vol.existsSync('/card/Wavs/a.wav')).toBe(true);
+      expect(vol.existsSync('/archive/Wavs/a.wav')).toBe(false);
+      expect(vol.existsSync(`/archive/${ARCHIVE_MANIFEST_FILE}`)).toBe(false);
+    });
+
+    it('should move archived samples to the trash so they come back on undo', async () => {
+      vol.fromJSON({
+        '/card/Wavs/pad.wav': 'pad',
+        '/archive/.keep': '',
+      });
+
+      await archive(['/card/Wavs/pad.wav'], '/archive');
+
+      expect((await listTrash(stores)).map((item) => item.originalPath)).toEqual(['Wavs/pad.wav']);
+      expect(await undoLastChange(stores)).toMatchObject({ undone: true });
+      expect(vol.readFileSync('/card/Wavs/pad.wav', 'utf-8')).toBe('pad');
+      expect(vol.readFileSync('/archive/Wavs/pad.wav', 'utf-8')).toBe('pad');
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Find samples that no preset or Autosave.mgp loads, so they can be archived,
+ * moved or deleted to free slots under the folder sample limits.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { MultigainStructure, UnusedSampleFolder, UnusedSampleReport, WavFile } from '@shared/types';
+import { FOLDER_NAMES, STORAGE_LIMITS, formatProjectDisplayName } from '@shared/constants';
+import { resolvePresetSample } from '@shared/sampleResolution';
+import { readProjectPresetSamples, readSampleMetadata } from './exportDataAggregator';
+import { resolveConflict } from './fileConflictResolver';
+import { JournalRecorder } from './operationJournal';
+import { moveToTrash, TrashStores } from './trash';
+
+// Written next to archived samples, records where each file came from
+export const ARCHIVE_MANIFEST_FILE = 'archive-manifest.json';
+
+export interface ArchiveManifestEntry {
+  originalPath: string; // Relative to the card, e.g. "Project01/kick.wav"
+  archivedPath: string; // Relative to the archive folder
+  description?: string;
+  archivedAt: string; // ISO timestamp
+}
+
+/**
+ * Paths of every sample a preset sound on the card loads
+ */
+async function findUsedSamplePaths(structure: MultigainStructure): Promise<Set<string>> {
+  const used = new Set<string>();
+  for (const project of structure.projects) {
+    for (const { sampleNames, sampleFolders } of await readProjectPresetSamples(project)) {
+      sampleNames.forEach((name, index) => {
+        if (!name) return;
+        // A file found in another folder than the preset points at still counts
+        // as used; relinking the preset would load it again
+        const resolved = resolvePresetSample(name, sampleFolders[index], project, structure);
+        if (resolved.sample) used.add(resolved.sample.path);
+      });
+    }
+  }
+  return used;
+}
+
+async function buildFolder(
+  folderPath: string,
+  label: string,
+  limit: number,
+  samples: WavFile[],
+  used: Set<string>
+): Promise<UnusedSampleFolder> {
+  const unused = await Promise.all(
+    samples
+      .filter((sample) => !used.has(sample.path))
+      .map(async (sample) => {
+        const { description, duration } = await readSampleMetadata(sample.path);
+        return {
+          name: sample.name,
+          path: sample.path,
+          size: sample.size,
+          duration,
+          ...(description ? { description } : {}),
+        };
+      })
+  );
+
+  return {
+    folderPath,
+    label,
+    sampleCount: samples.length,
+    limit,
+    samples: unused,
+    totalSize: unused.reduce((sum, sample) => sum + sample.size, 0),
+    totalDuration: unused.reduce((sum, sample) => sum + sample.duration, 0),
+  };
+}
+
+/**
+ * List unused samples per project, in Wavs and in Recs
+ */
+export async function findUnusedSamples(
+  structure: MultigainStructure
+): Promise<UnusedSampleReport> {
+  const used = await findUsedSamplePaths(structure);
+
+  const folders = [
+    ...(await Promise.all(
+      structure.projects.map((project) =>
+        buildFolder(
+          project.path,
+          formatProjectDisplayName(project.index, project.name, project.customName),
+          STORAGE_LIMITS.SAMPLES_PER_PROJECT,
+          project.samples,
+          used
+        )
+      )
+    )),
+    await buildFolder(
+      path.join(structure.rootPath, FOLDER_NAMES.WAVS),
+      FOLDER_NAMES.WAVS,
+      STORAGE_LIMITS.SAMPLES_IN_WAVS,
+      structure.globalWavs,
+      used
+    ),
+    await buildFolder(
+      path.join(structure.rootPath, FOLDER_NAMES.RECS),
+      FOLDER_NAMES.RECS,
+      STORAGE_LIMITS.SAMPLES_IN_RECS,
+      structure.recordings,
+      used
+    ),
+  ].filter((folder) => folder.samples.length > 0);
+
+  return {
+    folders,
+    totalCount: folders.reduce((sum, folder) => sum + folder.samples.length, 0),
+    totalSize: folders.reduce((sum, folder) => sum + folder.totalSize, 0),
+    totalDuration: folders.reduce((sum, folder) => sum + folder.totalDuration, 0),
+  };
+}
+
+async function readManifest(manifestPath: string): Promise<ArchiveManifestEntry[]> {
+  try {
+    const entries = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remove archive copies whose sample stays on the card
+ */
+async function removeCopies(targetPaths: string[]): Promise<void> {
+  for (const targetPath of targetPaths) {
+    try {
+      await fs.unlink(targetPath);
+    } catch {
+      // Ignore cleanup failure
+    }
+  }
+}
+
+/**
+ * Copy samples into an archive folder on this computer, then move them from
+ * the card to the trash, recording each in the journal so the archive can be
+ * undone. Each sample goes into a subfolder named after its card folder, and
+ * its description is recorded in the archive manifest. If a copy fails, the
+ * copies already made are removed and the card is left untouched. If moving a
+ * sample to the trash fails, only the samples already trashed stay archived.
+ */
+export async function archiveSamples(
+  samplePaths: string[],
+  archiveDir: string,
+  trashStores: TrashStores,
+  journal: JournalRecorder
+): Promise<{ archived: Array<{ sourcePath: string; targetPath: string }>; manifestPath: string }> {
+  for (const samplePath of samplePaths) {
+    if (!samplePath.toLowerCase().endsWith('.wav')) {
+      throw new Error(`Not a .wav file: ${path.basename(samplePath)}`);
+    }
+  }
+
+  const archived: Array<{ sourcePath: string; targetPath: string }> = [];
+  const entries: ArchiveManifestEntry[] = [];
+  try {
+    for (const samplePath of samplePaths) {
+      const folderName = path.basename(path.dirname(samplePath));
+      const targetDir = path.join(archiveDir, folderName);
+      await fs.mkdir(targetDir, { recursive: true });
+      const targetName = await resolveConflict(targetDir, path.basename(samplePath));
+      const targetPath = path.join(targetDir, targetName);
+
+      await fs.copyFile(samplePath, targetPath);
+      archived.push({ sourcePath: samplePath, targetPath });
+
+      const { description } = await readSampleMetadata(samplePath);
+      entries.push({
+        originalPath: `${folderName}/${path.basename(samplePath)}`,
+        archivedPath: `${folderName}/${targetName}`,
+        ...(description ? { description } : {}),
+        archivedAt: new Date().toISOString(),
+      });
+    }
+  } catch (error) {
+    await removeCopies(archived.map((item) => item.targetPath));
+    throw error;
+  }
+
+  let trashedCount = 0;
+  let trashError: unknown = null;
+  for (const { sourcePath } of archived) {
+    try {
+      journal.trashed(sourcePath, await moveToTrash(trashStores, sourcePath, 'sample'));
+      trashedCount++;
+    } catch (error) {
+      trashError = error;
+      break;
+    }
+  }
+  await removeCopies(archived.slice(trashedCount).map((item) => item.targetPath));
+
+  const manifestPath = path.join(archiveDir, ARCHIVE_MANIFEST_FILE);
+  if (trashedCount > 0) {
+    const manifest = await readManifest(manifestPath);
+    await fs.writeFile(
+      manifestPath,
+      JSON.stringify([...manifest, ...entries.slice(0, trashedCount)], null, 2) + '\n'
+    );
+  }
+  if (trashError) throw trashError;
+
+  return { archived, manifestPath };
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { readInfoTags, writeInfoTags } from './wavInfo';
+import { createWav } from '../../test/helpers';
+
+/**
+ * Create a LIST INFO body from [id, text] subchunks
+ */
+function createInfo(tags: Array<[string, string]>): Buffer {
+  return Buffer.concat([
+    Buffer.from('INFO', 'ascii'),
+    ...tags.map(([id, text]) => {
+      const value = Buffer.from(text, 'utf8');
+      const header = Buffer.alloc(8);
+      header.write(id, 0, 'ascii');
+      header.writeUInt32LE(value.length, 4);
+      return Buffer.concat([header, value, Buffer.alloc(value.length % 2)]);
+    }),
+  ]);
+}
+
+function listChunkIds(buffer: Buffer): string[] {
+  const ids: string[] = [];
+  let position = 12;
+  while (position <= buffer.length - 8) {
+    const size = buffer.readUInt32LE(position + 4);
+    ids.push(buffer.toString('ascii', position, position + 4));
+    position += 8 + size + (size % 2);
+  }
+  return ids;
+}
+
+function listInfoIds(buffer: Buffer): string[] {
+  const ids: string[] = [];
+  const start = buffer.indexOf('INFO', 12, 'ascii');
+  const end = start + buffer.readUInt32LE(start - 4);
+  let position = start + 4;
+  while (position <= end - 8) {
+    const size = buffer.readUInt32LE(position + 4);
+    ids.push(buffer.toString('ascii', position, position + 4));
+    position += 8 + size + (size % 2);
+  }
+  return ids;
+}
+
+const FMT = Buffer.alloc(16);
+const DATA = Buffer.alloc(200);
+
+describe('wavInfo', () => {
+  describe('readInfoTags', () => {
+    it('should read every editable tag and strip null terminators', () => {
+      const wav = createWav([
+        ['fmt ', FMT],
+        ['data', DATA],
+        [
+          'LIST',
+          createInfo([
+            ['INAM', 'Kick 01\0'],
+            ['IART', 'Jöhn'],
+            ['ICMT', 'Punchy kick'],
+          ]),
+        ],
+      ]);
+
+      expect(readInfoTags(wav)).toEqual({
+        name: 'Kick 01',
+        artist: 'Jöhn',
+        keywords: '',
+        genre: '',
+        copyright: '',
+        creationDate: '',
+        software: '',
+        comment: 'Punchy kick',
+      });
+    });
+
+    it('should reject files that are not WAV', () => {
+      expect(() => readInfoTags(Buffer.from('not a wav file at all'))).toThrow(
+        'Not a valid WAV file'
+      );
+    });
+  });
+
+  describe('writeInfoTags', () => {
+    it('should keep tags it does not edit, including unknown ones', () => {
+      const wav = createWav([
+        ['fmt ', FMT],
+        [
+          'LIST',
+          createInfo([
+            ['IART', 'Someone'],
+            ['IENG', 'Engineer'],
+            ['ICMT', 'Old'],
+          ]),
+        ],
+        ['data', DATA],
+        ['cue ', Buffer.alloc(4)],
+      ]);
+
+      const result = writeInfoTags(wav, { comment: 'New', genre: 'Drums' });
+
+      expect(listChunkIds(result)).toEqual(['fmt ', 'data', 'LIST', 'cue ']);
+      expect(result.readUInt32LE(4)).toBe(result.length - 8);
+      expect(readInfoTags(result)).toMatchObject({
+        artist: 'Someone',
+        genre: 'Drums',
+        comment: 'New',
+      });
+      // Edited tags stay in place, new ones are appended
+      expect(listInfoIds(result)).toEqual(['IART', 'IENG', 'ICMT', 'IGNR']);
+    });
+
+    it('should remove emptied tags and drop the INFO chunk when none are left', () => {
+      const wav = createWav([
+        ['fmt ', FMT],
+        ['data', DATA],
+        ['LIST', createInfo([['ICMT', 'Old']])],
+      ]);
+
+      const result = writeInfoTags(wav, { comment: '' });
+
+      expect(listChunkIds(result)).toEqual(['fmt ', 'data']);
+      expect(result.readUInt32LE(4)).toBe(result.length - 8);
+    });
+
+    it('should pad an odd-sized data chunk stored without its pad byte', () => {
+      // Last chunk has an odd size and the file ends right after it
+      const wav = createWav([
+        ['fmt ', FMT],
+        ['data', Buffer.alloc(201, 1)],
+      ]).subarray(0, -1);
+      wav.writeUInt32LE(wav.length - 8, 4);
+
+      const result = writeInfoTags(wav, { name: 'Kick' });
+
+      expect(listChunkIds(result)).toEqual(['fmt ', 'data', 'LIST']);
+      expect(result[12 + 8 + 16 + 8 + 201]).toBe(0);
+      expect(readInfoTags(result).name).toBe('Kick');
+      expect(result.readUInt32LE(4)).toBe(result.length - 8);
+    });
+
+    it('should refuse to edit a file whose data chunk is cut short', () => {
+      const wav = createWav([
+        ['fmt ', FMT],
+        ['data', DATA],
+      ]);
+      wav.writeUInt32LE(10_000_000, 12 + 8 + 16 + 4);
+
+      expect(() => writeInfoTags(wav, { comment: 'Edited' })).toThrow(
+        'The data chunk is shorter than its header says'
+      );
+    });
+
+    it('should reject files without audio data', () => {
+      expect(() => writeInfoTags(createWav([['fmt ', FMT]]), { name: 'Kick' })).toThrow(
+        'No data chunk found'
+      );
+    });
+  });
+});
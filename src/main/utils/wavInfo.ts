@@ -0,0 +1,146 @@
+/**
+ * Read and write RIFF INFO tags (LIST/INFO subchunks) of WAV files.
+ * Subchunks that are not edited, including ones this app does not know,
+ * are kept byte for byte. The INFO chunk is always written after the data
+ * chunk; the Multigrain hardware requires this order.
+ */
+
+import { WavInfoTagKey, WavInfoTags } from '@shared/types';
+import { WAV_INFO_TAGS } from '@shared/constants';
+
+interface RiffChunk {
+  id: string;
+  position: number; // Of the chunk header
+  size: number; // Without header and padding
+}
+
+interface InfoSubchunk {
+  id: string;
+  value: Buffer; // As stored, without padding
+}
+
+/**
+ * Top-level chunks of a WAV file, in file order
+ */
+function listChunks(buffer: Buffer): RiffChunk[] {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a valid WAV file');
+  }
+
+  const chunks: RiffChunk[] = [];
+  let position = 12; // Start after RIFF header
+  while (position <= buffer.length - 8) {
+    const size = buffer.readUInt32LE(position + 4);
+    chunks.push({ id: buffer.toString('ascii', position, position + 4), position, size });
+    position += 8 + size + (size % 2); // Account for padding
+  }
+  return chunks;
+}
+
+function isInfoList(buffer: Buffer, chunk: RiffChunk): boolean {
+  return (
+    chunk.id === 'LIST' &&
+    buffer.toString('ascii', chunk.position + 8, chunk.position + 12) === 'INFO'
+  );
+}
+
+/**
+ * Subchunks of every INFO list in the file, in file order
+ */
+function readInfoSubchunks(buffer: Buffer, chunks: RiffChunk[]): InfoSubchunk[] {
+  const subchunks: InfoSubchunk[] = [];
+  for (const chunk of chunks.filter((c) => isInfoList(buffer, c))) {
+    const end = Math.min(chunk.position + 8 + chunk.size, buffer.length);
+    let position = chunk.position + 12;
+    while (position <= end - 8) {
+      const size = buffer.readUInt32LE(position + 4);
+      subchunks.push({
+        id: buffer.toString('ascii', position, position + 4),
+        value: buffer.subarray(position + 8, Math.min(position + 8 + size, end)),
+      });
+      position += 8 + size + (size % 2);
+    }
+  }
+  return subchunks;
+}
+
+// INFO strings are often null-terminated
+const decodeValue = (value: Buffer) => value.toString('utf8').replace(/\0+$/, '');
+
+/**
+ * Every editable tag, empty when the file does not have it
+ */
+export function readInfoTags(buffer: Buffer): WavInfoTags {
+  const subchunks = readInfoSubchunks(buffer, listChunks(buffer));
+  return Object.fromEntries(
+    WAV_INFO_TAGS.map(({ key, id }) => {
+      const subchunk = subchunks.find((s) => s.id === id);
+      return [key, subchunk ? decodeValue(subchunk.value) : ''];
+    })
+  ) as WavInfoTags;
+}
+
+function encodeSubchunk({ id, value }: InfoSubchunk): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 4, 'ascii');
+  header.writeUInt32LE(value.length, 4);
+  return Buffer.concat([header, value, Buffer.alloc(value.length % 2)]);
+}
+
+/**
+ * Set tags and return the new file contents. Tags left out of the update
+ * are kept; an empty string removes the tag. All INFO lists in the file are
+ * merged into one, placed directly after the data chunk.
+ */
+export function writeInfoTags(buffer: Buffer, updates: Partial<WavInfoTags>): Buffer {
+  const chunks = listChunks(buffer);
+  if (!chunks.some((chunk) => chunk.id === 'data')) {
+    throw new Error('No data chunk found');
+  }
+
+  const subchunks = readInfoSubchunks(buffer, chunks);
+  for (const [key, text] of Object.entries(updates) as Array<[WavInfoTagKey, string]>) {
+    const tag = WAV_INFO_TAGS.find((t) => t.key === key);
+    if (!tag) continue;
+
+    const index = subchunks.findIndex((s) => s.id === tag.id);
+    if (!text) {
+      if (index !== -1) subchunks.splice(index, 1);
+    } else if (index !== -1) {
+      subchunks[index] = { id: tag.id, value: Buffer.from(text, 'utf8') };
+    } else {
+      subchunks.push({ id: tag.id, value: Buffer.from(text, 'utf8') });
+    }
+  }
+
+  const parts: Buffer[] = [buffer.subarray(0, 12)];
+  for (const chunk of chunks) {
+    if (isInfoList(buffer, chunk)) continue;
+
+    // The last chunk may be missing its pad byte after an odd size; a zero
+    // fills it so the next chunk starts on an even offset. A chunk cut short
+    // is not filled in, that would add audio (or gigabytes) that is not there.
+    const length = 8 + chunk.size;
+    if (chunk.position + length > buffer.length) {
+      throw new Error(
+        `The ${chunk.id.trim()} chunk is shorter than its header says. Repair the file with Card Health: WAV Structure before editing its tags.`
+      );
+    }
+    const paddedLength = length + (chunk.size % 2);
+    const stored = buffer.subarray(chunk.position, chunk.position + paddedLength);
+    parts.push(stored, Buffer.alloc(paddedLength - stored.length));
+
+    if (chunk.id === 'data' && subchunks.length > 0) {
+      const body = Buffer.concat(subchunks.map(encodeSubchunk));
+      const header = Buffer.alloc(12);
+      header.write('LIST', 0, 4, 'ascii');
+      header.writeUInt32LE(4 + body.length, 4);
+      header.write('INFO', 8, 4, 'ascii');
+      parts.push(header, body);
+    }
+  }
+
+  const result = Buffer.concat(parts);
+  result.writeUInt32LE(result.length - 8, 4); // Update RIFF size
+  return result;
+}
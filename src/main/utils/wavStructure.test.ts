@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vol } from 'memfs';
+import {
+  checkWavStructure,
+  repairWavFiles,
+  repairWavStructure,
+  scanWavStructure,
+} from './wavStructure';
+import { createMockStructure, createMockSample } from '../../test/helpers';
+
+// Mock fs with memfs
+vi.mock('node:fs/promises', () => ({
+  default: vol.promises,
+  ...vol.promises,
+}));
+
+function chunk(id: string, body: Buffer, pad = true): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'ascii');
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body, Buffer.alloc(pad ? body.length % 2 : 0)]);
+}
+
+function fmt({ audioFormat = 1, blockAlign = 4, byteRate = 192000 } = {}): Buffer {
+  const body = Buffer.alloc(16);
+  body.writeUInt16LE(audioFormat, 0);
+  body.writeUInt16LE(2, 2); // Stereo
+  body.writeUInt32LE(48000, 4);
+  body.writeUInt32LE(byteRate, 8);
+  body.writeUInt16LE(blockAlign, 12);
+  body.writeUInt16LE(16, 14);
+  return chunk('fmt ', body);
+}
+
+const AUDIO = Buffer.from(Array.from({ length: 400 }, (_, i) => i % 256));
+const INFO = chunk('LIST', Buffer.from('INFOICMT\x03\x00\x00\x00Hi!\0', 'latin1'));
+
+function wav(...chunks: Buffer[]): Buffer {
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WAVE', 8, 'ascii');
+  return Buffer.concat([header, body]);
+}
+
+const codes = (buffer: Buffer) => checkWavStructure(buffer).issues.map((issue) => issue.code);
+
+describe('wavStructure', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe('checkWavStructure', () => {
+    it('should accept fmt, data, metadata order', () => {
+      expect(checkWavStructure(wav(fmt(), chunk('data', AUDIO), INFO))).toEqual({
+        chunkOrder: ['fmt ', 'data', 'LIST'],
+        issues: [],
+      });
+    });
+
+    it('should flag metadata before the data chunk', () => {
+      const result = checkWavStructure(wav(fmt(), INFO, chunk('data', AUDIO)));
+      expect(result.issues).toEqual([
+        { code: 'chunkOrder', message: 'LIST before the data chunk', repairable: true },
+      ]);
+    });
+
+    it('should flag a wrong RIFF size, missing padding and a truncated data chunk', () => {
+      const odd = chunk('JUNK', Buffer.from('abc'), false);
+      const file = wav(fmt(), odd, chunk('data', AUDIO));
+      file.writeUInt32LE(file.length + 100, 4);
+      const truncated = file.subarray(0, file.length - 100);
+      truncated.writeUInt32LE(file.length - 8, 4);
+
+      expect(codes(truncated)).toEqual(['chunkOrder', 'riffSize', 'padding', 'truncated']);
+    });
+
+    it('should flag fmt values and non-PCM audio', () => {
+      expect(codes(wav(fmt({ blockAlign: 2 }), chunk('data', AUDIO)))).toEqual(['fmt']);
+      expect(codes(wav(fmt({ audioFormat: 3 }), chunk('data', AUDIO)))).toEqual(['notPcm']);
+      expect(codes(Buffer.from('not a wav file at all'))).toEqual(['unreadable']);
+    });
+  });
+
+  describe('repairWavStructure', () => {
+    it('should reorder chunks without changing the audio bytes', () => {
+      const odd = chunk('JUNK', Buffer.from('abc'), false);
+      const broken = wav(fmt({ byteRate: 1 }), INFO, odd, chunk('data', AUDIO));
+      broken.writeUInt32LE(0, 4);
+
+      const repaired = repairWavStructure(broken);
+      const result = checkWavStructure(repaired);
+
+      expect(result).toEqual({ chunkOrder: ['fmt ', 'data', 'LIST', 'JUNK'], issues: [] });
+      expect(repaired.subarray(44, 44 + AUDIO.length).equals(AUDIO)).toBe(true);
+    });
+
+    it('should keep the whole frames of a truncated data chunk', () => {
+      const file = wav(fmt(), chunk('data', AUDIO));
+      const truncated = file.subarray(0, file.length - 7);
+
+      const repaired = repairWavStructure(truncated);
+
+      expect(checkWavStructure(repaired).issues).toEqual([]);
+      expect(repaired.readUInt32LE(40)).toBe(AUDIO.length - 8);
+    });
+  });
+
+  describe('scanWavStructure and repairWavFiles', () => {
+    it('should report only broken files and repair them in place', async () => {
+      vol.fromJSON({
+        '/card/Wavs/good.wav': wav(fmt(), chunk('data', AUDIO), INFO),
+        '/card/Wavs/info-first.wav': wav(fmt(), INFO, chunk('data', AUDIO)),
+        '/card/Recs/broken.wav': 'not audio',
+      });
+      const structure = createMockStructure({
+        rootPath: '/card',
+        projects: [],
+        globalWavs: [
+          createMockSample({ name: 'good.wav', path: '/card/Wavs/good.wav' }),
+          createMockSample({ name: 'info-first.wav', path: '/card/Wavs/info-first.wav' }),
+        ],
+        recordings: [createMockSample({ name: 'broken.wav', path: '/card/Recs/broken.wav' })],
+      });
+
+      const report = await scanWavStructure(structure);
+      expect(report.scannedCount).toBe(3);
+      expect(report.files.map((file) => [file.path, file.issues[0].code])).toEqual([
+        ['/card/Wavs/info-first.wav', 'chunkOrder'],
+        ['/card/Recs/broken.wav', 'unreadable'],
+      ]);
+
+      const result = await repairWavFiles(['/card/Wavs/info-first.wav', '/card/Recs/broken.wav']);
+      expect(result.repaired).toEqual(['/card/Wavs/info-first.wav']);
+      expect(result.failed).toEqual([
+        { path: '/card/Recs/broken.wav', error: 'Not a valid WAV file' },
+      ]);
+      expect(vol.readdirSync('/card/Wavs')).toEqual(['good.wav', 'info-first.wav']);
+      expect(
+        checkWavStructure(vol.readFileSync('/card/Wavs/info-first.wav') as Buffer).issues
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Check WAV files for RIFF structure problems the Multigrain module trips
+ * over, and rewrite them into fmt -> data -> metadata order. The audio bytes
+ * are copied as they are, never re-encoded.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  MultigainStructure,
+  WavStructureFile,
+  WavStructureIssue,
+  WavStructureRepair,
+  WavStructureReport,
+} from '@shared/types';
+import { FOLDER_NAMES, formatProjectDisplayName } from '@shared/constants';
+
+interface ParsedChunk {
+  id: string;
+  position: number; // Of the chunk header
+  size: number; // As declared in the header
+  available: number; // Bytes actually in the file, less than size if truncated
+  missingPadding: boolean;
+}
+
+interface FmtValues {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+}
+
+const WAVE_FORMAT_PCM = 1;
+
+const isRiffWave = (buffer: Buffer) =>
+  buffer.length >= 12 &&
+  buffer.toString('ascii', 0, 4) === 'RIFF' &&
+  buffer.toString('ascii', 8, 12) === 'WAVE';
+
+// A chunk header starts here: four printable ASCII characters and a size
+function isChunkHeader(buffer: Buffer, position: number): boolean {
+  if (position + 8 > buffer.length) return false;
+  for (let i = position; i < position + 4; i++) {
+    if (buffer[i] < 0x20 || buffer[i] > 0x7e) return false;
+  }
+  return true;
+}
+
+/**
+ * Top-level chunks in file order. Unlike a strict reader this copes with
+ * missing padding bytes and a truncated last chunk.
+ */
+function parseChunks(buffer: Buffer): ParsedChunk[] {
+  const chunks: ParsedChunk[] = [];
+  let position = 12; // Start after RIFF header
+  while (position <= buffer.length - 8) {
+    const id = buffer.toString('ascii', position, position + 4);
+    const size = buffer.readUInt32LE(position + 4);
+    const end = position + 8 + size;
+    if (end > buffer.length) {
+      chunks.push({
+        id,
+        position,
+        size,
+        available: buffer.length - position - 8,
+        missingPadding: false,
+      });
+      break;
+    }
+
+    // Writers that forget the padding byte put the next chunk right after
+    // this one, or end the file there
+    const missingPadding =
+      size % 2 === 1 &&
+      (end === buffer.length || (!isChunkHeader(buffer, end + 1) && isChunkHeader(buffer, end)));
+    chunks.push({ id, position, size, available: size, missingPadding });
+    position = missingPadding ? end : end + (size % 2);
+  }
+  return chunks;
+}
+
+function readFmt(buffer: Buffer, chunk: ParsedChunk): FmtValues | null {
+  if (chunk.available < 16) return null;
+  const start = chunk.position + 8;
+  return {
+    audioFormat: buffer.readUInt16LE(start),
+    channels: buffer.readUInt16LE(start + 2),
+    sampleRate: buffer.readUInt32LE(start + 4),
+    byteRate: buffer.readUInt32LE(start + 8),
+    blockAlign: buffer.readUInt16LE(start + 12),
+    bitsPerSample: buffer.readUInt16LE(start + 14),
+  };
+}
+
+// Values a player can work from; block align and byte rate follow from them
+const isPlayableFmt = (fmt: FmtValues) =>
+  fmt.channels > 0 && fmt.sampleRate > 0 && fmt.bitsPerSample > 0 && fmt.bitsPerSample % 8 === 0;
+
+/**
+ * Every structure problem in a WAV file, with the chunk IDs in file order
+ */
+export function checkWavStructure(buffer: Buffer): {
+  chunkOrder: string[];
+  issues: WavStructureIssue[];
+} {
+  if (!isRiffWave(buffer)) {
+    return {
+      chunkOrder: [],
+      issues: [{ code: 'unreadable', message: 'Not a valid WAV file', repairable: false }],
+    };
+  }
+
+  const chunks = parseChunks(buffer);
+  const chunkOrder = chunks.map((chunk) => chunk.id);
+  const issues: WavStructureIssue[] = [];
+  const fmtIndex = chunkOrder.indexOf('fmt ');
+  const dataIndex = chunkOrder.indexOf('data');
+
+  if (fmtIndex === -1 || dataIndex === -1) {
+    issues.push({
+      code: 'unreadable',
+      message: fmtIndex === -1 ? 'No fmt chunk found' : 'No data chunk found',
+      repairable: false,
+    });
+    return { chunkOrder, issues };
+  }
+
+  const beforeData = chunkOrder.slice(0, dataIndex).filter((id) => id !== 'fmt ');
+  if (beforeData.length > 0) {
+    issues.push({
+      code: 'chunkOrder',
+      message: `${beforeData.map((id) => id.trim()).join(', ')} before the data chunk`,
+      repairable: true,
+    });
+  } else if (fmtIndex > dataIndex) {
+    issues.push({ code: 'chunkOrder', message: 'fmt after the data chunk', repairable: true });
+  }
+
+  const declaredSize = buffer.readUInt32LE(4);
+  if (declaredSize !== buffer.length - 8) {
+    issues.push({
+      code: 'riffSize',
+      message: `RIFF size is ${declaredSize} bytes, the file holds ${buffer.length - 8}`,
+      repairable: true,
+    });
+  }
+
+  const unpadded = chunks.filter((chunk) => chunk.missingPadding);
+  if (unpadded.length > 0) {
+    issues.push({
+      code: 'padding',
+      message: `Padding byte missing after ${unpadded.map((chunk) => chunk.id.trim()).join(', ')}`,
+      repairable: true,
+    });
+  }
+
+  for (const chunk of chunks.filter((c) => c.available < c.size)) {
+    issues.push({
+      code: 'truncated',
+      message: `${chunk.id.trim()} chunk holds ${chunk.available} of ${chunk.size} bytes`,
+      repairable: true,
+    });
+  }
+
+  const fmt = readFmt(buffer, chunks[fmtIndex]);
+  if (!fmt || !isPlayableFmt(fmt)) {
+    issues.push({
+      code: 'fmt',
+      message: fmt
+        ? `Unplayable format: ${fmt.channels} channels, ${fmt.sampleRate} Hz, ${fmt.bitsPerSample}-bit`
+        : 'fmt chunk is too short',
+      repairable: false,
+    });
+  } else {
+    const blockAlign = fmt.channels * (fmt.bitsPerSample / 8);
+    if (fmt.blockAlign !== blockAlign || fmt.byteRate !== fmt.sampleRate * blockAlign) {
+      issues.push({
+        code: 'fmt',
+        message: `Block align ${fmt.blockAlign} and byte rate ${fmt.byteRate} do not match the format`,
+        repairable: true,
+      });
+    }
+  }
+  if (fmt && fmt.audioFormat !== WAVE_FORMAT_PCM) {
+    issues.push({
+      code: 'notPcm',
+      message: `Audio format ${fmt.audioFormat} is not PCM, convert the file by importing it again`,
+      repairable: false,
+    });
+  }
+
+  return { chunkOrder, issues };
+}
+
+function encodeChunk(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 4, 'ascii');
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+}
+
+/**
+ * Rewrite a WAV file as fmt -> data -> other chunks in their original order,
+ * with padding, sizes and derived fmt values corrected. A truncated data
+ * chunk keeps the whole frames it has; other truncated chunks are dropped.
+ */
+export function repairWavStructure(buffer: Buffer): Buffer {
+  if (!isRiffWave(buffer)) {
+    throw new Error('Not a valid WAV file');
+  }
+
+  const chunks = parseChunks(buffer);
+  const fmtChunk = chunks.find((chunk) => chunk.id === 'fmt ');
+  const dataChunk = chunks.find((chunk) => chunk.id === 'data');
+  if (!fmtChunk) throw new Error('No fmt chunk found');
+  if (!dataChunk) throw new Error('No data chunk found');
+
+  const body = (chunk: ParsedChunk) =>
+    buffer.subarray(chunk.position + 8, chunk.position + 8 + chunk.available);
+
+  const fmtBody = Buffer.from(body(fmtChunk));
+  const fmt = readFmt(buffer, fmtChunk);
+  let dataBody = body(dataChunk);
+  if (fmt && isPlayableFmt(fmt)) {
+    const blockAlign = fmt.channels * (fmt.bitsPerSample / 8);
+    fmtBody.writeUInt16LE(blockAlign, 12);
+    fmtBody.writeUInt32LE(fmt.sampleRate * blockAlign, 8);
+    if (dataChunk.available < dataChunk.size) {
+      dataBody = dataBody.subarray(0, dataBody.length - (dataBody.length % blockAlign));
+    }
+  }
+
+  const others = chunks.filter(
+    (chunk) => chunk !== fmtChunk && chunk !== dataChunk && chunk.available === chunk.size
+  );
+  const result = Buffer.concat([
+    buffer.subarray(0, 12),
+    encodeChunk('fmt ', fmtBody),
+    encodeChunk('data', dataBody),
+    ...others.map((chunk) => encodeChunk(chunk.id, body(chunk))),
+  ]);
+  result.writeUInt32LE(result.length - 8, 4); // Update RIFF size
+  return result;
+}
+
+/**
+ * Check every sample in the projects, Wavs and Recs
+ */
+export async function scanWavStructure(structure: MultigainStructure): Promise<WavStructureReport> {
+  const folders = [
+    ...structure.projects.map((project) => ({
+      folderLabel: formatProjectDisplayName(project.index, project.name, project.customName),
+      samples: project.samples,
+    })),
+    { folderLabel: FOLDER_NAMES.WAVS, samples: structure.globalWavs },
+    { folderLabel: FOLDER_NAMES.RECS, samples: structure.recordings },
+  ];
+
+  // Read one file at a time; samples can be large
+  const files: WavStructureFile[] = [];
+  let scannedCount = 0;
+  for (const { folderLabel, samples } of folders) {
+    for (const sample of samples) {
+      scannedCount++;
+      let result: ReturnType<typeof checkWavStructure>;
+      try {
+        result = checkWavStructure(await fs.readFile(sample.path));
+      } catch (error) {
+        result = {
+          chunkOrder: [],
+          issues: [
+            {
+              code: 'unreadable',
+              message: error instanceof Error ? error.message : String(error),
+              repairable: false,
+            },
+          ],
+        };
+      }
+      if (result.issues.length > 0) {
+        files.push({ name: sample.name, path: sample.path, folderLabel, ...result });
+      }
+    }
+  }
+
+  return { files, scannedCount };
+}
+
+/**
+ * Repair WAV files in place. Each file is written next to the original and
+ * renamed over it, so a failed write leaves the original untouched.
+ */
+export async function repairWavFiles(filePaths: string[]): Promise<WavStructureRepair> {
+  const repaired: string[] = [];
+  const failed: WavStructureRepair['failed'] = [];
+  for (const filePath of filePaths) {
+    const ext = path.extname(filePath);
+    const tempPath = path.join(
+      path.dirname(filePath),
+      `__repair_tmp_${path.basename(filePath, ext)}_${Date.now()}${ext}`
+    );
+    try {
+      await fs.writeFile(tempPath, repairWavStructure(await fs.readFile(filePath)));
+      await fs.rename(tempPath, filePath);
+      repaired.push(filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      failed.push({
+        path: filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return { repaired, failed };
+}
@@ -1,9 +1,15 @@
 import React, { useState } from 'react';
 import { useMultigrain } from './hooks/useMultigrain';
+import { useOperationHistory } from './hooks/useOperationHistory';
 import { FileTree } from './components/FileTree';
+import { SampleSearchPanel } from './components/SampleSearchPanel';
 import { SampleView } from './components/SampleView';
 import { PresetViewer } from './components/PresetViewer';
+import { PresetBankGrid } from './components/PresetBankGrid';
+import { GlobalSettingsPanel } from './components/GlobalSettingsPanel';
+import { PresetDiffView } from './components/PresetDiffView';
 import { ConfirmDialog } from './components/ConfirmDialog';
+import { HistoryDialog } from './components/HistoryDialog';
 import { WelcomeScreen } from './components/WelcomeScreen';
 import { TreeSelection } from '../shared/types';
 import { FACTORY_PROJECT_NAMES, formatProjectDisplayName } from '../shared/constants';
@@ -13,12 +19,15 @@ const AppContent: React.FC = () => {
   const { structure, isLoading, error, selectAndValidate, reloadStructure } = useMultigrain();
   const [selection, setSelection] = useState<TreeSelection>({ type: 'overview' });
   const [showFactoryNamesConfirm, setShowFactoryNamesConfirm] = useState(false);
+  const [searchMatches, setSearchMatches] = useState<Set<string>>(new Set());
   const [autoPlay, setAutoPlay] = useState<boolean>(() => {
     // Load auto-play preference from localStorage, default to true
     const saved = localStorage.getItem('multigrain-autoplay');
     return saved ? JSON.parse(saved) : true;
   });
   const { showError, showWarning, showSuccess } = useErrorDialog();
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const history = useOperationHistory(structure?.rootPath ?? null, reloadStructure);
 
   // Helper function to find sample by path in current structure
   const findSampleByPath = (path: string) => {
@@ -130,6 +139,14 @@ const AppContent: React.FC = () => {
               </div>
             </label>
 
+            <button
+              onClick={() => setHistoryOpen(true)}
+              className="bg-white border-2 border-panel-dark hover:bg-panel-light text-label-black px-4 py-2 rounded transition-colors text-sm font-medium"
+              title="Undo and redo changes to the card (Ctrl+Z / Ctrl+Shift+Z)"
+            >
+              History
+            </button>
+
             <button
               onClick={handleLoadFactoryNamesClick}
               className="bg-label-blue hover:bg-button-dark text-white px-4 py-2 rounded transition-colors text-sm font-medium"
@@ -182,6 +199,12 @@ const AppContent: React.FC = () => {
               >
                 {structure.rootPath}
               </div>
+              <SampleSearchPanel
+                structure={structure}
+                selection={selection}
+                onSelectionChange={setSelection}
+                onMatchesChange={setSearchMatches}
+              />
               {/* Scrollable tree */}
               <div className="flex-1 overflow-y-auto p-2">
                 <FileTree
@@ -194,6 +217,7 @@ const AppContent: React.FC = () => {
                     setSelection({ type: 'sample', samplePath: newPath });
                     reloadStructure();
                   }}
+                  highlightedPaths={searchMatches}
                 />
               </div>
             </aside>
@@ -247,6 +271,61 @@ const AppContent: React.FC = () => {
                           setSelection({ type: 'sample', samplePath: sample.path })
                         }
                         selectedProject={project}
+                        onPresetSaved={(presetPath) => {
+                          setSelection({
+                            type: 'preset',
+                            presetPath,
+                            projectPath: selection.projectPath,
+                          });
+                          reloadStructure();
+                        }}
+                        onMetadataChange={reloadStructure}
+                      />
+                    </div>
+                  );
+                })()
+              ) : selection.type === 'presetDiff' && structure ? (
+                <div className="max-w-4xl mx-auto">
+                  <PresetDiffView
+                    leftPath={selection.leftPath}
+                    rightPath={selection.rightPath}
+                    structure={structure}
+                    onSwapSides={() =>
+                      setSelection({
+                        type: 'presetDiff',
+                        leftPath: selection.rightPath,
+                        rightPath: selection.leftPath,
+                      })
+                    }
+                  />
+                </div>
+              ) : selection.type === 'settings' && structure ? (
+                <div className="max-w-3xl mx-auto">
+                  <GlobalSettingsPanel structure={structure} />
+                </div>
+              ) : selection.type === 'project' && structure ? (
+                (() => {
+                  const project = findProjectByPath(selection.projectPath);
+                  if (!project) {
+                    return (
+                      <div className="flex items-center justify-center h-full text-label-gray">
+                        <p>Project not found</p>
+                      </div>
+                    );
+                  }
+                  return (
+                    <div className="max-w-3xl mx-auto">
+                      <PresetBankGrid
+                        project={project}
+                        structure={structure}
+                        onSelectPreset={(preset) =>
+                          setSelection({
+                            type: 'preset',
+                            presetPath: preset.path,
+                            projectPath: project.path,
+                          })
+                        }
+                        onPresetsChanged={reloadStructure}
                       />
                     </div>
                   );
@@ -337,6 +416,7 @@ const AppContent: React.FC = () => {
             ? `${structure.projects.reduce((sum, p) => sum + p.samples.length, 0) + structure.globalWavs.length} total samples`
             : 'No card loaded'}
         </span>
+        {structure && history.status && <span>{history.status}</span>}
         <span className="text-label-blue">
           {structure?.hasSettings ? '✓ Settings.mgs found' : ''}
         </span>
@@ -352,6 +432,19 @@ const AppContent: React.FC = () => {
         onConfirm={handleLoadFactoryNamesConfirm}
         onCancel={() => setShowFactoryNamesConfirm(false)}
       />
+
+      {/* Undo History Dialog */}
+      {structure && historyOpen && (
+        <HistoryDialog
+          isOpen={true}
+          rootPath={structure.rootPath}
+          revision={history.revision}
+          isWorking={history.isWorking}
+          onUndo={history.undo}
+          onRedo={history.redo}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
     </div>
   );
 };
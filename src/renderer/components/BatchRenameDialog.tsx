@@ -0,0 +1,436 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MultigainStructure, SampleRenameTokens, WavFile } from '../../shared/types';
+import { FOLDER_NAMES, formatProjectDisplayName } from '../../shared/constants';
+import {
+  BATCH_RENAME_TOKENS,
+  BatchRenameItem,
+  BatchRenameRules,
+  DEFAULT_BATCH_RENAME_RULES,
+  RenameCaseChange,
+  planBatchRename,
+} from '../../shared/sampleRename';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+
+interface BatchRenameDialogProps {
+  isOpen: boolean;
+  structure: MultigainStructure;
+  // Samples checked when the dialog opens; their folder is shown first
+  initialPaths: string[];
+  onClose: () => void;
+  onComplete: (renamed: Array<{ oldPath: string; newPath: string }>) => void;
+}
+
+interface RenameFolder {
+  folderPath: string;
+  label: string;
+  samples: WavFile[];
+}
+
+const CASE_OPTIONS: Array<{ value: RenameCaseChange; label: string }> = [
+  { value: 'none', label: 'Keep case' },
+  { value: 'lower', label: 'lowercase' },
+  { value: 'upper', label: 'UPPERCASE' },
+  { value: 'title', label: 'Title Case' },
+];
+
+const inputClass =
+  'w-full px-2 py-1 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none';
+
+/**
+ * Rename several samples of one folder with find/replace, case, prefix,
+ * suffix and counter rules. New names are previewed as the rules are typed;
+ * presets that use the samples are updated on apply.
+ */
+export function BatchRenameDialog({
+  isOpen,
+  structure,
+  initialPaths,
+  onClose,
+  onComplete,
+}: BatchRenameDialogProps) {
+  const { showError, showSuccess } = useErrorDialog();
+  const folders: RenameFolder[] = [
+    ...structure.projects.map((project) => ({
+      folderPath: project.path,
+      label: formatProjectDisplayName(project.index, project.name, project.customName),
+      samples: project.samples,
+    })),
+    {
+      folderPath: `${structure.rootPath}/${FOLDER_NAMES.WAVS}`,
+      label: FOLDER_NAMES.WAVS,
+      samples: structure.globalWavs,
+    },
+    {
+      folderPath: `${structure.rootPath}/${FOLDER_NAMES.RECS}`,
+      label: FOLDER_NAMES.RECS,
+      samples: structure.recordings,
+    },
+  ];
+  const [folderPath, setFolderPath] = useState(
+    () =>
+      (
+        folders.find((f) => f.samples.some((sample) => initialPaths.includes(sample.path))) ??
+        folders[0]
+      ).folderPath
+  );
+  const [checked, setChecked] = useState<Set<string>>(new Set(initialPaths));
+  const [rules, setRules] = useState<BatchRenameRules>(DEFAULT_BATCH_RENAME_RULES);
+  const [tokens, setTokens] = useState<Record<string, SampleRenameTokens>>({});
+  const [isRenaming, setIsRenaming] = useState(false);
+
+  const folder = folders.find((f) => f.folderPath === folderPath) ?? folders[0];
+
+  // Metadata for the token values of the folder's samples
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const loadTokens = async () => {
+      try {
+        const result = await window.electronAPI.readRenameTokens(
+          folder.samples.map((sample) => sample.path)
+        );
+        if (!cancelled && result.success && result.tokens) {
+          setTokens(result.tokens);
+        }
+      } catch (error) {
+        // Tokens without metadata insert nothing
+        console.error('Error reading rename tokens:', error);
+      }
+    };
+
+    loadTokens();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, folder.samples]);
+
+  const preview = useMemo((): { items: BatchRenameItem[]; error?: string } => {
+    try {
+      const selected = folder.samples.filter((sample) => checked.has(sample.path));
+      return {
+        items: planBatchRename(
+          selected,
+          rules,
+          tokens,
+          folder.samples.map((sample) => sample.name)
+        ),
+      };
+    } catch (error) {
+      return { items: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [folder.samples, checked, rules, tokens]);
+
+  if (!isOpen) return null;
+
+  const changes = preview.items.filter((item) => item.newName && item.newName !== item.oldName);
+  const problems = preview.items.filter((item) => item.error);
+  const count = (n: number) => `${n} sample${n === 1 ? '' : 's'}`;
+
+  const updateRules = (update: Partial<BatchRenameRules>) => setRules({ ...rules, ...update });
+
+  const changeFolder = (nextPath: string) => {
+    setFolderPath(nextPath);
+    const next = folders.find((f) => f.folderPath === nextPath);
+    setChecked(new Set(next?.samples.map((sample) => sample.path)));
+  };
+
+  const toggleSample = (samplePath: string) => {
+    const next = new Set(checked);
+    if (next.has(samplePath)) {
+      next.delete(samplePath);
+    } else {
+      next.add(samplePath);
+    }
+    setChecked(next);
+  };
+
+  const allChecked = folder.samples.every((sample) => checked.has(sample.path));
+  const toggleAll = () =>
+    setChecked(allChecked ? new Set() : new Set(folder.samples.map((sample) => sample.path)));
+
+  const handleApply = async () => {
+    setIsRenaming(true);
+    try {
+      const result = await window.electronAPI.renameSamples(
+        changes.map((item) => ({ path: item.path, newName: item.newName }))
+      );
+      if (result.success) {
+        const presetCount = result.updatedPresets?.length ?? 0;
+        showSuccess(
+          `Renamed ${count(result.renamed?.length ?? 0)}.${
+            presetCount > 0
+              ? ` Updated ${presetCount} preset${presetCount === 1 ? '' : 's'} that use them.`
+              : ''
+          }`,
+          'Samples Renamed'
+        );
+        onComplete(result.renamed ?? []);
+      } else {
+        showError(
+          'Failed to rename samples.',
+          'Rename Failed',
+          [
+            result.error,
+            result.details,
+            ...(result.errors ?? []).map((e) => `${e.oldName}: ${e.error}`),
+          ]
+            .filter(Boolean)
+            .join('\n\n')
+        );
+        if (result.renamed?.length) onComplete(result.renamed);
+      }
+    } catch (error) {
+      showError(
+        'Failed to rename samples.',
+        'Rename Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsRenaming(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">Batch Rename</h2>
+          <button
+            onClick={onClose}
+            disabled={isRenaming}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          <select
+            aria-label="Folder"
+            value={folder.folderPath}
+            onChange={(e) => changeFolder(e.target.value)}
+            disabled={isRenaming}
+            className={inputClass}
+          >
+            {folders.map((f) => (
+              <option key={f.folderPath} value={f.folderPath}>
+                {f.label} ({f.samples.length})
+              </option>
+            ))}
+          </select>
+
+          <div className="grid grid-cols-2 gap-3 text-sm text-label-black">
+            <label className="space-y-1">
+              <span>Find</span>
+              <input
+                aria-label="Find"
+                value={rules.find}
+                onChange={(e) => updateRules({ find: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span>Replace with</span>
+              <input
+                aria-label="Replace with"
+                value={rules.replace}
+                onChange={(e) => updateRules({ replace: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <div className="col-span-2 flex flex-wrap gap-4">
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={rules.useRegex}
+                  onChange={(e) => updateRules({ useRegex: e.target.checked })}
+                />
+                Regular expression
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={rules.matchCase}
+                  onChange={(e) => updateRules({ matchCase: e.target.checked })}
+                />
+                Match case
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={rules.stripNumbers}
+                  onChange={(e) => updateRules({ stripNumbers: e.target.checked })}
+                />
+                Remove number prefixes
+              </label>
+              <select
+                aria-label="Case"
+                value={rules.caseChange}
+                onChange={(e) => updateRules({ caseChange: e.target.value as RenameCaseChange })}
+                className="px-2 py-0.5 text-sm border border-panel-dark rounded"
+              >
+                {CASE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="space-y-1">
+              <span>Prefix</span>
+              <input
+                aria-label="Prefix"
+                value={rules.prefix}
+                onChange={(e) => updateRules({ prefix: e.target.value })}
+                placeholder="{n}_"
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span>Suffix</span>
+              <input
+                aria-label="Suffix"
+                value={rules.suffix}
+                onChange={(e) => updateRules({ suffix: e.target.value })}
+                placeholder=" {duration}"
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <div className="col-span-2 flex items-center gap-3">
+              <span>Counter {'{n}'}</span>
+              <label className="flex items-center gap-1">
+                start
+                <input
+                  type="number"
+                  aria-label="Counter start"
+                  value={rules.counterStart}
+                  onChange={(e) => updateRules({ counterStart: Number(e.target.value) || 0 })}
+                  className="w-16 px-2 py-0.5 text-sm border border-panel-dark rounded"
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                step
+                <input
+                  type="number"
+                  aria-label="Counter step"
+                  value={rules.counterStep}
+                  onChange={(e) => updateRules({ counterStep: Number(e.target.value) || 1 })}
+                  className="w-16 px-2 py-0.5 text-sm border border-panel-dark rounded"
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                digits
+                <input
+                  type="number"
+                  aria-label="Counter digits"
+                  min={1}
+                  max={3}
+                  value={rules.counterDigits}
+                  onChange={(e) =>
+                    updateRules({
+                      counterDigits: Math.min(3, Math.max(1, Number(e.target.value) || 1)),
+                    })
+                  }
+                  className="w-16 px-2 py-0.5 text-sm border border-panel-dark rounded"
+                />
+              </label>
+            </div>
+            <p className="col-span-2 text-xs text-label-gray">
+              Tokens:{' '}
+              {BATCH_RENAME_TOKENS.map(({ token, label }) => `${token} ${label}`).join(' · ')}
+            </p>
+          </div>
+
+          {preview.error && (
+            <div className="p-3 bg-button-red bg-opacity-10 rounded border border-button-red text-sm text-button-red">
+              {preview.error}
+            </div>
+          )}
+
+          {folder.samples.length === 0 ? (
+            <div className="text-center py-8 text-label-gray text-sm">No samples</div>
+          ) : (
+            <table className="w-full text-sm bg-white rounded border-2 border-panel-dark">
+              <thead>
+                <tr className="text-left text-xs text-label-gray border-b border-panel-dark">
+                  <th className="px-3 py-1 w-8">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all"
+                      checked={allChecked}
+                      onChange={toggleAll}
+                      disabled={isRenaming}
+                    />
+                  </th>
+                  <th className="px-3 py-1">Current name</th>
+                  <th className="px-3 py-1">New name</th>
+                </tr>
+              </thead>
+              <tbody>
+                {folder.samples.map((sample) => {
+                  const item = preview.items.find((i) => i.path === sample.path);
+                  return (
+                    <tr
+                      key={sample.path}
+                      className={item?.error ? 'bg-button-red bg-opacity-10' : ''}
+                    >
+                      <td className="px-3 py-0.5">
+                        <input
+                          type="checkbox"
+                          aria-label={`Rename ${sample.name}`}
+                          checked={checked.has(sample.path)}
+                          onChange={() => toggleSample(sample.path)}
+                          disabled={isRenaming}
+                        />
+                      </td>
+                      <td className="px-3 py-0.5 font-mono truncate">{sample.name}</td>
+                      <td className="px-3 py-0.5 font-mono truncate">
+                        {item?.error && <span className="text-button-red">{item.error}</span>}
+                        {item && !item.error && item.newName !== item.oldName && (
+                          <span className="text-label-black">{item.newName}</span>
+                        )}
+                        {item && !item.error && item.newName === item.oldName && (
+                          <span className="text-label-gray">unchanged</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex items-center justify-between gap-2">
+          <span className="text-sm text-label-gray">
+            {problems.length > 0
+              ? `${count(problems.length)} cannot be renamed`
+              : `${count(changes.length)} will be renamed`}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              disabled={isRenaming}
+              className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={
+                isRenaming || !!preview.error || problems.length > 0 || changes.length === 0
+              }
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              {isRenaming ? 'Renaming...' : `Rename ${count(changes.length)}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
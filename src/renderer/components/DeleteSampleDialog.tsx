@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from 'react';
+import {
+  MultigainStructure,
+  PresetRepairFix,
+  SampleFolder,
+  SampleUsage,
+  WavFile,
+} from '../../shared/types';
+import { FOLDER_NAMES, formatProjectDisplayName } from '../../shared/constants';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+import { ExperimentalWriteDialog, ExperimentalWriteNote } from './ExperimentalWriteDialog';
+
+interface DeleteSampleDialogProps {
+  isOpen: boolean;
+  sample: WavFile;
+  structure: MultigainStructure;
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+interface ReplacementGroup {
+  label: string;
+  folder: SampleFolder;
+  samples: WavFile[];
+}
+
+/**
+ * Group usages into one line per preset: "Project01/Preset03 • Sound 2, 5"
+ */
+function groupByPreset(usages: SampleUsage[]) {
+  const groups = new Map<string, { label: string; soundNumbers: number[] }>();
+  for (const usage of usages) {
+    const group = groups.get(usage.presetPath) ?? {
+      label: `${usage.projectName}/${usage.presetName}`,
+      soundNumbers: [],
+    };
+    group.soundNumbers.push(usage.soundNumber);
+    groups.set(usage.presetPath, group);
+  }
+  return Array.from(groups.entries());
+}
+
+export function DeleteSampleDialog({
+  isOpen,
+  sample,
+  structure,
+  onClose,
+  onDeleted,
+}: DeleteSampleDialogProps) {
+  const { showError } = useErrorDialog();
+  // Usages of the sample they were loaded for
+  const [loaded, setLoaded] = useState<{
+    samplePath: string;
+    usages: SampleUsage[] | null;
+    error: string | null;
+  } | null>(null);
+  const usages = loaded?.samplePath === sample.path ? loaded.usages : null;
+  const loadError = loaded?.samplePath === sample.path ? loaded.error : null;
+  const [replacementPath, setReplacementPath] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [confirmRelink, setConfirmRelink] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const loadUsages = async () => {
+      try {
+        const result = await window.electronAPI.findSampleUsages([sample.path]);
+        if (cancelled) return;
+        if (result.success && result.usages) {
+          setLoaded({ samplePath: sample.path, usages: result.usages, error: null });
+        } else {
+          setLoaded({
+            samplePath: sample.path,
+            usages: null,
+            error: result.error || 'Failed to check which presets use this sample',
+          });
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setLoaded({
+            samplePath: sample.path,
+            usages: null,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    };
+
+    loadUsages();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, sample.path]);
+
+  if (!isOpen) return null;
+
+  // Replacements must be loadable by every affected preset: Wavs and Recs always,
+  // a project's own samples only when all affected presets are in that project
+  const affectedProjects = structure.projects.filter((project) =>
+    (usages ?? []).some(
+      (usage) =>
+        project.autosave?.path === usage.presetPath ||
+        project.presets.some((preset) => preset.path === usage.presetPath)
+    )
+  );
+  const replacementGroups: ReplacementGroup[] = [
+    ...(affectedProjects.length === 1
+      ? [
+          {
+            label: formatProjectDisplayName(
+              affectedProjects[0].index,
+              affectedProjects[0].name,
+              affectedProjects[0].customName
+            ),
+            folder: 'PROJECT' as const,
+            samples: affectedProjects[0].samples,
+          },
+        ]
+      : []),
+    { label: FOLDER_NAMES.WAVS, folder: 'WAVS' as const, samples: structure.globalWavs },
+    { label: FOLDER_NAMES.RECS, folder: 'RECS' as const, samples: structure.recordings },
+  ]
+    .map((group) => ({ ...group, samples: group.samples.filter((s) => s.path !== sample.path) }))
+    .filter((group) => group.samples.length > 0);
+
+  const deleteSample = async (force: boolean) => {
+    const result = await window.electronAPI.deleteSample(sample.path, { force });
+    if (result.success) {
+      onDeleted();
+    } else {
+      showError('Failed to delete sample.', 'Delete Failed', result.error);
+    }
+  };
+
+  const handleDelete = async (force: boolean) => {
+    setIsWorking(true);
+    try {
+      await deleteSample(force);
+    } catch (error) {
+      showError(
+        'Failed to delete sample.',
+        'Delete Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRelinkAndDelete = async () => {
+    const group = replacementGroups.find((g) => g.samples.some((s) => s.path === replacementPath));
+    const replacement = group?.samples.find((s) => s.path === replacementPath);
+    setConfirmRelink(false);
+    if (!usages || !group || !replacement) return;
+
+    setIsWorking(true);
+    try {
+      const fixes: PresetRepairFix[] = usages.map((usage) => ({
+        presetPath: usage.presetPath,
+        soundNumber: usage.soundNumber,
+        oldName: sample.name,
+        newName: replacement.name,
+        folder: group.folder,
+      }));
+      const result = await window.electronAPI.repairPresetSamples(fixes);
+      if (!result.success) {
+        showError('Failed to relink presets.', 'Relink Failed', result.error);
+        return;
+      }
+      await deleteSample(false);
+    } catch (error) {
+      showError(
+        'Failed to relink presets.',
+        'Relink Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const isUsed = !!usages && usages.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">Delete Sample</h2>
+          <button
+            onClick={onClose}
+            disabled={isWorking}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          {!usages && !loadError && (
+            <p className="text-sm text-label-gray">Checking presets on the card…</p>
+          )}
+          {loadError && <p className="text-sm text-button-red">{loadError}</p>}
+
+          {usages && !isUsed && (
+            <p className="text-sm text-label-black">
+              Are you sure you want to delete sample &quot;{sample.name}&quot;? No preset uses it.
+              It is moved to the Trash, where it can be restored.
+            </p>
+          )}
+
+          {isUsed && (
+            <>
+              <p className="text-sm text-label-black">
+                &quot;{sample.name}&quot; is used by {usages.length} preset sound
+                {usages.length !== 1 ? 's' : ''}. After deleting it they will show as NOT FOUND.
+              </p>
+              <ul className="p-3 bg-white rounded border border-panel-dark text-sm text-label-black space-y-0.5 max-h-48 overflow-y-auto">
+                {groupByPreset(usages).map(([presetPath, group]) => (
+                  <li key={presetPath} className="truncate">
+                    {group.label}
+                    <span className="text-label-gray">
+                      {' '}
+                      • Sound {group.soundNumbers.join(', ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div>
+                <label className="block text-sm font-medium text-label-black mb-2">
+                  Relink these sounds to
+                </label>
+                <select
+                  value={replacementPath}
+                  onChange={(e) => setReplacementPath(e.target.value)}
+                  className="w-full px-3 py-2 border border-panel-dark rounded text-sm focus:outline-none focus:border-label-blue"
+                >
+                  <option value="">Choose a sample…</option>
+                  {replacementGroups.map((group) => (
+                    <optgroup key={group.folder} label={group.label}>
+                      {group.samples.map((s) => (
+                        <option key={s.path} value={s.path}>
+                          {s.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                <div className="mt-2">
+                  <ExperimentalWriteNote fields={['sampleFolder']} />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={isWorking}
+            className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          {isUsed && (
+            <button
+              onClick={() => setConfirmRelink(true)}
+              disabled={isWorking || !replacementPath}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              Relink and Delete
+            </button>
+          )}
+          <button
+            onClick={() => handleDelete(isUsed)}
+            disabled={isWorking || (!usages && !loadError)}
+            className="px-4 py-2 text-sm bg-button-red hover:bg-red-700 text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+          >
+            {isWorking ? 'Working...' : isUsed ? 'Delete Anyway' : 'Delete Sample'}
+          </button>
+        </div>
+      </div>
+
+      <ExperimentalWriteDialog
+        isOpen={confirmRelink}
+        action="Relink and Delete"
+        fields={['sampleFolder']}
+        onConfirm={handleRelinkAndDelete}
+        onCancel={() => setConfirmRelink(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import {
+  DuplicateMatchMode,
+  DuplicateSample,
+  DuplicateSampleGroup,
+  DuplicateSampleReport,
+  MultigainStructure,
+} from '../../shared/types';
+import { FOLDER_NAMES } from '../../shared/constants';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+import { ExperimentalWriteDialog, ExperimentalWriteNote } from './ExperimentalWriteDialog';
+
+interface DuplicateSamplesDialogProps {
+  isOpen: boolean;
+  structure: MultigainStructure;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const getParentFolder = (filePath: string) => filePath.replace(/[\\/][^\\/]*$/, '');
+
+/**
+ * Copy to keep by default: one already in Wavs, else the one most preset
+ * sounds load
+ */
+function chooseKeeper(group: DuplicateSampleGroup): DuplicateSample {
+  return (
+    group.samples.find((sample) => sample.folderLabel === FOLDER_NAMES.WAVS) ??
+    [...group.samples].sort((a, b) => b.usages.length - a.usages.length)[0]
+  );
+}
+
+/**
+ * Card-wide duplicate audio finder. One copy per group is kept, presets that
+ * loaded the others are pointed at it and the others are moved to the Trash.
+ */
+export function DuplicateSamplesDialog({
+  isOpen,
+  structure,
+  onClose,
+  onComplete,
+}: DuplicateSamplesDialogProps) {
+  const { showError, showInfo } = useErrorDialog();
+  const [mode, setMode] = useState<DuplicateMatchMode>('exact');
+  const [report, setReport] = useState<DuplicateSampleReport | null>(null);
+  const [keepPaths, setKeepPaths] = useState<Record<string, string>>({});
+  const [targetFolders, setTargetFolders] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingGroup, setWorkingGroup] = useState<string | null>(null);
+  // Group waiting for the experimental preset folder write to be confirmed
+  const [pendingGroup, setPendingGroup] = useState<DuplicateSampleGroup | null>(null);
+  const wavsPath = `${structure.rootPath}/${FOLDER_NAMES.WAVS}`;
+
+  // Rescan after every structure reload, i.e. after each consolidated group
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const scan = async () => {
+      setIsLoading(true);
+      try {
+        const result = await window.electronAPI.findDuplicateSamples(structure, mode);
+        if (cancelled) return;
+        if (result.success && result.report) {
+          setReport(result.report);
+          setKeepPaths(
+            Object.fromEntries(
+              result.report.groups.map((group) => [group.id, chooseKeeper(group).path])
+            )
+          );
+          setTargetFolders({});
+        } else {
+          showError('Failed to scan samples.', 'Scan Failed', result.error);
+          onClose();
+        }
+      } catch (error) {
+        if (cancelled) return;
+        showError(
+          'Failed to scan samples.',
+          'Scan Failed',
+          error instanceof Error ? error.message : String(error)
+        );
+        onClose();
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    scan();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, structure, mode]);
+
+  if (!isOpen) return null;
+
+  const groups = report?.groups ?? [];
+
+  const getKeeper = (group: DuplicateSampleGroup) =>
+    group.samples.find((sample) => sample.path === keepPaths[group.id]) ?? chooseKeeper(group);
+
+  // Consolidating into Wavs is the default when presets in other projects
+  // load a copy, they could not load the kept sample from a project folder
+  const getTargetFolder = (group: DuplicateSampleGroup) => {
+    if (targetFolders[group.id] !== undefined) return targetFolders[group.id];
+    const keeper = getKeeper(group);
+    const keeperFolder = getParentFolder(keeper.path);
+    const isProjectFolder = structure.projects.some((project) => project.path === keeperFolder);
+    const usedElsewhere = group.samples.some((sample) =>
+      sample.usages.some((usage) => getParentFolder(usage.presetPath) !== keeperFolder)
+    );
+    return isProjectFolder && usedElsewhere ? wavsPath : '';
+  };
+
+  const handleConsolidate = async (group: DuplicateSampleGroup) => {
+    const keeper = getKeeper(group);
+    const targetFolder = getTargetFolder(group);
+    setPendingGroup(null);
+    setWorkingGroup(group.id);
+    try {
+      const result = await window.electronAPI.consolidateDuplicates(
+        keeper.path,
+        group.samples.filter((sample) => sample.path !== keeper.path).map((s) => s.path),
+        targetFolder || undefined
+      );
+      if (!result.success) {
+        showError('Failed to remove duplicates.', 'Consolidate Failed', result.error);
+        return;
+      }
+
+      const deleted = result.deleted?.length ?? 0;
+      const updated = result.updatedPresets?.length ?? 0;
+      const skipped = result.skipped ?? [];
+      showInfo(
+        `Moved ${deleted} duplicate${deleted !== 1 ? 's' : ''} of ${keeper.name} to the Trash` +
+          (updated > 0 ? ` and updated ${updated} preset${updated !== 1 ? 's' : ''}.` : '.') +
+          (skipped.length > 0 ? ` ${skipped.length} kept because presets still need them.` : ''),
+        'Duplicates Removed',
+        skipped.map((s) => `${s.path.split(/[\\/]/).pop()}: ${s.reason}`).join('\n') || undefined
+      );
+      onComplete();
+    } catch (error) {
+      showError(
+        'Failed to remove duplicates.',
+        'Consolidate Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setWorkingGroup(null);
+    }
+  };
+
+  const duplicateCount = groups.reduce((sum, group) => sum + group.samples.length - 1, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">Duplicate Samples</h2>
+          <button
+            onClick={onClose}
+            disabled={workingGroup !== null}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          <div className="flex gap-4 text-sm text-label-black">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="duplicate-mode"
+                checked={mode === 'exact'}
+                onChange={() => setMode('exact')}
+                disabled={isLoading || workingGroup !== null}
+              />
+              Identical audio
+            </label>
+            <label
+              className="flex items-center gap-2"
+              title="Same length and loudness over time, e.g. re-encoded or resampled copies"
+            >
+              <input
+                type="radio"
+                name="duplicate-mode"
+                checked={mode === 'similar'}
+                onChange={() => setMode('similar')}
+                disabled={isLoading || workingGroup !== null}
+              />
+              Near duplicates
+            </label>
+          </div>
+
+          {isLoading && (
+            <div className="text-center py-8 text-label-gray text-sm">Comparing samples...</div>
+          )}
+
+          {!isLoading && report && groups.length === 0 && (
+            <div className="text-center py-8 text-label-gray text-sm">
+              No duplicates among {report.scannedCount} samples.
+            </div>
+          )}
+
+          {!isLoading && report && groups.length > 0 && (
+            <div className="text-sm text-label-black">
+              {groups.length} group{groups.length !== 1 ? 's' : ''} • {duplicateCount} extra cop
+              {duplicateCount !== 1 ? 'ies' : 'y'} among {report.scannedCount} samples
+            </div>
+          )}
+
+          {!isLoading &&
+            groups.map((group) => {
+              const keeper = getKeeper(group);
+              const targetFolder = getTargetFolder(group);
+              return (
+                <div key={group.id} className="bg-white rounded border-2 border-panel-dark p-3">
+                  <div className="space-y-1">
+                    {group.samples.map((sample) => (
+                      <label
+                        key={sample.path}
+                        className="flex items-center gap-2 text-sm text-label-black"
+                      >
+                        <input
+                          type="radio"
+                          name={`keep-${group.id}`}
+                          checked={sample.path === keeper.path}
+                          onChange={() => setKeepPaths({ ...keepPaths, [group.id]: sample.path })}
+                        />
+                        <span className="flex-1 truncate">
+                          <span className="font-mono">{sample.name}</span>
+                          <span className="ml-2 text-xs text-label-gray">{sample.folderLabel}</span>
+                        </span>
+                        <span className="text-xs text-label-gray">
+                          {sample.usages.length > 0
+                            ? `${sample.usages.length} sound${sample.usages.length !== 1 ? 's' : ''}`
+                            : 'unused'}{' '}
+                          • {formatSize(sample.size)} • {formatDuration(sample.duration)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-end gap-2 mt-3">
+                    <label className="text-xs text-label-gray">Keep in</label>
+                    <select
+                      value={targetFolder}
+                      onChange={(e) =>
+                        setTargetFolders({ ...targetFolders, [group.id]: e.target.value })
+                      }
+                      disabled={workingGroup !== null}
+                      className="px-2 py-1 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+                    >
+                      <option value="">{keeper.folderLabel} (current folder)</option>
+                      {keeper.folderLabel !== FOLDER_NAMES.WAVS && (
+                        <option value={wavsPath}>{FOLDER_NAMES.WAVS}</option>
+                      )}
+                    </select>
+                    <button
+                      onClick={() => setPendingGroup(group)}
+                      disabled={workingGroup !== null}
+                      className="px-3 py-1 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+                    >
+                      {workingGroup === group.id ? 'Working...' : 'Keep One, Relink Presets'}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+
+          {!isLoading && report && report.unreadable.length > 0 && (
+            <div className="text-xs text-label-gray">
+              Skipped {report.unreadable.length} file{report.unreadable.length !== 1 ? 's' : ''}{' '}
+              that could not be read as WAV.
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex items-center justify-between gap-4">
+          <ExperimentalWriteNote fields={['sampleFolder']} />
+          <button
+            onClick={onClose}
+            disabled={workingGroup !== null}
+            className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <ExperimentalWriteDialog
+        isOpen={pendingGroup !== null}
+        action="Relink Presets"
+        fields={['sampleFolder']}
+        onConfirm={() => pendingGroup && handleConsolidate(pendingGroup)}
+        onCancel={() => setPendingGroup(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import React from 'react';
+import { ConfirmDialog } from './ConfirmDialog';
+
+// Preset fields written at offsets that are a working hypothesis, see
+// docs/MGP_RESEARCH.md. Only the sample filename offsets are confirmed.
+export type ExperimentalPresetField = 'sampleFolder' | 'presetNumber';
+
+const FIELD_LABELS: Record<ExperimentalPresetField, string> = {
+  sampleFolder: 'sample folder',
+  presetNumber: 'preset number',
+};
+
+const describeFields = (fields: ExperimentalPresetField[]) =>
+  fields.map((field) => FIELD_LABELS[field]).join(' and ');
+
+/**
+ * Short label shown next to actions that write unconfirmed preset fields
+ */
+export function ExperimentalWriteNote({ fields }: { fields: ExperimentalPresetField[] }) {
+  return (
+    <span className="text-xs text-label-gray">
+      <span className="font-medium text-button-red">Experimental:</span> the{' '}
+      {describeFields(fields)} position in presets is not confirmed.
+    </span>
+  );
+}
+
+interface ExperimentalWriteDialogProps {
+  isOpen: boolean;
+  action: string; // e.g. 'Assign Sample'
+  fields: ExperimentalPresetField[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks every time before writing unconfirmed preset fields, like saving
+ * Settings.mgs from the Global Settings panel
+ */
+export function ExperimentalWriteDialog({
+  isOpen,
+  action,
+  fields,
+  onConfirm,
+  onCancel,
+}: ExperimentalWriteDialogProps) {
+  return (
+    <ConfirmDialog
+      isOpen={isOpen}
+      title={`Experimental: ${action}`}
+      message={
+        `This writes the ${describeFields(fields)} of presets. Where it is stored in the ` +
+        '.mgp file is a working hypothesis and has not been confirmed on a real module. ' +
+        'The module may load the wrong sample or setting, or fail to read the preset.\n\n' +
+        'The change can be undone from History. Continue anyway?'
+      }
+      confirmLabel={`${action} Anyway`}
+      confirmVariant="danger"
+      onConfirm={onConfirm}
+      onCancel={onCancel}
+    />
+  );
+}
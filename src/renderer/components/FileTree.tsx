@@ -1,10 +1,39 @@
 import React, { useState, createContext, useContext } from 'react';
-import { MultigainStructure, Project, WavFile, Preset, TreeSelection } from '../../shared/types';
+import {
+  MultigainStructure,
+  Project,
+  WavFile,
+  Preset,
+  TreeSelection,
+  PresetReferenceUpdate,
+  PresetReferenceOverflow,
+  PresetTransferMode,
+  SampleTransferMode,
+  SampleUsage,
+} from '../../shared/types';
 import { ImportDialog } from './ImportDialog';
 import { CreateProjectDialog } from './CreateProjectDialog';
 import { ContextMenu, ContextMenuItem } from './ContextMenu';
+import { PresetTransferDialog } from './PresetTransferDialog';
+import { SampleTransferDialog } from './SampleTransferDialog';
+import { SaveAutosaveDialog } from './SaveAutosaveDialog';
+import { PresetNamesDialog } from './PresetNamesDialog';
+import { RepairSamplesDialog } from './RepairSamplesDialog';
+import { UnusedSamplesDialog } from './UnusedSamplesDialog';
+import { TrashDialog } from './TrashDialog';
+import { WavStructureDialog } from './WavStructureDialog';
+import { SampleIndexDialog } from './SampleIndexDialog';
+import { RecsOrderDialog } from './RecsOrderDialog';
+import { SampleReorderDialog } from './SampleReorderDialog';
+import { BatchRenameDialog } from './BatchRenameDialog';
+import { DuplicateSamplesDialog } from './DuplicateSamplesDialog';
 import { ConfirmDialog } from './ConfirmDialog';
-import { formatProjectDisplayName } from '../../shared/constants';
+import { DeleteSampleDialog } from './DeleteSampleDialog';
+import {
+  FOLDER_NAMES,
+  formatPresetDisplayName,
+  formatProjectDisplayName,
+} from '../../shared/constants';
 import { usePdfExport } from '../hooks/usePdfExport';
 import { useErrorDialog } from '../contexts/ErrorDialogContext';
 
@@ -27,6 +56,13 @@ interface FileTreeContextValue {
 
   // Context menus
   handleSampleContextMenu: (e: React.MouseEvent, sample: WavFile) => void;
+  handlePresetContextMenu: (e: React.MouseEvent, preset: Preset, project: Project) => void;
+
+  // Sample drag and drop between folders
+  onSampleDrop: (samplePath: string, targetFolder: string) => void;
+
+  // Sample search matches
+  highlightedPaths: Set<string>;
 }
 
 const FileTreeContext = createContext<FileTreeContextValue | null>(null);
@@ -39,6 +75,58 @@ const useFileTreeContext = () => {
   return context;
 };
 
+const NO_HIGHLIGHTS = new Set<string>();
+
+// Drag data type carrying the path of a dragged sample
+const SAMPLE_DRAG_TYPE = 'application/x-multigrain-sample';
+
+const getParentFolder = (filePath: string) => filePath.replace(/[\\/][^\\/]*$/, '');
+
+/**
+ * Drop handlers for a folder that accepts samples dragged from another folder
+ */
+const useSampleDropTarget = (targetFolder: string) => {
+  const { onSampleDrop } = useFileTreeContext();
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const dropHandlers: React.HTMLAttributes<HTMLDivElement> = {
+    onDragOver: (e) => {
+      if (!e.dataTransfer.types.includes(SAMPLE_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setIsDragOver(true);
+    },
+    onDragLeave: () => setIsDragOver(false),
+    onDrop: (e) => {
+      setIsDragOver(false);
+      const samplePath = e.dataTransfer.getData(SAMPLE_DRAG_TYPE);
+      if (!samplePath) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (getParentFolder(samplePath) !== targetFolder) {
+        onSampleDrop(samplePath, targetFolder);
+      }
+    },
+  };
+
+  return { isDragOver, dropHandlers };
+};
+
+/**
+ * Wraps a folder node so samples can be dropped anywhere on it
+ */
+const SampleDropZone: React.FC<{ targetFolder: string; children: React.ReactNode }> = ({
+  targetFolder,
+  children,
+}) => {
+  const { isDragOver, dropHandlers } = useSampleDropTarget(targetFolder);
+  return (
+    <div className={`rounded ${isDragOver ? 'ring-2 ring-label-blue' : ''}`} {...dropHandlers}>
+      {children}
+    </div>
+  );
+};
+
 interface FileTreeProps {
   structure: MultigainStructure;
   selection: TreeSelection;
@@ -46,8 +134,48 @@ interface FileTreeProps {
   onProjectNameChange?: () => void;
   onImportComplete?: () => void;
   onSampleRenamed?: (newPath: string) => void;
+  highlightedPaths?: Set<string>;
 }
 
+// Number of search matches in a collapsed folder
+const MatchBadge: React.FC<{ count: number }> = ({ count }) =>
+  count > 0 ? (
+    <span
+      className="text-xs text-white bg-status-warning px-1.5 py-0.5 rounded flex-shrink-0"
+      title={`${count} search match${count !== 1 ? 'es' : ''}`}
+    >
+      {count}
+    </span>
+  ) : null;
+
+// The sample's number on the module; highlighted when the module's order
+// differs from the order listed here
+const HardwareIndexBadge: React.FC<{ index: number; position: number; total: number }> = ({
+  index,
+  position,
+  total,
+}) => (
+  <span
+    className={`text-xs px-1 rounded flex-shrink-0 ${
+      index !== position ? 'text-white bg-status-warning' : 'text-label-gray'
+    }`}
+    title={
+      `Sample ${index} of ${total} on the module` +
+      (index !== position ? `, listed here as ${position}` : '')
+    }
+  >
+    #{index}
+  </span>
+);
+
+const countMatches = (samples: WavFile[], highlightedPaths: Set<string>) =>
+  highlightedPaths.size === 0
+    ? 0
+    : samples.filter((sample) => highlightedPaths.has(sample.path)).length;
+
+const containsSelectedSample = (samples: WavFile[], selection: TreeSelection) =>
+  selection.type === 'sample' && samples.some((sample) => sample.path === selection.samplePath);
+
 interface TreeNodeProps {
   label: string;
   icon: string;
@@ -57,6 +185,8 @@ interface TreeNodeProps {
   onClick?: () => void;
   isSelected?: boolean;
   alwaysOpen?: boolean;
+  matchCount?: number;
+  reveal?: boolean; // Open when this becomes true
   onContextMenu?: (e: React.MouseEvent) => void;
 }
 
@@ -69,12 +199,20 @@ const TreeNode: React.FC<TreeNodeProps> = ({
   onClick,
   isSelected,
   alwaysOpen = false,
+  matchCount = 0,
+  reveal = false,
   onContextMenu,
 }) => {
   const [isOpen, setIsOpen] = useState(defaultOpen);
   const hasChildren = React.Children.count(children) > 0;
   const isExpanded = alwaysOpen || isOpen;
 
+  const [wasRevealing, setWasRevealing] = useState(false);
+  if (reveal !== wasRevealing) {
+    setWasRevealing(reveal);
+    if (reveal) setIsOpen(true);
+  }
+
   return (
     <div className="select-none">
       <div
@@ -104,6 +242,7 @@ const TreeNode: React.FC<TreeNodeProps> = ({
         )}
         <span>{icon}</span>
         <span className="flex-1 truncate text-label-black">{label}</span>
+        <MatchBadge count={matchCount} />
         {count !== undefined && (
           <span className="text-xs text-label-gray bg-panel-dark px-1.5 py-0.5 rounded">
             {count}
@@ -119,9 +258,11 @@ const TreeNode: React.FC<TreeNodeProps> = ({
 
 interface SampleNodeProps {
   sample: WavFile;
+  position: number; // 1-based position in the list shown here
+  total: number; // Samples in the folder
 }
 
-const SampleNode: React.FC<SampleNodeProps> = ({ sample }) => {
+const SampleNode: React.FC<SampleNodeProps> = ({ sample, position, total }) => {
   const {
     selection,
     onSelectSample,
@@ -130,8 +271,9 @@ const SampleNode: React.FC<SampleNodeProps> = ({ sample }) => {
     setSampleToRename,
     onImportComplete,
     onSampleRenamed,
+    highlightedPaths,
   } = useFileTreeContext();
-  const { showError } = useErrorDialog();
+  const { showError, showInfo } = useErrorDialog();
 
   const [isEditing, setIsEditing] = useState(false);
   const [newName, setNewName] = useState('');
@@ -139,6 +281,7 @@ const SampleNode: React.FC<SampleNodeProps> = ({ sample }) => {
   const sizeKB = Math.round(sample.size / 1024);
 
   const isSelected = selection.type === 'sample' && selection.samplePath === sample.path;
+  const isHighlighted = highlightedPaths.has(sample.path);
   const triggerRename = sampleToRename?.path === sample.path;
 
   // Trigger edit mode from parent
@@ -160,8 +303,19 @@ const SampleNode: React.FC<SampleNodeProps> = ({ sample }) => {
         setSampleToRename(null);
         onSampleRenamed?.(result.newPath);
         onImportComplete?.();
+        if (result.updatedPresets && result.updatedPresets.length > 0) {
+          showInfo(
+            `Updated ${result.updatedPresets.length} preset${result.updatedPresets.length !== 1 ? 's' : ''} to use the new name.`,
+            'Presets Updated',
+            result.updatedPresets.map((p) => `${p.projectName}/${p.presetName}`).join('\n')
+          );
+        }
       } else {
-        showError('Failed to rename sample.', 'Rename Failed', result.error);
+        showError(
+          'Failed to rename sample.',
+          'Rename Failed',
+          [result.error, result.details].filter(Boolean).join('\n\n')
+        );
       }
     } catch (error) {
       console.error('Error renaming sample:', error);
@@ -228,7 +382,11 @@ const SampleNode: React.FC<SampleNodeProps> = ({ sample }) => {
     <div
       data-testid={`sample-node-${sample.path}`}
       className={`flex items-center gap-2 py-1 px-2 rounded cursor-pointer hover:bg-panel-dark ml-6 ${
-        isSelected ? 'bg-button-red bg-opacity-20 border-l-2 border-button-red' : ''
+        isSelected
+          ? 'bg-button-red bg-opacity-20 border-l-2 border-button-red'
+          : isHighlighted
+            ? 'bg-status-warning bg-opacity-20'
+            : ''
       }`}
       onClick={() => onSelectSample(sample)}
       onContextMenu={(e) => {
@@ -236,9 +394,17 @@ const SampleNode: React.FC<SampleNodeProps> = ({ sample }) => {
         e.stopPropagation();
         handleSampleContextMenu(e, sample);
       }}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(SAMPLE_DRAG_TYPE, sample.path);
+        e.dataTransfer.effectAllowed = 'copyMove';
+      }}
     >
       <span className="text-label-blue">♪</span>
       <span className="flex-1 truncate text-sm text-label-black">{sample.name}</span>
+      {sample.hardwareIndex !== undefined && (
+        <HardwareIndexBadge index={sample.hardwareIndex} position={position} total={total} />
+      )}
       <span className="text-xs text-label-gray">{sizeKB} KB</span>
     </div>
   );
@@ -247,19 +413,27 @@ const SampleNode: React.FC<SampleNodeProps> = ({ sample }) => {
 interface PresetNodeProps {
   preset: Preset;
   onSelect?: (preset: Preset) => void;
+  onContextMenu?: (e: React.MouseEvent) => void;
   isSelected?: boolean;
 }
 
-const PresetNode: React.FC<PresetNodeProps> = ({ preset, onSelect, isSelected }) => {
+const PresetNode: React.FC<PresetNodeProps> = ({ preset, onSelect, onContextMenu, isSelected }) => {
   return (
     <div
       className={`flex items-center gap-2 py-1 px-2 rounded cursor-pointer hover:bg-panel-dark ml-6 ${
         isSelected ? 'bg-label-blue bg-opacity-20 border-l-2 border-label-blue' : ''
       }`}
       onClick={() => onSelect?.(preset)}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onContextMenu?.(e);
+      }}
     >
       <span className="text-label-blue">📄</span>
-      <span className="flex-1 truncate text-sm text-label-black">{preset.name}</span>
+      <span className="flex-1 truncate text-sm text-label-black" title={preset.notes}>
+        {formatPresetDisplayName(preset.name, preset.customName)}
+      </span>
     </div>
   );
 };
@@ -279,9 +453,18 @@ const ProjectNode: React.FC<ProjectNodeProps> = ({
   onContextMenu,
   onSamplesNodeContextMenu,
 }) => {
-  const { selection, onSelectPreset, onSelectProject, onProjectNameChange } = useFileTreeContext();
+  const {
+    selection,
+    onSelectPreset,
+    onSelectProject,
+    onProjectNameChange,
+    handlePresetContextMenu,
+    highlightedPaths,
+  } = useFileTreeContext();
   const { showError } = useErrorDialog();
+  const { isDragOver, dropHandlers } = useSampleDropTarget(project.path);
   const [isOpen, setIsOpen] = useState(false);
+  const revealSample = containsSelectedSample(project.samples, selection);
   const [isEditing, setIsEditing] = useState(false);
   const [customName, setCustomName] = useState(project.customName || '');
   const [isSaving, setIsSaving] = useState(false);
@@ -293,6 +476,13 @@ const ProjectNode: React.FC<ProjectNodeProps> = ({
     }
   }, [triggerRename]);
 
+  // Show a sample selected outside the tree, e.g. from search results
+  const [wasRevealing, setWasRevealing] = useState(false);
+  if (revealSample !== wasRevealing) {
+    setWasRevealing(revealSample);
+    if (revealSample) setIsOpen(true);
+  }
+
   const displayName = formatProjectDisplayName(project.index, project.name, project.customName);
 
   const handleSave = async () => {
@@ -330,7 +520,12 @@ const ProjectNode: React.FC<ProjectNodeProps> = ({
       : selection.type === 'preset'
         ? selection.projectPath
         : null;
-  const selectedPresetPath = selection.type === 'preset' ? selection.presetPath : null;
+  const selectedPresetPaths =
+    selection.type === 'preset'
+      ? [selection.presetPath]
+      : selection.type === 'presetDiff'
+        ? [selection.leftPath, selection.rightPath]
+        : [];
   const isSelected = selectedProjectPath === project.path;
 
   return (
@@ -339,11 +534,11 @@ const ProjectNode: React.FC<ProjectNodeProps> = ({
         data-testid={`project-node-${project.path}`}
         className={`flex items-center gap-2 py-1 px-2 rounded hover:bg-panel-dark cursor-pointer ${
           isSelected ? 'bg-label-blue bg-opacity-10 border-l-2 border-label-blue' : ''
-        }`}
+        } ${isDragOver ? 'ring-2 ring-label-blue' : ''}`}
         onClick={() => {
           if (!isEditing) {
             setIsOpen(!isOpen);
-            // Select project to show autosave
+            // Select project to show its preset banks
             onSelectProject?.(project);
           }
         }}
@@ -354,6 +549,7 @@ const ProjectNode: React.FC<ProjectNodeProps> = ({
             onContextMenu?.(e, project);
           }
         }}
+        {...dropHandlers}
       >
         <span className="w-4 flex items-center justify-center">
           <span
@@ -406,6 +602,7 @@ const ProjectNode: React.FC<ProjectNodeProps> = ({
         ) : (
           <>
             <span className="flex-1 truncate text-label-black">{displayName}</span>
+            <MatchBadge count={countMatches(project.samples, highlightedPaths)} />
             <span className="text-xs text-label-gray bg-panel-dark px-1.5 py-0.5 rounded flex-shrink-0">
               {project.samples.length}
             </span>
@@ -421,7 +618,8 @@ const ProjectNode: React.FC<ProjectNodeProps> = ({
                   key={preset.path}
                   preset={preset}
                   onSelect={onSelectPreset}
-                  isSelected={selectedPresetPath === preset.path}
+                  onContextMenu={(e) => handlePresetContextMenu(e, preset, project)}
+                  isSelected={selectedPresetPaths.includes(preset.path)}
                 />
               ))}
             </TreeNode>
@@ -432,14 +630,20 @@ const ProjectNode: React.FC<ProjectNodeProps> = ({
               icon="🎵"
               count={project.samples.length}
               defaultOpen
+              reveal={revealSample}
               onContextMenu={(e) => {
                 e.preventDefault();
                 e.stopPropagation();
                 onSamplesNodeContextMenu(e, project);
               }}
             >
-              {project.samples.map((sample) => (
-                <SampleNode key={sample.path} sample={sample} />
+              {project.samples.map((sample, i) => (
+                <SampleNode
+                  key={sample.path}
+                  sample={sample}
+                  position={i + 1}
+                  total={project.samples.length}
+                />
               ))}
             </TreeNode>
           )}
@@ -456,6 +660,7 @@ export const FileTree: React.FC<FileTreeProps> = ({
   onProjectNameChange,
   onImportComplete,
   onSampleRenamed,
+  highlightedPaths = NO_HIGHLIGHTS,
 }) => {
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [importTarget, setImportTarget] = useState<string>('');
@@ -469,9 +674,19 @@ export const FileTree: React.FC<FileTreeProps> = ({
   const [sampleToRename, setSampleToRename] = useState<WavFile | null>(null);
   const [wavsExpanded, setWavsExpanded] = useState(false);
   const [projectsFolderExpanded, setProjectsFolderExpanded] = useState(true);
+  const revealWavsSample = containsSelectedSample(structure.globalWavs, selection);
+
+  // Show a Wavs sample selected outside the tree, e.g. from search results
+  const [wasRevealingWavs, setWasRevealingWavs] = useState(false);
+  if (revealWavsSample !== wasRevealingWavs) {
+    setWasRevealingWavs(revealWavsSample);
+    if (revealWavsSample) setWavsExpanded(true);
+  }
   const [deleteConfirm, setDeleteConfirm] = useState<{
     type: 'project' | 'sample';
     item: Project | WavFile;
+    // Wavs / Recs samples only this project's presets use
+    unusedSamples?: SampleUsage[];
   } | null>(null);
   const [numberingPreview, setNumberingPreview] = useState<{
     folderPath: string;
@@ -479,9 +694,41 @@ export const FileTree: React.FC<FileTreeProps> = ({
     scheme: { pattern: string; digits: number; separator: string };
     alreadyNumbered: number;
     toRename: Array<{ oldName: string; newName: string }>;
-    presetWarnings: string[];
+    presetUpdates: PresetReferenceUpdate[];
+    presetOverflows: PresetReferenceOverflow[];
+    order?: string[]; // Custom order from the reorder list
   } | null>(null);
   const [isApplyingNumbering, setIsApplyingNumbering] = useState(false);
+  const [presetTransfer, setPresetTransfer] = useState<{
+    mode: PresetTransferMode;
+    preset: Preset;
+    project: Project;
+  } | null>(null);
+  const [sampleTransfer, setSampleTransfer] = useState<{
+    mode: SampleTransferMode;
+    samples: WavFile[];
+    targetFolder?: string;
+  } | null>(null);
+  const [autosaveProject, setAutosaveProject] = useState<Project | null>(null);
+  const [presetNamesProject, setPresetNamesProject] = useState<Project | null>(null);
+  const [repairSamplesOpen, setRepairSamplesOpen] = useState(false);
+  const [unusedSamplesOpen, setUnusedSamplesOpen] = useState(false);
+  const [duplicateSamplesOpen, setDuplicateSamplesOpen] = useState(false);
+  const [wavStructureOpen, setWavStructureOpen] = useState(false);
+  // Open Sample Index Order dialog, on a folder when opened from one
+  const [sampleIndexView, setSampleIndexView] = useState<{ folderPath?: string } | null>(null);
+  const [recsOrderOpen, setRecsOrderOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [batchRenamePaths, setBatchRenamePaths] = useState<string[] | null>(null);
+  const [sampleReorder, setSampleReorder] = useState<{
+    folderPath: string;
+    folderName: string;
+  } | null>(null);
+  // First preset picked with "Select for Compare"
+  const [compareSource, setCompareSource] = useState<{
+    preset: Preset;
+    project: Project;
+  } | null>(null);
 
   // PDF export hook
   const pdfExport = usePdfExport();
@@ -496,16 +743,8 @@ export const FileTree: React.FC<FileTreeProps> = ({
   };
 
   const handleSelectProject = (project: Project) => {
-    // When selecting a project, show its autosave if available
-    if (project.autosave) {
-      onSelectionChange({
-        type: 'preset',
-        presetPath: project.autosave.path,
-        projectPath: project.path,
-      });
-    } else {
-      onSelectionChange({ type: 'project', projectPath: project.path });
-    }
+    // Selecting a project shows its preset banks
+    onSelectionChange({ type: 'project', projectPath: project.path });
   };
 
   const handleImportClick = (targetPath: string) => {
@@ -548,6 +787,28 @@ export const FileTree: React.FC<FileTreeProps> = ({
           ),
         disabled: project.samples.length === 0,
       },
+      {
+        label: 'Reorder Samples…',
+        icon: '↕️',
+        onClick: () =>
+          setSampleReorder({
+            folderPath: project.path,
+            folderName: formatProjectDisplayName(project.index, project.name, project.customName),
+          }),
+        disabled: project.samples.length < 2,
+      },
+      {
+        label: 'Edit Preset Names…',
+        icon: '🏷️',
+        onClick: () => setPresetNamesProject(project),
+        disabled: project.presets.length === 0,
+      },
+      {
+        label: 'Save Autosave as Preset…',
+        icon: '💾',
+        onClick: () => setAutosaveProject(project),
+        disabled: !project.autosave,
+      },
       {
         label: 'Export Project Sheet',
         icon: '📄',
@@ -563,9 +824,7 @@ export const FileTree: React.FC<FileTreeProps> = ({
       {
         label: 'Delete Project',
         icon: '🗑️',
-        onClick: () => {
-          setDeleteConfirm({ type: 'project', item: project });
-        },
+        onClick: () => handleRequestDeleteProject(project),
       },
     ];
 
@@ -586,6 +845,36 @@ export const FileTree: React.FC<FileTreeProps> = ({
         icon: '📄',
         onClick: () => pdfExport.exportOverview(structure),
       },
+      {
+        label: 'Repair Missing Samples…',
+        icon: '🩹',
+        onClick: () => setRepairSamplesOpen(true),
+      },
+      {
+        label: 'Find Unused Samples…',
+        icon: '🧹',
+        onClick: () => setUnusedSamplesOpen(true),
+      },
+      {
+        label: 'Find Duplicate Samples…',
+        icon: '👯',
+        onClick: () => setDuplicateSamplesOpen(true),
+      },
+      {
+        label: 'Card Health: WAV Structure…',
+        icon: '🩺',
+        onClick: () => setWavStructureOpen(true),
+      },
+      {
+        label: 'Sample Index Order…',
+        icon: '📋',
+        onClick: () => setSampleIndexView({}),
+      },
+      {
+        label: 'Trash…',
+        icon: '🗑️',
+        onClick: () => setTrashOpen(true),
+      },
     ];
 
     setContextMenu({
@@ -641,6 +930,28 @@ export const FileTree: React.FC<FileTreeProps> = ({
           ),
         disabled: project.samples.length === 0,
       },
+      {
+        label: 'Reorder Samples…',
+        icon: '↕️',
+        onClick: () =>
+          setSampleReorder({
+            folderPath: project.path,
+            folderName: formatProjectDisplayName(project.index, project.name, project.customName),
+          }),
+        disabled: project.samples.length < 2,
+      },
+      {
+        label: 'Sample Index Order…',
+        icon: '📋',
+        onClick: () => setSampleIndexView({ folderPath: project.path }),
+        disabled: project.samples.length === 0,
+      },
+      {
+        label: 'Batch Rename…',
+        icon: '🔤',
+        onClick: () => setBatchRenamePaths(project.samples.map((sample) => sample.path)),
+        disabled: project.samples.length === 0,
+      },
     ];
 
     setContextMenu({ x: e.clientX, y: e.clientY, items });
@@ -662,6 +973,25 @@ export const FileTree: React.FC<FileTreeProps> = ({
         onClick: () => handlePreviewNumberPrefixes(structure.rootPath + '/Wavs', 'Wavs'),
         disabled: structure.globalWavs.length === 0,
       },
+      {
+        label: 'Reorder Samples…',
+        icon: '↕️',
+        onClick: () =>
+          setSampleReorder({ folderPath: structure.rootPath + '/Wavs', folderName: 'Wavs' }),
+        disabled: structure.globalWavs.length < 2,
+      },
+      {
+        label: 'Sample Index Order…',
+        icon: '📋',
+        onClick: () => setSampleIndexView({ folderPath: structure.rootPath + '/Wavs' }),
+        disabled: structure.globalWavs.length === 0,
+      },
+      {
+        label: 'Batch Rename…',
+        icon: '🔤',
+        onClick: () => setBatchRenamePaths(structure.globalWavs.map((sample) => sample.path)),
+        disabled: structure.globalWavs.length === 0,
+      },
     ];
 
     setContextMenu({
@@ -671,6 +1001,35 @@ export const FileTree: React.FC<FileTreeProps> = ({
     });
   };
 
+  const handleRecsFolderContextMenu = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const items: ContextMenuItem[] = [
+      {
+        label: 'Reorder Recordings…',
+        icon: '↕️',
+        onClick: () => setRecsOrderOpen(true),
+        disabled: structure.recordings.length < 2,
+      },
+      {
+        label: 'Sample Index Order…',
+        icon: '📋',
+        onClick: () =>
+          setSampleIndexView({ folderPath: `${structure.rootPath}/${FOLDER_NAMES.RECS}` }),
+        disabled: structure.recordings.length === 0,
+      },
+      {
+        label: 'Batch Rename…',
+        icon: '🔤',
+        onClick: () => setBatchRenamePaths(structure.recordings.map((sample) => sample.path)),
+        disabled: structure.recordings.length === 0,
+      },
+    ];
+
+    setContextMenu({ x: e.clientX, y: e.clientY, items });
+  };
+
   const handleShowOverview = () => {
     onSelectionChange({ type: 'overview' });
   };
@@ -684,6 +1043,21 @@ export const FileTree: React.FC<FileTreeProps> = ({
           setSampleToRename(sample);
         },
       },
+      {
+        label: 'Batch Rename…',
+        icon: '🔤',
+        onClick: () => setBatchRenamePaths([sample.path]),
+      },
+      {
+        label: 'Move to…',
+        icon: '➜',
+        onClick: () => setSampleTransfer({ mode: 'move', samples: [sample] }),
+      },
+      {
+        label: 'Copy to…',
+        icon: '⧉',
+        onClick: () => setSampleTransfer({ mode: 'copy', samples: [sample] }),
+      },
       {
         label: 'Delete Sample',
         icon: '🗑️',
@@ -700,6 +1074,111 @@ export const FileTree: React.FC<FileTreeProps> = ({
     });
   };
 
+  const handlePresetContextMenu = (e: React.MouseEvent, preset: Preset, project: Project) => {
+    const items: ContextMenuItem[] = [
+      {
+        label: 'Copy to…',
+        icon: '⧉',
+        onClick: () => setPresetTransfer({ mode: 'copy', preset, project }),
+      },
+      {
+        label: 'Move to…',
+        icon: '➜',
+        onClick: () => setPresetTransfer({ mode: 'move', preset, project }),
+      },
+      {
+        label: 'Swap with…',
+        icon: '⇄',
+        onClick: () => setPresetTransfer({ mode: 'swap', preset, project }),
+      },
+      compareSource && compareSource.preset.path !== preset.path
+        ? {
+            label: `Compare with ${compareSource.project.name} / ${compareSource.preset.name}`,
+            icon: '⇆',
+            onClick: () => {
+              onSelectionChange({
+                type: 'presetDiff',
+                leftPath: compareSource.preset.path,
+                rightPath: preset.path,
+              });
+              setCompareSource(null);
+            },
+          }
+        : {
+            label: 'Select for Compare',
+            icon: '⇆',
+            onClick: () => setCompareSource({ preset, project }),
+          },
+    ];
+
+    setContextMenu({
+      x: e.clientX,
+      y: e.clientY,
+      items,
+    });
+  };
+
+  const handleSampleDrop = (samplePath: string, targetFolder: string) => {
+    const sample = [
+      ...structure.projects.flatMap((project) => project.samples),
+      ...structure.globalWavs,
+      ...structure.recordings,
+    ].find((s) => s.path === samplePath);
+    if (sample) {
+      setSampleTransfer({ mode: 'move', samples: [sample], targetFolder });
+    }
+  };
+
+  const handleSampleTransferComplete = (targetPaths: string[]) => {
+    const transfer = sampleTransfer;
+    setSampleTransfer(null);
+    // Follow the selected sample to its new location
+    if (transfer?.mode === 'move' && selection.type === 'sample') {
+      const index = transfer.samples.findIndex((s) => s.path === selection.samplePath);
+      if (index !== -1 && targetPaths[index]) {
+        onSelectionChange({ type: 'sample', samplePath: targetPaths[index] });
+      }
+    }
+    onImportComplete?.(); // Reload structure
+  };
+
+  const handleBatchRenameComplete = (renamed: Array<{ oldPath: string; newPath: string }>) => {
+    setBatchRenamePaths(null);
+    // Follow the selected sample to its new name
+    if (selection.type === 'sample') {
+      const toSlashes = (p: string) => p.replace(/\\/g, '/');
+      const rename = renamed.find((r) => toSlashes(r.oldPath) === toSlashes(selection.samplePath));
+      if (rename) {
+        onSelectionChange({ type: 'sample', samplePath: toSlashes(rename.newPath) });
+      }
+    }
+    onImportComplete?.(); // Reload structure
+  };
+
+  const handlePresetTransferComplete = (targetPath: string) => {
+    const targetProject = structure.projects.find((p) => targetPath.startsWith(p.path));
+    setPresetTransfer(null);
+    setAutosaveProject(null);
+    onSelectionChange({
+      type: 'preset',
+      presetPath: targetPath,
+      projectPath: targetProject?.path,
+    });
+    onImportComplete?.(); // Reload structure
+  };
+
+  const handleRequestDeleteProject = async (project: Project) => {
+    let unusedSamples: SampleUsage[] = [];
+    try {
+      const result = await window.electronAPI.previewDeleteProject(project.path);
+      unusedSamples = result.unusedSamples ?? [];
+    } catch (error) {
+      // Still allow the delete, just without the list
+      console.error('Error checking samples used by project:', error);
+    }
+    setDeleteConfirm({ type: 'project', item: project, unusedSamples });
+  };
+
   const handleDeleteProject = async (project: Project) => {
     try {
       const result = await window.electronAPI.deleteProject(project.path);
@@ -722,56 +1201,46 @@ export const FileTree: React.FC<FileTreeProps> = ({
     }
   };
 
-  const handleDeleteSample = async (sample: WavFile) => {
-    try {
-      const result = await window.electronAPI.deleteSample(sample.path);
-      if (result.success) {
-        // Determine where to navigate after deletion
-        // Check if this sample is in a project, Wavs, or Recs folder
-        const samplePath = sample.path;
-        const parentProject = structure.projects.find((p) =>
-          p.samples.some((s) => s.path === samplePath)
-        );
-
-        if (parentProject) {
-          // Navigate to the parent project
-          if (parentProject.autosave) {
-            onSelectionChange({
-              type: 'preset',
-              presetPath: parentProject.autosave.path,
-              projectPath: parentProject.path,
-            });
-          } else {
-            onSelectionChange({ type: 'project', projectPath: parentProject.path });
-          }
-        } else {
-          // Sample was in Wavs or Recs folder, navigate to overview
-          onSelectionChange({ type: 'overview' });
-        }
+  const handleSampleDeleted = (sample: WavFile) => {
+    // Determine where to navigate after deletion
+    // Check if this sample is in a project, Wavs, or Recs folder
+    const samplePath = sample.path;
+    const parentProject = structure.projects.find((p) =>
+      p.samples.some((s) => s.path === samplePath)
+    );
 
-        onImportComplete?.(); // Reload structure
-      } else {
-        showError('Failed to delete sample.', 'Delete Failed', result.error);
-      }
-    } catch (error) {
-      console.error('Error deleting sample:', error);
-      showError(
-        'Failed to delete sample.',
-        'Delete Failed',
-        error instanceof Error ? error.message : String(error)
-      );
-    } finally {
-      setDeleteConfirm(null);
+    if (parentProject) {
+      // Navigate to the parent project
+      onSelectionChange({ type: 'project', projectPath: parentProject.path });
+    } else {
+      // Sample was in Wavs or Recs folder, navigate to overview
+      onSelectionChange({ type: 'overview' });
     }
+
+    setDeleteConfirm(null);
+    onImportComplete?.(); // Reload structure
+  };
+
+  const describeUnusedSamples = (usages: SampleUsage[]) => {
+    const names = Array.from(
+      new Set(usages.map((usage) => usage.samplePath.split(/[\\/]/).slice(-2).join('/')))
+    );
+    return `\n\nThese Wavs / Recs samples are only used by this project and will become unused:\n${names.map((name) => `- ${name}`).join('\n')}`;
   };
 
-  const handlePreviewNumberPrefixes = async (folderPath: string, folderName: string) => {
+  const handlePreviewNumberPrefixes = async (
+    folderPath: string,
+    folderName: string,
+    order?: string[]
+  ) => {
     try {
-      const result = await window.electronAPI.previewNumberPrefixes(folderPath);
+      const result = await window.electronAPI.previewNumberPrefixes(folderPath, order);
       if (result.success && result.scheme) {
         if (!result.toRename || result.toRename.length === 0) {
           showError(
-            'All samples are already correctly numbered starting from 1.',
+            order
+              ? 'The samples are already numbered in this order.'
+              : 'All samples are already correctly numbered starting from 1.',
             'No Changes Needed'
           );
           return;
@@ -782,7 +1251,9 @@ export const FileTree: React.FC<FileTreeProps> = ({
           scheme: result.scheme,
           alreadyNumbered: result.alreadyNumbered || 0,
           toRename: result.toRename,
-          presetWarnings: result.presetWarnings || [],
+          presetUpdates: result.presetUpdates || [],
+          presetOverflows: result.presetOverflows || [],
+          order,
         });
       } else {
         showError('Failed to preview numbering.', 'Preview Failed', result.error);
@@ -802,12 +1273,19 @@ export const FileTree: React.FC<FileTreeProps> = ({
 
     setIsApplyingNumbering(true);
     try {
-      const result = await window.electronAPI.applyNumberPrefixes(numberingPreview.folderPath);
+      const result = await window.electronAPI.applyNumberPrefixes(
+        numberingPreview.folderPath,
+        numberingPreview.order
+      );
       if (result.success) {
         setNumberingPreview(null);
         onImportComplete?.(); // Reload structure
       } else {
-        showError('Failed to apply number prefixes.', 'Operation Failed', result.error);
+        showError(
+          'Failed to apply number prefixes.',
+          'Operation Failed',
+          [result.error, result.details].filter(Boolean).join('\n\n')
+        );
       }
     } catch (error) {
       console.error('Error applying number prefixes:', error);
@@ -839,6 +1317,9 @@ export const FileTree: React.FC<FileTreeProps> = ({
     onImportComplete,
     onProjectNameChange,
     handleSampleContextMenu,
+    handlePresetContextMenu,
+    onSampleDrop: handleSampleDrop,
+    highlightedPaths,
   };
 
   return (
@@ -896,44 +1377,82 @@ export const FileTree: React.FC<FileTreeProps> = ({
           </div>
 
           {/* Global Wavs */}
-          <div className="select-none">
-            <div
-              className="flex items-center gap-2 py-1 px-2 rounded cursor-pointer hover:bg-panel-dark"
-              onClick={() => setWavsExpanded(!wavsExpanded)}
-              onContextMenu={handleWavsFolderContextMenu}
-            >
-              <span className="w-4 flex items-center justify-center">
-                <span
-                  className={`border-solid border-label-gray transition-transform ${
-                    wavsExpanded
-                      ? 'border-l-[5px] border-l-transparent border-r-[5px] border-r-transparent border-t-[6px]'
-                      : 'border-t-[5px] border-t-transparent border-b-[5px] border-b-transparent border-l-[6px]'
-                  }`}
-                />
-              </span>
-              <span>🎶</span>
-              <span className="flex-1 truncate text-label-black">Wavs</span>
-              <span className="text-xs text-label-gray bg-panel-dark px-1.5 py-0.5 rounded flex-shrink-0">
-                {structure.globalWavs.length}
-              </span>
-            </div>
-            {wavsExpanded && (
-              <div className="ml-4 border-l border-panel-dark pl-2">
-                {structure.globalWavs.map((sample) => (
-                  <SampleNode key={sample.path} sample={sample} />
-                ))}
+          <SampleDropZone targetFolder={`${structure.rootPath}/${FOLDER_NAMES.WAVS}`}>
+            <div className="select-none">
+              <div
+                className="flex items-center gap-2 py-1 px-2 rounded cursor-pointer hover:bg-panel-dark"
+                onClick={() => setWavsExpanded(!wavsExpanded)}
+                onContextMenu={handleWavsFolderContextMenu}
+              >
+                <span className="w-4 flex items-center justify-center">
+                  <span
+                    className={`border-solid border-label-gray transition-transform ${
+                      wavsExpanded
+                        ? 'border-l-[5px] border-l-transparent border-r-[5px] border-r-transparent border-t-[6px]'
+                        : 'border-t-[5px] border-t-transparent border-b-[5px] border-b-transparent border-l-[6px]'
+                    }`}
+                  />
+                </span>
+                <span>🎶</span>
+                <span className="flex-1 truncate text-label-black">Wavs</span>
+                <MatchBadge count={countMatches(structure.globalWavs, highlightedPaths)} />
+                <span className="text-xs text-label-gray bg-panel-dark px-1.5 py-0.5 rounded flex-shrink-0">
+                  {structure.globalWavs.length}
+                </span>
               </div>
-            )}
-          </div>
+              {wavsExpanded && (
+                <div className="ml-4 border-l border-panel-dark pl-2">
+                  {structure.globalWavs.map((sample, i) => (
+                    <SampleNode
+                      key={sample.path}
+                      sample={sample}
+                      position={i + 1}
+                      total={structure.globalWavs.length}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </SampleDropZone>
 
           {/* Recordings */}
-          <TreeNode label="Recs" icon="🎤" count={structure.recordings.length}>
-            {structure.recordings.length === 0 ? (
-              <div className="text-label-gray text-xs ml-6 py-1">No recordings</div>
-            ) : (
-              structure.recordings.map((sample) => <SampleNode key={sample.path} sample={sample} />)
-            )}
-          </TreeNode>
+          <SampleDropZone targetFolder={`${structure.rootPath}/${FOLDER_NAMES.RECS}`}>
+            <TreeNode
+              label="Recs"
+              icon="🎤"
+              count={structure.recordings.length}
+              matchCount={countMatches(structure.recordings, highlightedPaths)}
+              reveal={containsSelectedSample(structure.recordings, selection)}
+              onContextMenu={handleRecsFolderContextMenu}
+            >
+              {structure.recordings.length === 0 ? (
+                <div className="text-label-gray text-xs ml-6 py-1">No recordings</div>
+              ) : (
+                structure.recordings.map((sample, i) => (
+                  <SampleNode
+                    key={sample.path}
+                    sample={sample}
+                    position={i + 1}
+                    total={structure.recordings.length}
+                  />
+                ))
+              )}
+            </TreeNode>
+          </SampleDropZone>
+
+          {/* Global settings */}
+          {structure.hasSettings && (
+            <div
+              className={`flex items-center gap-2 py-1 px-2 rounded cursor-pointer hover:bg-panel-dark ${
+                selection.type === 'settings' ? 'bg-panel-dark' : ''
+              }`}
+              onClick={() => onSelectionChange({ type: 'settings' })}
+            >
+              <span className="w-4" />
+              <span>⚙️</span>
+              <span className="flex-1 truncate text-label-black">Settings.mgs</span>
+            </div>
+          )}
         </TreeNode>
 
         {/* Import Dialog */}
@@ -952,6 +1471,176 @@ export const FileTree: React.FC<FileTreeProps> = ({
           onCreateProject={handleCreateProject}
         />
 
+        {/* Preset Copy / Move / Swap Dialog */}
+        {presetTransfer && (
+          <PresetTransferDialog
+            key={`${presetTransfer.mode}-${presetTransfer.preset.path}`}
+            isOpen={true}
+            mode={presetTransfer.mode}
+            preset={presetTransfer.preset}
+            sourceProject={presetTransfer.project}
+            structure={structure}
+            onClose={() => setPresetTransfer(null)}
+            onComplete={handlePresetTransferComplete}
+          />
+        )}
+
+        {/* Sample Move / Copy Dialog */}
+        {sampleTransfer && (
+          <SampleTransferDialog
+            key={`${sampleTransfer.mode}-${sampleTransfer.samples[0].path}`}
+            isOpen={true}
+            samples={sampleTransfer.samples}
+            structure={structure}
+            initialMode={sampleTransfer.mode}
+            initialTargetFolder={sampleTransfer.targetFolder}
+            onClose={() => setSampleTransfer(null)}
+            onComplete={handleSampleTransferComplete}
+          />
+        )}
+
+        {/* Save Autosave as Preset Dialog */}
+        {autosaveProject && (
+          <SaveAutosaveDialog
+            key={autosaveProject.path}
+            isOpen={true}
+            project={autosaveProject}
+            onClose={() => setAutosaveProject(null)}
+            onComplete={handlePresetTransferComplete}
+          />
+        )}
+
+        {/* Batch Preset Names Dialog */}
+        {presetNamesProject && (
+          <PresetNamesDialog
+            key={presetNamesProject.path}
+            isOpen={true}
+            project={presetNamesProject}
+            onClose={() => setPresetNamesProject(null)}
+            onComplete={() => {
+              setPresetNamesProject(null);
+              onImportComplete?.(); // Reload structure
+            }}
+          />
+        )}
+
+        {/* Repair Missing Samples Dialog */}
+        {repairSamplesOpen && (
+          <RepairSamplesDialog
+            isOpen={true}
+            structure={structure}
+            onClose={() => setRepairSamplesOpen(false)}
+            onComplete={() => {
+              setRepairSamplesOpen(false);
+              onImportComplete?.(); // Reload structure
+            }}
+          />
+        )}
+
+        {/* Unused Samples Dialog */}
+        {unusedSamplesOpen && (
+          <UnusedSamplesDialog
+            isOpen={true}
+            structure={structure}
+            onClose={() => setUnusedSamplesOpen(false)}
+            onComplete={() => {
+              setUnusedSamplesOpen(false);
+              onImportComplete?.(); // Reload structure
+            }}
+          />
+        )}
+
+        {/* Trash Dialog */}
+        {trashOpen && (
+          <TrashDialog
+            isOpen={true}
+            structure={structure}
+            onClose={() => setTrashOpen(false)}
+            onComplete={() => onImportComplete?.()} // Reload structure, the dialog stays open
+          />
+        )}
+
+        {/* Duplicate Samples Dialog */}
+        {duplicateSamplesOpen && (
+          <DuplicateSamplesDialog
+            isOpen={true}
+            structure={structure}
+            onClose={() => setDuplicateSamplesOpen(false)}
+            onComplete={() => onImportComplete?.()} // Reload structure, the dialog rescans
+          />
+        )}
+
+        {/* Sample Index Order Dialog */}
+        {sampleIndexView && (
+          <SampleIndexDialog
+            isOpen={true}
+            structure={structure}
+            initialFolderPath={sampleIndexView.folderPath}
+            onClose={() => setSampleIndexView(null)}
+            onAddNumberPrefixes={(folderPath, folderName) => {
+              setSampleIndexView(null);
+              handlePreviewNumberPrefixes(folderPath, folderName);
+            }}
+            onReorder={(folderPath, folderName) => {
+              setSampleIndexView(null);
+              if (folderPath === `${structure.rootPath}/${FOLDER_NAMES.RECS}`) {
+                setRecsOrderOpen(true);
+              } else {
+                setSampleReorder({ folderPath, folderName });
+              }
+            }}
+          />
+        )}
+
+        {/* Batch Rename Dialog */}
+        {batchRenamePaths && (
+          <BatchRenameDialog
+            isOpen={true}
+            structure={structure}
+            initialPaths={batchRenamePaths}
+            onClose={() => setBatchRenamePaths(null)}
+            onComplete={handleBatchRenameComplete}
+          />
+        )}
+
+        {/* Reorder Samples Dialog */}
+        {sampleReorder && (
+          <SampleReorderDialog
+            isOpen={true}
+            folderName={sampleReorder.folderName}
+            samples={
+              structure.projects.find((p) => p.path === sampleReorder.folderPath)?.samples ??
+              structure.globalWavs
+            }
+            onClose={() => setSampleReorder(null)}
+            onContinue={(order) => {
+              const { folderPath, folderName } = sampleReorder;
+              setSampleReorder(null);
+              handlePreviewNumberPrefixes(folderPath, folderName, order);
+            }}
+          />
+        )}
+
+        {/* Reorder Recordings Dialog */}
+        {recsOrderOpen && (
+          <RecsOrderDialog
+            isOpen={true}
+            structure={structure}
+            onClose={() => setRecsOrderOpen(false)}
+            onComplete={() => onImportComplete?.()} // Reload structure, the list follows it
+          />
+        )}
+
+        {/* WAV Structure Dialog */}
+        {wavStructureOpen && (
+          <WavStructureDialog
+            isOpen={true}
+            structure={structure}
+            onClose={() => setWavStructureOpen(false)}
+            onComplete={() => onImportComplete?.()} // Reload structure, the dialog rescans
+          />
+        )}
+
         {/* Context Menu */}
         {contextMenu && (
           <ContextMenu
@@ -963,33 +1652,39 @@ export const FileTree: React.FC<FileTreeProps> = ({
         )}
 
         {/* Delete Confirmation Dialog */}
-        {deleteConfirm && (
+        {deleteConfirm?.type === 'project' && (
           <ConfirmDialog
             isOpen={true}
-            title={deleteConfirm.type === 'project' ? 'Delete Project' : 'Delete Sample'}
-            message={
-              deleteConfirm.type === 'project'
-                ? `Are you sure you want to delete project "${formatProjectDisplayName(
-                    (deleteConfirm.item as Project).index,
-                    (deleteConfirm.item as Project).name,
-                    (deleteConfirm.item as Project).customName
-                  )}"?\n\nThis will permanently delete the project folder and all its contents including:\n- All presets (up to 48)\n- All samples in the project folder\n- All metadata\n\nThis action cannot be undone.`
-                : `Are you sure you want to delete sample "${(deleteConfirm.item as WavFile).name}"?\n\nThis action cannot be undone.`
-            }
-            confirmLabel={deleteConfirm.type === 'project' ? 'Delete Project' : 'Delete Sample'}
+            title="Delete Project"
+            message={`Are you sure you want to delete project "${formatProjectDisplayName(
+              (deleteConfirm.item as Project).index,
+              (deleteConfirm.item as Project).name,
+              (deleteConfirm.item as Project).customName
+            )}"?\n\nThis will move the project folder and all its contents to the Trash, including:\n- All presets (up to 48)\n- All samples in the project folder\n- All metadata${
+              deleteConfirm.unusedSamples?.length
+                ? describeUnusedSamples(deleteConfirm.unusedSamples)
+                : ''
+            }\n\nIt can be restored from the Trash on the card's context menu.`}
+            confirmLabel="Delete Project"
             cancelLabel="Cancel"
             confirmVariant="danger"
-            onConfirm={() => {
-              if (deleteConfirm.type === 'project') {
-                handleDeleteProject(deleteConfirm.item as Project);
-              } else {
-                handleDeleteSample(deleteConfirm.item as WavFile);
-              }
-            }}
+            onConfirm={() => handleDeleteProject(deleteConfirm.item as Project)}
             onCancel={() => setDeleteConfirm(null)}
           />
         )}
 
+        {/* Delete Sample Dialog - checks which presets still use the sample */}
+        {deleteConfirm?.type === 'sample' && (
+          <DeleteSampleDialog
+            key={(deleteConfirm.item as WavFile).path}
+            isOpen={true}
+            sample={deleteConfirm.item as WavFile}
+            structure={structure}
+            onClose={() => setDeleteConfirm(null)}
+            onDeleted={() => handleSampleDeleted(deleteConfirm.item as WavFile)}
+          />
+        )}
+
         {/* Number Prefixes Confirmation Dialog */}
         {numberingPreview && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -997,25 +1692,57 @@ export const FileTree: React.FC<FileTreeProps> = ({
               <div className="p-4 border-b border-panel-dark">
                 <h2 className="text-lg font-semibold text-label-black">Add Number Prefixes</h2>
                 <p className="text-sm text-label-gray mt-1">
-                  Add number prefixes to samples in {numberingPreview.folderName}
+                  {numberingPreview.order ? 'Renumber' : 'Add number prefixes to'} samples in{' '}
+                  {numberingPreview.folderName}
                 </p>
               </div>
 
               <div className="p-4 overflow-y-auto flex-1">
-                {numberingPreview.presetWarnings.length > 0 && (
-                  <div className="mb-4 p-3 bg-yellow-50 rounded border border-yellow-300">
-                    <p className="text-sm font-medium text-yellow-800 mb-1">
-                      ⚠ Preset references will break
+                {numberingPreview.presetOverflows.length > 0 && (
+                  <div className="mb-4 p-3 bg-button-red bg-opacity-10 rounded border border-button-red">
+                    <p className="text-sm font-medium text-button-red mb-1">
+                      ✕ New names do not fit some presets
                     </p>
-                    <p className="text-sm text-yellow-700 mb-2">
+                    <p className="text-sm text-label-black mb-2">
+                      Preset files store sample names in a fixed-size field. Shorten these samples
+                      before renumbering:
+                    </p>
+                    <ul className="text-sm text-label-black space-y-0.5">
+                      {numberingPreview.presetOverflows.map((o) => (
+                        <li
+                          key={`${o.presetPath}-${o.soundNumber}`}
+                          className="truncate"
+                          title={o.newName}
+                        >
+                          {o.projectName}/{o.presetName} Sound {o.soundNumber}: {o.newName} (max{' '}
+                          {o.maxLength})
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {numberingPreview.presetUpdates.length > 0 && (
+                  <div className="mb-4 p-3 bg-panel-light rounded border border-panel-dark">
+                    <p className="text-sm font-medium text-label-black mb-1">
+                      Preset references will be updated
+                    </p>
+                    <p className="text-sm text-label-gray mb-2">
                       The following{' '}
-                      {numberingPreview.presetWarnings.length === 1 ? 'preset' : 'presets'} will
-                      have missing sample references after renaming:
+                      {numberingPreview.presetUpdates.length === 1 ? 'preset' : 'presets'} will be
+                      updated to point at the new names:
                     </p>
-                    <ul className="text-sm text-yellow-800 space-y-0.5">
-                      {numberingPreview.presetWarnings.map((name) => (
-                        <li key={name} className="font-medium truncate" title={name}>
-                          {name}
+                    <ul className="text-sm text-label-black space-y-0.5">
+                      {numberingPreview.presetUpdates.map((update) => (
+                        <li
+                          key={update.presetPath}
+                          className="font-medium truncate"
+                          title={update.presetPath}
+                        >
+                          {update.projectName}/{update.presetName}{' '}
+                          <span className="font-normal text-label-gray">
+                            (Sound {update.sounds.map((sound) => sound.soundNumber).join(', ')})
+                          </span>
                         </li>
                       ))}
                     </ul>
@@ -1078,7 +1805,7 @@ export const FileTree: React.FC<FileTreeProps> = ({
                 </button>
                 <button
                   onClick={handleApplyNumberPrefixes}
-                  disabled={isApplyingNumbering}
+                  disabled={isApplyingNumbering || numberingPreview.presetOverflows.length > 0}
                   className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:opacity-50"
                 >
                   {isApplyingNumbering ? 'Applying...' : 'Apply Prefixes'}
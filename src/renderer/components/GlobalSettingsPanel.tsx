@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { GlobalSettings, GlobalSettingsUpdate, MultigainStructure } from '../../shared/types';
+import { formatProjectDisplayName } from '../../shared/constants';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+import { UnknownRanges } from './PresetDataView';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface GlobalSettingsPanelProps {
+  structure: MultigainStructure;
+}
+
+type EditableField = keyof GlobalSettingsUpdate;
+
+const NUMBER_FIELDS: Array<{ field: Exclude<EditableField, 'latestProject'>; label: string }> = [
+  { field: 'inputTrim', label: 'Input Trim' },
+  { field: 'resampling', label: 'Resampling' },
+  { field: 'normalize', label: 'Normalize' },
+  { field: 'theme', label: 'Theme' },
+  { field: 'threshold', label: 'Threshold' },
+  { field: 'blur', label: 'Blur' },
+];
+
+const toDraft = (settings: GlobalSettings): Record<EditableField, string> => ({
+  latestProject: String(settings.latestProject),
+  inputTrim: String(settings.inputTrim),
+  resampling: String(settings.resampling),
+  normalize: String(settings.normalize),
+  theme: String(settings.theme),
+  threshold: String(settings.threshold),
+  blur: String(settings.blur),
+});
+
+/**
+ * Decoded Settings.mgs with an editor for the module-wide settings.
+ * Raw stored values are shown; field positions are still a working hypothesis,
+ * so saving is experimental and has to be confirmed every time.
+ */
+export const GlobalSettingsPanel: React.FC<GlobalSettingsPanelProps> = ({ structure }) => {
+  const { showError, showSuccess } = useErrorDialog();
+  const [settings, setSettings] = useState<GlobalSettings | null>(null);
+  const [draft, setDraft] = useState<Record<EditableField, string> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmSave, setConfirmSave] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadSettings = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await window.electronAPI.readGlobalSettings(structure.rootPath);
+        if (cancelled) return;
+        if (result.success && result.settings) {
+          setSettings(result.settings);
+          setDraft(toDraft(result.settings));
+        } else {
+          setError(result.error || 'Failed to read Settings.mgs');
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, [structure.rootPath]);
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-label-gray text-sm">Loading settings...</div>;
+  }
+  if (error || !settings || !draft) {
+    return <div className="text-center py-4 text-button-red text-sm">Error: {error}</div>;
+  }
+
+  const savedDraft = toDraft(settings);
+  const changedFields = (Object.keys(draft) as EditableField[]).filter(
+    (field) => draft[field].trim() !== savedDraft[field]
+  );
+  const hasInvalidValue = changedFields.some((field) => !/^-?\d+$/.test(draft[field].trim()));
+
+  const handleSave = async () => {
+    setConfirmSave(false);
+    const updates: GlobalSettingsUpdate = Object.fromEntries(
+      changedFields.map((field) => [field, Number(draft[field])])
+    );
+
+    setIsSaving(true);
+    try {
+      const result = await window.electronAPI.writeGlobalSettings(structure.rootPath, updates);
+      if (result.success && result.settings) {
+        setSettings(result.settings);
+        setDraft(toDraft(result.settings));
+        showSuccess('Settings.mgs has been updated.', 'Settings Saved');
+      } else {
+        showError('Failed to save settings.', 'Save Failed', result.error);
+      }
+    } catch (err) {
+      showError(
+        'Failed to save settings.',
+        'Save Failed',
+        err instanceof Error ? err.message : String(err)
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const bootProjectExists = structure.projects.some(
+    (project) => String(project.index) === draft.latestProject
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded border-2 border-panel-dark p-4 space-y-4">
+        <div>
+          <h3 className="text-lg font-medium text-label-black">Global Settings</h3>
+          <p className="text-xs text-label-gray">
+            Settings.mgs • {settings.fileSize} bytes • {settings.sessionCount} sessions
+          </p>
+        </div>
+
+        {/* Boot project */}
+        <div>
+          <label className="block text-sm font-medium text-label-blue mb-1" htmlFor="boot-project">
+            Latest Project
+          </label>
+          <select
+            id="boot-project"
+            value={draft.latestProject}
+            onChange={(e) => setDraft({ ...draft, latestProject: e.target.value })}
+            className="w-full px-3 py-1.5 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+          >
+            {!bootProjectExists && (
+              <option value={draft.latestProject}>
+                Project {draft.latestProject.padStart(2, '0')} (not on card)
+              </option>
+            )}
+            {structure.projects.map((project) => (
+              <option key={project.path} value={String(project.index)}>
+                {formatProjectDisplayName(project.index, project.name, project.customName)}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-label-gray">
+            The project the module loads when it boots.
+          </p>
+        </div>
+
+        {/* Raw values */}
+        <div className="grid grid-cols-2 gap-3">
+          {NUMBER_FIELDS.map(({ field, label }) => (
+            <label key={field} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-label-gray">{label}</span>
+              <input
+                type="number"
+                aria-label={label}
+                value={draft[field]}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                className="w-24 px-2 py-1 text-sm font-mono text-right border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-label-gray">
+            <span className="font-medium text-button-red">Experimental:</span> field positions are
+            not confirmed. A backup of Settings.mgs is saved on this computer before it is changed.
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setDraft(savedDraft)}
+              disabled={isSaving || changedFields.length === 0}
+              className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+            >
+              Reset
+            </button>
+            <button
+              onClick={() => setConfirmSave(true)}
+              disabled={isSaving || changedFields.length === 0 || hasInvalidValue}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <UnknownRanges ranges={settings.unknownRanges} />
+
+      <ConfirmDialog
+        isOpen={confirmSave}
+        title="Experimental: Save Settings.mgs"
+        message={
+          'The positions of these settings in Settings.mgs are a working hypothesis and have ' +
+          'not been confirmed on a real module. Saving may change the wrong settings, or leave ' +
+          'a file the module cannot read.\n\n' +
+          'A backup is saved on this computer first; restore it if the module behaves ' +
+          'unexpectedly. Save anyway?'
+        }
+        confirmLabel="Save Anyway"
+        confirmVariant="danger"
+        onConfirm={handleSave}
+        onCancel={() => setConfirmSave(false)}
+      />
+    </div>
+  );
+};
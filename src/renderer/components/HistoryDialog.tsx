@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryState } from '../../shared/types';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+
+interface HistoryDialogProps {
+  isOpen: boolean;
+  rootPath: string;
+  revision: number; // Reload when it changes
+  isWorking: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Changes made to the card through the app, newest first. Undone changes stay
+ * listed until a new change replaces them, so they can be redone.
+ */
+export function HistoryDialog({
+  isOpen,
+  rootPath,
+  revision,
+  isWorking,
+  onUndo,
+  onRedo,
+  onClose,
+}: HistoryDialogProps) {
+  const { showError } = useErrorDialog();
+  const [history, setHistory] = useState<HistoryState | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const result = await window.electronAPI.getHistory(rootPath);
+        if (cancelled) return;
+        if (result.success && result.entries) {
+          setHistory({ entries: result.entries, invalidated: result.invalidated });
+        } else {
+          showError('Failed to read the history.', 'History', result.error);
+        }
+      } catch (error) {
+        if (cancelled) return;
+        showError(
+          'Failed to read the history.',
+          'History',
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, rootPath, revision, reloadCount]);
+
+  if (!isOpen) return null;
+
+  const entries = history?.entries ?? [];
+  const canUndo = entries.some((entry) => !entry.undone);
+  const canRedo = entries.some((entry) => entry.undone);
+
+  const handleClear = async () => {
+    try {
+      const result = await window.electronAPI.clearHistory(rootPath);
+      if (!result.success) {
+        showError('Failed to clear the history.', 'History', result.error);
+      }
+    } catch (error) {
+      showError(
+        'Failed to clear the history.',
+        'History',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setReloadCount((n) => n + 1);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">History</h2>
+          <button onClick={onClose} className="text-label-gray hover:text-label-black">
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          {history?.invalidated && (
+            <div className="p-3 bg-yellow-50 border border-yellow-300 rounded text-sm text-label-black whitespace-pre-line">
+              {history.invalidated}
+            </div>
+          )}
+
+          {!history && (
+            <div className="text-center py-8 text-label-gray text-sm">Reading history...</div>
+          )}
+
+          {history && entries.length === 0 && (
+            <div className="text-center py-8 text-label-gray text-sm">
+              No changes to undo. Changes made through the app are listed here, except Recs
+              reorders, which have their own Undo Reorders.
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <ul className="bg-white rounded border-2 border-panel-dark divide-y divide-panel-dark">
+              {entries.map((entry) => (
+                <li
+                  key={entry.id}
+                  className={`px-3 py-2 flex items-center gap-2 text-sm ${
+                    entry.undone ? 'text-label-gray' : 'text-label-black'
+                  }`}
+                >
+                  <span className={`flex-1 truncate ${entry.undone ? 'line-through' : ''}`}>
+                    {entry.label}
+                  </span>
+                  {entry.undone && <span className="text-xs">undone</span>}
+                  <span className="text-xs text-label-gray whitespace-nowrap">
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex items-center justify-between gap-2">
+          <button
+            onClick={handleClear}
+            disabled={isWorking || entries.length === 0}
+            className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear History
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onUndo}
+              disabled={isWorking || !canUndo}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+              title="Ctrl+Z"
+            >
+              Undo
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={isWorking || !canRedo}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+              title="Ctrl+Shift+Z"
+            >
+              Redo
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
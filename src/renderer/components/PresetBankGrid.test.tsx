@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PresetBankGrid } from './PresetBankGrid';
+import {
+  createMockPreset,
+  createMockProject,
+  createMockSample,
+  createMockStructure,
+} from '../../test/helpers';
+import { ErrorDialogProvider } from '../contexts/ErrorDialogContext';
+
+const renderWithProvider = (component: React.ReactElement) => {
+  return render(<ErrorDialogProvider>{component}</ErrorDialogProvider>);
+};
+
+describe('PresetBankGrid', () => {
+  const preset1 = createMockPreset({
+    name: 'Preset01',
+    path: '/test/Project01/Preset01.mgp',
+    index: 1,
+  });
+  const preset10 = createMockPreset({
+    name: 'Preset10',
+    path: '/test/Project01/Preset10.mgp',
+    index: 10,
+    customName: 'Drones',
+  });
+  const project = createMockProject({
+    name: 'Project01',
+    path: '/test/Project01',
+    index: 1,
+    presets: [preset1, preset10],
+    samples: [createMockSample({ name: 'kick.wav', path: '/test/Project01/kick.wav' })],
+  });
+  const structure = createMockStructure({ projects: [project] });
+
+  const onSelectPreset = vi.fn();
+  const onPresetsChanged = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(window.electronAPI.readPresetSamples).mockImplementation(async (presetPath) => ({
+      success: true,
+      samples: presetPath === preset1.path ? ['kick.wav', 'gone.wav', 'lost.wav'] : ['kick.wav'],
+      folders: presetPath === preset1.path ? ['PROJECT', 'PROJECT', 'WAVS'] : ['PROJECT'],
+    }));
+    vi.mocked(window.electronAPI.transferPreset).mockResolvedValue({
+      success: true,
+      targetPath: '/test/Project01/Preset02.mgp',
+    });
+  });
+
+  const dragPreset = (fromSlot: number, toSlot: number) => {
+    const dataTransfer = { effectAllowed: '', dropEffect: '' };
+    fireEvent.dragStart(screen.getByTestId(`preset-bank-slot-${fromSlot}`), { dataTransfer });
+    fireEvent.dragOver(screen.getByTestId(`preset-bank-slot-${toSlot}`), { dataTransfer });
+    fireEvent.drop(screen.getByTestId(`preset-bank-slot-${toSlot}`), { dataTransfer });
+  };
+
+  const renderGrid = () =>
+    renderWithProvider(
+      <PresetBankGrid
+        project={project}
+        structure={structure}
+        onSelectPreset={onSelectPreset}
+        onPresetsChanged={onPresetsChanged}
+      />
+    );
+
+  it('shows occupied slots, custom names and missing sample counts', async () => {
+    renderGrid();
+
+    expect(screen.getByTestId('preset-bank-slot-1')).toHaveTextContent('Preset01');
+    expect(screen.getByTestId('preset-bank-slot-10')).toHaveTextContent('Drones');
+    expect(screen.getByTestId('preset-bank-slot-2')).toHaveAttribute('title', 'Preset 2 (empty)');
+
+    await waitFor(() => {
+      expect(screen.getByTitle('2 missing samples')).toBeInTheDocument();
+    });
+    expect(screen.getByTestId('preset-bank-slot-10')).not.toHaveTextContent('missing');
+  });
+
+  it('opens a preset when its slot is clicked', async () => {
+    const user = userEvent.setup();
+    renderGrid();
+
+    await user.click(screen.getByTestId('preset-bank-slot-10'));
+
+    expect(onSelectPreset).toHaveBeenCalledWith(preset10);
+  });
+
+  it('moves a preset dropped on an empty slot and swaps when the slot is used', async () => {
+    renderGrid();
+
+    dragPreset(1, 2);
+    expect(window.electronAPI.transferPreset).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole('button', { name: 'Move Preset Anyway' }));
+
+    await waitFor(() => {
+      expect(window.electronAPI.transferPreset).toHaveBeenCalledWith({
+        presetPath: preset1.path,
+        targetProjectPath: project.path,
+        targetSlot: 2,
+        mode: 'move',
+        copySamples: false,
+      });
+    });
+    await waitFor(() => expect(onPresetsChanged).toHaveBeenCalled());
+
+    dragPreset(1, 10);
+    fireEvent.click(screen.getByRole('button', { name: 'Swap Presets Anyway' }));
+
+    await waitFor(() => {
+      expect(window.electronAPI.transferPreset).toHaveBeenLastCalledWith(
+        expect.objectContaining({ targetSlot: 10, mode: 'swap' })
+      );
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { MultigainStructure, Preset, Project } from '../../shared/types';
+import {
+  BANK_NAMES,
+  STORAGE_LIMITS,
+  formatPresetDisplayName,
+  formatProjectDisplayName,
+} from '../../shared/constants';
+import { resolvePresetSample } from '../../shared/sampleResolution';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+import { ExperimentalWriteDialog, ExperimentalWriteNote } from './ExperimentalWriteDialog';
+
+interface PresetBankGridProps {
+  project: Project;
+  structure: MultigainStructure;
+  onSelectPreset: (preset: Preset) => void;
+  onPresetsChanged: () => void; // Presets were moved or swapped on disk
+}
+
+const SLOTS_PER_BANK = STORAGE_LIMITS.PRESETS_PER_PROJECT / BANK_NAMES.length;
+
+interface PendingDrop {
+  source: Preset;
+  slot: number;
+  mode: 'move' | 'swap';
+}
+
+/**
+ * Project overview showing the 48 presets laid out like the module's banks.
+ * Drag a preset onto an empty slot to move it, or onto another preset to swap.
+ */
+export function PresetBankGrid({
+  project,
+  structure,
+  onSelectPreset,
+  onPresetsChanged,
+}: PresetBankGridProps) {
+  const { showError } = useErrorDialog();
+  // Missing sample count per preset path, filled in as presets are read
+  const [missingCounts, setMissingCounts] = useState<Record<string, number>>({});
+  const [draggedSlot, setDraggedSlot] = useState<number | null>(null);
+  const [dropSlot, setDropSlot] = useState<number | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  // Drop waiting for the experimental preset number write to be confirmed
+  const [pendingDrop, setPendingDrop] = useState<PendingDrop | null>(null);
+
+  const presetsBySlot = new Map(project.presets.map((preset) => [preset.index, preset]));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadMissingCounts = async () => {
+      const counts: Record<string, number> = {};
+      await Promise.all(
+        project.presets.map(async (preset) => {
+          try {
+            const result = await window.electronAPI.readPresetSamples(preset.path);
+            if (!result?.success || !result.samples) return;
+            counts[preset.path] = result.samples.filter(
+              (name, index) =>
+                resolvePresetSample(name, result.folders?.[index], project, structure).status ===
+                'missing'
+            ).length;
+          } catch {
+            // Leave the count out - the preset is still shown
+          }
+        })
+      );
+      if (!cancelled) {
+        setMissingCounts(counts);
+      }
+    };
+
+    loadMissingCounts();
+    return () => {
+      cancelled = true;
+    };
+  }, [project, structure]);
+
+  const handleDrop = async (e: React.DragEvent, slot: number) => {
+    e.preventDefault();
+    setDropSlot(null);
+    const sourceSlot = draggedSlot;
+    setDraggedSlot(null);
+    if (sourceSlot === null || sourceSlot === slot) return;
+
+    const source = presetsBySlot.get(sourceSlot);
+    if (!source) return;
+
+    setPendingDrop({ source, slot, mode: presetsBySlot.has(slot) ? 'swap' : 'move' });
+  };
+
+  const handleTransfer = async ({ source, slot, mode }: PendingDrop) => {
+    setPendingDrop(null);
+    setIsMoving(true);
+    try {
+      const result = await window.electronAPI.transferPreset({
+        presetPath: source.path,
+        targetProjectPath: project.path,
+        targetSlot: slot,
+        mode,
+        copySamples: false,
+      });
+      if (result.success) {
+        onPresetsChanged();
+      } else {
+        showError(`Failed to ${mode} preset.`, 'Preset Error', result.error);
+      }
+    } catch (error) {
+      showError(
+        `Failed to ${mode} preset.`,
+        'Preset Error',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded border-2 border-panel-dark p-4">
+        <div className="flex items-center gap-3 mb-2">
+          <h3 className="text-lg font-medium text-label-black">
+            {formatProjectDisplayName(project.index, project.name, project.customName)}
+          </h3>
+          {project.autosave && (
+            <button
+              onClick={() => project.autosave && onSelectPreset(project.autosave)}
+              className="ml-auto px-3 py-1 text-xs bg-green-600 hover:bg-green-700 text-white rounded"
+            >
+              Open Autosave
+            </button>
+          )}
+        </div>
+        <div className="text-sm text-label-gray">
+          {project.presets.length} of {STORAGE_LIMITS.PRESETS_PER_PROJECT} presets •{' '}
+          {project.samples.length} samples
+        </div>
+      </div>
+
+      <div className="bg-white rounded border-2 border-panel-dark p-4">
+        <h4 className="text-sm font-medium text-label-blue mb-3">Preset Banks</h4>
+        <div className={`space-y-1 ${isMoving ? 'opacity-50 pointer-events-none' : ''}`}>
+          {BANK_NAMES.map((bankName, bankIndex) => (
+            <div key={bankName} className="flex items-stretch gap-1">
+              <span className="w-6 flex items-center text-xs font-medium text-label-gray">
+                {bankName}
+              </span>
+              {Array.from({ length: SLOTS_PER_BANK }, (_, positionIndex) => {
+                const slot = bankIndex * SLOTS_PER_BANK + positionIndex + 1;
+                const preset = presetsBySlot.get(slot);
+                const missing = preset ? missingCounts[preset.path] : undefined;
+
+                return (
+                  <div
+                    key={slot}
+                    data-testid={`preset-bank-slot-${slot}`}
+                    draggable={!!preset}
+                    onDragStart={(e) => {
+                      setDraggedSlot(slot);
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onDragOver={(e) => {
+                      if (draggedSlot === null) return;
+                      e.preventDefault();
+                      e.dataTransfer.dropEffect = 'move';
+                      setDropSlot(slot);
+                    }}
+                    onDragLeave={() =>
+                      setDropSlot((current) => (current === slot ? null : current))
+                    }
+                    onDrop={(e) => handleDrop(e, slot)}
+                    onDragEnd={() => {
+                      setDraggedSlot(null);
+                      setDropSlot(null);
+                    }}
+                    onClick={() => preset && onSelectPreset(preset)}
+                    title={
+                      preset
+                        ? formatPresetDisplayName(preset.name, preset.customName)
+                        : `Preset ${slot} (empty)`
+                    }
+                    className={`flex-1 min-w-0 h-14 p-1 rounded border text-xs flex flex-col justify-between ${
+                      dropSlot === slot && draggedSlot !== slot
+                        ? 'border-label-blue bg-label-blue bg-opacity-10'
+                        : preset
+                          ? 'border-panel-dark bg-panel-light hover:border-label-blue cursor-pointer'
+                          : 'border-dashed border-panel-dark text-label-gray'
+                    } ${draggedSlot === slot ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-center justify-between gap-1">
+                      <span className={preset ? 'font-medium text-label-black' : ''}>
+                        {positionIndex + 1}
+                      </span>
+                      {!!missing && (
+                        <span
+                          className="px-1 rounded bg-button-red text-white"
+                          title={`${missing} missing sample${missing === 1 ? '' : 's'}`}
+                        >
+                          {missing}
+                        </span>
+                      )}
+                    </div>
+                    {preset && (
+                      <span className="truncate text-label-gray">
+                        {preset.customName || preset.name}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 pt-3 text-xs text-label-gray">
+          <span className="flex items-center gap-1">
+            <span className="inline-block px-1 rounded bg-button-red text-white">n</span> Missing
+            samples
+          </span>
+          <span>Drag a preset onto an empty slot to move it, or onto another preset to swap.</span>
+          <ExperimentalWriteNote fields={['presetNumber']} />
+        </div>
+      </div>
+
+      <ExperimentalWriteDialog
+        isOpen={pendingDrop !== null}
+        action={pendingDrop?.mode === 'swap' ? 'Swap Presets' : 'Move Preset'}
+        fields={['presetNumber']}
+        onConfirm={() => pendingDrop && handleTransfer(pendingDrop)}
+        onCancel={() => setPendingDrop(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { ModAxis, PresetData, PresetSound, UnknownByteRange } from '../../shared/types';
+
+interface PresetDataViewProps {
+  data: PresetData;
+}
+
+const MOD_AXES: ModAxis[] = ['RAND', 'X', 'Y', 'Z'];
+
+const formatOffset = (offset: number) => `0x${offset.toString(16).toUpperCase().padStart(4, '0')}`;
+
+const formatFlag = (value: boolean) => (value ? 'On' : 'Off');
+
+const SettingRow: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-label-gray">{label}</span>
+    <span className="font-mono text-label-black">{value}</span>
+  </div>
+);
+
+const SoundDetails: React.FC<{ sound: PresetSound }> = ({ sound }) => {
+  return (
+    <details className="border border-panel-dark rounded">
+      <summary className="px-3 py-2 cursor-pointer hover:bg-panel-light text-sm flex items-center gap-2">
+        <span className="font-medium text-label-black">Sound {sound.soundNumber}</span>
+        <span className="font-mono text-label-gray truncate">{sound.sampleFilename || '—'}</span>
+        {!sound.hasBlockMarker && (
+          <span className="ml-auto px-2 py-0.5 text-xs rounded bg-button-red text-white">
+            No block marker
+          </span>
+        )}
+      </summary>
+      <div className="px-3 pb-3 pt-1 space-y-3 text-xs">
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1">
+          <SettingRow
+            label="Sample Folder"
+            value={`${sound.sampleFolder} (${sound.sampleFolderRaw})`}
+          />
+          <SettingRow label="Sync Mode" value={sound.syncMode} />
+          <SettingRow label="Link Size-Pitch" value={formatFlag(sound.linkSizePitch)} />
+          <SettingRow label="Link Size-Rate" value={formatFlag(sound.linkSizeRate)} />
+          <SettingRow label="Quantizer" value={sound.quantizer} />
+          <SettingRow label="Quantize Mode" value={sound.quantizeMode} />
+          <SettingRow label="Fine Tune" value={sound.fineTune} />
+          <SettingRow label="Ping Pong" value={formatFlag(sound.pingPong)} />
+        </div>
+
+        {sound.scenes.map((scene, sceneIndex) => (
+          <div key={sceneIndex}>
+            <div className="font-medium text-label-blue mb-1">
+              Scene {sceneIndex + 1}
+              <span className="ml-2 font-normal text-label-gray">
+                Reverse: {formatFlag(scene.reverse)}
+              </span>
+            </div>
+            <table className="w-full font-mono text-right">
+              <thead>
+                <tr className="text-label-gray">
+                  <th className="text-left font-normal"></th>
+                  {scene.knobs.map((_, knobIndex) => (
+                    <th key={knobIndex} className="font-normal">
+                      K{knobIndex + 1}
+                    </th>
+                  ))}
+                  <th className="font-normal">Rev</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td className="text-left text-label-gray">Knob</td>
+                  {scene.knobs.map((value, knobIndex) => (
+                    <td key={knobIndex}>{value}</td>
+                  ))}
+                  <td>{scene.reverse ? 1 : 0}</td>
+                </tr>
+                {MOD_AXES.map((axis) => (
+                  <tr key={axis}>
+                    <td className="text-left text-label-gray">{axis}</td>
+                    {scene.modAssigns[axis].map((value, targetIndex) => (
+                      <td key={targetIndex} className={value === 0 ? 'text-label-gray' : ''}>
+                        {value}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+        <div className="text-label-gray">Block offset: {formatOffset(sound.blockOffset)}</div>
+      </div>
+    </details>
+  );
+};
+
+export const UnknownRanges: React.FC<{ ranges: UnknownByteRange[] }> = ({ ranges }) => {
+  const [showZeroRanges, setShowZeroRanges] = useState(false);
+  const visibleRanges = showZeroRanges ? ranges : ranges.filter((range) => !range.isZero);
+  const unknownBytes = ranges.reduce((total, range) => total + range.length, 0);
+
+  return (
+    <details className="border border-panel-dark rounded">
+      <summary className="px-3 py-2 cursor-pointer hover:bg-panel-light text-sm">
+        <span className="font-medium text-label-black">Unknown Byte Ranges</span>
+        <span className="ml-2 text-label-gray">
+          {ranges.length} ranges, {unknownBytes} bytes
+        </span>
+      </summary>
+      <div className="px-3 pb-3 pt-1 space-y-2 text-xs">
+        <label className="flex items-center gap-2 text-label-gray">
+          <input
+            type="checkbox"
+            checked={showZeroRanges}
+            onChange={(e) => setShowZeroRanges(e.target.checked)}
+          />
+          Show ranges that are all zero
+        </label>
+        {visibleRanges.map((range) => (
+          <div key={range.offset}>
+            <div className="text-label-gray">
+              {formatOffset(range.offset)}–{formatOffset(range.offset + range.length - 1)} (
+              {range.length} bytes)
+            </div>
+            <div className="font-mono text-label-black break-all">{range.hex}</div>
+          </div>
+        ))}
+        {visibleRanges.length === 0 && (
+          <div className="text-label-gray italic">All unknown ranges are zero</div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+/**
+ * Decoded .mgp settings. Field positions are still partly a working hypothesis,
+ * so raw values are shown as stored and undecoded bytes are listed as hex.
+ */
+export const PresetDataView: React.FC<PresetDataViewProps> = ({ data }) => {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs">
+        <SettingRow label="Preset Number" value={data.presetNumber} />
+        <SettingRow label="Latest Scene" value={data.latestScene} />
+        <SettingRow label="Latest Sound" value={data.latestSound} />
+        <SettingRow label="Mod A Out" value={data.modAOut} />
+        <SettingRow label="Mod B Out" value={data.modBOut} />
+        <SettingRow label="Input Thru" value={formatFlag(data.inputThru)} />
+        <SettingRow label="Latch" value={formatFlag(data.latch)} />
+        <SettingRow label="Sync" value={formatFlag(data.sync)} />
+        <SettingRow label="Freeze Mod Assigns" value={formatFlag(data.freezeModAssigns)} />
+      </div>
+
+      <div className="space-y-1">
+        {data.sounds.map((sound) => (
+          <SoundDetails key={sound.soundNumber} sound={sound} />
+        ))}
+      </div>
+
+      <UnknownRanges ranges={data.unknownRanges} />
+    </div>
+  );
+};
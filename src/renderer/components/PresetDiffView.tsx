@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { MultigainStructure, PresetByteRangeDiff, PresetDiff } from '../../shared/types';
+import { formatPresetDisplayName } from '../../shared/constants';
+
+interface PresetDiffViewProps {
+  leftPath: string;
+  rightPath: string;
+  structure: MultigainStructure;
+  onSwapSides?: () => void;
+}
+
+const formatOffset = (offset: number) => `0x${offset.toString(16).toUpperCase().padStart(4, '0')}`;
+
+const ByteRanges: React.FC<{ ranges: PresetByteRangeDiff[]; defaultOpen: boolean }> = ({
+  ranges,
+  defaultOpen,
+}) => {
+  const [showKnown, setShowKnown] = useState(defaultOpen);
+  const visibleRanges = showKnown ? ranges : ranges.filter((range) => !range.isKnown);
+  const differentBytes = ranges.reduce((total, range) => total + range.length, 0);
+
+  return (
+    <details className="border border-panel-dark rounded" open={defaultOpen}>
+      <summary className="px-3 py-2 cursor-pointer hover:bg-panel-light text-sm">
+        <span className="font-medium text-label-black">Raw Byte Differences</span>
+        <span className="ml-2 text-label-gray">
+          {ranges.length} ranges, {differentBytes} bytes
+        </span>
+      </summary>
+      <div className="px-3 pb-3 pt-1 space-y-2 text-xs">
+        <label className="flex items-center gap-2 text-label-gray">
+          <input
+            type="checkbox"
+            checked={showKnown}
+            onChange={(e) => setShowKnown(e.target.checked)}
+          />
+          Include ranges already listed as decoded settings
+        </label>
+        {visibleRanges.map((range) => (
+          <div key={range.offset}>
+            <div className="text-label-gray">
+              {formatOffset(range.offset)}–{formatOffset(range.offset + range.length - 1)} (
+              {range.length} bytes){!range.isKnown && ' • unknown'}
+            </div>
+            <div className="grid grid-cols-2 gap-2 font-mono break-all">
+              <div className="text-label-black">{range.leftHex || '(end of file)'}</div>
+              <div className="text-label-black">{range.rightHex || '(end of file)'}</div>
+            </div>
+          </div>
+        ))}
+        {visibleRanges.length === 0 && (
+          <div className="text-label-gray italic">Every difference is in a decoded setting</div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+/**
+ * Two presets side by side: samples per sound slot, changed settings and
+ * the raw bytes that differ
+ */
+export const PresetDiffView: React.FC<PresetDiffViewProps> = ({
+  leftPath,
+  rightPath,
+  structure,
+  onSwapSides,
+}) => {
+  const [diff, setDiff] = useState<PresetDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadDiff = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await window.electronAPI.diffPresets(leftPath, rightPath);
+        if (cancelled) return;
+        if (result.success && result.diff) {
+          setDiff(result.diff);
+        } else {
+          setError(result.error || 'Failed to compare presets');
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [leftPath, rightPath]);
+
+  // Label a preset as "Project01 / Preset03 - Name"
+  const describePreset = (presetPath: string) => {
+    for (const project of structure.projects) {
+      const preset =
+        project.presets.find((p) => p.path === presetPath) ??
+        (project.autosave?.path === presetPath ? project.autosave : undefined);
+      if (preset) {
+        return `${project.customName || project.name} / ${formatPresetDisplayName(preset.name, preset.customName)}`;
+      }
+    }
+    return presetPath;
+  };
+
+  const differentSlots = diff?.slots.filter((slot) => slot.isDifferent).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-white rounded border-2 border-panel-dark p-4">
+        <div className="flex items-center gap-3 mb-2">
+          <h3 className="text-lg font-medium text-label-black">Compare Presets</h3>
+          {onSwapSides && (
+            <button
+              onClick={onSwapSides}
+              className="ml-auto px-3 py-1 text-xs bg-button-gray hover:bg-button-dark text-white rounded"
+            >
+              ⇄ Swap Sides
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div className="font-medium text-label-black truncate" title={leftPath}>
+            {describePreset(leftPath)}
+          </div>
+          <div className="font-medium text-label-black truncate" title={rightPath}>
+            {describePreset(rightPath)}
+          </div>
+        </div>
+        {diff?.identical && (
+          <div className="mt-2 text-sm text-label-gray italic">The two files are identical.</div>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="text-center py-8 text-label-gray text-sm">Comparing presets...</div>
+      )}
+      {error && <div className="text-center py-4 text-button-red text-sm">Error: {error}</div>}
+
+      {!isLoading && diff && (
+        <>
+          {/* Samples */}
+          <div className="bg-white rounded border-2 border-panel-dark p-4">
+            <h4 className="text-sm font-medium text-label-blue mb-3">
+              Samples
+              <span className="ml-2 font-normal text-label-gray">
+                {differentSlots === 0
+                  ? 'same in every slot'
+                  : `${differentSlots} slot${differentSlots === 1 ? '' : 's'} differ`}
+              </span>
+            </h4>
+            <div className="space-y-1">
+              {diff.slots.map((slot) => (
+                <div
+                  key={slot.soundNumber}
+                  className={`grid grid-cols-[2rem_1fr_1fr] gap-2 items-center px-2 py-1 rounded text-sm ${
+                    slot.isDifferent ? 'bg-status-warning bg-opacity-10' : ''
+                  }`}
+                >
+                  <span className="text-label-gray">{slot.soundNumber}.</span>
+                  {[
+                    [slot.left, slot.leftFolder],
+                    [slot.right, slot.rightFolder],
+                  ].map(([name, folder], side) => (
+                    <span key={side} className="font-mono truncate text-label-black">
+                      {name || <span className="text-label-gray italic">(empty)</span>}
+                      {name && folder && (
+                        <span className="ml-2 text-xs text-label-gray">[{folder}]</span>
+                      )}
+                    </span>
+                  ))}
+                </div>
+              ))}
+              {diff.slots.length === 0 && (
+                <div className="text-sm text-label-gray italic">No samples in either preset</div>
+              )}
+            </div>
+          </div>
+
+          {/* Decoded settings */}
+          <div className="bg-white rounded border-2 border-panel-dark p-4">
+            <h4 className="text-sm font-medium text-label-blue mb-3">Settings</h4>
+            {diff.parameters === null ? (
+              <div className="text-sm text-label-gray italic">
+                At least one preset does not match the decoded layout, so only raw bytes can be
+                compared.
+              </div>
+            ) : diff.parameters.length === 0 ? (
+              <div className="text-sm text-label-gray italic">All decoded settings match</div>
+            ) : (
+              <table className="w-full text-xs">
+                <tbody>
+                  {diff.parameters.map((parameter, index) => (
+                    <tr key={index} className="border-b border-panel-dark last:border-0">
+                      <td className="py-1 text-label-gray">{parameter.section}</td>
+                      <td className="py-1 text-label-black">{parameter.label}</td>
+                      <td className="py-1 font-mono text-right">{parameter.left}</td>
+                      <td className="py-1 font-mono text-right">{parameter.right}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {diff.byteRanges.length > 0 && (
+            <ByteRanges ranges={diff.byteRanges} defaultOpen={diff.parameters === null} />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
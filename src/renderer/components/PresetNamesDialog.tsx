@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Project } from '../../shared/types';
+import { formatProjectDisplayName } from '../../shared/constants';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+
+interface PresetNamesDialogProps {
+  isOpen: boolean;
+  project: Project;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+/**
+ * Edit the custom names of all presets in a project at once
+ */
+export function PresetNamesDialog({
+  isOpen,
+  project,
+  onClose,
+  onComplete,
+}: PresetNamesDialogProps) {
+  const { showError } = useErrorDialog();
+  const [names, setNames] = useState<Record<string, string>>(() =>
+    Object.fromEntries(project.presets.map((preset) => [preset.path, preset.customName || '']))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!isOpen) return null;
+
+  const changed = project.presets.filter(
+    (preset) => names[preset.path].trim() !== (preset.customName || '')
+  );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electronAPI.batchWritePresetMetadata(
+        changed.map((preset) => ({ presetPath: preset.path, customName: names[preset.path] }))
+      );
+      if (result.success) {
+        onComplete();
+      } else {
+        showError('Failed to save preset names.', 'Save Failed', result.error);
+      }
+    } catch (error) {
+      showError(
+        'Failed to save preset names.',
+        'Save Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-lg w-full max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">
+            Preset Names:{' '}
+            {formatProjectDisplayName(project.index, project.name, project.customName)}
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Preset list */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-2">
+          {project.presets.map((preset) => (
+            <div key={preset.path} className="flex items-center gap-3">
+              <span className="w-24 flex-shrink-0 text-sm font-mono text-label-gray">
+                {preset.name.replace(/\.mgp$/i, '')}
+              </span>
+              <input
+                type="text"
+                value={names[preset.path]}
+                onChange={(e) => setNames({ ...names, [preset.path]: e.target.value })}
+                placeholder="No name"
+                className="flex-1 px-3 py-1.5 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex items-center justify-between">
+          <span className="text-xs text-label-gray">
+            Names are stored in .preset-metadata.json in the project folder.
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || changed.length === 0}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
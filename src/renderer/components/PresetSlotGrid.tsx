@@ -0,0 +1,70 @@
+import React from 'react';
+import { BANK_NAMES, STORAGE_LIMITS } from '../../shared/constants';
+
+interface PresetSlotGridProps {
+  occupiedSlots: Set<number>; // Preset numbers (1-48) that hold a preset
+  selectedSlot: number | null;
+  onSelectSlot: (slot: number) => void;
+  currentSlot?: number; // Slot of the preset being moved, shown but not selectable
+  isSlotDisabled?: (slot: number) => boolean;
+}
+
+const SLOTS_PER_BANK = STORAGE_LIMITS.PRESETS_PER_PROJECT / BANK_NAMES.length;
+
+/**
+ * 6 x 8 grid of preset slots laid out like the module's banks
+ */
+export function PresetSlotGrid({
+  occupiedSlots,
+  selectedSlot,
+  onSelectSlot,
+  currentSlot,
+  isSlotDisabled,
+}: PresetSlotGridProps) {
+  return (
+    <div className="space-y-1">
+      {BANK_NAMES.map((bankName, bankIndex) => (
+        <div key={bankName} className="flex items-center gap-1">
+          <span className="w-6 text-xs font-medium text-label-gray">{bankName}</span>
+          {Array.from({ length: SLOTS_PER_BANK }, (_, positionIndex) => {
+            const slot = bankIndex * SLOTS_PER_BANK + positionIndex + 1;
+            const isOccupied = occupiedSlots.has(slot);
+            const isCurrent = slot === currentSlot;
+            const isDisabled = isCurrent || (isSlotDisabled?.(slot) ?? false);
+            const isSelected = slot === selectedSlot;
+
+            return (
+              <button
+                key={slot}
+                onClick={() => onSelectSlot(slot)}
+                disabled={isDisabled}
+                title={`Preset ${slot}${isOccupied ? ' (in use)' : ' (empty)'}`}
+                className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${
+                  isSelected
+                    ? 'bg-label-blue text-white'
+                    : isCurrent
+                      ? 'bg-label-blue bg-opacity-20 text-label-blue cursor-not-allowed'
+                      : isDisabled
+                        ? 'bg-panel text-label-gray cursor-not-allowed opacity-50'
+                        : isOccupied
+                          ? 'bg-button-gray text-white hover:bg-button-dark'
+                          : 'bg-white border border-panel-dark text-label-black hover:border-label-blue'
+                }`}
+              >
+                {positionIndex + 1}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+      <div className="flex items-center gap-3 pt-1 text-xs text-label-gray">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded bg-button-gray" /> In use
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded bg-white border border-panel-dark" /> Empty
+        </span>
+      </div>
+    </div>
+  );
+}
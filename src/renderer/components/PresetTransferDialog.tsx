@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import {
+  MultigainStructure,
+  Preset,
+  PresetSampleDependency,
+  PresetTransferMode,
+  PresetTransferPlan,
+  Project,
+} from '../../shared/types';
+import { formatProjectDisplayName } from '../../shared/constants';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+import { PresetSlotGrid } from './PresetSlotGrid';
+import { ExperimentalWriteDialog, ExperimentalWriteNote } from './ExperimentalWriteDialog';
+
+interface PresetTransferDialogProps {
+  isOpen: boolean;
+  mode: PresetTransferMode;
+  preset: Preset;
+  sourceProject: Project;
+  structure: MultigainStructure;
+  onClose: () => void;
+  onComplete: (targetPath: string) => void;
+}
+
+const MODE_LABELS: Record<PresetTransferMode, { title: string; action: string }> = {
+  copy: { title: 'Copy Preset', action: 'Copy' },
+  move: { title: 'Move Preset', action: 'Move' },
+  swap: { title: 'Swap Presets', action: 'Swap' },
+};
+
+const DependencyList: React.FC<{ dependencies: PresetSampleDependency[] }> = ({ dependencies }) => (
+  <ul className="text-sm text-label-black space-y-0.5">
+    {dependencies.map((dependency) => (
+      <li key={dependency.name} className="truncate" title={dependency.sourcePath}>
+        <span className="font-mono">{dependency.name}</span>
+        <span className="text-label-gray">
+          {' '}
+          (Sound {dependency.soundNumbers.join(', ')})
+          {dependency.action === 'reuse' && ' • identical file already there'}
+          {dependency.action === 'rename' && ` • name taken, copied as ${dependency.targetName}`}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+export function PresetTransferDialog({
+  isOpen,
+  mode,
+  preset,
+  sourceProject,
+  structure,
+  onClose,
+  onComplete,
+}: PresetTransferDialogProps) {
+  const { showError } = useErrorDialog();
+  const [targetProjectPath, setTargetProjectPath] = useState(sourceProject.path);
+  const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
+  // Plan for the target it was loaded for, so picking another slot hides it
+  const [loadedPlan, setLoadedPlan] = useState<{
+    key: string;
+    plan: PresetTransferPlan | null;
+    error: string | null;
+  } | null>(null);
+  const [copySamples, setCopySamples] = useState(true);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [confirmTransfer, setConfirmTransfer] = useState(false);
+
+  const targetProject = structure.projects.find((p) => p.path === targetProjectPath);
+  const occupiedSlots = new Set(targetProject?.presets.map((p) => p.index) ?? []);
+  const isSameProject = targetProjectPath === sourceProject.path;
+  const planKey = selectedSlot === null ? null : `${targetProjectPath}:${selectedSlot}`;
+  const plan = loadedPlan && loadedPlan.key === planKey ? loadedPlan.plan : null;
+  const planError = loadedPlan && loadedPlan.key === planKey ? loadedPlan.error : null;
+
+  useEffect(() => {
+    if (!isOpen || selectedSlot === null || planKey === null) return;
+
+    let cancelled = false;
+    const loadPlan = async () => {
+      try {
+        const result = await window.electronAPI.planPresetTransfer({
+          presetPath: preset.path,
+          targetProjectPath,
+          targetSlot: selectedSlot,
+          mode,
+          copySamples,
+        });
+        if (cancelled) return;
+        if (result.success && result.plan) {
+          setLoadedPlan({ key: planKey, plan: result.plan, error: null });
+        } else {
+          setLoadedPlan({
+            key: planKey,
+            plan: null,
+            error: result.error || 'Failed to check the target slot',
+          });
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setLoadedPlan({
+            key: planKey,
+            plan: null,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    };
+
+    loadPlan();
+    return () => {
+      cancelled = true;
+    };
+    // copySamples does not change the plan
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, preset.path, targetProjectPath, selectedSlot, planKey, mode]);
+
+  if (!isOpen) return null;
+
+  const labels = MODE_LABELS[mode];
+  const hasDependencies =
+    !!plan && (plan.dependencies.length > 0 || plan.reverseDependencies.length > 0);
+  const isBlocked = !plan || (copySamples && !!plan.storageError);
+
+  const handleTransfer = async () => {
+    setConfirmTransfer(false);
+    if (selectedSlot === null || !plan) return;
+
+    setIsTransferring(true);
+    try {
+      const result = await window.electronAPI.transferPreset({
+        presetPath: preset.path,
+        targetProjectPath,
+        targetSlot: selectedSlot,
+        mode,
+        copySamples,
+      });
+      if (result.success && result.targetPath) {
+        onComplete(result.targetPath);
+      } else {
+        showError(`Failed to ${labels.action.toLowerCase()} preset.`, 'Preset Error', result.error);
+      }
+    } catch (error) {
+      showError(
+        `Failed to ${labels.action.toLowerCase()} preset.`,
+        'Preset Error',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">
+            {labels.title}: {preset.name}
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={isTransferring}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-label-black mb-2">Project</label>
+            <select
+              value={targetProjectPath}
+              onChange={(e) => {
+                setTargetProjectPath(e.target.value);
+                setSelectedSlot(null); // Slots differ per project
+              }}
+              className="w-full px-3 py-2 border border-panel-dark rounded text-sm focus:outline-none focus:border-label-blue"
+            >
+              {structure.projects.map((project) => (
+                <option key={project.path} value={project.path}>
+                  {formatProjectDisplayName(project.index, project.name, project.customName)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-label-black mb-2">
+              {mode === 'swap' ? 'Swap with' : 'Target slot'}
+            </label>
+            <PresetSlotGrid
+              occupiedSlots={occupiedSlots}
+              selectedSlot={selectedSlot}
+              onSelectSlot={setSelectedSlot}
+              currentSlot={isSameProject ? preset.index : undefined}
+              isSlotDisabled={mode === 'swap' ? (slot) => !occupiedSlots.has(slot) : undefined}
+            />
+          </div>
+
+          {planError && <div className="text-sm text-button-red">{planError}</div>}
+
+          {plan && plan.targetExists && mode !== 'swap' && (
+            <div className="p-3 bg-status-warning bg-opacity-10 rounded border border-status-warning text-sm text-label-black">
+              Preset {selectedSlot} already exists and will be replaced. A backup of it is kept on
+              this computer.
+            </div>
+          )}
+
+          {plan && hasDependencies && (
+            <div className="p-3 bg-white rounded border border-panel-dark space-y-2">
+              {plan.dependencies.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-label-black mb-1">
+                    Samples from {sourceProject.name} used by this preset
+                  </p>
+                  <DependencyList dependencies={plan.dependencies} />
+                </div>
+              )}
+              {plan.reverseDependencies.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-label-black mb-1">
+                    Samples from {targetProject?.name} used by the other preset
+                  </p>
+                  <DependencyList dependencies={plan.reverseDependencies} />
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-sm text-label-black">
+                <input
+                  type="checkbox"
+                  checked={copySamples}
+                  onChange={(e) => setCopySamples(e.target.checked)}
+                />
+                Copy these samples so the preset still loads on the module
+              </label>
+              {copySamples && plan.storageError && (
+                <p className="text-sm text-button-red">{plan.storageError}</p>
+              )}
+              {!copySamples && (
+                <p className="text-sm text-label-gray">
+                  Without the samples these sounds will show as NOT FOUND.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex items-center justify-between gap-4">
+          <ExperimentalWriteNote fields={['presetNumber']} />
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              disabled={isTransferring}
+              className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => setConfirmTransfer(true)}
+              disabled={isTransferring || isBlocked}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              {isTransferring ? 'Working...' : labels.action}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ExperimentalWriteDialog
+        isOpen={confirmTransfer}
+        action={labels.title}
+        fields={['presetNumber']}
+        onConfirm={handleTransfer}
+        onCancel={() => setConfirmTransfer(false)}
+      />
+    </div>
+  );
+}
@@ -1,18 +1,21 @@
 import React, { useEffect, useState } from 'react';
-import { Preset, MultigainStructure, WavFile, Project } from '../../shared/types';
-import { formatProjectDisplayName } from '../../shared/constants';
+import { Preset, MultigainStructure, WavFile, Project, PresetData } from '../../shared/types';
+import { formatPresetDisplayName, formatProjectDisplayName } from '../../shared/constants';
+import { resolvePresetSample, ResolvedPresetSample } from '../../shared/sampleResolution';
+import { PresetDataView } from './PresetDataView';
+import { SamplePickerDialog } from './SamplePickerDialog';
+import { SaveAutosaveDialog } from './SaveAutosaveDialog';
+import { ConfirmDialog } from './ConfirmDialog';
+import { ExperimentalWriteDialog, ExperimentalWriteNote } from './ExperimentalWriteDialog';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
 
 interface PresetViewerProps {
   preset: Preset;
   structure: MultigainStructure;
   onNavigateToSample?: (sample: WavFile) => void;
   selectedProject?: Project | null;
-}
-
-interface ResolvedSample {
-  name: string;
-  location: 'PROJECT' | 'WAVS' | 'RECS' | 'NOT_FOUND';
-  sample?: WavFile;
+  onPresetSaved?: (presetPath: string) => void; // Autosave was saved into a preset slot
+  onMetadataChange?: () => void; // Custom name or notes were saved
 }
 
 export const PresetViewer: React.FC<PresetViewerProps> = ({
@@ -20,10 +23,26 @@ export const PresetViewer: React.FC<PresetViewerProps> = ({
   structure,
   onNavigateToSample,
   selectedProject,
+  onPresetSaved,
+  onMetadataChange,
 }) => {
-  const [resolvedSamples, setResolvedSamples] = useState<ResolvedSample[]>([]);
+  const [resolvedSamples, setResolvedSamples] = useState<ResolvedPresetSample[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [presetData, setPresetData] = useState<PresetData | null>(null);
+  const [presetDataError, setPresetDataError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [assigningSound, setAssigningSound] = useState<number | null>(null);
+  const [isAssigning, setIsAssigning] = useState(false);
+  // Sample picked for the slot, waiting for the experimental write to be confirmed
+  const [pendingSample, setPendingSample] = useState<WavFile | null>(null);
+  const [isSavingAutosave, setIsSavingAutosave] = useState(false);
+  const [isEditingMetadata, setIsEditingMetadata] = useState(false);
+  const [customName, setCustomName] = useState(preset.customName || '');
+  const [notes, setNotes] = useState(preset.notes || '');
+  const [isSavingMetadata, setIsSavingMetadata] = useState(false);
+  const [confirmImportJson, setConfirmImportJson] = useState(false);
+  const { showError, showSuccess } = useErrorDialog();
 
   // Find which project this preset belongs to
   const currentProject = structure.projects.find((p) => preset.path.startsWith(p.path));
@@ -31,41 +50,47 @@ export const PresetViewer: React.FC<PresetViewerProps> = ({
   // Check if this is the Autosave preset
   const isAutosave = preset.index === 0 && preset.name === 'Autosave';
 
-  // Resolve sample locations with priority: PROJECT > WAVS > RECS
-  const resolveSampleLocation = (sampleName: string): ResolvedSample => {
-    // 1. Check current project folder first
-    if (currentProject) {
-      const projectSample = currentProject.samples.find((s) => s.name === sampleName);
-      if (projectSample) {
-        return { name: sampleName, location: 'PROJECT', sample: projectSample };
-      }
-    }
-
-    // 2. Check global WAVS folder
-    const wavsSample = structure.globalWavs.find((s) => s.name === sampleName);
-    if (wavsSample) {
-      return { name: sampleName, location: 'WAVS', sample: wavsSample };
-    }
-
-    // 3. Check RECS folder
-    const recsSample = structure.recordings.find((s) => s.name === sampleName);
-    if (recsSample) {
-      return { name: sampleName, location: 'RECS', sample: recsSample };
-    }
-
-    // Not found in any location
-    return { name: sampleName, location: 'NOT_FOUND' };
-  };
-
   useEffect(() => {
-    const loadSamples = async () => {
+    const loadPreset = async () => {
       setIsLoading(true);
       setError(null);
+      setPresetDataError(null);
+
+      let data: PresetData | null = null;
+      try {
+        const dataResult = await window.electronAPI.readPresetData(preset.path);
+        if (dataResult.success && dataResult.data) {
+          data = dataResult.data;
+        } else {
+          setPresetDataError(dataResult.error || 'Failed to decode preset');
+        }
+      } catch (err) {
+        setPresetDataError(err instanceof Error ? err.message : 'Unknown error');
+      }
+      setPresetData(data);
 
       try {
+        if (data && data.sounds.every((sound) => sound.hasBlockMarker)) {
+          // Layout matches: read all 8 slots straight from the sound blocks
+          setResolvedSamples(
+            data.sounds.map((sound) =>
+              resolvePresetSample(
+                sound.sampleFilename,
+                sound.sampleFolder,
+                currentProject,
+                structure
+              )
+            )
+          );
+          return;
+        }
+
         const result = await window.electronAPI.readPresetSamples(preset.path);
         if (result.success && result.samples) {
-          const resolved = result.samples.map(resolveSampleLocation);
+          // The folder stored in the preset is authoritative where it could be decoded
+          const resolved = result.samples.map((sampleName, index) =>
+            resolvePresetSample(sampleName, result.folders?.[index], currentProject, structure)
+          );
           setResolvedSamples(resolved);
         } else {
           setError(result.error || 'Failed to load preset samples');
@@ -77,21 +102,144 @@ export const PresetViewer: React.FC<PresetViewerProps> = ({
       }
     };
 
-    loadSamples();
+    loadPreset();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [preset.path, structure]);
+  }, [preset.path, structure, reloadKey]);
+
+  // Slots can only be reassigned when every sound block sits at its known offset
+  const canAssignSamples = !!presetData && presetData.sounds.every((s) => s.hasBlockMarker);
+
+  const handleAssignSample = async (sample: WavFile) => {
+    setPendingSample(null);
+    if (assigningSound === null) return;
+
+    setIsAssigning(true);
+    try {
+      const result = await window.electronAPI.assignPresetSample(
+        preset.path,
+        assigningSound,
+        sample.path
+      );
+      if (result.success) {
+        setAssigningSound(null);
+        setReloadKey((key) => key + 1);
+        showSuccess(
+          `Sound ${assigningSound} now uses ${sample.name}.`,
+          'Sample Assigned',
+          result.backupPath ? `Original preset backed up to:\n${result.backupPath}` : undefined
+        );
+      } else {
+        showError('Failed to assign sample.', 'Assign Failed', result.error);
+      }
+    } catch (err) {
+      showError(
+        'Failed to assign sample.',
+        'Assign Failed',
+        err instanceof Error ? err.message : String(err)
+      );
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleSaveMetadata = async () => {
+    setIsSavingMetadata(true);
+    try {
+      const result = await window.electronAPI.writePresetMetadata(preset.path, customName, notes);
+      if (result.success) {
+        setIsEditingMetadata(false);
+        onMetadataChange?.();
+      } else {
+        showError('Failed to save preset name.', 'Save Failed', result.error);
+      }
+    } catch (err) {
+      showError(
+        'Failed to save preset name.',
+        'Save Failed',
+        err instanceof Error ? err.message : String(err)
+      );
+    } finally {
+      setIsSavingMetadata(false);
+    }
+  };
+
+  const handleExportJson = async () => {
+    try {
+      const result = await window.electronAPI.exportPresetJson(preset.path);
+      if (result.canceled) return;
+      if (result.success) {
+        showSuccess('Preset exported as JSON.', 'Export Complete', result.filePath);
+      } else {
+        showError('Failed to export preset.', 'Export Failed', result.error);
+      }
+    } catch (err) {
+      showError(
+        'Failed to export preset.',
+        'Export Failed',
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+  };
+
+  const handleImportJson = async () => {
+    setConfirmImportJson(false);
+    try {
+      const result = await window.electronAPI.importPresetJson(preset.path);
+      if (result.canceled) return;
+      if (result.success) {
+        setReloadKey((key) => key + 1);
+        showSuccess(
+          'Preset rebuilt from JSON.',
+          'Import Complete',
+          result.backupPath ? `Original preset backed up to:\n${result.backupPath}` : undefined
+        );
+      } else {
+        showError('Failed to import preset.', 'Import Failed', result.error);
+      }
+    } catch (err) {
+      showError(
+        'Failed to import preset.',
+        'Import Failed',
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+  };
+
+  const handleCancelMetadata = () => {
+    setCustomName(preset.customName || '');
+    setNotes(preset.notes || '');
+    setIsEditingMetadata(false);
+  };
 
   return (
     <div className="space-y-4">
       {/* Preset Info */}
       <div className="bg-white rounded border-2 border-panel-dark p-4">
         <div className="flex items-center gap-3 mb-2">
-          <h3 className="text-lg font-medium text-label-black">{preset.name}</h3>
+          <h3 className="text-lg font-medium text-label-black">
+            {formatPresetDisplayName(preset.name, preset.customName)}
+          </h3>
           {isAutosave && (
             <span className="px-2 py-1 text-xs font-medium bg-green-600 text-white rounded">
               Current State
             </span>
           )}
+          {isAutosave && currentProject && (
+            <button
+              onClick={() => setIsSavingAutosave(true)}
+              className="ml-auto px-3 py-1 text-xs bg-label-blue hover:bg-button-dark text-white rounded"
+            >
+              Save as Preset…
+            </button>
+          )}
+          {!isAutosave && !isEditingMetadata && (
+            <button
+              onClick={() => setIsEditingMetadata(true)}
+              className="ml-auto px-3 py-1 text-xs bg-button-gray hover:bg-button-dark text-white rounded"
+            >
+              {preset.customName || preset.notes ? 'Edit Name & Notes' : 'Add Name & Notes'}
+            </button>
+          )}
         </div>
         <div className="text-sm text-label-gray">
           {isAutosave ? (
@@ -119,6 +267,49 @@ export const PresetViewer: React.FC<PresetViewerProps> = ({
             </>
           )}
         </div>
+        {isEditingMetadata ? (
+          <div className="mt-3 space-y-2">
+            <input
+              type="text"
+              value={customName}
+              onChange={(e) => setCustomName(e.target.value)}
+              placeholder="Preset name"
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveMetadata();
+                if (e.key === 'Escape') handleCancelMetadata();
+              }}
+              className="w-full px-3 py-1.5 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+            />
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes"
+              rows={3}
+              className="w-full px-3 py-1.5 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={handleCancelMetadata}
+                disabled={isSavingMetadata}
+                className="px-3 py-1 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveMetadata}
+                disabled={isSavingMetadata}
+                className="px-3 py-1 text-sm bg-label-blue hover:bg-button-dark disabled:bg-button-gray text-white rounded"
+              >
+                {isSavingMetadata ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          preset.notes && (
+            <p className="mt-2 text-sm text-label-black whitespace-pre-wrap">{preset.notes}</p>
+          )
+        )}
         {isAutosave && (
           <div className="mt-2 text-xs text-label-gray italic">
             This preset is automatically loaded when you select this project on the Multigrain
@@ -140,7 +331,8 @@ export const PresetViewer: React.FC<PresetViewerProps> = ({
         {!isLoading && !error && resolvedSamples.length > 0 && (
           <div className="space-y-2">
             {resolvedSamples.map((resolved, index) => {
-              const isClickable = resolved.location !== 'NOT_FOUND';
+              const isClickable = resolved.sample !== undefined;
+              const isEmpty = resolved.name === '';
               const locationColors = {
                 PROJECT: 'bg-label-blue text-white',
                 WAVS: 'bg-green-600 text-white',
@@ -160,7 +352,9 @@ export const PresetViewer: React.FC<PresetViewerProps> = ({
                   className={`flex items-center gap-3 p-2 rounded border border-panel-dark ${
                     isClickable
                       ? 'hover:bg-panel-light cursor-pointer hover:border-label-blue'
-                      : 'bg-button-red bg-opacity-10'
+                      : isEmpty
+                        ? ''
+                        : 'bg-button-red bg-opacity-10'
                   }`}
                   onClick={() => {
                     if (isClickable && resolved.sample) {
@@ -173,20 +367,54 @@ export const PresetViewer: React.FC<PresetViewerProps> = ({
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="text-sm text-label-black truncate font-mono">
-                      {resolved.name}
+                      {isEmpty ? (
+                        <span className="text-label-gray italic">(empty)</span>
+                      ) : (
+                        resolved.name
+                      )}
                     </div>
                     <div className="text-xs text-label-gray">
                       Sound {index + 1}
+                      {resolved.status === 'moved' &&
+                        ` • Not in ${locationLabels[resolved.location]}, found in ${resolved.foundIn.join(', ')}`}
+                      {resolved.status === 'ambiguous' &&
+                        ` • Found in ${resolved.foundIn.join(', ')}`}
                       {isClickable && ' • Click to navigate'}
                     </div>
                   </div>
-                  <div
-                    className={`flex-shrink-0 px-2 py-1 rounded text-xs font-medium ${
-                      locationColors[resolved.location]
-                    }`}
-                  >
-                    {locationLabels[resolved.location]}
-                  </div>
+                  {(resolved.status === 'moved' || resolved.status === 'ambiguous') && (
+                    <div
+                      className="flex-shrink-0 px-2 py-1 rounded text-xs font-medium bg-status-warning text-white"
+                      title={
+                        resolved.status === 'moved'
+                          ? 'The preset points at a folder that does not contain this sample'
+                          : 'The preset folder could not be read and this filename exists in several folders'
+                      }
+                    >
+                      {resolved.status === 'moved' ? 'MOVED' : 'AMBIGUOUS'}
+                    </div>
+                  )}
+                  {!isEmpty && (
+                    <div
+                      className={`flex-shrink-0 px-2 py-1 rounded text-xs font-medium ${
+                        locationColors[resolved.location]
+                      }`}
+                    >
+                      {locationLabels[resolved.location]}
+                    </div>
+                  )}
+                  {canAssignSamples && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setAssigningSound(index + 1);
+                      }}
+                      className="flex-shrink-0 px-2 py-1 rounded text-xs font-medium bg-panel-dark text-label-black hover:bg-button-gray"
+                      title={`Choose a different sample for Sound ${index + 1}`}
+                    >
+                      Change
+                    </button>
+                  )}
                 </div>
               );
             })}
@@ -204,18 +432,66 @@ export const PresetViewer: React.FC<PresetViewerProps> = ({
       <div className="bg-panel-light rounded border-2 border-panel-dark p-4">
         <div className="text-xs text-label-gray space-y-1">
           <p>
-            <span className="font-medium text-label-black">Resolution Priority:</span> Samples are
-            searched in order: PROJECT → WAVS → RECS
+            <span className="font-medium text-label-black">Sample Folder:</span> Each sound stores
+            the folder its sample is loaded from. If that cannot be read, folders are searched in
+            order: PROJECT → WAVS → RECS
           </p>
           <p className="flex items-center gap-2 flex-wrap mt-2">
             <span className="px-2 py-0.5 rounded bg-label-blue text-white">PROJECT</span>
             <span className="px-2 py-0.5 rounded bg-green-600 text-white">WAVS</span>
             <span className="px-2 py-0.5 rounded bg-purple-600 text-white">RECS</span>
             <span className="px-2 py-0.5 rounded bg-button-red text-white">NOT FOUND</span>
+            <span className="px-2 py-0.5 rounded bg-status-warning text-white">MOVED</span>
+            <span className="px-2 py-0.5 rounded bg-status-warning text-white">AMBIGUOUS</span>
           </p>
         </div>
       </div>
 
+      {/* Decoded Preset Settings */}
+      <div className="bg-white rounded border-2 border-panel-dark p-4">
+        <h4 className="text-sm font-medium text-label-blue mb-3">Preset Settings</h4>
+        {presetData && <PresetDataView data={presetData} />}
+        {presetDataError && (
+          <div className="text-center py-4 text-button-red text-sm">Error: {presetDataError}</div>
+        )}
+        {!presetData && !presetDataError && (
+          <div className="text-center py-4 text-label-gray text-sm">Decoding preset...</div>
+        )}
+      </div>
+
+      {isSavingAutosave && currentProject && (
+        <SaveAutosaveDialog
+          isOpen={true}
+          project={currentProject}
+          onClose={() => setIsSavingAutosave(false)}
+          onComplete={(targetPath) => {
+            setIsSavingAutosave(false);
+            onPresetSaved?.(targetPath);
+          }}
+        />
+      )}
+
+      <SamplePickerDialog
+        isOpen={assigningSound !== null}
+        soundNumber={assigningSound ?? 1}
+        currentSampleName={
+          assigningSound !== null ? resolvedSamples[assigningSound - 1]?.name : undefined
+        }
+        project={currentProject}
+        structure={structure}
+        isSaving={isAssigning}
+        onSelect={setPendingSample}
+        onClose={() => setAssigningSound(null)}
+      />
+
+      <ExperimentalWriteDialog
+        isOpen={pendingSample !== null}
+        action="Assign Sample"
+        fields={['sampleFolder']}
+        onConfirm={() => pendingSample && handleAssignSample(pendingSample)}
+        onCancel={() => setPendingSample(null)}
+      />
+
       {/* Technical Details */}
       <div className="bg-white rounded border-2 border-panel-dark p-4">
         <h4 className="text-sm font-medium text-label-blue mb-2">Technical Details</h4>
@@ -225,7 +501,39 @@ export const PresetViewer: React.FC<PresetViewerProps> = ({
             <div className="font-mono text-label-black break-all mt-1">{preset.path}</div>
           </div>
         </div>
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={handleExportJson}
+            className="px-3 py-1 text-xs bg-button-gray hover:bg-button-dark text-white rounded"
+            title="Save this preset as a human-readable JSON file"
+          >
+            Export JSON…
+          </button>
+          <button
+            onClick={() => setConfirmImportJson(true)}
+            className="px-3 py-1 text-xs bg-button-gray hover:bg-button-dark text-white rounded"
+            title="Replace this preset with one rebuilt from a JSON file"
+          >
+            Import JSON…
+          </button>
+        </div>
+        <div className="mt-2">
+          <ExperimentalWriteNote fields={['presetNumber']} />
+        </div>
       </div>
+
+      <ConfirmDialog
+        isOpen={confirmImportJson}
+        title="Experimental: Replace Preset?"
+        message={
+          `Replace ${formatPresetDisplayName(preset.name, preset.customName)} with a preset rebuilt from a JSON file? The current file is backed up first.\n\n` +
+          'Importing sets the preset number of the file to this slot. Where it is stored in the .mgp file is a working hypothesis and has not been confirmed on a real module.'
+        }
+        confirmLabel="Choose File…"
+        confirmVariant="danger"
+        onConfirm={handleImportJson}
+        onCancel={() => setConfirmImportJson(false)}
+      />
     </div>
   );
 };
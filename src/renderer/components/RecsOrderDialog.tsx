@@ -0,0 +1,287 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { MultigainStructure, RecsOrderPlan, RecsOrderUndo } from '../../shared/types';
+import { FOLDER_NAMES } from '../../shared/constants';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+
+interface RecsOrderDialogProps {
+  isOpen: boolean;
+  structure: MultigainStructure;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+// Recordings as the module indexes them, newest first
+const getModuleOrder = (structure: MultigainStructure) =>
+  [...structure.recordings]
+    .sort((a, b) => (a.hardwareIndex ?? 0) - (b.hardwareIndex ?? 0))
+    .map((sample) => sample.path);
+
+/**
+ * Drag-to-reorder list of Recs. The module indexes recordings by
+ * modification time, newest first, so applying the order rewrites
+ * modification times. Undo puts back the recording times from before the
+ * first reorder; reorders are not part of the card's History.
+ */
+export function RecsOrderDialog({ isOpen, structure, onClose, onComplete }: RecsOrderDialogProps) {
+  const { showError, showInfo, showSuccess } = useErrorDialog();
+  const folderPath = `${structure.rootPath}/${FOLDER_NAMES.RECS}`;
+  const [order, setOrder] = useState<string[]>(() => getModuleOrder(structure));
+  const [plan, setPlan] = useState<RecsOrderPlan | null>(null);
+  const [undo, setUndo] = useState<RecsOrderUndo | null>(null);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Start from the module's order after every structure reload
+  const [orderStructure, setOrderStructure] = useState(structure);
+  if (structure !== orderStructure) {
+    setOrderStructure(structure);
+    setOrder(getModuleOrder(structure));
+  }
+
+  // Preview the new times whenever the order changes
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const preview = async () => {
+      try {
+        const result = await window.electronAPI.planRecsOrder(folderPath, order);
+        if (cancelled) return;
+        if (result.success && result.plan) {
+          setPlan(result.plan);
+          setUndo(result.undo ?? null);
+        } else {
+          setPlan(null);
+          showError('Failed to preview the new order.', 'Preview Failed', result.error);
+        }
+      } catch (error) {
+        if (cancelled) return;
+        showError(
+          'Failed to preview the new order.',
+          'Preview Failed',
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    };
+
+    preview();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, order]);
+
+  const handleDragStart = useCallback((e: React.DragEvent, index: number) => {
+    setDraggedIndex(index);
+    e.dataTransfer.effectAllowed = 'move';
+  }, []);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent, dropIndex: number) => {
+      e.preventDefault();
+      if (draggedIndex === null || draggedIndex === dropIndex) return;
+
+      const newOrder = [...order];
+      const [removed] = newOrder.splice(draggedIndex, 1);
+      newOrder.splice(dropIndex, 0, removed);
+      setOrder(newOrder);
+      setDraggedIndex(null);
+    },
+    [draggedIndex, order]
+  );
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const newOrder = [...order];
+    [newOrder[index], newOrder[target]] = [newOrder[target], newOrder[index]];
+    setOrder(newOrder);
+  };
+
+  if (!isOpen) return null;
+
+  const count = (n: number) => `${n} recording${n === 1 ? '' : 's'}`;
+  const items = plan?.items ?? [];
+  const changedCount = plan?.changedCount ?? 0;
+  const applyLabel = changedCount > 0 ? `Apply (${count(changedCount)} retimed)` : 'Apply';
+
+  const handleApply = async () => {
+    setIsWorking(true);
+    try {
+      const result = await window.electronAPI.applyRecsOrder(folderPath, order);
+      if (result.success) {
+        showSuccess(
+          `Changed the modification time of ${count(result.plan?.changedCount ?? 0)}.`,
+          'Recordings Reordered'
+        );
+        onComplete();
+      } else {
+        showError('Failed to reorder recordings.', 'Reorder Failed', result.error);
+      }
+    } catch (error) {
+      showError(
+        'Failed to reorder recordings.',
+        'Reorder Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    setIsWorking(true);
+    try {
+      const result = await window.electronAPI.undoRecsOrder(folderPath);
+      if (!result.success) {
+        showError('Failed to undo the reorder.', 'Undo Failed', result.error);
+        return;
+      }
+      const missing = result.missing ?? [];
+      if (missing.length > 0) {
+        showInfo(
+          `Restored ${count(result.restored?.length ?? 0)}. ${count(missing.length)} no longer on the card.`,
+          'Reorder Undone',
+          missing.map((p) => p.split(/[\\/]/).pop()).join('\n')
+        );
+      } else {
+        showSuccess(
+          `Restored the original times of ${count(result.restored?.length ?? 0)}.`,
+          'Reorder Undone'
+        );
+      }
+      onComplete();
+    } catch (error) {
+      showError(
+        'Failed to undo the reorder.',
+        'Undo Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">Reorder Recordings</h2>
+          <button
+            onClick={onClose}
+            disabled={isWorking}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          <p className="text-sm text-label-black">
+            The module numbers recordings by modification time, newest first. Drag them into the
+            order you want; applying moves the modification times where needed, in 2-second steps
+            the card can store.
+          </p>
+
+          {order.length === 0 ? (
+            <div className="text-center py-8 text-label-gray text-sm">No recordings</div>
+          ) : (
+            <div className="space-y-1">
+              {order.map((samplePath, index) => {
+                const item = items.find((i) => i.path === samplePath);
+                return (
+                  <div
+                    key={samplePath}
+                    draggable={!isWorking}
+                    onDragStart={(e) => handleDragStart(e, index)}
+                    onDragOver={handleDragOver}
+                    onDrop={(e) => handleDrop(e, index)}
+                    onDragEnd={() => setDraggedIndex(null)}
+                    className={`flex items-center gap-2 px-3 py-1 bg-white rounded border border-panel-dark text-sm cursor-move ${
+                      draggedIndex === index ? 'opacity-50' : ''
+                    } ${item?.changed ? 'border-status-warning' : ''}`}
+                  >
+                    <span className="text-label-gray">⋮⋮</span>
+                    <span className="w-10 font-mono text-xs text-label-gray">#{index + 1}</span>
+                    <span className="flex-1 truncate font-mono">
+                      {samplePath.split(/[\\/]/).pop()}
+                    </span>
+                    {item && (
+                      <span className="text-xs text-label-gray">
+                        {item.changed ? (
+                          <>
+                            <span className="line-through">{formatTime(item.oldTime)}</span> →{' '}
+                            <span className="text-label-black">{formatTime(item.newTime)}</span>
+                          </>
+                        ) : (
+                          formatTime(item.oldTime)
+                        )}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => moveItem(index, -1)}
+                      disabled={index === 0 || isWorking}
+                      className="px-1 text-label-gray hover:text-label-black disabled:opacity-30"
+                      title="Move up"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      onClick={() => moveItem(index, 1)}
+                      disabled={index === order.length - 1 || isWorking}
+                      className="px-1 text-label-gray hover:text-label-black disabled:opacity-30"
+                      title="Move down"
+                    >
+                      ▼
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex items-center justify-between gap-2">
+          <button
+            onClick={handleUndo}
+            disabled={isWorking || !undo}
+            className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+            title={
+              undo
+                ? `Restore the recording times from before the reorder on ${new Date(undo.savedAt).toLocaleString()}`
+                : 'No reorder to undo'
+            }
+          >
+            Undo Reorders{undo ? ` (${count(undo.fileCount)})` : ''}
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              disabled={isWorking}
+              className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={isWorking || changedCount === 0}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              {isWorking ? 'Working...' : applyLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import {
+  MissingPresetSample,
+  MultigainStructure,
+  PresetRepairFix,
+  RelinkCandidate,
+} from '../../shared/types';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+import { ExperimentalWriteDialog, ExperimentalWriteNote } from './ExperimentalWriteDialog';
+
+interface RepairSamplesDialogProps {
+  isOpen: boolean;
+  structure: MultigainStructure;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+const REASON_LABELS: Record<RelinkCandidate['reason'], string> = {
+  renamed: 'renamed',
+  numbering: 'number prefix',
+  fuzzy: 'similar name',
+};
+
+const entryKey = (entry: MissingPresetSample) => `${entry.presetPath}#${entry.soundNumber}`;
+
+/**
+ * Card-wide list of preset sounds whose sample is missing, with a suggested
+ * file to relink each one to. Accepted fixes are written in one batch.
+ */
+export function RepairSamplesDialog({
+  isOpen,
+  structure,
+  onClose,
+  onComplete,
+}: RepairSamplesDialogProps) {
+  const { showError, showSuccess } = useErrorDialog();
+  const [missing, setMissing] = useState<MissingPresetSample[] | null>(null);
+  // Chosen candidate path per entry; empty string leaves the sound as is
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [confirmApply, setConfirmApply] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const scan = async () => {
+      setIsLoading(true);
+      try {
+        const result = await window.electronAPI.findMissingPresetSamples(structure);
+        if (cancelled) return;
+        if (result.success && result.missing) {
+          setMissing(result.missing);
+          setChoices(
+            Object.fromEntries(
+              result.missing.map((entry) => [entryKey(entry), entry.candidates[0]?.path ?? ''])
+            )
+          );
+        } else {
+          showError('Failed to scan presets.', 'Scan Failed', result.error);
+          onClose();
+        }
+      } catch (error) {
+        if (cancelled) return;
+        showError(
+          'Failed to scan presets.',
+          'Scan Failed',
+          error instanceof Error ? error.message : String(error)
+        );
+        onClose();
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    scan();
+    return () => {
+      cancelled = true;
+    };
+    // Scan once per opening; the structure is reloaded after applying
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const fixes: PresetRepairFix[] = (missing ?? []).flatMap((entry) => {
+    const candidate = entry.candidates.find((c) => c.path === choices[entryKey(entry)]);
+    return candidate
+      ? [
+          {
+            presetPath: entry.presetPath,
+            soundNumber: entry.soundNumber,
+            oldName: entry.name,
+            newName: candidate.name,
+            folder: candidate.folder,
+          },
+        ]
+      : [];
+  });
+  const presetCount = new Set(fixes.map((fix) => fix.presetPath)).size;
+
+  const handleApply = async () => {
+    setConfirmApply(false);
+    setIsApplying(true);
+    try {
+      const result = await window.electronAPI.repairPresetSamples(fixes);
+      if (result.success) {
+        const updated = result.updatedPresets?.length ?? 0;
+        showSuccess(
+          `Relinked ${fixes.length} sample${fixes.length === 1 ? '' : 's'} in ${updated} preset${updated === 1 ? '' : 's'}.`,
+          'Samples Repaired'
+        );
+        onComplete();
+      } else {
+        showError('Failed to repair presets.', 'Repair Failed', result.error);
+      }
+    } catch (error) {
+      showError(
+        'Failed to repair presets.',
+        'Repair Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // Group entries by preset, keeping scan order
+  const groups = new Map<string, MissingPresetSample[]>();
+  for (const entry of missing ?? []) {
+    groups.set(entry.presetPath, [...(groups.get(entry.presetPath) ?? []), entry]);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">Repair Missing Samples</h2>
+          <button
+            onClick={onClose}
+            disabled={isApplying}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          {isLoading && (
+            <div className="text-center py-8 text-label-gray text-sm">Scanning presets...</div>
+          )}
+
+          {!isLoading && missing?.length === 0 && (
+            <div className="text-center py-8 text-label-gray text-sm">
+              Every preset sample on the card can be found.
+            </div>
+          )}
+
+          {!isLoading && !showPreview && (
+            <div className="space-y-3">
+              {Array.from(groups.values()).map((entries) => (
+                <div
+                  key={entries[0].presetPath}
+                  className="bg-white rounded border-2 border-panel-dark p-3"
+                >
+                  <div className="text-sm font-medium text-label-black mb-2">
+                    {entries[0].projectName} / {entries[0].presetName}
+                  </div>
+                  <div className="space-y-2">
+                    {entries.map((entry) => (
+                      <div key={entryKey(entry)} className="flex items-center gap-3 text-sm">
+                        <span className="w-6 text-label-gray">{entry.soundNumber}.</span>
+                        <span
+                          className="flex-1 font-mono truncate text-label-black"
+                          title={entry.name}
+                        >
+                          {entry.name}
+                          {entry.folder && (
+                            <span className="ml-2 text-xs text-label-gray">[{entry.folder}]</span>
+                          )}
+                        </span>
+                        {entry.candidates.length > 0 ? (
+                          <select
+                            aria-label={`Relink ${entry.name}`}
+                            value={choices[entryKey(entry)]}
+                            onChange={(e) =>
+                              setChoices({ ...choices, [entryKey(entry)]: e.target.value })
+                            }
+                            className="w-64 px-2 py-1 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+                          >
+                            <option value="">Leave as is</option>
+                            {entry.candidates.map((candidate) => (
+                              <option key={candidate.path} value={candidate.path}>
+                                {candidate.name} ({candidate.folder},{' '}
+                                {REASON_LABELS[candidate.reason]})
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="w-64 text-xs text-label-gray italic">
+                            No matching file found
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!isLoading && showPreview && (
+            <div className="space-y-2">
+              <div className="text-sm text-label-black">
+                {fixes.length} sample reference{fixes.length === 1 ? '' : 's'} in {presetCount}{' '}
+                preset{presetCount === 1 ? '' : 's'} will be rewritten:
+              </div>
+              <div className="bg-white rounded border-2 border-panel-dark p-3 space-y-1 text-xs font-mono">
+                {fixes.map((fix) => {
+                  const entry = missing?.find(
+                    (m) => m.presetPath === fix.presetPath && m.soundNumber === fix.soundNumber
+                  );
+                  return (
+                    <div key={`${fix.presetPath}#${fix.soundNumber}`} className="truncate">
+                      <span className="text-label-gray">
+                        {entry?.projectName} / {entry?.presetName} #{fix.soundNumber}:
+                      </span>{' '}
+                      {fix.oldName} → {fix.newName} [{fix.folder}]
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="text-xs text-label-gray">
+                A backup of each preset is saved on this computer before it is changed.
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex items-center justify-between gap-4">
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-label-gray">
+              {missing &&
+                missing.length > 0 &&
+                `${missing.length} missing, ${fixes.length} selected`}
+            </span>
+            <ExperimentalWriteNote fields={['sampleFolder']} />
+          </div>
+          <div className="flex gap-2">
+            {showPreview ? (
+              <button
+                onClick={() => setShowPreview(false)}
+                disabled={isApplying}
+                className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+              >
+                Back
+              </button>
+            ) : (
+              <button
+                onClick={onClose}
+                disabled={isApplying}
+                className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={() => (showPreview ? setConfirmApply(true) : setShowPreview(true))}
+              disabled={isLoading || isApplying || fixes.length === 0}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              {isApplying ? 'Applying...' : showPreview ? 'Apply Fixes' : 'Preview Changes'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ExperimentalWriteDialog
+        isOpen={confirmApply}
+        action="Apply Fixes"
+        fields={['sampleFolder']}
+        onConfirm={handleApply}
+        onCancel={() => setConfirmApply(false)}
+      />
+    </div>
+  );
+}
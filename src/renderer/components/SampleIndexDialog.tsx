@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { MultigainStructure, WavFile } from '../../shared/types';
+import { FOLDER_NAMES, formatProjectDisplayName } from '../../shared/constants';
+
+interface SampleIndexDialogProps {
+  isOpen: boolean;
+  structure: MultigainStructure;
+  initialFolderPath?: string;
+  onClose: () => void;
+  // Open the number prefix preview for a folder, to fix its order on the module
+  onAddNumberPrefixes: (folderPath: string, folderName: string) => void;
+  // Open the reorder list of a folder; Recs are reordered by time, not name
+  onReorder: (folderPath: string, folderName: string) => void;
+}
+
+interface IndexFolder {
+  folderPath: string;
+  label: string;
+  rule: string;
+  samples: WavFile[];
+  canRenumber: boolean; // Recs are indexed by time, renaming does not change their order
+}
+
+/**
+ * Samples of one folder in the order the module indexes them, next to where
+ * the app lists them. Rows where the two orders differ are highlighted.
+ */
+export function SampleIndexDialog({
+  isOpen,
+  structure,
+  initialFolderPath,
+  onClose,
+  onAddNumberPrefixes,
+  onReorder,
+}: SampleIndexDialogProps) {
+  const folders: IndexFolder[] = [
+    ...structure.projects.map((project) => ({
+      folderPath: project.path,
+      label: formatProjectDisplayName(project.index, project.name, project.customName),
+      rule: 'by filename',
+      samples: project.samples,
+      canRenumber: true,
+    })),
+    {
+      folderPath: `${structure.rootPath}/${FOLDER_NAMES.WAVS}`,
+      label: FOLDER_NAMES.WAVS,
+      rule: 'by filename',
+      samples: structure.globalWavs,
+      canRenumber: true,
+    },
+    {
+      folderPath: `${structure.rootPath}/${FOLDER_NAMES.RECS}`,
+      label: FOLDER_NAMES.RECS,
+      rule: 'by modification time, newest first',
+      samples: structure.recordings,
+      canRenumber: false,
+    },
+  ];
+  const [folderPath, setFolderPath] = useState(initialFolderPath ?? folders[0].folderPath);
+
+  if (!isOpen) return null;
+
+  const folder = folders.find((f) => f.folderPath === folderPath) ?? folders[0];
+  const rows = folder.samples
+    .map((sample, i) => ({ sample, position: i + 1 }))
+    .sort(
+      (a, b) => (a.sample.hardwareIndex ?? a.position) - (b.sample.hardwareIndex ?? b.position)
+    );
+  const mismatchCount = rows.filter(
+    ({ sample, position }) =>
+      sample.hardwareIndex !== undefined && sample.hardwareIndex !== position
+  ).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">Sample Index Order</h2>
+          <button onClick={onClose} className="text-label-gray hover:text-label-black">
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          <div className="flex items-center gap-2">
+            <select
+              aria-label="Folder"
+              value={folder.folderPath}
+              onChange={(e) => setFolderPath(e.target.value)}
+              className="flex-1 px-2 py-1 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+            >
+              {folders.map((f) => (
+                <option key={f.folderPath} value={f.folderPath}>
+                  {f.label} ({f.samples.length})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="text-sm text-label-black">
+            The module indexes {folder.label} {folder.rule}.{' '}
+            {mismatchCount > 0 ? (
+              <span>
+                {mismatchCount} of {rows.length} sample{rows.length !== 1 ? 's are' : ' is'} in a
+                different position than listed in the app.
+              </span>
+            ) : (
+              <span className="text-label-gray">The app lists them in the same order.</span>
+            )}
+            {folder.canRenumber && (
+              <p className="mt-1 text-xs text-label-gray">
+                Filename order assumes the module compares names byte by byte (uppercase before
+                lowercase); this has not been confirmed on a module yet.
+              </p>
+            )}
+          </div>
+
+          {rows.length === 0 ? (
+            <div className="text-center py-8 text-label-gray text-sm">No samples</div>
+          ) : (
+            <table className="w-full text-sm bg-white rounded border-2 border-panel-dark">
+              <thead>
+                <tr className="text-left text-xs text-label-gray border-b border-panel-dark">
+                  <th className="px-3 py-1 w-20">Module</th>
+                  <th className="px-3 py-1">Sample</th>
+                  <th className="px-3 py-1 w-20 text-right">App</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ sample, position }) => {
+                  const differs =
+                    sample.hardwareIndex !== undefined && sample.hardwareIndex !== position;
+                  return (
+                    <tr
+                      key={sample.path}
+                      className={differs ? 'bg-status-warning bg-opacity-20' : ''}
+                      title={`Sample ${sample.hardwareIndex ?? position} of ${rows.length}`}
+                    >
+                      <td className="px-3 py-0.5 font-mono">{sample.hardwareIndex ?? '—'}</td>
+                      <td className="px-3 py-0.5 font-mono truncate">{sample.name}</td>
+                      <td className="px-3 py-0.5 font-mono text-right text-label-gray">
+                        {position}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-label-gray hover:text-label-black"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => onReorder(folder.folderPath, folder.label)}
+            disabled={rows.length < 2}
+            className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+          >
+            Reorder…
+          </button>
+          {folder.canRenumber && (
+            <button
+              onClick={() => onAddNumberPrefixes(folder.folderPath, folder.label)}
+              disabled={rows.length === 0}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+              title="Prefix filenames with numbers so every collation sorts them the same way"
+            >
+              Add Number Prefixes…
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -372,6 +372,50 @@ describe('SampleInfo Component', () => {
     });
   });
 
+  describe('Tag Editing', () => {
+    it('saves only the tags that changed', async () => {
+      const user = userEvent.setup();
+      vi.mocked(window.electronAPI.readAudioMetadata).mockResolvedValue({
+        description: 'Test description',
+        title: 'Kick',
+        artist: 'Someone',
+        duration: 2.5,
+        sampleRate: 48000,
+        bitDepth: 16,
+        channels: 2,
+        tags: {
+          name: 'Kick',
+          artist: 'Someone',
+          keywords: '',
+          genre: '',
+          copyright: '',
+          creationDate: '',
+          software: '',
+          comment: 'Test description',
+        },
+      });
+
+      renderWithProvider(<SampleInfo sample={defaultSample} />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('tag-value-artist')).toHaveTextContent('Someone');
+      });
+
+      await user.click(screen.getByTestId('edit-tags-button'));
+      await user.type(screen.getByTestId('tag-input-genre'), 'Drums');
+      await user.clear(screen.getByTestId('tag-input-name'));
+      await user.click(screen.getByTestId('save-tags-button'));
+
+      await waitFor(() => {
+        expect(window.electronAPI.writeAudioMetadata).toHaveBeenCalledWith(defaultSample.path, {
+          name: '',
+          genre: 'Drums',
+        });
+        expect(screen.getByTestId('tag-value-genre')).toHaveTextContent('Drums');
+      });
+    });
+  });
+
   describe('Component Updates', () => {
     it('updates display when sample prop changes', async () => {
       const { rerender } = renderWithProvider(<SampleInfo sample={defaultSample} />);
@@ -1,7 +1,11 @@
 import React, { useEffect, useState } from 'react';
-import { WavFile } from '../../shared/types';
+import { WavFile, WavInfoTagKey, WavInfoTags } from '../../shared/types';
+import { WAV_INFO_TAGS } from '../../shared/constants';
 import { useErrorDialog } from '../contexts/ErrorDialogContext';
 
+// The comment is edited in the Description card
+const TAG_FIELDS = WAV_INFO_TAGS.filter((tag) => tag.key !== 'comment');
+
 interface SampleInfoProps {
   sample: WavFile;
   onRenameComplete?: (newPath: string) => void;
@@ -11,24 +15,30 @@ export const SampleInfo: React.FC<SampleInfoProps> = ({ sample, onRenameComplete
   const [description, setDescription] = useState<string>('');
   const [isEditingDescription, setIsEditingDescription] = useState(false);
   const [isSavingDescription, setIsSavingDescription] = useState(false);
+  const [tags, setTags] = useState<Partial<WavInfoTags>>({});
+  const [draftTags, setDraftTags] = useState<Partial<WavInfoTags>>({});
+  const [isEditingTags, setIsEditingTags] = useState(false);
+  const [isSavingTags, setIsSavingTags] = useState(false);
   const [newName, setNewName] = useState<string>('');
   const [isEditingName, setIsEditingName] = useState(false);
   const [isSavingName, setIsSavingName] = useState(false);
-  const { showError } = useErrorDialog();
+  const { showError, showInfo } = useErrorDialog();
 
   // Reset editing state when sample changes
   useEffect(() => {
     setIsEditingName(false);
     setNewName('');
     setIsEditingDescription(false);
+    setIsEditingTags(false);
   }, [sample.path]);
 
-  // Load description when sample changes
+  // Load description and INFO tags when sample changes
   useEffect(() => {
     const loadDescription = async () => {
       try {
         const meta = await window.electronAPI.readAudioMetadata(sample.path);
         setDescription(meta.description || '');
+        setTags(meta.tags ?? {});
       } catch (error) {
         console.error('Error loading description:', error);
       }
@@ -58,6 +68,47 @@ export const SampleInfo: React.FC<SampleInfoProps> = ({ sample, onRenameComplete
     }
   };
 
+  const handleStartEditTags = () => {
+    setDraftTags(tags);
+    setIsEditingTags(true);
+  };
+
+  const handleSaveTags = async () => {
+    // Only changed tags are written, the others stay as they are in the file
+    const updates = Object.fromEntries(
+      TAG_FIELDS.filter(({ key }) => (draftTags[key] ?? '') !== (tags[key] ?? '')).map(
+        ({ key }) => [key, (draftTags[key] ?? '').trim()]
+      )
+    ) as Partial<WavInfoTags>;
+    if (Object.keys(updates).length === 0) {
+      setIsEditingTags(false);
+      return;
+    }
+
+    setIsSavingTags(true);
+    try {
+      const result = await window.electronAPI.writeAudioMetadata(sample.path, updates);
+      if (result.success) {
+        setTags({ ...tags, ...updates });
+        setIsEditingTags(false);
+      } else {
+        showError('Failed to save tags.', 'Save Failed', result.error);
+      }
+    } catch (error) {
+      console.error('Error saving tags:', error);
+      showError(
+        'Failed to save tags.',
+        'Save Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsSavingTags(false);
+    }
+  };
+
+  const setDraftTag = (key: WavInfoTagKey, value: string) =>
+    setDraftTags({ ...draftTags, [key]: value });
+
   const handleStartRename = () => {
     // Strip .wav extension for editing
     const nameWithoutExt = sample.name.replace(/\.wav$/i, '');
@@ -75,8 +126,19 @@ export const SampleInfo: React.FC<SampleInfoProps> = ({ sample, onRenameComplete
         setIsEditingName(false);
         setIsSavingName(false);
         onRenameComplete?.(result.newPath);
+        if (result.updatedPresets && result.updatedPresets.length > 0) {
+          showInfo(
+            `Updated ${result.updatedPresets.length} preset${result.updatedPresets.length !== 1 ? 's' : ''} to use the new name.`,
+            'Presets Updated',
+            result.updatedPresets.map((p) => `${p.projectName}/${p.presetName}`).join('\n')
+          );
+        }
       } else {
-        showError('Failed to rename sample.', 'Rename Failed', result.error);
+        showError(
+          'Failed to rename sample.',
+          'Rename Failed',
+          [result.error, result.details].filter(Boolean).join('\n\n')
+        );
         setIsSavingName(false);
       }
     } catch (error) {
@@ -186,6 +248,64 @@ export const SampleInfo: React.FC<SampleInfoProps> = ({ sample, onRenameComplete
           </p>
         )}
       </div>
+
+      {/* INFO tags */}
+      <div className="bg-white rounded border-2 border-panel-dark p-4">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-label-blue">Tags</h4>
+          {!isEditingTags ? (
+            <button
+              onClick={handleStartEditTags}
+              data-testid="edit-tags-button"
+              className="text-xs px-3 py-1 bg-button-dark hover:bg-knob-ring text-white rounded transition-colors"
+            >
+              ✎
+            </button>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setIsEditingTags(false)}
+                disabled={isSavingTags}
+                className="text-xs px-3 py-1 bg-button-gray hover:bg-button-dark disabled:bg-panel text-white rounded transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveTags}
+                disabled={isSavingTags}
+                data-testid="save-tags-button"
+                className="text-xs px-3 py-1 bg-label-blue hover:bg-button-dark disabled:bg-button-gray text-white rounded transition-colors"
+              >
+                {isSavingTags ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          )}
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm items-center">
+          {TAG_FIELDS.map(({ key, id, label }) => (
+            <React.Fragment key={key}>
+              <dt className="text-label-gray" title={id}>
+                {label}
+              </dt>
+              <dd className="text-label-black min-w-0">
+                {isEditingTags ? (
+                  <input
+                    type="text"
+                    value={draftTags[key] ?? ''}
+                    onChange={(e) => setDraftTag(key, e.target.value)}
+                    data-testid={`tag-input-${key}`}
+                    className="w-full px-2 py-0.5 border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+                  />
+                ) : (
+                  <span className="block truncate" data-testid={`tag-value-${key}`}>
+                    {tags[key] || <span className="text-label-gray">—</span>}
+                  </span>
+                )}
+              </dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      </div>
     </div>
   );
 };
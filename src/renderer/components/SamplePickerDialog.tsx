@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react';
+import { MultigainStructure, Project, WavFile } from '../../shared/types';
+import { ExperimentalWriteNote } from './ExperimentalWriteDialog';
+
+interface SamplePickerDialogProps {
+  isOpen: boolean;
+  soundNumber: number;
+  currentSampleName?: string;
+  project?: Project;
+  structure: MultigainStructure;
+  isSaving?: boolean;
+  onSelect: (sample: WavFile) => void;
+  onClose: () => void;
+}
+
+/**
+ * Searchable list of the samples a preset can load: its own project folder,
+ * Wavs and Recs.
+ */
+export function SamplePickerDialog({
+  isOpen,
+  soundNumber,
+  currentSampleName,
+  project,
+  structure,
+  isSaving = false,
+  onSelect,
+  onClose,
+}: SamplePickerDialogProps) {
+  const [search, setSearch] = useState('');
+
+  const groups = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filter = (samples: WavFile[]) =>
+      query ? samples.filter((s) => s.name.toLowerCase().includes(query)) : samples;
+
+    return [
+      { label: project ? project.name : 'PROJECT', samples: filter(project?.samples ?? []) },
+      { label: 'WAVS', samples: filter(structure.globalWavs) },
+      { label: 'RECS', samples: filter(structure.recordings) },
+    ];
+  }, [search, project, structure]);
+
+  if (!isOpen) return null;
+
+  const resultCount = groups.reduce((total, group) => total + group.samples.length, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-lg w-full max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">
+            Choose Sample for Sound {soundNumber}
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Search */}
+        <div className="px-6 pt-4">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search samples..."
+            autoFocus
+            className="w-full px-3 py-2 border border-panel-dark rounded text-sm focus:outline-none focus:border-label-blue"
+          />
+        </div>
+
+        {/* Sample list */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          {groups.map(
+            (group) =>
+              group.samples.length > 0 && (
+                <div key={group.label}>
+                  <div className="text-xs font-medium text-label-blue mb-1">{group.label}</div>
+                  <div className="space-y-1">
+                    {group.samples.map((sample) => (
+                      <button
+                        key={sample.path}
+                        onClick={() => onSelect(sample)}
+                        disabled={isSaving}
+                        className={`w-full text-left px-3 py-1.5 rounded border text-sm font-mono truncate disabled:opacity-50 ${
+                          sample.name === currentSampleName
+                            ? 'border-label-blue bg-white'
+                            : 'border-panel-dark hover:border-label-blue hover:bg-white'
+                        }`}
+                        title={sample.path}
+                      >
+                        {sample.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )
+          )}
+          {resultCount === 0 && (
+            <div className="text-center py-8 text-label-gray text-sm italic">
+              No samples match your search
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-panel-dark text-xs text-label-gray space-y-1">
+          <div>The original preset is backed up on this computer before it is changed.</div>
+          <ExperimentalWriteNote fields={['sampleFolder']} />
+        </div>
+      </div>
+    </div>
+  );
+}
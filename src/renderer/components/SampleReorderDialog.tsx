@@ -0,0 +1,153 @@
+import React, { useCallback, useState } from 'react';
+import { WavFile } from '../../shared/types';
+
+interface SampleReorderDialogProps {
+  isOpen: boolean;
+  folderName: string;
+  samples: WavFile[];
+  onClose: () => void;
+  // Open the renumbering preview with the filenames in their new order
+  onContinue: (order: string[]) => void;
+}
+
+// Filenames as the module indexes them
+const getModuleOrder = (samples: WavFile[]) =>
+  samples
+    .map((sample, i) => ({ name: sample.name, index: sample.hardwareIndex ?? i + 1 }))
+    .sort((a, b) => a.index - b.index)
+    .map(({ name }) => name);
+
+/**
+ * Drag-to-reorder list of a project's or Wavs samples. The new order is
+ * applied by renumbering the filenames, which is the order the module reads.
+ */
+export function SampleReorderDialog({
+  isOpen,
+  folderName,
+  samples,
+  onClose,
+  onContinue,
+}: SampleReorderDialogProps) {
+  const [order, setOrder] = useState<string[]>(() => getModuleOrder(samples));
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  // Start from the module's order after every structure reload
+  const [orderSamples, setOrderSamples] = useState(samples);
+  if (samples !== orderSamples) {
+    setOrderSamples(samples);
+    setOrder(getModuleOrder(samples));
+  }
+
+  const handleDragStart = useCallback((e: React.DragEvent, index: number) => {
+    setDraggedIndex(index);
+    e.dataTransfer.effectAllowed = 'move';
+  }, []);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent, dropIndex: number) => {
+      e.preventDefault();
+      if (draggedIndex === null || draggedIndex === dropIndex) return;
+
+      const newOrder = [...order];
+      const [removed] = newOrder.splice(draggedIndex, 1);
+      newOrder.splice(dropIndex, 0, removed);
+      setOrder(newOrder);
+      setDraggedIndex(null);
+    },
+    [draggedIndex, order]
+  );
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const newOrder = [...order];
+    [newOrder[index], newOrder[target]] = [newOrder[target], newOrder[index]];
+    setOrder(newOrder);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">Reorder Samples: {folderName}</h2>
+          <button onClick={onClose} className="text-label-gray hover:text-label-black">
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          <p className="text-sm text-label-black">
+            Drag the samples into the order the module should play them. Applying renumbers the
+            filenames and updates the presets that use them.
+          </p>
+
+          {order.length === 0 ? (
+            <div className="text-center py-8 text-label-gray text-sm">No samples</div>
+          ) : (
+            <div className="space-y-1">
+              {order.map((name, index) => (
+                <div
+                  key={name}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, index)}
+                  onDragOver={handleDragOver}
+                  onDrop={(e) => handleDrop(e, index)}
+                  onDragEnd={() => setDraggedIndex(null)}
+                  className={`flex items-center gap-2 px-3 py-1 bg-white rounded border border-panel-dark text-sm cursor-move ${
+                    draggedIndex === index ? 'opacity-50' : ''
+                  }`}
+                >
+                  <span className="text-label-gray">⋮⋮</span>
+                  <span className="w-10 font-mono text-xs text-label-gray">#{index + 1}</span>
+                  <span className="flex-1 truncate font-mono">{name}</span>
+                  <button
+                    onClick={() => moveItem(index, -1)}
+                    disabled={index === 0}
+                    className="px-1 text-label-gray hover:text-label-black disabled:opacity-30"
+                    title="Move up"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => moveItem(index, 1)}
+                    disabled={index === order.length - 1}
+                    className="px-1 text-label-gray hover:text-label-black disabled:opacity-30"
+                    title="Move down"
+                  >
+                    ▼
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-label-gray hover:text-label-black"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onContinue(order)}
+            disabled={order.length === 0}
+            className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+          >
+            Preview Renumbering…
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
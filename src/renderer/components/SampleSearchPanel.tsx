@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  MultigainStructure,
+  SampleSearchQuery,
+  SampleSearchResult,
+  TreeSelection,
+} from '../../shared/types';
+import { FOLDER_NAMES, formatProjectDisplayName } from '../../shared/constants';
+
+interface SampleSearchPanelProps {
+  structure: MultigainStructure;
+  selection: TreeSelection;
+  onSelectionChange: (selection: TreeSelection) => void;
+  onMatchesChange: (samplePaths: Set<string>) => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const parseSeconds = (value: string) => {
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+/**
+ * Card-wide sample search. The index lives in the main process and is
+ * refreshed after every structure reload, so each keystroke is a memory lookup.
+ */
+export function SampleSearchPanel({
+  structure,
+  selection,
+  onSelectionChange,
+  onMatchesChange,
+}: SampleSearchPanelProps) {
+  const [text, setText] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [minDuration, setMinDuration] = useState('');
+  const [maxDuration, setMaxDuration] = useState('');
+  const [folderPath, setFolderPath] = useState('');
+  const [usage, setUsage] = useState<'' | 'used' | 'unused'>('');
+  const [preset, setPreset] = useState('');
+  const [results, setResults] = useState<SampleSearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // Structure the main process index was last refreshed from
+  const indexedStructure = useRef<MultigainStructure | null>(null);
+
+  const query: SampleSearchQuery = {
+    ...(text.trim() ? { text: text.trim() } : {}),
+    ...(parseSeconds(minDuration) !== undefined ? { minDuration: parseSeconds(minDuration) } : {}),
+    ...(parseSeconds(maxDuration) !== undefined ? { maxDuration: parseSeconds(maxDuration) } : {}),
+    ...(folderPath ? { folderPath } : {}),
+    ...(usage ? { usage } : {}),
+    ...(preset.trim() ? { preset: preset.trim() } : {}),
+  };
+  const queryKey = JSON.stringify(query);
+  const isActive = queryKey !== '{}';
+
+  useEffect(() => {
+    // Results of an earlier query are hidden while the query is empty
+    if (!isActive) {
+      onMatchesChange(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    const search = async () => {
+      try {
+        if (indexedStructure.current !== structure) {
+          setIsIndexing(true);
+          const refreshed = await window.electronAPI.refreshSearchIndex(structure);
+          if (cancelled) return;
+          setIsIndexing(false);
+          if (!refreshed.success) {
+            setSearchError(refreshed.error || 'Failed to index samples');
+            return;
+          }
+          indexedStructure.current = structure;
+        }
+
+        const result = await window.electronAPI.searchSamples(
+          structure.rootPath,
+          JSON.parse(queryKey)
+        );
+        if (cancelled) return;
+        if (result.success && result.results) {
+          setResults(result.results);
+          setTotalCount(result.totalCount ?? result.results.length);
+          setSearchError(null);
+          onMatchesChange(new Set(result.results.map((r) => r.path)));
+        } else {
+          setSearchError(result.error || 'Search failed');
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setIsIndexing(false);
+          setSearchError(error instanceof Error ? error.message : String(error));
+        }
+      }
+    };
+
+    search();
+    return () => {
+      cancelled = true;
+    };
+    // onMatchesChange is a state setter in the parent
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [structure, queryKey, isActive]);
+
+  const folders = [
+    ...structure.projects.map((project) => ({
+      path: project.path,
+      label: formatProjectDisplayName(project.index, project.name, project.customName),
+    })),
+    { path: `${structure.rootPath}/${FOLDER_NAMES.WAVS}`, label: FOLDER_NAMES.WAVS },
+    { path: `${structure.rootPath}/${FOLDER_NAMES.RECS}`, label: FOLDER_NAMES.RECS },
+  ];
+
+  const clearSearch = () => {
+    setText('');
+    setMinDuration('');
+    setMaxDuration('');
+    setFolderPath('');
+    setUsage('');
+    setPreset('');
+  };
+
+  const status = isIndexing
+    ? 'Indexing samples on the card…'
+    : totalCount > results.length
+      ? `Showing first ${results.length} of ${totalCount} matches`
+      : `${totalCount} match${totalCount !== 1 ? 'es' : ''}`;
+
+  const inputClass =
+    'px-2 py-1 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none';
+
+  return (
+    <div className="flex-shrink-0 border-b border-panel-dark p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="search"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') clearSearch();
+          }}
+          placeholder="Search samples by name or description"
+          aria-label="Search samples"
+          className={`flex-1 ${inputClass}`}
+        />
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`text-xs px-2 py-1 rounded border border-panel-dark ${
+            showFilters
+              ? 'bg-panel-dark text-label-black'
+              : 'text-label-gray hover:text-label-black'
+          }`}
+          title="Filter by duration, folder, usage and preset"
+        >
+          Filters
+        </button>
+        {isActive && (
+          <button
+            onClick={clearSearch}
+            className="text-label-gray hover:text-label-black"
+            title="Clear search"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 gap-2 text-xs text-label-gray">
+          <label className="flex items-center gap-1">
+            Duration
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={minDuration}
+              onChange={(e) => setMinDuration(e.target.value)}
+              placeholder="min s"
+              aria-label="Minimum duration in seconds"
+              className={`w-16 ${inputClass}`}
+            />
+            –
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={maxDuration}
+              onChange={(e) => setMaxDuration(e.target.value)}
+              placeholder="max s"
+              aria-label="Maximum duration in seconds"
+              className={`w-16 ${inputClass}`}
+            />
+          </label>
+          <select
+            value={usage}
+            onChange={(e) => setUsage(e.target.value as '' | 'used' | 'unused')}
+            aria-label="Usage"
+            className={inputClass}
+          >
+            <option value="">Used and unused</option>
+            <option value="used">Used by a preset</option>
+            <option value="unused">Not used by any preset</option>
+          </select>
+          <select
+            value={folderPath}
+            onChange={(e) => setFolderPath(e.target.value)}
+            aria-label="Folder"
+            className={inputClass}
+          >
+            <option value="">All folders</option>
+            {folders.map((folder) => (
+              <option key={folder.path} value={folder.path}>
+                {folder.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={preset}
+            onChange={(e) => setPreset(e.target.value)}
+            placeholder="Used by preset, e.g. Project01/Preset03"
+            aria-label="Used by preset"
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {isActive && searchError && <div className="text-xs text-button-red">{searchError}</div>}
+      {isActive && !searchError && <div className="text-xs text-label-gray">{status}</div>}
+
+      {isActive && results.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto space-y-0.5">
+          {results.map((result) => {
+            const isSelected = selection.type === 'sample' && selection.samplePath === result.path;
+            return (
+              <li key={result.path}>
+                <button
+                  onClick={() => onSelectionChange({ type: 'sample', samplePath: result.path })}
+                  className={`w-full text-left px-2 py-1 rounded hover:bg-panel-dark ${
+                    isSelected ? 'bg-button-red bg-opacity-20' : ''
+                  }`}
+                  title={result.presets.map((p) => p.label).join('\n') || 'Not used by any preset'}
+                >
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-label-blue">♪</span>
+                    <span className="flex-1 truncate text-label-black">{result.name}</span>
+                    <span className="text-xs text-label-gray flex-shrink-0">
+                      {formatDuration(result.duration)}
+                    </span>
+                  </div>
+                  <div className="ml-6 text-xs text-label-gray truncate">
+                    {result.folderLabel}
+                    {' • '}
+                    {result.presets.length > 0
+                      ? `${result.presets.length} preset${result.presets.length !== 1 ? 's' : ''}`
+                      : 'unused'}
+                    {result.description && ` • ${result.description}`}
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
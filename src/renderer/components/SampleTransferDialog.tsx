@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import {
+  MultigainStructure,
+  PresetReferenceBreak,
+  SampleTransferMode,
+  SampleTransferPlan,
+  WavFile,
+} from '../../shared/types';
+import { FOLDER_NAMES, formatProjectDisplayName } from '../../shared/constants';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+import { ExperimentalWriteDialog, ExperimentalWriteNote } from './ExperimentalWriteDialog';
+
+interface SampleTransferDialogProps {
+  isOpen: boolean;
+  samples: WavFile[];
+  structure: MultigainStructure;
+  initialMode: SampleTransferMode;
+  initialTargetFolder?: string;
+  onClose: () => void;
+  onComplete: (targetPaths: string[]) => void;
+}
+
+const BREAK_REASONS: Record<PresetReferenceBreak['reason'], string> = {
+  unreachable: 'cannot load samples from the new folder',
+  unknownLayout: 'older preset layout, reference cannot be rewritten',
+  nameTooLong: 'new name is too long for the preset',
+  ambiguous: 'a file with this name is in more than one folder, relink it in the Preset Viewer',
+};
+
+const getParentFolder = (filePath: string) => filePath.replace(/[\\/][^\\/]*$/, '');
+
+export function SampleTransferDialog({
+  isOpen,
+  samples,
+  structure,
+  initialMode,
+  initialTargetFolder,
+  onClose,
+  onComplete,
+}: SampleTransferDialogProps) {
+  const { showError, showInfo } = useErrorDialog();
+  const sourceFolders = new Set(samples.map((sample) => getParentFolder(sample.path)));
+  const targets = [
+    ...structure.projects.map((project) => ({
+      path: project.path,
+      label: formatProjectDisplayName(project.index, project.name, project.customName),
+    })),
+    { path: `${structure.rootPath}/${FOLDER_NAMES.WAVS}`, label: FOLDER_NAMES.WAVS },
+    { path: `${structure.rootPath}/${FOLDER_NAMES.RECS}`, label: FOLDER_NAMES.RECS },
+  ].filter((target) => !sourceFolders.has(target.path));
+
+  const [mode, setMode] = useState<SampleTransferMode>(initialMode);
+  const [targetFolder, setTargetFolder] = useState(initialTargetFolder ?? targets[0]?.path ?? '');
+  // Plan for the target and mode it was loaded for, so changing either hides it
+  const [loadedPlan, setLoadedPlan] = useState<{
+    key: string;
+    plan: SampleTransferPlan | null;
+    error: string | null;
+  } | null>(null);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [confirmTransfer, setConfirmTransfer] = useState(false);
+  const samplePaths = samples.map((sample) => sample.path);
+  const samplePathsKey = samplePaths.join('\n');
+  const planKey = `${mode}\n${targetFolder}\n${samplePathsKey}`;
+  const plan = loadedPlan?.key === planKey ? loadedPlan.plan : null;
+  const planError = loadedPlan?.key === planKey ? loadedPlan.error : null;
+
+  useEffect(() => {
+    if (!isOpen || !targetFolder) return;
+
+    let cancelled = false;
+    const loadPlan = async () => {
+      try {
+        const result = await window.electronAPI.planSampleTransfer(
+          samplePathsKey.split('\n'),
+          targetFolder,
+          mode
+        );
+        if (cancelled) return;
+        if (result.success && result.plan) {
+          setLoadedPlan({ key: planKey, plan: result.plan, error: null });
+        } else {
+          setLoadedPlan({
+            key: planKey,
+            plan: null,
+            error: result.error || 'Failed to check the target folder',
+          });
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setLoadedPlan({
+            key: planKey,
+            plan: null,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    };
+
+    loadPlan();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, samplePathsKey, targetFolder, mode, planKey]);
+
+  if (!isOpen) return null;
+
+  const action = mode === 'move' ? 'Move' : 'Copy';
+  const title = samples.length === 1 ? samples[0].name : `${samples.length} samples`;
+  const renamedItems = plan?.items.filter((item) => item.renamed) ?? [];
+  const updatesPresets = !!plan && plan.presetUpdates.length > 0;
+
+  const handleTransfer = async () => {
+    setConfirmTransfer(false);
+    if (!plan) return;
+
+    setIsTransferring(true);
+    try {
+      if (mode === 'move') {
+        const result = await window.electronAPI.moveSamples(samplePaths, targetFolder);
+        if (!result.success || !result.moved) {
+          showError('Failed to move samples.', 'Move Failed', result.error);
+          return;
+        }
+        onComplete(result.moved.map((item) => item.targetPath));
+        if (result.updatedPresets && result.updatedPresets.length > 0) {
+          showInfo(
+            `Updated ${result.updatedPresets.length} preset${result.updatedPresets.length !== 1 ? 's' : ''} to load the samples from their new folder.`,
+            'Presets Updated',
+            result.updatedPresets.map((p) => `${p.projectName}/${p.presetName}`).join('\n')
+          );
+        }
+      } else {
+        const result = await window.electronAPI.copySamples(samplePaths, targetFolder);
+        if (!result.success || !result.copied) {
+          showError('Failed to copy samples.', 'Copy Failed', result.error);
+          return;
+        }
+        onComplete(result.copied.map((item) => item.targetPath));
+      }
+    } catch (error) {
+      showError(
+        `Failed to ${action.toLowerCase()} samples.`,
+        `${action} Failed`,
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black truncate">
+            {action} Sample: {title}
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={isTransferring}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          <div className="flex gap-4 text-sm text-label-black">
+            {(['move', 'copy'] as const).map((value) => (
+              <label key={value} className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="sample-transfer-mode"
+                  checked={mode === value}
+                  onChange={() => setMode(value)}
+                />
+                {value === 'move' ? 'Move' : 'Copy'}
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-label-black mb-2">Folder</label>
+            <select
+              value={targetFolder}
+              onChange={(e) => setTargetFolder(e.target.value)}
+              className="w-full px-3 py-2 border border-panel-dark rounded text-sm focus:outline-none focus:border-label-blue"
+            >
+              {targets.map((target) => (
+                <option key={target.path} value={target.path}>
+                  {target.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {planError && <div className="text-sm text-button-red">{planError}</div>}
+          {plan?.storageError && <div className="text-sm text-button-red">{plan.storageError}</div>}
+
+          {renamedItems.length > 0 && (
+            <div className="p-3 bg-white rounded border border-panel-dark">
+              <p className="text-sm font-medium text-label-black mb-1">
+                Names already taken in this folder
+              </p>
+              <ul className="text-sm text-label-black space-y-0.5">
+                {renamedItems.map((item) => (
+                  <li key={item.sourcePath} className="truncate font-mono">
+                    {item.sourcePath.split(/[\\/]/).pop()} → {item.targetPath.split(/[\\/]/).pop()}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {plan && updatesPresets && (
+            <div className="p-3 bg-white rounded border border-panel-dark">
+              <p className="text-sm font-medium text-label-black mb-1">
+                Presets that will load the samples from their new folder
+              </p>
+              <ul className="text-sm text-label-black space-y-0.5">
+                {plan.presetUpdates.map((update) => (
+                  <li key={update.presetPath} className="truncate">
+                    {update.projectName}/{update.presetName}
+                    <span className="text-label-gray">
+                      {' '}
+                      (Sound {update.sounds.map((sound) => sound.soundNumber).join(', ')})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div className="mt-2">
+                <ExperimentalWriteNote fields={['sampleFolder']} />
+              </div>
+            </div>
+          )}
+
+          {plan && plan.brokenReferences.length > 0 && (
+            <div className="p-3 bg-status-warning bg-opacity-10 rounded border border-status-warning">
+              <p className="text-sm font-medium text-label-black mb-1">
+                These sounds will show as NOT FOUND after the move
+              </p>
+              <ul className="text-sm text-label-black space-y-0.5">
+                {plan.brokenReferences.map((reference) => (
+                  <li key={`${reference.presetPath}-${reference.soundNumber}`} className="truncate">
+                    {reference.projectName}/{reference.presetName} Sound {reference.soundNumber}
+                    <span className="text-label-gray"> • {BREAK_REASONS[reference.reason]}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={isTransferring}
+            className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => (updatesPresets ? setConfirmTransfer(true) : handleTransfer())}
+            disabled={isTransferring || !plan || !!plan.storageError}
+            className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+          >
+            {isTransferring ? 'Working...' : action}
+          </button>
+        </div>
+      </div>
+
+      <ExperimentalWriteDialog
+        isOpen={confirmTransfer}
+        action={`${action} Samples`}
+        fields={['sampleFolder']}
+        onConfirm={handleTransfer}
+        onCancel={() => setConfirmTransfer(false)}
+      />
+    </div>
+  );
+}
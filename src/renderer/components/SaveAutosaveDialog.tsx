@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Project } from '../../shared/types';
+import { STORAGE_LIMITS, formatProjectDisplayName } from '../../shared/constants';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+import { ConfirmDialog } from './ConfirmDialog';
+import { PresetSlotGrid } from './PresetSlotGrid';
+import { ExperimentalWriteDialog, ExperimentalWriteNote } from './ExperimentalWriteDialog';
+
+interface SaveAutosaveDialogProps {
+  isOpen: boolean;
+  project: Project; // Project whose Autosave.mgp is saved
+  onClose: () => void;
+  onComplete: (targetPath: string) => void;
+}
+
+/**
+ * Save a project's Autosave.mgp into one of its 48 preset slots
+ */
+export function SaveAutosaveDialog({
+  isOpen,
+  project,
+  onClose,
+  onComplete,
+}: SaveAutosaveDialogProps) {
+  const { showError } = useErrorDialog();
+  const occupiedSlots = new Set(project.presets.map((p) => p.index));
+  const firstFreeSlot = Array.from(
+    { length: STORAGE_LIMITS.PRESETS_PER_PROJECT },
+    (_, i) => i + 1
+  ).find((slot) => !occupiedSlots.has(slot));
+
+  const [selectedSlot, setSelectedSlot] = useState<number | null>(firstFreeSlot ?? null);
+  const [confirmOverwrite, setConfirmOverwrite] = useState(false);
+  const [confirmExperimental, setConfirmExperimental] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!isOpen || !project.autosave) return null;
+
+  const autosave = project.autosave;
+  const isOccupied = selectedSlot !== null && occupiedSlots.has(selectedSlot);
+
+  const handleSave = async () => {
+    if (selectedSlot === null) return;
+
+    setConfirmExperimental(false);
+    setIsSaving(true);
+    try {
+      const result = await window.electronAPI.transferPreset({
+        presetPath: autosave.path,
+        targetProjectPath: project.path,
+        targetSlot: selectedSlot,
+        mode: 'copy',
+        copySamples: false,
+      });
+      if (result.success && result.targetPath) {
+        onComplete(result.targetPath);
+      } else {
+        showError('Failed to save Autosave as a preset.', 'Preset Error', result.error);
+      }
+    } catch (error) {
+      showError(
+        'Failed to save Autosave as a preset.',
+        'Preset Error',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-panel-light rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-label-black">Save Autosave as Preset</h2>
+            <button
+              onClick={onClose}
+              disabled={isSaving}
+              className="text-label-gray hover:text-label-black disabled:opacity-50"
+            >
+              ✕
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="px-6 py-4 space-y-4 overflow-y-auto">
+            <p className="text-sm text-label-gray">
+              Save the current state of{' '}
+              <span className="font-medium text-label-black">
+                {formatProjectDisplayName(project.index, project.name, project.customName)}
+              </span>{' '}
+              into a preset slot. Autosave itself is left unchanged.
+            </p>
+
+            <PresetSlotGrid
+              occupiedSlots={occupiedSlots}
+              selectedSlot={selectedSlot}
+              onSelectSlot={setSelectedSlot}
+            />
+
+            {isOccupied && (
+              <div className="p-3 bg-status-warning bg-opacity-10 rounded border border-status-warning text-sm text-label-black">
+                Preset {selectedSlot} already exists and will be replaced. A backup of it is kept on
+                this computer.
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t border-panel-dark flex items-center justify-between gap-4">
+            <ExperimentalWriteNote fields={['presetNumber']} />
+            <div className="flex gap-2">
+              <button
+                onClick={onClose}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() =>
+                  isOccupied ? setConfirmOverwrite(true) : setConfirmExperimental(true)
+                }
+                disabled={isSaving || selectedSlot === null}
+                className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmOverwrite}
+        title="Replace Preset?"
+        message={`Preset ${selectedSlot} already holds a preset. Replace it with the Autosave?`}
+        confirmLabel="Replace"
+        confirmVariant="danger"
+        onConfirm={() => {
+          setConfirmOverwrite(false);
+          setConfirmExperimental(true);
+        }}
+        onCancel={() => setConfirmOverwrite(false)}
+      />
+
+      <ExperimentalWriteDialog
+        isOpen={confirmExperimental}
+        action="Save Preset"
+        fields={['presetNumber']}
+        onConfirm={handleSave}
+        onCancel={() => setConfirmExperimental(false)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,319 @@
+import React, { useEffect, useState } from 'react';
+import {
+  MultigainStructure,
+  TrashConflictMode,
+  TrashItem,
+  TrashLocation,
+} from '../../shared/types';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface TrashDialogProps {
+  isOpen: boolean;
+  structure: MultigainStructure;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+
+const CONFLICT_MODES: { value: TrashConflictMode; label: string }[] = [
+  { value: 'keepBoth', label: 'Keep both' },
+  { value: 'replace', label: 'Replace (trash the current one)' },
+  { value: 'skip', label: 'Skip' },
+];
+
+/**
+ * Deleted samples and projects, restored to where they were on the card or
+ * deleted for good.
+ */
+export function TrashDialog({ isOpen, structure, onClose, onComplete }: TrashDialogProps) {
+  const { showError, showSuccess } = useErrorDialog();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [location, setLocation] = useState<TrashLocation>('card');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [conflictMode, setConflictMode] = useState<TrashConflictMode>('keepBoth');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState<'selected' | 'all' | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const result = await window.electronAPI.listTrash(structure.rootPath);
+        if (cancelled) return;
+        if (result.success && result.items) {
+          setItems(result.items);
+          setLocation(result.location ?? 'card');
+          setSelected(new Set());
+        } else {
+          showError('Failed to read the trash.', 'Trash', result.error);
+          onClose();
+        }
+      } catch (error) {
+        if (cancelled) return;
+        showError(
+          'Failed to read the trash.',
+          'Trash',
+          error instanceof Error ? error.message : String(error)
+        );
+        onClose();
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+    // Reload on opening and after each action
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, reloadCount]);
+
+  if (!isOpen) return null;
+
+  const count = (n: number) => `${n} item${n === 1 ? '' : 's'}`;
+  const selectedIds = items.filter((item) => selected.has(item.id)).map((item) => item.id);
+  const conflictCount = items.filter((item) => selected.has(item.id) && item.conflict).length;
+
+  const toggleItem = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const toggleAll = () =>
+    setSelected(
+      selectedIds.length === items.length ? new Set() : new Set(items.map((item) => item.id))
+    );
+
+  const handleLocationChange = async (newLocation: TrashLocation) => {
+    try {
+      const result = await window.electronAPI.setTrashLocation(newLocation);
+      if (result.success) {
+        setLocation(newLocation);
+      } else {
+        showError('Failed to save the trash location.', 'Trash', result.error);
+      }
+    } catch (error) {
+      showError(
+        'Failed to save the trash location.',
+        'Trash',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  };
+
+  const handleRestore = async () => {
+    setIsWorking(true);
+    try {
+      const result = await window.electronAPI.restoreFromTrash(
+        structure.rootPath,
+        selectedIds,
+        conflictMode
+      );
+      const restored = result.restored?.length ?? 0;
+      const skipped = result.skipped?.length ?? 0;
+      if (result.success) {
+        showSuccess(
+          `Restored ${count(restored)}.${skipped > 0 ? ` Skipped ${count(skipped)} in use.` : ''}`,
+          'Restored'
+        );
+      } else {
+        const names = new Map(items.map((item) => [item.id, item.name]));
+        showError(
+          `Restored ${count(restored)}, some items could not be restored.`,
+          'Restore Failed',
+          result.error ||
+            result.failed?.map((f) => `${names.get(f.id) ?? f.id}: ${f.error}`).join('\n')
+        );
+      }
+      if (restored > 0) onComplete();
+    } catch (error) {
+      showError(
+        'Failed to restore items.',
+        'Restore Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsWorking(false);
+      setReloadCount((n) => n + 1);
+    }
+  };
+
+  const handleDelete = async () => {
+    const ids = confirmDelete === 'all' ? undefined : selectedIds;
+    setConfirmDelete(null);
+    setIsWorking(true);
+    try {
+      const result = await window.electronAPI.emptyTrash(structure.rootPath, ids);
+      if (result.success) {
+        showSuccess(`Deleted ${count(result.deleted ?? 0)} permanently.`, 'Trash Emptied');
+      } else {
+        showError('Failed to empty the trash.', 'Delete Failed', result.error);
+      }
+    } catch (error) {
+      showError(
+        'Failed to empty the trash.',
+        'Delete Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsWorking(false);
+      setReloadCount((n) => n + 1);
+    }
+  };
+
+  const deleteCount = confirmDelete === 'all' ? items.length : selectedIds.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">Trash</h2>
+          <button
+            onClick={onClose}
+            disabled={isWorking}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          <label className="flex items-center gap-2 text-sm text-label-black">
+            <span>Keep deleted items</span>
+            <select
+              value={location}
+              onChange={(e) => handleLocationChange(e.target.value as TrashLocation)}
+              disabled={isWorking}
+              className="px-2 py-1 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+            >
+              <option value="card">on the card</option>
+              <option value="local">on this computer</option>
+            </select>
+          </label>
+
+          {isLoading && (
+            <div className="text-center py-8 text-label-gray text-sm">Reading trash...</div>
+          )}
+
+          {!isLoading && items.length === 0 && (
+            <div className="text-center py-8 text-label-gray text-sm">The trash is empty.</div>
+          )}
+
+          {!isLoading && items.length > 0 && (
+            <div className="bg-white rounded border-2 border-panel-dark p-3 space-y-1">
+              <label className="flex items-center gap-2 text-sm font-medium text-label-black mb-2">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.length === items.length}
+                  onChange={toggleAll}
+                />
+                <span className="flex-1">{count(items.length)}</span>
+                <span className="text-xs font-normal text-label-gray">
+                  {formatSize(items.reduce((total, item) => total + item.size, 0))}
+                </span>
+              </label>
+              {items.map((item) => (
+                <label key={item.id} className="flex items-center gap-2 text-sm text-label-black">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(item.id)}
+                    onChange={() => toggleItem(item.id)}
+                  />
+                  <span>{item.kind === 'project' ? '📁' : '🎵'}</span>
+                  <span className="flex-1 truncate font-mono" title={item.originalPath}>
+                    {item.originalPath}
+                    {item.conflict && (
+                      <span
+                        className="ml-2 px-1 font-sans text-xs text-white bg-button-red rounded"
+                        title="Something else now uses this path"
+                      >
+                        in use
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-xs text-label-gray whitespace-nowrap">
+                    {new Date(item.trashedAt).toLocaleString()} • {formatSize(item.size)}
+                    {item.location === 'local' && ' • this computer'}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {conflictCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-label-black">
+              <span>{count(conflictCount)} in use, when restoring</span>
+              <select
+                value={conflictMode}
+                onChange={(e) => setConflictMode(e.target.value as TrashConflictMode)}
+                disabled={isWorking}
+                className="px-2 py-1 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+              >
+                {CONFLICT_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex items-center justify-between gap-2">
+          <button
+            onClick={() => setConfirmDelete('all')}
+            disabled={isWorking || items.length === 0}
+            className="px-4 py-2 text-sm text-button-red hover:text-red-700 disabled:text-button-gray disabled:cursor-not-allowed"
+          >
+            Empty Trash
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setConfirmDelete('selected')}
+              disabled={isWorking || selectedIds.length === 0}
+              className="px-4 py-2 text-sm bg-button-red hover:bg-red-700 text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              Delete Permanently
+            </button>
+            <button
+              onClick={handleRestore}
+              disabled={isWorking || selectedIds.length === 0}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              Restore{selectedIds.length > 0 ? ` ${count(selectedIds.length)}` : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmDelete !== null}
+        title={confirmDelete === 'all' ? 'Empty Trash' : 'Delete Permanently'}
+        message={`Permanently delete ${count(deleteCount)}?\n\nThis action cannot be undone.`}
+        confirmLabel="Delete"
+        confirmVariant="danger"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(null)}
+      />
+    </div>
+  );
+}
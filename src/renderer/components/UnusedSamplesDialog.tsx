@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import { MultigainStructure, UnusedSampleFolder, UnusedSampleReport } from '../../shared/types';
+import { formatProjectDisplayName } from '../../shared/constants';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface UnusedSamplesDialogProps {
+  isOpen: boolean;
+  structure: MultigainStructure;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Card-wide report of samples no preset or Autosave.mgp loads, with bulk
+ * archive, move and delete to free slots under the folder limits.
+ */
+export function UnusedSamplesDialog({
+  isOpen,
+  structure,
+  onClose,
+  onComplete,
+}: UnusedSamplesDialogProps) {
+  const { showError, showSuccess } = useErrorDialog();
+  const [report, setReport] = useState<UnusedSampleReport | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [moveTarget, setMoveTarget] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const scan = async () => {
+      setIsLoading(true);
+      try {
+        const result = await window.electronAPI.findUnusedSamples(structure);
+        if (cancelled) return;
+        if (result.success && result.report) {
+          setReport(result.report);
+          setSelected(
+            new Set(result.report.folders.flatMap((f) => f.samples.map((sample) => sample.path)))
+          );
+        } else {
+          showError('Failed to scan presets.', 'Scan Failed', result.error);
+          onClose();
+        }
+      } catch (error) {
+        if (cancelled) return;
+        showError(
+          'Failed to scan presets.',
+          'Scan Failed',
+          error instanceof Error ? error.message : String(error)
+        );
+        onClose();
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    scan();
+    return () => {
+      cancelled = true;
+    };
+    // Scan once per opening; the structure is reloaded after each action
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const folders = report?.folders ?? [];
+  const selectedPaths = folders.flatMap((folder) =>
+    folder.samples.filter((sample) => selected.has(sample.path)).map((sample) => sample.path)
+  );
+  const freedSlots = folders
+    .map((folder) => ({
+      folder,
+      freed: folder.samples.filter((sample) => selected.has(sample.path)).length,
+    }))
+    .filter(({ freed }) => freed > 0);
+  // Samples already in the move target stay where they are
+  const movePaths = selectedPaths.filter((samplePath) =>
+    folders.every(
+      (folder) =>
+        folder.folderPath !== moveTarget || !folder.samples.some((s) => s.path === samplePath)
+    )
+  );
+
+  const toggleSample = (samplePath: string) => {
+    const next = new Set(selected);
+    if (next.has(samplePath)) {
+      next.delete(samplePath);
+    } else {
+      next.add(samplePath);
+    }
+    setSelected(next);
+  };
+
+  const toggleFolder = (folder: UnusedSampleFolder) => {
+    const next = new Set(selected);
+    const allSelected = folder.samples.every((sample) => next.has(sample.path));
+    for (const sample of folder.samples) {
+      if (allSelected) {
+        next.delete(sample.path);
+      } else {
+        next.add(sample.path);
+      }
+    }
+    setSelected(next);
+  };
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; canceled?: boolean; error?: string }>,
+    failure: string,
+    success: string
+  ) => {
+    setIsWorking(true);
+    try {
+      const result = await action();
+      if (result.canceled) return;
+      if (result.success) {
+        showSuccess(success, 'Slots Freed');
+        onComplete();
+      } else {
+        showError(failure, 'Action Failed', result.error);
+      }
+    } catch (error) {
+      showError(failure, 'Action Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const count = (n: number) => `${n} sample${n === 1 ? '' : 's'}`;
+
+  const handleArchive = () =>
+    runAction(
+      () => window.electronAPI.archiveSamples(selectedPaths),
+      'Failed to archive samples.',
+      `Archived ${count(selectedPaths.length)} and moved them from the card to the Trash.`
+    );
+
+  const handleMove = () =>
+    runAction(
+      () => window.electronAPI.moveSamples(movePaths, moveTarget),
+      'Failed to move samples.',
+      `Moved ${count(movePaths.length)}.`
+    );
+
+  const handleDelete = () => {
+    setConfirmDelete(false);
+    return runAction(
+      async () => {
+        const result = await window.electronAPI.deleteSamples(selectedPaths);
+        const failed = result.results?.filter((r) => !r.success) ?? [];
+        return {
+          success: result.success && failed.length === 0,
+          error:
+            result.error ||
+            failed.map((r) => `${r.path.split(/[\\/]/).pop()}: ${r.error}`).join('\n'),
+        };
+      },
+      'Failed to delete some samples.',
+      `Deleted ${count(selectedPaths.length)}.`
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">Unused Samples</h2>
+          <button
+            onClick={onClose}
+            disabled={isWorking}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          {isLoading && (
+            <div className="text-center py-8 text-label-gray text-sm">Scanning presets...</div>
+          )}
+
+          {!isLoading && report && report.totalCount === 0 && (
+            <div className="text-center py-8 text-label-gray text-sm">
+              Every sample on the card is used by a preset.
+            </div>
+          )}
+
+          {!isLoading && report && report.totalCount > 0 && (
+            <>
+              <div className="text-sm text-label-black">
+                {count(report.totalCount)} not loaded by any preset or Autosave •{' '}
+                {formatSize(report.totalSize)} • {formatDuration(report.totalDuration)}
+              </div>
+
+              {folders.map((folder) => (
+                <div
+                  key={folder.folderPath}
+                  className="bg-white rounded border-2 border-panel-dark p-3"
+                >
+                  <label className="flex items-center gap-2 text-sm font-medium text-label-black mb-2">
+                    <input
+                      type="checkbox"
+                      checked={folder.samples.every((sample) => selected.has(sample.path))}
+                      onChange={() => toggleFolder(folder)}
+                    />
+                    <span className="flex-1">{folder.label}</span>
+                    <span className="text-xs font-normal text-label-gray">
+                      {folder.samples.length} unused • {formatSize(folder.totalSize)} •{' '}
+                      {formatDuration(folder.totalDuration)} • {folder.sampleCount}/{folder.limit}{' '}
+                      slots
+                    </span>
+                  </label>
+                  <div className="space-y-1">
+                    {folder.samples.map((sample) => (
+                      <label
+                        key={sample.path}
+                        className="flex items-center gap-2 text-sm text-label-black ml-6"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selected.has(sample.path)}
+                          onChange={() => toggleSample(sample.path)}
+                        />
+                        <span className="flex-1 truncate font-mono" title={sample.description}>
+                          {sample.name}
+                          {sample.description && (
+                            <span className="ml-2 font-sans text-xs text-label-gray">
+                              {sample.description}
+                            </span>
+                          )}
+                        </span>
+                        <span className="text-xs text-label-gray">
+                          {formatSize(sample.size)} • {formatDuration(sample.duration)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              {freedSlots.length > 0 && (
+                <div className="p-3 bg-white rounded border border-panel-dark text-sm">
+                  <p className="font-medium text-label-black mb-1">Freed slots</p>
+                  <ul className="text-label-black space-y-0.5">
+                    {freedSlots.map(({ folder, freed }) => (
+                      <li key={folder.folderPath}>
+                        {folder.label}: {freed} slot{freed === 1 ? '' : 's'}
+                        <span className="text-label-gray">
+                          {' '}
+                          ({folder.sampleCount}/{folder.limit} → {folder.sampleCount - freed}/
+                          {folder.limit})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <select
+              aria-label="Move to project"
+              value={moveTarget}
+              onChange={(e) => setMoveTarget(e.target.value)}
+              disabled={isWorking || selectedPaths.length === 0}
+              className="px-2 py-2 text-sm border border-panel-dark rounded focus:border-label-blue focus:outline-none"
+            >
+              <option value="">Move to project…</option>
+              {structure.projects.map((project) => (
+                <option key={project.path} value={project.path}>
+                  {formatProjectDisplayName(project.index, project.name, project.customName)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleMove}
+              disabled={isWorking || !moveTarget || movePaths.length === 0}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              Move
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleArchive}
+              disabled={isWorking || selectedPaths.length === 0}
+              className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+              title="Copy to a folder on this computer, then move from the card to the Trash. Undo from History puts them back on the card."
+            >
+              Archive…
+            </button>
+            <button
+              onClick={() => setConfirmDelete(true)}
+              disabled={isWorking || selectedPaths.length === 0}
+              className="px-4 py-2 text-sm bg-button-red hover:bg-red-700 text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmDelete}
+        title="Delete Unused Samples"
+        message={`Delete ${count(selectedPaths.length)} from the card?\n\nThey are moved to the Trash, where they can be restored until it is emptied.`}
+        confirmLabel="Delete"
+        confirmVariant="danger"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </div>
+  );
+}
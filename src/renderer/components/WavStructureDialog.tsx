@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { MultigainStructure, WavStructureFile, WavStructureReport } from '../../shared/types';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+
+interface WavStructureDialogProps {
+  isOpen: boolean;
+  structure: MultigainStructure;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+// Repair needs a readable file and at least one problem it can fix
+const isRepairable = (file: WavStructureFile) =>
+  file.issues.some((issue) => issue.repairable) &&
+  !file.issues.some((issue) => issue.code === 'unreadable');
+
+/**
+ * Card health check of every WAV's RIFF structure. Chunk order problems make
+ * the module reject a file; repair rewrites the chunks as fmt -> data ->
+ * metadata without re-encoding the audio.
+ */
+export function WavStructureDialog({
+  isOpen,
+  structure,
+  onClose,
+  onComplete,
+}: WavStructureDialogProps) {
+  const { showError, showInfo, showSuccess } = useErrorDialog();
+  const [report, setReport] = useState<WavStructureReport | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRepairing, setIsRepairing] = useState(false);
+
+  // Rescan after every structure reload, i.e. after each repair
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const scan = async () => {
+      setIsLoading(true);
+      try {
+        const result = await window.electronAPI.scanWavStructure(structure);
+        if (cancelled) return;
+        if (result.success && result.report) {
+          setReport(result.report);
+          setSelected(new Set(result.report.files.filter(isRepairable).map((file) => file.path)));
+        } else {
+          showError('Failed to check WAV files.', 'Scan Failed', result.error);
+          onClose();
+        }
+      } catch (error) {
+        if (cancelled) return;
+        showError(
+          'Failed to check WAV files.',
+          'Scan Failed',
+          error instanceof Error ? error.message : String(error)
+        );
+        onClose();
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    scan();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, structure]);
+
+  if (!isOpen) return null;
+
+  const files = report?.files ?? [];
+  const selectedPaths = files
+    .filter((file) => isRepairable(file) && selected.has(file.path))
+    .map((file) => file.path);
+  const count = (n: number) => `${n} file${n === 1 ? '' : 's'}`;
+
+  const toggleFile = (filePath: string) => {
+    const next = new Set(selected);
+    if (next.has(filePath)) {
+      next.delete(filePath);
+    } else {
+      next.add(filePath);
+    }
+    setSelected(next);
+  };
+
+  const handleRepair = async () => {
+    setIsRepairing(true);
+    try {
+      const result = await window.electronAPI.repairWavStructure(selectedPaths);
+      if (!result.success) {
+        showError('Failed to repair WAV files.', 'Repair Failed', result.error);
+        return;
+      }
+
+      const repaired = result.repaired?.length ?? 0;
+      const failed = result.failed ?? [];
+      if (failed.length > 0) {
+        showInfo(
+          `Repaired ${count(repaired)}. ${count(failed.length)} could not be repaired.`,
+          'Repair Incomplete',
+          failed.map((f) => `${f.path.split(/[\\/]/).pop()}: ${f.error}`).join('\n')
+        );
+      } else {
+        showSuccess(`Repaired ${count(repaired)}.`, 'WAV Files Repaired');
+      }
+      onComplete();
+    } catch (error) {
+      showError(
+        'Failed to repair WAV files.',
+        'Repair Failed',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-panel-light rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-panel-dark flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-label-black">Card Health: WAV Structure</h2>
+          <button
+            onClick={onClose}
+            disabled={isRepairing}
+            className="text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          {isLoading && (
+            <div className="text-center py-8 text-label-gray text-sm">Checking WAV files...</div>
+          )}
+
+          {!isLoading && report && files.length === 0 && (
+            <div className="text-center py-8 text-label-gray text-sm">
+              All {report.scannedCount} WAV files are in fmt → data → metadata order with valid
+              sizes.
+            </div>
+          )}
+
+          {!isLoading && report && files.length > 0 && (
+            <>
+              <div className="text-sm text-label-black">
+                {count(files.length)} with problems among {report.scannedCount} WAV files
+              </div>
+
+              {files.map((file) => (
+                <div key={file.path} className="bg-white rounded border-2 border-panel-dark p-3">
+                  <label className="flex items-center gap-2 text-sm text-label-black">
+                    <input
+                      type="checkbox"
+                      checked={isRepairable(file) && selected.has(file.path)}
+                      disabled={!isRepairable(file) || isRepairing}
+                      onChange={() => toggleFile(file.path)}
+                    />
+                    <span className="flex-1 truncate">
+                      <span className="font-mono">{file.name}</span>
+                      <span className="ml-2 text-xs text-label-gray">{file.folderLabel}</span>
+                    </span>
+                    {file.chunkOrder.length > 0 && (
+                      <span className="text-xs font-mono text-label-gray">
+                        {file.chunkOrder.map((id) => id.trim()).join(' → ')}
+                      </span>
+                    )}
+                  </label>
+                  <ul className="mt-1 ml-6 text-xs space-y-0.5">
+                    {file.issues.map((issue) => (
+                      <li
+                        key={`${issue.code}-${issue.message}`}
+                        className={issue.repairable ? 'text-label-black' : 'text-button-red'}
+                      >
+                        {issue.message}
+                        {!issue.repairable && ' (cannot be repaired)'}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-panel-dark flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={isRepairing}
+            className="px-4 py-2 text-sm text-label-gray hover:text-label-black disabled:opacity-50"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleRepair}
+            disabled={isLoading || isRepairing || selectedPaths.length === 0}
+            className="px-4 py-2 text-sm bg-label-blue hover:bg-button-dark text-white rounded disabled:bg-button-gray disabled:cursor-not-allowed"
+          >
+            {isRepairing ? 'Repairing...' : `Repair ${count(selectedPaths.length)}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * React Hook for the card's undo history
+ * Undo and redo run in the main process; Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+ * trigger them from anywhere except text fields, which keep their own undo.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useErrorDialog } from '../contexts/ErrorDialogContext';
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export function useOperationHistory(rootPath: string | null, onChange: () => void) {
+  const [isWorking, setIsWorking] = useState(false);
+  // Last change undone or redone, shown next to the History button. Kept with
+  // the card it belongs to, since a different card has a different history.
+  const [lastMove, setLastMove] = useState<{ rootPath: string; status: string } | null>(null);
+  // Bumped after every undo or redo so an open history view reloads
+  const [revision, setRevision] = useState(0);
+  const workingRef = useRef(false);
+  const { showError } = useErrorDialog();
+
+  const move = useCallback(
+    async (direction: 'undo' | 'redo') => {
+      if (!rootPath || workingRef.current) return;
+
+      workingRef.current = true;
+      setIsWorking(true);
+      try {
+        const result =
+          direction === 'undo'
+            ? await window.electronAPI.undoChange(rootPath)
+            : await window.electronAPI.redoChange(rootPath);
+
+        if (!result.success) {
+          showError(
+            direction === 'undo' ? 'Failed to undo the change.' : 'Failed to redo the change.',
+            direction === 'undo' ? 'Undo Failed' : 'Redo Failed',
+            result.error
+          );
+          onChange(); // The card may have been changed part way
+        } else if (result.entry) {
+          setLastMove({
+            rootPath,
+            status: `${direction === 'undo' ? 'Undid' : 'Redid'}: ${result.entry.label}`,
+          });
+          onChange();
+        } else {
+          setLastMove({
+            rootPath,
+            status: direction === 'undo' ? 'Nothing to undo' : 'Nothing to redo',
+          });
+        }
+      } catch (error) {
+        showError(
+          direction === 'undo' ? 'Failed to undo the change.' : 'Failed to redo the change.',
+          direction === 'undo' ? 'Undo Failed' : 'Redo Failed',
+          error instanceof Error ? error.message : String(error)
+        );
+      } finally {
+        workingRef.current = false;
+        setIsWorking(false);
+        setRevision((n) => n + 1);
+      }
+    },
+    [rootPath, onChange, showError]
+  );
+
+  const undo = useCallback(() => move('undo'), [move]);
+  const redo = useCallback(() => move('redo'), [move]);
+
+  useEffect(() => {
+    if (!rootPath) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || isTextField(e.target)) {
+        return;
+      }
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [rootPath, undo, redo]);
+
+  const status = lastMove && lastMove.rootPath === rootPath ? lastMove.status : null;
+
+  return { undo, redo, isWorking, status, revision };
+}
@@ -4,6 +4,7 @@ import {
   getPresetFileName,
   getProjectBankInfo,
   formatProjectDisplayName,
+  formatPresetDisplayName,
   STORAGE_LIMITS,
   BANK_NAMES,
 } from './constants';
@@ -153,6 +154,17 @@ describe('formatProjectDisplayName', () => {
   });
 });
 
+describe('formatPresetDisplayName', () => {
+  it('shows the file name when there is no custom name', () => {
+    expect(formatPresetDisplayName('Preset01.mgp')).toBe('Preset01.mgp');
+    expect(formatPresetDisplayName('Preset01.mgp', '')).toBe('Preset01.mgp');
+  });
+
+  it('appends the custom name to the preset name', () => {
+    expect(formatPresetDisplayName('Preset01.mgp', 'Glass Pads')).toBe('Preset01 - Glass Pads');
+  });
+});
+
 describe('STORAGE_LIMITS', () => {
   it('has correct maximum values', () => {
     expect(STORAGE_LIMITS.MAX_PROJECTS).toBe(48);
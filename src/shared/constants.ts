@@ -24,6 +24,7 @@ export const FOLDER_NAMES = {
   WAVS: 'Wavs',
   SETTINGS_FILE: 'Settings.mgs',
   AUTOSAVE_FILE: 'Autosave.mgp',
+  TRASH: '.multigrain-trash', // Deleted items, hidden from the module
 } as const;
 
 // File extensions
@@ -33,6 +34,22 @@ export const FILE_EXTENSIONS = {
   GLOBAL_SETTINGS: '.mgs',
 } as const;
 
+// Number prefix of a sample filename: 01_xxx, 01 xxx, 01 - xxx, 01-xxx, 01.xxx
+// Captures: (digits)(separator)
+export const NUMBER_PREFIX_REGEX = /^(\d{1,3})(\s*[-_.]\s*|\s+)(?=\S)/;
+
+// RIFF INFO tags editable in the sample view, with their subchunk IDs
+export const WAV_INFO_TAGS = [
+  { key: 'name', id: 'INAM', label: 'Name' },
+  { key: 'artist', id: 'IART', label: 'Artist' },
+  { key: 'keywords', id: 'IKEY', label: 'Keywords' },
+  { key: 'genre', id: 'IGNR', label: 'Genre' },
+  { key: 'copyright', id: 'ICOP', label: 'Copyright' },
+  { key: 'creationDate', id: 'ICRD', label: 'Date' },
+  { key: 'software', id: 'ISFT', label: 'Software' },
+  { key: 'comment', id: 'ICMT', label: 'Description' },
+] as const;
+
 // Generate project folder names (Project01 - Project48)
 export const getProjectFolderName = (index: number): string => {
   if (index < 1 || index > STORAGE_LIMITS.MAX_PROJECTS) {
@@ -78,6 +95,13 @@ export const formatProjectDisplayName = (
   return `${bank} / ${position} - ${displayName}`;
 };
 
+// Format preset display name, e.g. "Preset01 - My Custom Name"
+export const formatPresetDisplayName = (presetName: string, customName?: string): string => {
+  if (!customName) return presetName;
+  const baseName = presetName.replace(/\.mgp$/i, '');
+  return `${baseName} - ${customName}`;
+};
+
 // Factory project names from Intellijel
 export const FACTORY_PROJECT_NAMES: Record<number, string> = {
   // Bank X - Intellijel Projects
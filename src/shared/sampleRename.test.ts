@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BATCH_RENAME_RULES,
+  normalizeSampleFilename,
+  planBatchRename,
+} from './sampleRename';
+import { SampleRenameTokens } from './types';
+
+const sample = (name: string) => ({ name, path: `/card/Wavs/${name}` });
+
+const newNames = (
+  names: string[],
+  rules: Partial<typeof DEFAULT_BATCH_RENAME_RULES>,
+  tokens: Record<string, SampleRenameTokens> = {}
+) =>
+  planBatchRename(
+    names.map(sample),
+    { ...DEFAULT_BATCH_RENAME_RULES, ...rules },
+    tokens,
+    names
+  ).map((item) => item.error ?? item.newName);
+
+describe('normalizeSampleFilename', () => {
+  it('adds the .wav extension and rejects invalid characters', () => {
+    expect(normalizeSampleFilename(' kick ')).toEqual({ name: 'kick.wav' });
+    expect(normalizeSampleFilename('kick.WAV')).toEqual({ name: 'kick.WAV' });
+    expect(normalizeSampleFilename('  ')).toEqual({ error: 'Filename cannot be empty' });
+    expect(normalizeSampleFilename('drums/kick')).toEqual({
+      error: 'Filename contains invalid characters',
+    });
+  });
+});
+
+describe('planBatchRename', () => {
+  it('finds and replaces plain text without regex meaning', () => {
+    expect(newNames(['kick (1).wav', 'Kick (2).wav'], { find: 'kick (', replace: 'bd (' })).toEqual(
+      ['bd (1).wav', 'bd (2).wav']
+    );
+  });
+
+  it('replaces with regex groups and matches case when asked', () => {
+    expect(
+      newNames(['Kick_808.wav', 'kick_909.wav'], {
+        find: '^Kick_(\\d+)$',
+        replace: '$1 Kick',
+        useRegex: true,
+        matchCase: true,
+      })
+    ).toEqual(['808 Kick.wav', 'kick_909.wav']);
+  });
+
+  it('throws on an invalid regular expression', () => {
+    expect(() => newNames(['kick.wav'], { find: '(', useRegex: true })).toThrow();
+  });
+
+  it('strips number prefixes, changes case and adds a counter prefix', () => {
+    expect(
+      newNames(['05_deep kick.wav', '10 - SNARE.wav'], {
+        stripNumbers: true,
+        caseChange: 'title',
+        prefix: '{n}_',
+        counterStart: 3,
+        counterStep: 2,
+        counterDigits: 3,
+      })
+    ).toEqual(['003_Deep Kick.wav', '005_Snare.wav']);
+  });
+
+  it('inserts metadata tokens with unsafe characters replaced', () => {
+    const tokens: Record<string, SampleRenameTokens> = {
+      '/card/Wavs/a.wav': {
+        description: 'Pad: warm/dark',
+        duration: 2.46,
+        originalName: 'Pad.aif',
+      },
+    };
+
+    expect(
+      newNames(['a.wav'], { prefix: '{original} ', suffix: ' {description} {duration}' }, tokens)
+    ).toEqual(['Pad a Pad_ warm_dark 2.5s.wav']);
+  });
+
+  it('keeps $ in metadata literal in a regex replacement', () => {
+    const tokens: Record<string, SampleRenameTokens> = {
+      '/card/Wavs/a.wav': { description: 'Cash $1', duration: 0, originalName: 'a.wav' },
+    };
+
+    expect(
+      newNames(['a.wav'], { find: '^(a)$', replace: '$1 {description}', useRegex: true }, tokens)
+    ).toEqual(['a Cash $1.wav']);
+  });
+
+  it('flags names taken in the folder ignoring case', () => {
+    const items = planBatchRename(
+      [sample('kick.wav'), sample('snare.wav')],
+      { ...DEFAULT_BATCH_RENAME_RULES, find: 'snare', replace: 'HAT' },
+      {},
+      ['kick.wav', 'snare.wav', 'hat.wav']
+    );
+
+    expect(items[0]).toEqual({
+      path: '/card/Wavs/kick.wav',
+      oldName: 'kick.wav',
+      newName: 'kick.wav',
+    });
+    expect(items[1].error).toBe('A file named "HAT.wav" already exists');
+  });
+
+  it('allows names freed by the batch and flags duplicates within it', () => {
+    const swapped = planBatchRename(
+      [sample('a.wav'), sample('b.wav')],
+      { ...DEFAULT_BATCH_RENAME_RULES, find: '^(a|b)$', replace: 'x', useRegex: true },
+      {},
+      ['a.wav', 'b.wav']
+    );
+    expect(swapped.map((item) => item.error)).toEqual([
+      undefined,
+      'A file named "x.wav" already exists',
+    ]);
+
+    // "2 a.wav" is taken until the batch renames it
+    expect(
+      newNames(['1 a.wav', '2 a.wav'], {
+        find: '^\\d',
+        replace: '{n}',
+        useRegex: true,
+        counterStart: 2,
+        counterDigits: 1,
+      })
+    ).toEqual(['2 a.wav', '3 a.wav']);
+  });
+
+  it('reports names that become empty or invalid', () => {
+    expect(newNames(['kick.wav', 'hat.wav'], { find: 'kick', replace: '' })).toEqual([
+      'Filename cannot be empty',
+      'hat.wav',
+    ]);
+    expect(newNames(['kick.wav'], { prefix: 'a?' })).toEqual([
+      'Filename contains invalid characters',
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Sample filename rules and batch rename patterns.
+ * Shared by the batch rename preview (renderer) and the rename handlers (main process).
+ */
+
+import { FILE_EXTENSIONS, NUMBER_PREFIX_REGEX } from './constants';
+import { SampleRenameTokens } from './types';
+
+// Characters a sample filename cannot contain, path separators included
+const INVALID_FILENAME_CHARS = /[<>:"|?*/\\]/;
+
+// Characters replaced when metadata is inserted into a filename
+const UNSAFE_TOKEN_CHARS = /[<>:"/\\|?*\x00-\x1F]/g;
+
+export type RenameCaseChange = 'none' | 'lower' | 'upper' | 'title';
+
+export interface BatchRenameRules {
+  find: string;
+  replace: string;
+  useRegex: boolean;
+  matchCase: boolean;
+  caseChange: RenameCaseChange;
+  stripNumbers: boolean; // Remove an existing number prefix first
+  prefix: string;
+  suffix: string;
+  counterStart: number;
+  counterStep: number;
+  counterDigits: number;
+}
+
+export const DEFAULT_BATCH_RENAME_RULES: BatchRenameRules = {
+  find: '',
+  replace: '',
+  useRegex: false,
+  matchCase: false,
+  caseChange: 'none',
+  stripNumbers: false,
+  prefix: '',
+  suffix: '',
+  counterStart: 1,
+  counterStep: 1,
+  counterDigits: 2,
+};
+
+// Tokens accepted in the replacement, prefix and suffix
+export const BATCH_RENAME_TOKENS = [
+  { token: '{n}', label: 'Counter' },
+  { token: '{name}', label: 'Current name' },
+  { token: '{original}', label: 'Original import name' },
+  { token: '{description}', label: 'Description' },
+  { token: '{duration}', label: 'Duration in seconds' },
+] as const;
+
+export interface BatchRenameItem {
+  path: string;
+  oldName: string;
+  newName: string;
+  error?: string; // Invalid name or name conflict, the batch cannot be applied
+}
+
+/**
+ * Validate a user-supplied sample filename and normalize it to end with .wav
+ */
+export function normalizeSampleFilename(newName: string): { name: string } | { error: string } {
+  const trimmedName = newName.trim();
+  if (!trimmedName) {
+    return { error: 'Filename cannot be empty' };
+  }
+
+  // Ensure new filename ends with .wav
+  let finalName = trimmedName;
+  if (!finalName.toLowerCase().endsWith(FILE_EXTENSIONS.AUDIO)) {
+    finalName += FILE_EXTENSIONS.AUDIO;
+  }
+
+  // Check for invalid characters in filename
+  if (INVALID_FILENAME_CHARS.test(finalName)) {
+    return { error: 'Filename contains invalid characters' };
+  }
+
+  return { name: finalName };
+}
+
+const stripExtension = (name: string) =>
+  name.toLowerCase().endsWith(FILE_EXTENSIONS.AUDIO)
+    ? name.slice(0, -FILE_EXTENSIONS.AUDIO.length)
+    : name.replace(/\.[^.]+$/, '');
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function changeCase(text: string, caseChange: RenameCaseChange): string {
+  switch (caseChange) {
+    case 'lower':
+      return text.toLowerCase();
+    case 'upper':
+      return text.toUpperCase();
+    case 'title':
+      return text
+        .toLowerCase()
+        .replace(/(^|[\s_\-.])(\p{L})/gu, (_m, sep, c) => sep + c.toUpperCase());
+    default:
+      return text;
+  }
+}
+
+/**
+ * New names for samples of one folder, in the order given. The counter
+ * advances once per sample. Throws if the find pattern is not a valid
+ * regular expression.
+ *
+ * @param samples - The samples to rename, in counter order
+ * @param rules - The rename rules
+ * @param tokens - Metadata per sample path; missing metadata inserts nothing
+ * @param folderNames - Every filename in the folder, to detect conflicts
+ */
+export function planBatchRename(
+  samples: Array<{ path: string; name: string }>,
+  rules: BatchRenameRules,
+  tokens: Record<string, SampleRenameTokens>,
+  folderNames: string[]
+): BatchRenameItem[] {
+  const findRegex = rules.find
+    ? new RegExp(
+        rules.useRegex ? rules.find : escapeRegex(rules.find),
+        rules.matchCase ? 'g' : 'gi'
+      )
+    : null;
+
+  const items: BatchRenameItem[] = samples.map((sample, i) => {
+    const metadata = tokens[sample.path];
+    const values: Record<string, string> = {
+      '{n}': String(rules.counterStart + i * rules.counterStep).padStart(rules.counterDigits, '0'),
+      '{name}': stripExtension(sample.name),
+      '{original}': metadata ? stripExtension(metadata.originalName) : '',
+      '{description}': metadata?.description ?? '',
+      '{duration}': metadata?.duration ? `${Math.round(metadata.duration * 10) / 10}s` : '',
+    };
+    const expand = (text: string, escapeDollars = false) =>
+      text.replace(/\{(n|name|original|description|duration)\}/g, (token) => {
+        const value = values[token].replace(UNSAFE_TOKEN_CHARS, '_').trim();
+        return escapeDollars ? value.replace(/\$/g, '$$$$') : value;
+      });
+
+    let base = stripExtension(sample.name);
+    if (rules.stripNumbers) {
+      base = base.replace(NUMBER_PREFIX_REGEX, '');
+    }
+    if (findRegex) {
+      // A regex replacement can use $1 groups, metadata is never read as one
+      base = rules.useRegex
+        ? base.replace(findRegex, expand(rules.replace, true))
+        : base.replace(findRegex, () => expand(rules.replace));
+    }
+    base = changeCase(base, rules.caseChange);
+
+    const validation = normalizeSampleFilename(
+      `${expand(rules.prefix)}${base}${expand(rules.suffix)}`
+    );
+    return 'error' in validation
+      ? { path: sample.path, oldName: sample.name, newName: '', error: validation.error }
+      : { path: sample.path, oldName: sample.name, newName: validation.name };
+  });
+
+  // FAT filenames are case-insensitive; names left behind by the batch are free
+  const changing = items.filter((item) => !item.error && item.newName !== item.oldName);
+  const leaving = new Set(changing.map((item) => item.oldName.toLowerCase()));
+  const taken = new Set(
+    folderNames.map((name) => name.toLowerCase()).filter((name) => !leaving.has(name))
+  );
+  for (const item of changing) {
+    const key = item.newName.toLowerCase();
+    if (taken.has(key)) {
+      item.error = `A file named "${item.newName}" already exists`;
+    }
+    taken.add(key);
+  }
+
+  return items;
+}
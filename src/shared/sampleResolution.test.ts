@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { resolvePresetSample } from './sampleResolution';
+import { createMockStructure, createMockProject, createMockSample } from '../test/helpers';
+
+describe('resolvePresetSample', () => {
+  const project = createMockProject({
+    samples: [
+      createMockSample({ name: 'kick.wav', path: '/card/Project01/kick.wav' }),
+      createMockSample({ name: 'pad.wav', path: '/card/Project01/pad.wav' }),
+    ],
+  });
+  const structure = createMockStructure({
+    projects: [project],
+    globalWavs: [createMockSample({ name: 'pad.wav', path: '/card/Wavs/pad.wav' })],
+    recordings: [createMockSample({ name: 'rec.wav', path: '/card/Recs/rec.wav' })],
+  });
+
+  it('uses the stored folder when the sample is there', () => {
+    const resolved = resolvePresetSample('pad.wav', 'WAVS', project, structure);
+
+    expect(resolved.location).toBe('WAVS');
+    expect(resolved.status).toBe('ok');
+    expect(resolved.sample?.path).toBe('/card/Wavs/pad.wav');
+    expect(resolved.foundIn).toEqual(['PROJECT', 'WAVS']);
+  });
+
+  it('flags a sample found outside the stored folder as moved', () => {
+    const resolved = resolvePresetSample('kick.wav', 'RECS', project, structure);
+
+    expect(resolved.location).toBe('RECS');
+    expect(resolved.status).toBe('moved');
+    expect(resolved.sample?.path).toBe('/card/Project01/kick.wav');
+  });
+
+  it('reports missing samples', () => {
+    const resolved = resolvePresetSample('gone.wav', 'PROJECT', project, structure);
+
+    expect(resolved.location).toBe('NOT_FOUND');
+    expect(resolved.status).toBe('missing');
+    expect(resolved.sample).toBeUndefined();
+  });
+
+  it('falls back to PROJECT > WAVS > RECS without a stored folder', () => {
+    expect(resolvePresetSample('rec.wav', null, project, structure)).toMatchObject({
+      location: 'RECS',
+      status: 'ok',
+    });
+    expect(resolvePresetSample('pad.wav', 'UNKNOWN', project, structure)).toMatchObject({
+      location: 'PROJECT',
+      status: 'ambiguous',
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Resolve which file a preset sound actually loads.
+ * Shared by the Preset Viewer (renderer) and everything in the main process
+ * that follows preset references (PDF export, usage, moves, search).
+ */
+
+import {
+  MultigainStructure,
+  Project,
+  WavFile,
+  PresetSampleFolder,
+  SampleFolder,
+  SampleLocation,
+  SampleResolutionStatus,
+} from './types';
+
+// Folders searched, in order, when the preset's folder is unknown or does not
+// have the file
+export const SAMPLE_SEARCH_ORDER: SampleFolder[] = ['PROJECT', 'WAVS', 'RECS'];
+
+export interface SampleFolderResolution {
+  // Folder the file is loaded from, null when no folder has it
+  folder: SampleFolder | null;
+  status: SampleResolutionStatus;
+  // Folder stored in the preset, null if it could not be decoded
+  presetFolder: SampleFolder | null;
+  // Every folder that contains a file with this name, in search order
+  foundIn: SampleFolder[];
+}
+
+/**
+ * Decide which folder a preset sound loads its file from. The preset's folder
+ * is used when it has the file, otherwise the first folder in the search order
+ * that does. Several matches without a decoded preset folder are ambiguous.
+ */
+export function resolveSampleFolder(
+  presetFolder: PresetSampleFolder | null | undefined,
+  hasSample: (folder: SampleFolder) => boolean
+): SampleFolderResolution {
+  const foundIn = SAMPLE_SEARCH_ORDER.filter(hasSample);
+  const stored = presetFolder && presetFolder !== 'UNKNOWN' ? presetFolder : null;
+
+  if (foundIn.length === 0) {
+    return { folder: null, status: 'missing', presetFolder: stored, foundIn };
+  }
+  if (stored) {
+    return foundIn.includes(stored)
+      ? { folder: stored, status: 'ok', presetFolder: stored, foundIn }
+      : { folder: foundIn[0], status: 'moved', presetFolder: stored, foundIn };
+  }
+  return {
+    folder: foundIn[0],
+    status: foundIn.length > 1 ? 'ambiguous' : 'ok',
+    presetFolder: null,
+    foundIn,
+  };
+}
+
+export interface ResolvedPresetSample {
+  name: string;
+  // Folder the module will load from (the preset's folder when known)
+  location: SampleLocation;
+  status: SampleResolutionStatus;
+  // Folder stored in the preset, null if it could not be decoded
+  presetFolder: SampleFolder | null;
+  // Every folder that contains a file with this name
+  foundIn: SampleFolder[];
+  // File on disk to navigate to, if any
+  sample?: WavFile;
+}
+
+/**
+ * Resolve a preset sample reference against the files on the card.
+ * When the preset's folder is known it is authoritative. Otherwise the
+ * folders are searched in order PROJECT > WAVS > RECS.
+ */
+export function resolvePresetSample(
+  sampleName: string,
+  presetFolder: PresetSampleFolder | null | undefined,
+  currentProject: Project | undefined,
+  structure: MultigainStructure
+): ResolvedPresetSample {
+  const samples: Record<SampleFolder, WavFile[]> = {
+    PROJECT: currentProject?.samples ?? [],
+    WAVS: structure.globalWavs,
+    RECS: structure.recordings,
+  };
+  const findSample = (folder: SampleFolder) => samples[folder].find((s) => s.name === sampleName);
+  const resolved = resolveSampleFolder(presetFolder, (folder) => !!findSample(folder));
+
+  return {
+    name: sampleName,
+    location: resolved.folder ? (resolved.presetFolder ?? resolved.folder) : 'NOT_FOUND',
+    status: resolved.status,
+    presetFolder: resolved.presetFolder,
+    foundIn: resolved.foundIn,
+    ...(resolved.folder ? { sample: findSample(resolved.folder) } : {}),
+  };
+}
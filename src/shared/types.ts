@@ -16,12 +16,22 @@ export interface WavFile {
   name: string;
   path: string;
   size: number;
+  modifiedTime?: number; // ms since epoch
+  hardwareIndex?: number; // 1-based position in the module's sample index for its folder
 }
 
+// RIFF INFO tags of a WAV file, see WAV_INFO_TAGS for the subchunk IDs.
+// Missing tags are empty strings.
+export type WavInfoTagKey =
+  'name' | 'artist' | 'keywords' | 'genre' | 'copyright' | 'creationDate' | 'software' | 'comment';
+export type WavInfoTags = Record<WavInfoTagKey, string>;
+
 export interface Preset {
   name: string;
   path: string;
   index: number; // 1-48
+  customName?: string; // User-defined name from .preset-metadata.json
+  notes?: string; // Free-text notes from .preset-metadata.json
 }
 
 export interface PresetWithSamples extends Preset {
@@ -56,13 +66,294 @@ export interface ValidationResult {
   structure?: MultigainStructure;
 }
 
+// Preset reference updates made when samples are renamed
+export interface PresetReferenceUpdate {
+  presetPath: string;
+  presetName: string; // e.g. "Preset01" or "Autosave"
+  projectName: string; // e.g. "Project01"
+  sounds: Array<{
+    soundNumber: number; // 1-8
+    oldName: string;
+    newName: string;
+  }>;
+}
+
+// A reference that cannot be rewritten because the new name does not fit
+export interface PresetReferenceOverflow {
+  presetPath: string;
+  presetName: string;
+  projectName: string;
+  soundNumber: number; // 1-8
+  newName: string;
+  maxLength: number;
+}
+
+// move - the sample leaves its folder and presets are pointed at the new location
+// copy - the original stays and presets are left alone
+export type SampleTransferMode = 'move' | 'copy';
+
+// A sample file moved or copied into another folder
+export interface SampleTransferItem {
+  sourcePath: string;
+  targetPath: string;
+  renamed: boolean; // The name was taken in the target folder
+}
+
+// A preset reference that cannot follow a moved sample
+// unreachable   - the preset cannot load samples from the target folder
+// unknownLayout - the preset's folder byte could not be decoded, so it cannot be rewritten
+// nameTooLong   - the new name does not fit the preset's filename field
+// ambiguous     - the stored folder does not have the file and several other folders do
+export interface PresetReferenceBreak {
+  presetPath: string;
+  presetName: string;
+  projectName: string;
+  soundNumber: number; // 1-8
+  name: string; // Filename stored in the preset
+  reason: 'unreachable' | 'unknownLayout' | 'nameTooLong' | 'ambiguous';
+}
+
+// What moving or copying samples will do, shown before anything changes
+export interface SampleTransferPlan {
+  mode: SampleTransferMode;
+  targetFolder: string;
+  items: SampleTransferItem[];
+  presetUpdates: PresetReferenceUpdate[]; // Always empty for copies
+  brokenReferences: PresetReferenceBreak[];
+  // Set when the target folder would go over its sample limit
+  storageError?: string;
+}
+
+// A preset sound that loads a sample file, from the card-wide reverse index
+export interface SampleUsage {
+  samplePath: string;
+  presetPath: string;
+  presetName: string;
+  projectName: string;
+  soundNumber: number; // 1-8
+}
+
+// A sample no preset or Autosave.mgp loads
+export interface UnusedSample {
+  name: string;
+  path: string;
+  size: number; // bytes
+  duration: number; // seconds, 0 if unreadable
+  description?: string;
+}
+
+// Unused samples in one project folder, Wavs or Recs
+export interface UnusedSampleFolder {
+  folderPath: string;
+  label: string; // e.g. "X / 1 - Drums", "Wavs", "Recs"
+  sampleCount: number; // Samples in the folder, used or not
+  limit: number; // Folder sample limit
+  samples: UnusedSample[];
+  totalSize: number;
+  totalDuration: number;
+}
+
+// Card-wide unused sample report
+export interface UnusedSampleReport {
+  folders: UnusedSampleFolder[]; // Only folders with unused samples
+  totalCount: number;
+  totalSize: number;
+  totalDuration: number;
+}
+
+// exact   - identical PCM data, names and INFO chunks ignored
+// similar - matching duration and loudness envelope, e.g. re-encoded or resampled copies
+export type DuplicateMatchMode = 'exact' | 'similar';
+
+export interface DuplicateSample {
+  name: string;
+  path: string;
+  folderPath: string;
+  folderLabel: string; // e.g. "X / 1 - Drums", "Wavs", "Recs"
+  size: number; // bytes
+  duration: number; // seconds
+  usages: SampleUsage[];
+}
+
+// Samples that hold the same audio, in tree order
+export interface DuplicateSampleGroup {
+  id: string;
+  samples: DuplicateSample[];
+}
+
+export interface DuplicateSampleReport {
+  mode: DuplicateMatchMode;
+  groups: DuplicateSampleGroup[];
+  scannedCount: number;
+  unreadable: string[]; // Paths of files that are not valid WAV files
+}
+
+// Outcome of keeping one copy of a duplicate group
+export interface DuplicateConsolidation {
+  keptPath: string; // After moving it, when a target folder was given
+  deleted: string[];
+  updatedPresets: string[];
+  // Copies left on the card because a preset could not be pointed at the kept one
+  skipped: Array<{ path: string; reason: string }>;
+}
+
+// A RIFF structure problem in a WAV file
+// chunkOrder - chunks other than fmt before data, or fmt after it; the module rejects the file
+// riffSize   - the RIFF header size does not match the file length
+// padding    - an odd-sized chunk is missing its padding byte
+// truncated  - a chunk, usually data, is shorter than its header says
+// fmt        - fmt values that do not agree with each other or cannot be played
+// notPcm     - the audio is not integer PCM; it needs converting, not repairing
+// unreadable - not a WAV file, or no fmt or data chunk
+export type WavStructureIssueCode =
+  'chunkOrder' | 'riffSize' | 'padding' | 'truncated' | 'fmt' | 'notPcm' | 'unreadable';
+
+export interface WavStructureIssue {
+  code: WavStructureIssueCode;
+  message: string;
+  repairable: boolean; // Fixed by rewriting the chunks, without touching the audio
+}
+
+export interface WavStructureFile {
+  name: string;
+  path: string;
+  folderLabel: string; // e.g. "X / 1 - Drums", "Wavs", "Recs"
+  chunkOrder: string[]; // Chunk IDs as found in the file
+  issues: WavStructureIssue[];
+}
+
+// Card-wide WAV structure check
+export interface WavStructureReport {
+  files: WavStructureFile[]; // Only files with issues
+  scannedCount: number;
+}
+
+export interface WavStructureRepair {
+  repaired: string[];
+  failed: Array<{ path: string; error: string }>;
+}
+
+// A recording's modification time before and after reordering Recs, ms since epoch
+export interface RecsOrderItem {
+  name: string;
+  path: string;
+  oldTime: number;
+  newTime: number;
+  changed: boolean;
+}
+
+// New modification times that make the module index Recs in the given order
+export interface RecsOrderPlan {
+  folderPath: string;
+  items: RecsOrderItem[]; // In the requested order, newest first
+  changedCount: number;
+}
+
+// Original timestamps saved by the last applied reorder
+export interface RecsOrderUndo {
+  savedAt: string; // ISO date
+  fileCount: number;
+}
+
+// Card-wide sample search. Every set filter must match; text matches the
+// filename or the description, preset matches "Project01/Preset03" or a custom name
+export interface SampleSearchQuery {
+  text?: string;
+  minDuration?: number; // seconds
+  maxDuration?: number; // seconds
+  folderPath?: string; // A project folder, Wavs or Recs
+  usage?: 'used' | 'unused';
+  preset?: string;
+}
+
+// A preset that loads a search result, labelled like "Project01/Preset03"
+export interface SampleSearchPreset {
+  presetPath: string;
+  projectPath: string;
+  label: string;
+  customName?: string;
+}
+
+export interface SampleSearchResult {
+  name: string;
+  path: string;
+  folderPath: string;
+  folderLabel: string; // e.g. "X / 1 - Drums", "Wavs", "Recs"
+  size: number; // bytes
+  duration: number; // seconds, 0 if unreadable
+  description?: string;
+  presets: SampleSearchPreset[];
+}
+
+export interface SampleSearchResponse {
+  results: SampleSearchResult[]; // First matches only, see totalCount
+  totalCount: number;
+}
+
+// Where deleted items are kept: a hidden folder on the card, or on this computer
+export type TrashLocation = 'card' | 'local';
+
+export interface TrashItem {
+  id: string; // Folder holding the item inside the trash
+  kind: 'sample' | 'project';
+  name: string; // Original file or folder name
+  originalPath: string; // Relative to the card, e.g. "Project01/kick.wav"
+  trashedAt: string; // ISO date
+  size: number; // bytes
+  location: TrashLocation;
+  conflict: boolean; // Something is at the original path now
+}
+
+// What to do when something is at the original path of a restored item.
+// Projects cannot keep both, their folder names are fixed.
+export type TrashConflictMode = 'keepBoth' | 'replace' | 'skip';
+
+export interface TrashRestoreResult {
+  // replaced is the item that was in the way, now in the trash itself
+  restored: Array<{ id: string; path: string; replaced?: TrashItem }>;
+  skipped: string[]; // ids
+  failed: Array<{ id: string; error: string }>;
+}
+
+// One change to a card in the undo history
+export interface HistoryEntry {
+  id: string;
+  label: string; // e.g. 'Rename kick.wav to snare.wav'
+  timestamp: string; // ISO date
+  undone: boolean; // Can be redone
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[]; // Newest first
+  // Why entries were dropped, when the card changed since they were recorded
+  invalidated?: string;
+}
+
+// Sample metadata available as batch rename tokens
+export interface SampleRenameTokens {
+  description: string;
+  duration: number; // seconds, 0 if unreadable
+  originalName: string; // Filename the sample was imported under, as far as the log knows
+}
+
+// Where a preset sample reference resolves to on the card
+export type SampleLocation = 'PROJECT' | 'WAVS' | 'RECS' | 'NOT_FOUND';
+
+// ok        - the sample exists in the folder the preset points at
+// ambiguous - the preset folder is unknown and the filename exists in several folders
+// moved     - the sample is not in the preset's folder but exists in another one
+// missing   - the sample does not exist anywhere
+export type SampleResolutionStatus = 'ok' | 'ambiguous' | 'moved' | 'missing';
+
 // Tree selection types - unified selection state for file tree and right panel
 // Stores paths instead of object references to avoid stale data after reloads
 export type TreeSelection =
   | { type: 'overview' }
   | { type: 'sample'; samplePath: string }
   | { type: 'preset'; presetPath: string; projectPath?: string }
-  | { type: 'project'; projectPath: string };
+  | { type: 'project'; projectPath: string }
+  | { type: 'presetDiff'; leftPath: string; rightPath: string }
+  | { type: 'settings' };
 
 // PDF Export types
 export interface OverviewData {
@@ -93,14 +384,23 @@ export interface ProjectExportData {
   presets: Array<{
     name: string;
     index: number;
+    customName?: string;
+    notes?: string;
     isAutosave: boolean;
     samples: Array<{
       slotNumber: number; // 1-8
       name: string;
-      location: 'PROJECT' | 'WAVS' | 'RECS' | 'NOT_FOUND';
+      location: SampleLocation;
+      status: SampleResolutionStatus;
     }>;
   }>;
 }
 
 // Import types
 export * from './types/import';
+
+// Preset types
+export * from './types/preset';
+
+// Global settings types
+export * from './types/settings';
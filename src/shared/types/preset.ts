@@ -0,0 +1,262 @@
+/**
+ * Type definitions for decoded .mgp preset files
+ */
+
+/**
+ * Folder a sound loads its sample from, as stored in the preset.
+ * UNKNOWN is used when the stored byte does not match a known folder value.
+ */
+export type PresetSampleFolder = 'PROJECT' | 'WAVS' | 'RECS' | 'UNKNOWN';
+
+/**
+ * Folder a sample file can be loaded from
+ */
+export type SampleFolder = Exclude<PresetSampleFolder, 'UNKNOWN'>;
+
+/**
+ * Modulation sources that can be assigned per scene
+ */
+export type ModAxis = 'RAND' | 'X' | 'Y' | 'Z';
+
+/**
+ * One of the 2 scenes stored per sound
+ */
+export interface PresetScene {
+  knobs: number[]; // 10 knob positions (raw 16-bit values)
+  reverse: boolean; // Reverse switch state
+  // Mod amount per axis for the 10 knobs followed by Reverse (11 signed values)
+  modAssigns: Record<ModAxis, number[]>;
+}
+
+/**
+ * Settings of one of the 8 sounds in a preset
+ */
+export interface PresetSound {
+  soundNumber: number; // 1-8
+  blockOffset: number; // Byte offset of the sound block in the file
+  hasBlockMarker: boolean; // False if the "00 00 01" block marker is missing
+  syncMode: number;
+  linkSizePitch: boolean;
+  linkSizeRate: boolean;
+  quantizer: number;
+  sampleFolder: PresetSampleFolder;
+  sampleFolderRaw: number; // Stored byte, kept for reverse-engineering
+  sampleFilename: string; // Empty when the sound has no sample
+  quantizeMode: number;
+  fineTune: number; // Signed
+  pingPong: boolean;
+  scenes: PresetScene[]; // Always 2
+}
+
+/**
+ * Byte range that the decoder does not understand yet
+ */
+export interface UnknownByteRange {
+  offset: number;
+  length: number;
+  hex: string; // Space-separated hex bytes
+  isZero: boolean; // True if every byte in the range is 0x00
+}
+
+/**
+ * Fully decoded .mgp preset
+ */
+export interface PresetData {
+  fileSize: number;
+  presetNumber: number; // 1-48 (0 for Autosave)
+  latestScene: number; // 1-2
+  latestSound: number; // 1-8
+  modAOut: number;
+  modBOut: number;
+  inputThru: boolean;
+  latch: boolean;
+  sync: boolean;
+  freezeModAssigns: boolean; // Firmware v1.2+
+  sounds: PresetSound[];
+  unknownRanges: UnknownByteRange[];
+}
+
+/**
+ * User-defined name and notes for a preset, kept in .preset-metadata.json
+ */
+export interface PresetMetadata {
+  customName?: string;
+  notes?: string;
+}
+
+/**
+ * How a preset is transferred to another slot
+ * copy - source stays, target slot gets a copy
+ * move - source slot becomes empty
+ * swap - source and target presets trade places
+ */
+export type PresetTransferMode = 'copy' | 'move' | 'swap';
+
+/**
+ * A project-folder sample a preset needs in order to load in another project
+ */
+export interface PresetSampleDependency {
+  name: string; // Filename referenced by the preset
+  sourcePath: string; // File in the preset's current project folder
+  soundNumbers: number[]; // 1-8
+  // What happens in the destination project folder when it is copied
+  action: 'copy' | 'reuse' | 'rename';
+  targetName: string; // Same as name unless renamed to avoid a conflict
+}
+
+export interface PresetTransferRequest {
+  presetPath: string;
+  targetProjectPath: string;
+  targetSlot: number; // 1-48
+  mode: PresetTransferMode;
+  copySamples: boolean; // Copy project-folder samples when the project changes
+}
+
+/**
+ * What a transfer will do, shown to the user before it runs
+ */
+export interface PresetTransferPlan {
+  targetPath: string;
+  targetExists: boolean; // Target slot already holds a preset (overwritten unless swapping)
+  // Samples the moved preset needs in the target project
+  dependencies: PresetSampleDependency[];
+  // Swaps across projects: samples the target preset needs in the source project
+  reverseDependencies: PresetSampleDependency[];
+  // Samples that would not fit in the destination project folder
+  storageError?: string;
+}
+
+/**
+ * Sample referenced by the same sound slot in two presets
+ */
+export interface PresetSlotDiff {
+  soundNumber: number; // 1-8
+  left: string; // Filename, empty if the slot has no sample
+  right: string;
+  leftFolder: PresetSampleFolder | null; // null if the folder could not be decoded
+  rightFolder: PresetSampleFolder | null;
+  isDifferent: boolean;
+}
+
+/**
+ * Decoded setting whose value differs between two presets
+ */
+export interface PresetParameterDiff {
+  section: string; // e.g. "Preset" or "Sound 3 / Scene 1"
+  label: string; // e.g. "Knob 4" or "X → Knob 2"
+  left: string;
+  right: string;
+}
+
+/**
+ * Run of bytes that differ between two preset files
+ */
+export interface PresetByteRangeDiff {
+  offset: number;
+  length: number;
+  leftHex: string; // Space-separated hex bytes, empty past the end of the file
+  rightHex: string;
+  isKnown: boolean; // True if the range overlaps bytes the decoder understands
+}
+
+/**
+ * Differences between two presets, shown side by side
+ */
+export interface PresetDiff {
+  leftPath: string;
+  rightPath: string;
+  slots: PresetSlotDiff[];
+  // Only set when both presets match the decoded layout
+  parameters: PresetParameterDiff[] | null;
+  byteRanges: PresetByteRangeDiff[];
+  identical: boolean;
+}
+
+/**
+ * A file a missing preset sample could be relinked to
+ * renamed - the operation log shows the sample was renamed to this file
+ * numbering - same name with a number prefix added or removed
+ * fuzzy - similar filename
+ */
+export interface RelinkCandidate {
+  name: string;
+  folder: SampleFolder;
+  path: string;
+  reason: 'renamed' | 'numbering' | 'fuzzy';
+  score: number; // 0-1, higher is a better match
+}
+
+/**
+ * A preset sound whose sample cannot be found on the card
+ */
+export interface MissingPresetSample {
+  presetPath: string;
+  presetName: string; // e.g. "Preset01 - Glass Pads" or "Autosave"
+  projectName: string;
+  soundNumber: number; // 1-8
+  name: string; // Filename stored in the preset
+  folder: PresetSampleFolder | null; // Stored folder, null if not decoded
+  candidates: RelinkCandidate[]; // Best first
+}
+
+/**
+ * Accepted relink for one preset sound
+ */
+export interface PresetRepairFix {
+  presetPath: string;
+  soundNumber: number;
+  oldName: string;
+  newName: string;
+  folder: SampleFolder;
+}
+
+/**
+ * Run of raw preset bytes kept in a JSON export
+ */
+export interface PresetJsonRegion {
+  offset: number;
+  length: number;
+  base64: string;
+}
+
+/**
+ * Sound settings in a JSON export. The folder byte is only stored raw when it
+ * does not match a known folder.
+ */
+export interface PresetJsonSound {
+  soundNumber: number; // 1-8
+  sampleFolder: PresetSampleFolder;
+  sampleFolderRaw?: number; // Only set when sampleFolder is UNKNOWN
+  sampleFilename: string; // Empty when the sound has no sample
+  syncMode: number;
+  linkSizePitch: boolean;
+  linkSizeRate: boolean;
+  quantizer: number;
+  quantizeMode: number;
+  fineTune: number; // Signed
+  pingPong: boolean;
+  scenes: PresetScene[]; // Always 2
+}
+
+/**
+ * Human-readable form of a .mgp file that rebuilds the identical bytes.
+ * See docs/MGP_RESEARCH.md for the format.
+ */
+export interface PresetJson {
+  format: 'multigrain-preset';
+  version: 1;
+  presetNumber: number; // 1-48 (0 for Autosave)
+  latestScene: number; // 1-2
+  latestSound: number; // 1-8
+  modAOut: number;
+  modBOut: number;
+  inputThru: boolean;
+  latch: boolean;
+  sync: boolean;
+  freezeModAssigns: boolean;
+  sounds: PresetJsonSound[]; // Always 8
+  // Undecoded bytes that are not zero. Every byte not covered by a field or region is 0x00.
+  unknownRegions: PresetJsonRegion[];
+  // Stored bytes the fields above cannot express (e.g. a switch stored as 0x02), written last
+  rawOverrides: PresetJsonRegion[];
+}
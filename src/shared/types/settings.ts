@@ -0,0 +1,31 @@
+/**
+ * Type definitions for the decoded Settings.mgs global settings file
+ */
+
+import { UnknownByteRange } from './preset';
+
+/**
+ * Module-wide settings stored in Settings.mgs
+ */
+export interface GlobalSettings {
+  fileSize: number;
+  latestProject: number; // 1-48, the project the module boots into
+  sessionCount: number; // Incremented by the module, read-only here
+  inputTrim: number; // Signed
+  resampling: number;
+  normalize: number;
+  theme: number;
+  threshold: number;
+  blur: number;
+  unknownRanges: UnknownByteRange[];
+}
+
+/**
+ * Settings that can be changed from the app
+ */
+export type GlobalSettingsUpdate = Partial<
+  Pick<
+    GlobalSettings,
+    'latestProject' | 'inputTrim' | 'resampling' | 'normalize' | 'theme' | 'threshold' | 'blur'
+  >
+>;
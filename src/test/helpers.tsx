@@ -1,6 +1,7 @@
 import { ReactElement } from 'react';
 import { render, RenderOptions } from '@testing-library/react';
 import { MultigainStructure, WavFile, Preset, Project } from '../shared/types';
+import { getSoundBlockOffset, PRESET_LAYOUT } from '../main/utils/presetParser';
 
 /**
  * Custom render function that can wrap components with providers if needed
@@ -110,6 +111,49 @@ export function createMockStructureWithData(): MultigainStructure {
   });
 }
 
+/**
+ * Create a .mgp preset using the decoded layout: [filename, folder] per sound,
+ * null for an empty sound slot
+ */
+export function createPreset(
+  sounds: Array<[string, 'PROJECT' | 'WAVS' | 'RECS'] | null>,
+  presetNumber = 0
+): Buffer {
+  const buffer = Buffer.alloc(PRESET_LAYOUT.FILE_SIZE);
+  buffer[PRESET_LAYOUT.HEADER.PRESET_NUMBER] = presetNumber;
+  for (let soundNumber = 1; soundNumber <= 8; soundNumber++) {
+    const block = getSoundBlockOffset(soundNumber);
+    buffer[block + 2] = 1;
+    const sound = sounds[soundNumber - 1];
+    if (sound) {
+      buffer[block + PRESET_LAYOUT.SOUND.SAMPLE_FOLDER] = ['PROJECT', 'WAVS', 'RECS'].indexOf(
+        sound[1]
+      );
+      buffer.write(sound[0], block + PRESET_LAYOUT.SOUND.SAMPLE_FILENAME, 'ascii');
+    }
+  }
+  return buffer;
+}
+
+/**
+ * Create a WAV file from [id, body] chunks, padding odd-sized bodies
+ */
+export function createWav(chunks: Array<[string, Buffer]>): Buffer {
+  const body = Buffer.concat(
+    chunks.map(([id, data]) => {
+      const header = Buffer.alloc(8);
+      header.write(id, 0, 'ascii');
+      header.writeUInt32LE(data.length, 4);
+      return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+    })
+  );
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WAVE', 8, 'ascii');
+  return Buffer.concat([header, body]);
+}
+
 /**
  * Wait for a condition to be true with timeout
  */
@@ -58,22 +58,52 @@ global.window.electronAPI = {
   // Multigrain operations
   validateMultigrain: vi.fn(),
   findMultigrainFolder: vi.fn(),
+  readGlobalSettings: vi.fn(),
+  writeGlobalSettings: vi.fn(),
+
+  // Card-wide sample search
+  refreshSearchIndex: vi.fn(),
+  searchSamples: vi.fn(),
+  listTrash: vi.fn(),
+  restoreFromTrash: vi.fn(),
+  emptyTrash: vi.fn(),
+  setTrashLocation: vi.fn(),
+  getHistory: vi.fn(),
+  undoChange: vi.fn(),
+  redoChange: vi.fn(),
+  clearHistory: vi.fn(),
 
   // Audio operations
   convertAudio: vi.fn(),
   readAudioMetadata: vi.fn(),
   writeAudioMetadata: vi.fn(),
+  scanWavStructure: vi.fn(),
+  repairWavStructure: vi.fn(),
 
   // Project metadata operations
   readProjectMetadata: vi.fn(),
   writeProjectMetadata: vi.fn(),
   batchWriteProjectMetadata: vi.fn(),
 
+  // Preset metadata operations
+  readPresetMetadata: vi.fn(),
+  writePresetMetadata: vi.fn(),
+  batchWritePresetMetadata: vi.fn(),
+
   // Project operations
   createProject: vi.fn(),
 
   // Preset operations
   readPresetSamples: vi.fn(),
+  readPresetData: vi.fn(),
+  assignPresetSample: vi.fn(),
+  diffPresets: vi.fn(),
+  planPresetTransfer: vi.fn(),
+  transferPreset: vi.fn(),
+  findMissingPresetSamples: vi.fn(),
+  repairPresetSamples: vi.fn(),
+  exportPresetJson: vi.fn(),
+  importPresetJson: vi.fn(),
 
   // Import operations
   selectImportFiles: vi.fn(),
@@ -85,7 +115,25 @@ global.window.electronAPI = {
   deleteProject: vi.fn(),
   deleteSample: vi.fn(),
   deleteSamples: vi.fn(),
+  findSampleUsages: vi.fn(),
+  previewDeleteProject: vi.fn(),
+
+  // File operations (unused samples)
+  findUnusedSamples: vi.fn(),
+  archiveSamples: vi.fn(),
+  findDuplicateSamples: vi.fn(),
+  consolidateDuplicates: vi.fn(),
+  planRecsOrder: vi.fn(),
+  applyRecsOrder: vi.fn(),
+  undoRecsOrder: vi.fn(),
 
   // File operations (rename)
   renameSample: vi.fn(),
+  renameSamples: vi.fn(),
+  readRenameTokens: vi.fn(),
+
+  // File operations (move / copy between folders)
+  planSampleTransfer: vi.fn(),
+  moveSamples: vi.fn(),
+  copySamples: vi.fn(),
 } as any;